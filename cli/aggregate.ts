@@ -0,0 +1,132 @@
+// exportTrackedData で書き出したファイルから、updateDailyStats と同じ日次統計と急上昇を計算する CLI
+//
+// 使い方: npm run aggregate -- <フォルダ> [--hashtags "#安野たかひろ,#チームみらい"] [--top-movers 20] [--output <フォルダ>] [--exclude-keyword-only]
+//   <フォルダ> には Google ドライブからダウンロードした stack・video_hashtags の .ndjson または .csv を置く
+//   --output を省略した場合は、日次統計を CSV で標準出力に書き出す
+//   --exclude-keyword-only は、KEYWORD_ONLY_MATCHES が「統計から除外」の場合と同じく、キーワードのみの一致を集計しない
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { parseArgs } from "node:util";
+import { parse } from "csv-parse/sync";
+import type { VideoHashtagRecord, VideoRecord } from "../src/schema";
+import {
+	buildSnapshotHistory,
+	compareDailyStats,
+	compareTopMovers,
+	computeDailyStats,
+	computeTopMovers,
+	getSnapshotDates,
+} from "../src/stats";
+import {
+	type TransferDataset,
+	formatTransferContent,
+	fromTransferRecord,
+	getTransferDatasets,
+	parseNdjson,
+} from "../src/transfer";
+
+const DEFAULT_TOP_MOVERS = 20;
+
+function getDataset(name: string): TransferDataset {
+	const dataset = getTransferDatasets().find(
+		(candidate) => candidate.name === name,
+	);
+	if (!dataset) throw new Error(`データセットが見つかりません: ${name}`);
+	return dataset;
+}
+
+// フォルダからデータセットを読み込む（NDJSON を優先し、なければ CSV、どちらもなければ空）
+function readDataset<T>(directory: string, name: string): T[] {
+	const dataset = getDataset(name);
+	const ndjsonPath = join(directory, `${name}.ndjson`);
+	const csvPath = join(directory, `${name}.csv`);
+	let values: Record<string, unknown>[];
+	if (existsSync(ndjsonPath)) {
+		values = parseNdjson(readFileSync(ndjsonPath, "utf8"));
+	} else if (existsSync(csvPath)) {
+		values = parse(readFileSync(csvPath, "utf8"), {
+			columns: true,
+			skip_empty_lines: true,
+		}) as Record<string, unknown>[];
+	} else {
+		return [];
+	}
+	return values.map((value) => fromTransferRecord<T>(dataset, value));
+}
+
+const { values: options, positionals } = parseArgs({
+	allowPositionals: true,
+	options: {
+		hashtags: { type: "string" },
+		"top-movers": { type: "string" },
+		output: { type: "string" },
+		"exclude-keyword-only": { type: "boolean" },
+	},
+});
+
+const inputDirectory = positionals[0];
+if (!inputDirectory) {
+	console.error(
+		"使い方: npm run aggregate -- <フォルダ> [--hashtags <ハッシュタグ,...>] [--top-movers <件数>] [--output <フォルダ>] [--exclude-keyword-only]",
+	);
+	process.exit(1);
+}
+
+const snapshots = readDataset<VideoRecord>(inputDirectory, "stack");
+if (snapshots.length === 0) {
+	console.error(
+		`${inputDirectory} に stack.ndjson または stack.csv が見つからないか、データがありません。`,
+	);
+	process.exit(1);
+}
+const videoHashtagRecords = readDataset<VideoHashtagRecord>(
+	inputDirectory,
+	"video_hashtags",
+);
+
+// ハッシュタグを指定しない場合は、積み上げのデータに現れるハッシュタグをすべて集計する
+const hashtags = options.hashtags
+	? options.hashtags.split(/[,、\s]+/).filter((hashtag) => hashtag !== "")
+	: [
+			...new Set([
+				...snapshots.map((video) => video.hashtag),
+				...videoHashtagRecords.map((record) => record.hashtag),
+			]),
+		]
+			.filter((hashtag) => hashtag !== "")
+			.sort();
+const topMoversCount =
+	Number.parseInt(options["top-movers"] || "", 10) || DEFAULT_TOP_MOVERS;
+
+const history = buildSnapshotHistory(
+	snapshots,
+	videoHashtagRecords,
+	options["exclude-keyword-only"] === true,
+);
+const dates = getSnapshotDates(history);
+// シートと同じ並び順（日付の降順）にする
+const stats = dates
+	.flatMap((date) => computeDailyStats(history, hashtags, date))
+	.sort(compareDailyStats);
+const topMovers = dates
+	.flatMap((date) => computeTopMovers(history, hashtags, date, topMoversCount))
+	.sort(compareTopMovers);
+
+if (options.output) {
+	mkdirSync(options.output, { recursive: true });
+	writeFileSync(
+		join(options.output, "daily_stats.csv"),
+		formatTransferContent(getDataset("daily_stats"), stats, "csv"),
+	);
+	writeFileSync(
+		join(options.output, "top_movers.csv"),
+		formatTransferContent(getDataset("top_movers"), topMovers, "csv"),
+	);
+	console.error(
+		`${dates.length}日分の日次統計（${stats.length}行）と急上昇（${topMovers.length}行）を ${options.output} に書き出しました。`,
+	);
+} else {
+	process.stdout.write(
+		formatTransferContent(getDataset("daily_stats"), stats, "csv"),
+	);
+}
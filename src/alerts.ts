@@ -0,0 +1,326 @@
+// 急に伸びた動画や新しいチャンネルの投稿などを、メールと Webhook で知らせるモジュール
+//
+// 積み上げシートの履歴をルールごとのしきい値と比べ、条件を満たしたものを MailApp のメールと
+// 汎用の JSON Webhook（UrlFetchApp）で送る。送信したアラートは「アラート履歴」シートにキーとともに
+// 記録し、同じキーのアラートは二度と送らない。
+import { logError, logInfo } from "./logging";
+import { getNumberProperty } from "./properties";
+import {
+	type AlertRecord,
+	appendSheetRecords,
+	ensureSheetSchema,
+	getAlertHistorySchema,
+	readSheetRecords,
+} from "./schema";
+import {
+	type SnapshotHistory,
+	computeDailyStats,
+	computeTopMovers,
+	findNewChannelVideos,
+	getPreviousStatsDate,
+} from "./stats";
+
+export type AlertRule = "再生回数の急増" | "新規チャンネル" | "投稿数の急増";
+
+// 送信するアラート1件
+export interface Alert {
+	rule: AlertRule;
+	key: string; // 重複して送信しないためのキー
+	date: string; // 対象の日付（yyyy/MM/dd）
+	hashtag: string;
+	message: string;
+	url: string;
+}
+
+// ルールごとのしきい値（0 のルールは判定しない）
+export interface AlertThresholds {
+	viewGain: number; // 24時間の再生回数の増加がこの値を超えた動画
+	newChannelSubscribers: number; // 初めて投稿したチャンネルのうち、登録者数がこの値を超えるもの
+	uploadSurgePercent: number; // その日の新規動画数が直前7日の平均をこの割合（%）より多く上回ったハッシュタグ
+	uploadSurgeMinVideos: number; // 投稿数の急増は、その日の新規動画数がこの件数以上の場合だけ判定する
+}
+
+export interface AlertDeliveryResult {
+	sent: Alert[]; // 送信して記録したアラート
+	duplicateCount: number; // 送信済みのため送らなかった件数
+	destinations: string[]; // 送信できた送信先（送信先が未設定の場合は "ログのみ"）
+	failed: boolean; // すべての送信先で失敗した（記録しないため、次回の実行で再送する）
+}
+
+const ALERT_HISTORY_SHEET_NAME = "アラート履歴";
+const ALERT_SUBJECT_PREFIX = "[YouTubeハッシュタグ分析]";
+const ALERT_SURGE_AVERAGE_DAYS = 7;
+const DEFAULT_ALERT_THRESHOLDS: AlertThresholds = {
+	viewGain: 10000,
+	newChannelSubscribers: 10000,
+	uploadSurgePercent: 100,
+	uploadSurgeMinVideos: 3,
+};
+
+// しきい値のスクリプトプロパティを読み込む関数（未設定・不正な場合は既定値、0 は無効）
+function getAlertThresholdProperty(key: string, defaultValue: number): number {
+	return getNumberProperty(key, defaultValue, { allowZero: true });
+}
+
+// スクリプトプロパティからアラートのしきい値を読み込む関数
+export function getAlertThresholds(): AlertThresholds {
+	return {
+		viewGain: getAlertThresholdProperty(
+			"ALERT_VIEW_GAIN_THRESHOLD",
+			DEFAULT_ALERT_THRESHOLDS.viewGain,
+		),
+		newChannelSubscribers: getAlertThresholdProperty(
+			"ALERT_NEW_CHANNEL_MIN_SUBSCRIBERS",
+			DEFAULT_ALERT_THRESHOLDS.newChannelSubscribers,
+		),
+		uploadSurgePercent: getAlertThresholdProperty(
+			"ALERT_UPLOAD_SURGE_PERCENT",
+			DEFAULT_ALERT_THRESHOLDS.uploadSurgePercent,
+		),
+		uploadSurgeMinVideos: getAlertThresholdProperty(
+			"ALERT_UPLOAD_SURGE_MIN_VIDEOS",
+			DEFAULT_ALERT_THRESHOLDS.uploadSurgeMinVideos,
+		),
+	};
+}
+
+// ハッシュタグのその日の新規動画数（通常とショートの合計）を返す関数
+function countNewVideos(
+	history: SnapshotHistory,
+	hashtag: string,
+	date: string,
+): number {
+	return computeDailyStats(history, [hashtag], date).reduce(
+		(sum, record) => sum + Number(record.newVideoCount || 0),
+		0,
+	);
+}
+
+// 再生回数の急増: 前日からの再生回数の増加がしきい値を超えた動画
+function findViewGainAlerts(
+	history: SnapshotHistory,
+	hashtags: string[],
+	date: string,
+	threshold: number,
+): Alert[] {
+	return computeTopMovers(history, hashtags, date, Number.POSITIVE_INFINITY)
+		.filter((mover) => mover.viewGain > threshold)
+		.map((mover) => ({
+			rule: "再生回数の急増",
+			key: `再生回数の急増:${mover.videoId}`,
+			date,
+			hashtag: mover.hashtags,
+			message: `「${mover.title}」（${mover.channelName}）の再生回数が24時間で${mover.viewGain}回増えました（${mover.viewCount}回）。`,
+			url: mover.url,
+		}));
+}
+
+// 新規チャンネル: その日に初めて記録されたチャンネルのうち、登録者数がしきい値を超えるもの
+function findNewChannelAlerts(
+	history: SnapshotHistory,
+	hashtags: string[],
+	date: string,
+	threshold: number,
+): Alert[] {
+	return findNewChannelVideos(history, hashtags, date)
+		.filter(({ video }) => Number(video.subscriberCount) > threshold)
+		.map(({ hashtag, video }) => ({
+			rule: "新規チャンネル",
+			key: `新規チャンネル:${video.channelId || video.channelName}`,
+			date,
+			hashtag,
+			message: `登録者数${video.subscriberCount}人のチャンネル「${video.channelName}」が${hashtag}で初めて投稿しました:「${video.title}」`,
+			url: video.url,
+		}));
+}
+
+// 投稿数の急増: その日の新規動画数が、記録がある直前7日の平均をしきい値の割合より多く上回ったハッシュタグ
+// 直前7日に記録がない場合は判定しない
+function findUploadSurgeAlerts(
+	history: SnapshotHistory,
+	hashtags: string[],
+	date: string,
+	thresholds: AlertThresholds,
+): Alert[] {
+	const previousDates: string[] = [];
+	let previous = date;
+	for (let day = 0; day < ALERT_SURGE_AVERAGE_DAYS; day++) {
+		previous = getPreviousStatsDate(previous);
+		if (history.videosByDate.has(previous)) previousDates.push(previous);
+	}
+	if (previousDates.length === 0) return [];
+
+	const alerts: Alert[] = [];
+	for (const hashtag of hashtags) {
+		const count = countNewVideos(history, hashtag, date);
+		if (count < thresholds.uploadSurgeMinVideos) continue;
+		const average =
+			previousDates.reduce(
+				(sum, previousDate) =>
+					sum + countNewVideos(history, hashtag, previousDate),
+				0,
+			) / previousDates.length;
+		if (count <= average * (1 + thresholds.uploadSurgePercent / 100)) {
+			continue;
+		}
+		const increase =
+			average > 0 ? `${Math.round((count / average - 1) * 100)}%` : "大きく";
+		alerts.push({
+			rule: "投稿数の急増",
+			key: `投稿数の急増:${hashtag}:${date}`,
+			date,
+			hashtag,
+			message: `${hashtag} の新規動画数が${count}件で、直前${previousDates.length}日の平均（${Math.round(average * 10) / 10}件）を${increase}上回りました。`,
+			url: "",
+		});
+	}
+	return alerts;
+}
+
+// 指定した日付の履歴をルールごとのしきい値と比べ、アラートを返す関数
+export function evaluateAlerts(
+	history: SnapshotHistory,
+	hashtags: string[],
+	date: string,
+	thresholds: AlertThresholds,
+): Alert[] {
+	return [
+		...(thresholds.viewGain > 0
+			? findViewGainAlerts(history, hashtags, date, thresholds.viewGain)
+			: []),
+		...(thresholds.newChannelSubscribers > 0
+			? findNewChannelAlerts(
+					history,
+					hashtags,
+					date,
+					thresholds.newChannelSubscribers,
+				)
+			: []),
+		...(thresholds.uploadSurgePercent > 0
+			? findUploadSurgeAlerts(history, hashtags, date, thresholds)
+			: []),
+	];
+}
+
+// アラートをメールで送る関数（宛先はスクリプトプロパティ ALERT_EMAIL に「,」区切りで指定する）
+function sendAlertEmail(recipients: string, alerts: Alert[]): void {
+	const dates = [...new Set(alerts.map((alert) => alert.date))].join("・");
+	const body = alerts
+		.map((alert) =>
+			[`【${alert.rule}】${alert.message}`, alert.url]
+				.filter(Boolean)
+				.join("\n"),
+		)
+		.join("\n\n");
+	MailApp.sendEmail(
+		recipients,
+		`${ALERT_SUBJECT_PREFIX} アラート ${alerts.length}件（${dates}）`,
+		body,
+	);
+}
+
+// アラートを JSON で Webhook に POST する関数（URL はスクリプトプロパティ ALERT_WEBHOOK_URL）
+function sendAlertWebhook(url: string, alerts: Alert[]): void {
+	const response = UrlFetchApp.fetch(url, {
+		method: "post",
+		contentType: "application/json",
+		payload: JSON.stringify({ source: "youtube-hashtag-tracker", alerts }),
+		muteHttpExceptions: true,
+	});
+	const code = response.getResponseCode();
+	if (code < 200 || code >= 300) {
+		throw new Error(`HTTP ${code}: ${response.getContentText().slice(0, 200)}`);
+	}
+}
+
+// 送信済みでないアラートを送信先に送り、「アラート履歴」シートに記録する関数
+// 送信先が設定されていない場合はログにだけ出力して記録する
+export function deliverAlerts(
+	spreadsheet: GoogleAppsScript.Spreadsheet.Spreadsheet,
+	alerts: Alert[],
+	now = new Date(),
+): AlertDeliveryResult {
+	const schema = getAlertHistorySchema();
+	const sheet = ensureSheetSchema(
+		spreadsheet.getSheetByName(ALERT_HISTORY_SHEET_NAME) ||
+			spreadsheet.insertSheet(ALERT_HISTORY_SHEET_NAME),
+		schema,
+	);
+	const sentKeys = new Set(
+		readSheetRecords(sheet, schema).map((record) => String(record.key)),
+	);
+	const pending: Alert[] = [];
+	for (const alert of alerts) {
+		if (sentKeys.has(alert.key)) continue;
+		sentKeys.add(alert.key);
+		pending.push(alert);
+	}
+	const duplicateCount = alerts.length - pending.length;
+	if (pending.length === 0) {
+		return { sent: [], duplicateCount, destinations: [], failed: false };
+	}
+
+	for (const alert of pending) {
+		logInfo("deliverAlerts", `【${alert.rule}】${alert.message}`, {
+			hashtag: alert.hashtag,
+		});
+	}
+
+	const properties = PropertiesService.getScriptProperties();
+	const senders: [string, string | null, (target: string) => void][] = [
+		[
+			"メール",
+			properties.getProperty("ALERT_EMAIL"),
+			(recipients) => sendAlertEmail(recipients, pending),
+		],
+		[
+			"Webhook",
+			properties.getProperty("ALERT_WEBHOOK_URL"),
+			(url) => sendAlertWebhook(url, pending),
+		],
+	];
+	const configured = senders.filter(([, target]) => target);
+	const destinations: string[] = [];
+	for (const [name, target, send] of configured) {
+		try {
+			send(target as string);
+			destinations.push(name);
+		} catch (error) {
+			const errorMessage =
+				error instanceof Error ? error.message : String(error);
+			logError("deliverAlerts", `${name}の送信に失敗しました: ${errorMessage}`);
+		}
+	}
+	if (configured.length > 0 && destinations.length === 0) {
+		return { sent: [], duplicateCount, destinations, failed: true };
+	}
+	if (configured.length === 0) destinations.push("ログのみ");
+
+	const records: AlertRecord[] = pending.map((alert) => ({
+		sentAt: now,
+		date: alert.date,
+		rule: alert.rule,
+		key: alert.key,
+		hashtag: alert.hashtag,
+		message: alert.message,
+		url: alert.url,
+		destinations: destinations.join(" "),
+	}));
+	appendSheetRecords(sheet, schema, records);
+	return { sent: pending, duplicateCount, destinations, failed: false };
+}
+
+// 指定した日付のアラートを判定し、送信済みでないものを送る関数
+export function runAlerts(
+	spreadsheet: GoogleAppsScript.Spreadsheet.Spreadsheet,
+	history: SnapshotHistory,
+	hashtags: string[],
+	date: string,
+	now = new Date(),
+): AlertDeliveryResult {
+	return deliverAlerts(
+		spreadsheet,
+		evaluateAlerts(history, hashtags, date, getAlertThresholds()),
+		now,
+	);
+}
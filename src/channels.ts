@@ -0,0 +1,124 @@
+// チャンネル情報の解決を行うモジュール
+//
+// Channels.list は1回の呼び出しで最大50件のIDしか受け付けないため、50件ずつに分割して
+// 取得する。取得結果は実行中（全ハッシュタグ共通）キャッシュし、同じチャンネルを
+// 何度も問い合わせないようにする。
+import { logDebug, logWarn } from "./logging";
+import type { ChannelInfo } from "./types/youtube";
+import {
+	type ApiErrorReport,
+	YouTubeApiError,
+	callYouTubeApi,
+} from "./youtube";
+
+export interface ChannelResolution {
+	channels: Map<string, ChannelInfo>;
+	errors: ApiErrorReport[]; // 取得に失敗したバッチのエラー
+}
+
+// Channels.list に一度に渡せるIDの上限
+const CHANNELS_BATCH_SIZE = 50;
+
+// 実行中のみ有効なキャッシュ（Apps Script は実行ごとにグローバル状態が初期化される）
+const channelInfoCache = new Map<string, ChannelInfo>();
+const unresolvedChannelIds = new Set<string>();
+
+// チャンネルIDの一覧からチャンネル情報を取得する関数
+// hashtag を指定すると、そのハッシュタグのクォータ予算から消費する
+export function resolveChannels(
+	channelIds: Array<string | undefined>,
+	hashtag?: string,
+): ChannelResolution {
+	const errors: ApiErrorReport[] = [];
+	const uniqueIds = [...new Set(channelIds.filter((id): id is string => !!id))];
+	const pendingIds = uniqueIds.filter(
+		(id) => !channelInfoCache.has(id) && !unresolvedChannelIds.has(id),
+	);
+
+	for (let i = 0; i < pendingIds.length; i += CHANNELS_BATCH_SIZE) {
+		const batchIds = pendingIds.slice(i, i + CHANNELS_BATCH_SIZE);
+		const batchNumber = Math.floor(i / CHANNELS_BATCH_SIZE) + 1;
+		let channelsResponse:
+			| GoogleAppsScript.YouTube.Schema.ChannelListResponse
+			| undefined;
+		try {
+			channelsResponse = callYouTubeApi(
+				"channels.list",
+				() =>
+					YouTube?.Channels?.list("snippet,statistics", {
+						id: batchIds.join(","),
+						part: "snippet,statistics",
+						maxResults: CHANNELS_BATCH_SIZE,
+					}),
+				{ hashtag, context: `チャンネル${batchNumber}バッチ目` },
+			);
+		} catch (error) {
+			if (!(error instanceof YouTubeApiError)) throw error;
+			// 失敗したバッチは次回の呼び出しで再取得できるよう未解決扱いにしない
+			errors.push(error.report);
+			logWarn("resolveChannels", error.message);
+			continue;
+		}
+
+		for (const channel of channelsResponse?.items || []) {
+			if (channel.id && channel.snippet) {
+				channelInfoCache.set(channel.id, {
+					title: channel.snippet.title || "不明",
+					subscriberCount: channel.statistics?.subscriberCount || "0",
+					viewCount: channel.statistics?.viewCount || "0",
+					videoCount: channel.statistics?.videoCount || "0",
+					hiddenSubscriberCount: !!channel.statistics?.hiddenSubscriberCount,
+				});
+			}
+		}
+
+		// 応答に含まれなかったIDは削除・停止されたチャンネルなどとして記録する
+		const missingIds = batchIds.filter((id) => !channelInfoCache.has(id));
+		for (const id of missingIds) {
+			unresolvedChannelIds.add(id);
+		}
+		logDebug(
+			"resolveChannels",
+			`${batchNumber}バッチ目 ${batchIds.length - missingIds.length}/${batchIds.length}件のチャンネル情報を取得`,
+		);
+		if (missingIds.length > 0) {
+			logWarn(
+				"resolveChannels",
+				`チャンネル情報を取得できませんでした: ${missingIds.join(", ")}`,
+				{ count: missingIds.length },
+			);
+		}
+	}
+
+	const channels = new Map<string, ChannelInfo>();
+	for (const id of uniqueIds) {
+		const info = channelInfoCache.get(id);
+		if (info) {
+			channels.set(id, info);
+		}
+	}
+	return { channels, errors };
+}
+
+// 今回の実行で解決できなかったチャンネルIDの一覧を返す関数
+export function getUnresolvedChannelIds(): string[] {
+	return [...unresolvedChannelIds];
+}
+
+// 実行の最後に未解決のチャンネルをまとめてログに出力する関数
+export function logUnresolvedChannels(functionName: string): void {
+	const ids = getUnresolvedChannelIds();
+	if (ids.length > 0) {
+		logWarn(
+			functionName,
+			`チャンネル情報を取得できなかったチャンネルが ${ids.length} 件あります: ${ids.join(", ")}`,
+			{ count: ids.length },
+		);
+	}
+}
+
+// キャッシュを破棄する関数（テストや明示的な再取得用）
+export function resetChannelCache(): void {
+	channelInfoCache.clear();
+	unresolvedChannelIds.clear();
+}
@@ -0,0 +1,262 @@
+// 追跡対象ハッシュタグの設定を「設定」シートから読み込むモジュール
+//
+// clasp はファイル間の import/export を取り除いてグローバルスコープに展開するため、
+// 他ファイルから参照する値は関数として公開する（export const は GAS 上で解決されない）。
+import { logInfo, logWarn } from "./logging";
+
+// 設定シート1行分の型定義
+export interface HashtagConfig {
+	hashtag: string; // ハッシュタグ（# から始まる）
+	enabled: boolean; // 有効フラグ
+	lookbackDays: number; // 何日前までの公開動画を検索するか
+	extraKeywords: string[]; // 検索クエリに追加するキーワード
+	excludeKeywords: string[]; // 検索クエリから除外するキーワード
+	owner: string; // 担当者
+	rowNumber: number; // 設定シート上の行番号（エラー報告用）
+}
+
+// 設定シートの検証エラー
+export interface ConfigValidationError {
+	rowNumber: number;
+	message: string;
+}
+
+export interface HashtagConfigLoadResult {
+	configs: HashtagConfig[];
+	errors: ConfigValidationError[];
+}
+
+const CONFIG_SHEET_NAME = "設定";
+
+const CONFIG_HEADERS = [
+	"ハッシュタグ",
+	"有効",
+	"遡及日数",
+	"追加キーワード",
+	"除外キーワード",
+	"担当者",
+	"検証結果",
+];
+
+const DEFAULT_LOOKBACK_DAYS = 365;
+const MAX_LOOKBACK_DAYS = 3650;
+
+// 設定シートが存在しない場合に初期値として書き込むハッシュタグ
+const DEFAULT_HASHTAGS = ["#安野たかひろ", "#チームみらい"];
+
+// 設定シートを取得し、存在しなければ初期値入りで作成する関数
+function getOrCreateConfigSheet(
+	spreadsheet: GoogleAppsScript.Spreadsheet.Spreadsheet,
+): GoogleAppsScript.Spreadsheet.Sheet {
+	const existing = spreadsheet.getSheetByName(CONFIG_SHEET_NAME);
+	if (existing && existing.getLastRow() > 0) {
+		return existing;
+	}
+
+	const sheet = existing || spreadsheet.insertSheet(CONFIG_SHEET_NAME);
+	const rows = [
+		CONFIG_HEADERS,
+		...DEFAULT_HASHTAGS.map((hashtag) => [
+			hashtag,
+			true,
+			DEFAULT_LOOKBACK_DAYS,
+			"",
+			"",
+			"",
+			"",
+		]),
+	];
+	sheet.getRange(1, 1, rows.length, CONFIG_HEADERS.length).setValues(rows);
+	sheet.setFrozenRows(1);
+	sheet.getRange(1, 1, 1, CONFIG_HEADERS.length).setFontWeight("bold");
+	sheet.getRange(2, 2, DEFAULT_HASHTAGS.length, 1).insertCheckboxes();
+	logInfo(
+		"getOrCreateConfigSheet",
+		`設定シートを作成しました: ${DEFAULT_HASHTAGS.length}件のハッシュタグを初期登録`,
+	);
+	return sheet;
+}
+
+// 「,」「、」や空白で区切られたキーワードを配列に分解する関数
+function parseKeywordList(value: unknown): string[] {
+	return String(value ?? "")
+		.split(/[,、\s]+/)
+		.map((keyword) => keyword.trim())
+		.filter((keyword) => keyword.length > 0);
+}
+
+// 有効フラグのセル値を解釈する関数（解釈できない場合は null）
+function parseEnabledFlag(value: unknown): boolean | null {
+	if (typeof value === "boolean") return value;
+	const text = String(value ?? "")
+		.trim()
+		.toLowerCase();
+	if (["true", "1", "yes", "はい", "有効", "on"].includes(text)) return true;
+	if (["false", "0", "no", "いいえ", "無効", "off"].includes(text)) {
+		return false;
+	}
+	return null;
+}
+
+// 設定シートの1行を検証して HashtagConfig に変換する関数
+function parseConfigRow(
+	row: unknown[],
+	rowNumber: number,
+): { config?: HashtagConfig; errors: string[] } {
+	const errors: string[] = [];
+
+	// 全角の「＃」は半角に揃える
+	const hashtag = String(row[0] ?? "")
+		.trim()
+		.replace(/^＃/, "#");
+	if (!hashtag.startsWith("#") || hashtag.length < 2) {
+		errors.push(`ハッシュタグは # から始めてください: "${hashtag}"`);
+	} else if (/\s/.test(hashtag)) {
+		errors.push(`ハッシュタグに空白は使えません: "${hashtag}"`);
+	}
+
+	const enabled = parseEnabledFlag(row[1]);
+	if (enabled === null) {
+		errors.push(`有効フラグが不正です: "${row[1]}"`);
+	}
+
+	let lookbackDays = DEFAULT_LOOKBACK_DAYS;
+	if (row[2] !== "" && row[2] !== null && row[2] !== undefined) {
+		lookbackDays = Number(row[2]);
+		if (
+			!Number.isInteger(lookbackDays) ||
+			lookbackDays < 1 ||
+			lookbackDays > MAX_LOOKBACK_DAYS
+		) {
+			errors.push(
+				`遡及日数は1〜${MAX_LOOKBACK_DAYS}の整数で指定してください: "${row[2]}"`,
+			);
+		}
+	}
+
+	const extraKeywords = parseKeywordList(row[3]);
+	const excludeKeywords = parseKeywordList(row[4]);
+	const overlap = extraKeywords.filter((keyword) =>
+		excludeKeywords.includes(keyword),
+	);
+	if (overlap.length > 0) {
+		errors.push(
+			`追加キーワードと除外キーワードが重複しています: ${overlap.join(", ")}`,
+		);
+	}
+
+	if (errors.length > 0) {
+		return { errors };
+	}
+
+	return {
+		config: {
+			hashtag,
+			enabled: enabled === true,
+			lookbackDays,
+			extraKeywords,
+			excludeKeywords,
+			owner: String(row[5] ?? "").trim(),
+			rowNumber,
+		},
+		errors,
+	};
+}
+
+// 設定シートからハッシュタグ設定を読み込み、検証結果をシートに書き戻す関数
+export function loadHashtagConfigs(
+	spreadsheet: GoogleAppsScript.Spreadsheet.Spreadsheet,
+): HashtagConfigLoadResult {
+	const sheet = getOrCreateConfigSheet(spreadsheet);
+	const configs: HashtagConfig[] = [];
+	const errors: ConfigValidationError[] = [];
+
+	const lastRow = sheet.getLastRow();
+	if (lastRow <= 1) {
+		return { configs, errors };
+	}
+
+	const rows = sheet
+		.getRange(2, 1, lastRow - 1, CONFIG_HEADERS.length)
+		.getValues();
+	const statusColumn = CONFIG_HEADERS.indexOf("検証結果");
+	const statuses: string[][] = [];
+	const seenHashtags = new Set<string>();
+
+	rows.forEach((row, index) => {
+		const rowNumber = index + 2;
+		// 空行は検証対象外
+		if (row.slice(0, statusColumn).every((cell) => cell === "")) {
+			statuses.push([""]);
+			return;
+		}
+
+		const parsed = parseConfigRow(row, rowNumber);
+		const rowErrors = [...parsed.errors];
+		if (parsed.config) {
+			const key = parsed.config.hashtag.toLowerCase();
+			if (seenHashtags.has(key)) {
+				rowErrors.push(
+					`ハッシュタグが重複しています: ${parsed.config.hashtag}`,
+				);
+			} else {
+				seenHashtags.add(key);
+				configs.push(parsed.config);
+			}
+		}
+
+		for (const message of rowErrors) {
+			errors.push({ rowNumber, message });
+		}
+		statuses.push([rowErrors.length > 0 ? rowErrors.join(" / ") : "OK"]);
+	});
+
+	sheet.getRange(2, statusColumn + 1, statuses.length, 1).setValues(statuses);
+	return { configs, errors };
+}
+
+// 有効なハッシュタグ設定のみを返す関数（検証エラーはログに出力する）
+export function getEnabledHashtagConfigs(
+	spreadsheet: GoogleAppsScript.Spreadsheet.Spreadsheet,
+): HashtagConfig[] {
+	const { configs, errors } = loadHashtagConfigs(spreadsheet);
+
+	for (const error of errors) {
+		logWarn(
+			"getEnabledHashtagConfigs",
+			`設定シート ${error.rowNumber}行目: ${error.message}`,
+		);
+	}
+	if (errors.length > 0) {
+		logWarn(
+			"getEnabledHashtagConfigs",
+			`設定シートに ${errors.length} 件の検証エラーがあります。該当行は処理対象外です。`,
+			{ count: errors.length },
+		);
+	}
+
+	const enabled = configs.filter((config) => config.enabled);
+	if (enabled.length === 0) {
+		logWarn(
+			"getEnabledHashtagConfigs",
+			"設定シートに有効なハッシュタグがありません。",
+		);
+	}
+	return enabled;
+}
+
+// 設定からYouTube検索クエリを組み立てる関数
+export function buildSearchQuery(config: HashtagConfig): string {
+	return [
+		config.hashtag,
+		...config.extraKeywords,
+		...config.excludeKeywords.map((keyword) => `-${keyword}`),
+	].join(" ");
+}
+
+// 設定の遡及日数から検索対象の公開日（ISO形式）を計算する関数
+export function getPublishedAfterISO(config: HashtagConfig): string {
+	return new Date(
+		Date.now() - config.lookbackDays * 24 * 60 * 60 * 1000,
+	).toISOString();
+}
@@ -0,0 +1,200 @@
+// ハッシュタグごとの検索位置（ハイウォーターマーク）を管理するモジュール
+//
+// 毎回「遡及日数」分をすべて検索し直すと Search.list（1ページ100ユニット）を同じだけ
+// 消費するため、最後に取り込んだ動画の公開日時を記録し、次回はそれ以降だけを検索する。
+// 書き込み先のシートごとに別々の位置を持つ（メインシートと積み上げシートは独立）。
+// 検索は新しい順に行うため、ページ数の上限などで打ち切った場合は取り込んだ最も古い動画の
+// 公開日時を「続きの位置」として記録し、次回はそれより前だけを検索して残りを取り込む。
+import {
+	type HashtagConfig,
+	buildSearchQuery,
+	getPublishedAfterISO,
+} from "./config";
+import { logWarn } from "./logging";
+
+export interface HashtagCursor {
+	query: string; // 記録時の検索クエリ（設定が変わった場合は位置を使わない）
+	lastPublishedAt: string; // 取り込み済みの最新の動画公開日時（ISO 8601、未完了の初回検索では空）
+	lastVideoId: string; // その動画のID
+	updatedAt: string; // 最後に検索が完了した日時
+	resumeBefore?: string; // 打ち切った検索の続き（この公開日時以前の動画をまだ取り込んでいない）
+	backlogNewest?: { videoId: string; publishedAt: string }; // 続きの検索中に取り込んだ最新の動画
+}
+
+// 位置の更新に使う、取り込んだ動画の情報
+export interface CursorCandidate {
+	videoId: string;
+	publishedAt: Date;
+}
+
+const HASHTAG_CURSOR_PREFIX = "HASHTAG_CURSOR_";
+
+// 検索インデックスへの反映の遅れを考慮し、記録した公開日時より少し前から検索する
+const CURSOR_OVERLAP_HOURS = 24;
+
+function getCursorKey(sheetName: string, hashtag: string): string {
+	return `${HASHTAG_CURSOR_PREFIX}${sheetName}:${hashtag}`;
+}
+
+// 記録されている検索位置を読み込む関数（未記録・不正な場合は null）
+export function getHashtagCursor(
+	sheetName: string,
+	hashtag: string,
+): HashtagCursor | null {
+	const stored = PropertiesService.getScriptProperties().getProperty(
+		getCursorKey(sheetName, hashtag),
+	);
+	if (!stored) return null;
+	try {
+		return JSON.parse(stored) as HashtagCursor;
+	} catch {
+		logWarn("getHashtagCursor", `検索位置を読み込めませんでした: ${stored}`);
+		return null;
+	}
+}
+
+// 新しい動画を検索する際の publishedAfter を返す関数
+// 検索位置が記録されていれば、遡及日数の範囲内でその位置以降だけを検索する
+export function getDiscoveryPublishedAfterISO(
+	sheetName: string,
+	config: HashtagConfig,
+): string {
+	const lookbackISO = getPublishedAfterISO(config);
+	const cursor = getHashtagCursor(sheetName, config.hashtag);
+	if (!cursor || cursor.query !== buildSearchQuery(config)) {
+		return lookbackISO;
+	}
+
+	const cursorTime =
+		new Date(cursor.lastPublishedAt).getTime() -
+		CURSOR_OVERLAP_HOURS * 60 * 60 * 1000;
+	if (Number.isNaN(cursorTime) || cursorTime <= Date.parse(lookbackISO)) {
+		return lookbackISO;
+	}
+	return new Date(cursorTime).toISOString();
+}
+
+// 前回打ち切った検索の続きを取り込む際の publishedBefore を返す関数（続きがなければ undefined）
+export function getDiscoveryPublishedBeforeISO(
+	sheetName: string,
+	config: HashtagConfig,
+): string | undefined {
+	const cursor = getHashtagCursor(sheetName, config.hashtag);
+	if (!cursor?.resumeBefore || cursor.query !== buildSearchQuery(config)) {
+		return undefined;
+	}
+	const resumeTime = Date.parse(cursor.resumeBefore);
+	// 続きの位置が遡及期間外になった場合は、残りを取り込む必要がない
+	if (
+		Number.isNaN(resumeTime) ||
+		resumeTime <= Date.parse(getPublishedAfterISO(config))
+	) {
+		return undefined;
+	}
+	return cursor.resumeBefore;
+}
+
+// 同じ検索クエリで記録された検索位置を読み込む関数（なければ空の位置を返す）
+function getCursorForQuery(
+	sheetName: string,
+	config: HashtagConfig,
+): HashtagCursor {
+	const query = buildSearchQuery(config);
+	const previous = getHashtagCursor(sheetName, config.hashtag);
+	if (previous && previous.query === query) return previous;
+	return { query, lastPublishedAt: "", lastVideoId: "", updatedAt: "" };
+}
+
+function saveHashtagCursor(
+	sheetName: string,
+	hashtag: string,
+	cursor: HashtagCursor,
+): void {
+	PropertiesService.getScriptProperties().setProperty(
+		getCursorKey(sheetName, hashtag),
+		JSON.stringify(cursor),
+	);
+}
+
+// 検索が最後まで完了した後に、取り込んだ動画で検索位置を進める関数
+// 途中で打ち切った検索では recordHashtagBacklog で続きの位置を記録すること
+export function advanceHashtagCursor(
+	sheetName: string,
+	config: HashtagConfig,
+	candidates: CursorCandidate[],
+): void {
+	const cursor = getCursorForQuery(sheetName, config);
+	// 続きの検索を終えたら、打ち切る前に取り込んだ最新の動画まで位置を進める
+	const backlogNewest = cursor.backlogNewest
+		? [
+				{
+					videoId: cursor.backlogNewest.videoId,
+					publishedAt: new Date(cursor.backlogNewest.publishedAt),
+				},
+			]
+		: [];
+	let advanced = false;
+
+	for (const { videoId, publishedAt } of [...candidates, ...backlogNewest]) {
+		if (Number.isNaN(publishedAt.getTime())) continue;
+		const lastTime = Date.parse(cursor.lastPublishedAt);
+		if (Number.isNaN(lastTime) || publishedAt.getTime() > lastTime) {
+			cursor.lastPublishedAt = publishedAt.toISOString();
+			cursor.lastVideoId = videoId;
+			advanced = true;
+		}
+	}
+
+	// 位置も続きもなければ記録しない（動画が1件も見つからなかった場合）
+	if (!advanced && !cursor.lastPublishedAt && !cursor.resumeBefore) return;
+
+	cursor.resumeBefore = undefined;
+	cursor.backlogNewest = undefined;
+	cursor.updatedAt = new Date().toISOString();
+	saveHashtagCursor(sheetName, config.hashtag, cursor);
+}
+
+// 途中で打ち切った検索について、取り込んだ動画から続きの位置を記録する関数
+// 新しい順に検索しているため、取り込んだ最も古い動画より前が未検索として残っている
+// 次回の検索はその位置より前だけを対象にするため、上限を超える件数でも毎回先へ進む
+export function recordHashtagBacklog(
+	sheetName: string,
+	config: HashtagConfig,
+	candidates: CursorCandidate[],
+): void {
+	const cursor = getCursorForQuery(sheetName, config);
+	let oldest: CursorCandidate | undefined;
+	for (const candidate of candidates) {
+		const time = candidate.publishedAt.getTime();
+		if (Number.isNaN(time)) continue;
+		if (!oldest || time < oldest.publishedAt.getTime()) oldest = candidate;
+		if (
+			!cursor.backlogNewest ||
+			time > Date.parse(cursor.backlogNewest.publishedAt)
+		) {
+			cursor.backlogNewest = {
+				videoId: candidate.videoId,
+				publishedAt: candidate.publishedAt.toISOString(),
+			};
+		}
+	}
+
+	// 1件も取り込めなかった場合は続きの位置が変わらない
+	if (!oldest) return;
+
+	cursor.resumeBefore = oldest.publishedAt.toISOString();
+	saveHashtagCursor(sheetName, config.hashtag, cursor);
+}
+
+// 記録されているすべての検索位置を削除する関数（次回は遡及日数分を検索し直す）
+// 削除した件数を返す
+export function clearHashtagCursors(): number {
+	const properties = PropertiesService.getScriptProperties();
+	const keys = properties
+		.getKeys()
+		.filter((key) => key.startsWith(HASHTAG_CURSOR_PREFIX));
+	for (const key of keys) {
+		properties.deleteProperty(key);
+	}
+	return keys.length;
+}
@@ -0,0 +1,236 @@
+// 追跡中の動画に付いているハッシュタグから、追跡対象に追加する候補を見つけるモジュール
+//
+// 追跡中のハッシュタグで見つかった動画のタイトル・説明文のハッシュタグと動画のタグを集め、
+// 追跡中のハッシュタグとの共起の回数と、直近7日・30日に公開された動画数の推移を数える。
+// 直近7日の動画数が急に増えているハッシュタグを追加候補として「ハッシュタグ候補」シートに出力する。
+import {
+	extractHashtags,
+	getKeywordOnlyMatchRule,
+	getVideoRecordMatchType,
+	normalizeHashtag,
+} from "./hashtags";
+import { loadVideoHashtags } from "./links";
+import { getNumberProperty } from "./properties";
+import {
+	type HashtagDiscoveryRecord,
+	type VideoRecord,
+	ensureSheetSchema,
+	getHashtagDiscoverySchema,
+	getVideoSheetSchema,
+	readSheetRecords,
+	replaceSheetRecords,
+} from "./schema";
+
+// 追加候補の条件
+export interface HashtagSuggestionCriteria {
+	minVideos: number; // 直近7日の動画数がこの件数以上
+	minGrowthRate: number; // 直近7日の動画数がその前の7日のこの倍数以上（その前の7日が0件の場合は条件を満たす）
+	excludedHashtags: string[]; // 集計しないハッシュタグ（#shorts など）
+}
+
+const HASHTAG_DISCOVERY_SHEET_NAME = "ハッシュタグ候補";
+const HASHTAG_DISCOVERY_MAX_ROWS = 500;
+const DEFAULT_SUGGESTION_MIN_VIDEOS = 3;
+const DEFAULT_SUGGESTION_MIN_GROWTH_RATE = 2;
+const DEFAULT_DISCOVERY_EXCLUDED_HASHTAGS = ["#shorts", "#short"];
+const DISCOVERY_MILLISECONDS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// ハッシュタグとして扱えるタグ（空白や記号を含まない）
+const HASHTAG_LIKE_TAG_PATTERN = /^[\p{L}\p{M}\p{N}_]+$/u;
+
+// スクリプトプロパティから追加候補の条件を読み込む関数
+// HASHTAG_DISCOVERY_EXCLUDED に指定したハッシュタグは既定の除外（#shorts・#short）に追加する
+export function getHashtagSuggestionCriteria(): HashtagSuggestionCriteria {
+	const excluded = (
+		PropertiesService.getScriptProperties().getProperty(
+			"HASHTAG_DISCOVERY_EXCLUDED",
+		) || ""
+	)
+		.split(/[,、\s]+/)
+		.filter((hashtag) => hashtag !== "");
+	return {
+		minVideos: getNumberProperty(
+			"HASHTAG_SUGGESTION_MIN_VIDEOS",
+			DEFAULT_SUGGESTION_MIN_VIDEOS,
+			{ integer: true },
+		),
+		minGrowthRate: getNumberProperty(
+			"HASHTAG_SUGGESTION_MIN_GROWTH_RATE",
+			DEFAULT_SUGGESTION_MIN_GROWTH_RATE,
+		),
+		excludedHashtags: [...DEFAULT_DISCOVERY_EXCLUDED_HASHTAGS, ...excluded],
+	};
+}
+
+// 動画に付いているハッシュタグを、正規化した値 -> 表示用の値で返す関数
+// タイトル・説明文のハッシュタグと、ハッシュタグとして扱えるタグを対象にする
+function collectVideoHashtags(video: VideoRecord): Map<string, string> {
+	const text = [video.title, video.description, video.descriptionHashtags]
+		.map(String)
+		.join("\n")
+		.normalize("NFKC");
+	const tags = String(video.tags)
+		.split(/,\s*/)
+		.map((tag) => tag.normalize("NFKC").trim().replace(/^#+/, ""))
+		.filter((tag) => HASHTAG_LIKE_TAG_PATTERN.test(tag))
+		.map((tag) => `#${tag}`);
+	const hashtags = new Map<string, string>();
+	for (const hashtag of [...extractHashtags(text), ...tags]) {
+		const key = normalizeHashtag(hashtag);
+		if (!hashtags.has(key)) hashtags.set(key, hashtag);
+	}
+	return hashtags;
+}
+
+// 追跡中の動画のハッシュタグを集計し、ハッシュタグ候補の行を返す関数
+// 動画ごとに、追跡中のハッシュタグのうち見つかったもの（動画ハッシュタグの対応と行の「ハッシュタグ」列）
+// を共起の相手として数える。excludeKeywordOnly の場合は、キーワードのみで一致したハッシュタグを除く。
+// 直近7日・30日は now を基準にした動画の公開日で数える。並びは追加候補、直近7日の動画数、動画数の順
+export function buildHashtagDiscovery(
+	videos: VideoRecord[],
+	videoHashtags: Map<string, string[]>,
+	trackedHashtags: string[],
+	criteria: HashtagSuggestionCriteria,
+	now: Date,
+	excludeKeywordOnly = false,
+): HashtagDiscoveryRecord[] {
+	const ignored = new Set(
+		[...trackedHashtags, ...criteria.excludedHashtags].map(normalizeHashtag),
+	);
+	const latestVideos = new Map<string, VideoRecord>();
+	for (const video of videos) {
+		const existing = latestVideos.get(video.videoId);
+		if (
+			!existing ||
+			new Date(video.fetchedAt).getTime() >
+				new Date(existing.fetchedAt).getTime()
+		) {
+			latestVideos.set(video.videoId, video);
+		}
+	}
+
+	const discoveries = new Map<
+		string,
+		{
+			record: HashtagDiscoveryRecord;
+			channels: Set<string>;
+			cooccurrence: Map<string, number>;
+		}
+	>();
+	for (const video of latestVideos.values()) {
+		const matchedHashtags = trackedHashtags.filter(
+			(hashtag) =>
+				(video.hashtag === hashtag ||
+					(videoHashtags.get(video.videoId) || []).includes(hashtag)) &&
+				(!excludeKeywordOnly ||
+					getVideoRecordMatchType(video, hashtag) !== "キーワードのみ"),
+		);
+		if (matchedHashtags.length === 0) continue;
+
+		const publishedAt = new Date(video.publishedAt);
+		const ageDays =
+			(now.getTime() - publishedAt.getTime()) / DISCOVERY_MILLISECONDS_PER_DAY;
+		const inWindow = (from: number, to: number) =>
+			ageDays >= from && ageDays < to ? 1 : 0;
+		for (const [key, hashtag] of collectVideoHashtags(video)) {
+			if (ignored.has(key)) continue;
+			const discovery = discoveries.get(key) || {
+				record: {
+					hashtag,
+					suggested: false,
+					videoCount: 0,
+					channelCount: 0,
+					totalViews: 0,
+					recent7Days: 0,
+					previous7Days: 0,
+					recent30Days: 0,
+					previous30Days: 0,
+					growthRate: "",
+					cooccurrence: "",
+					firstPublishedAt: publishedAt,
+				},
+				channels: new Set<string>(),
+				cooccurrence: new Map<string, number>(),
+			};
+			const { record } = discovery;
+			record.videoCount++;
+			record.totalViews += Number(video.viewCount) || 0;
+			record.recent7Days += inWindow(0, 7);
+			record.previous7Days += inWindow(7, 14);
+			record.recent30Days += inWindow(0, 30);
+			record.previous30Days += inWindow(30, 60);
+			if (publishedAt.getTime() < record.firstPublishedAt.getTime()) {
+				record.firstPublishedAt = publishedAt;
+			}
+			discovery.channels.add(String(video.channelId || video.channelName));
+			for (const matched of matchedHashtags) {
+				discovery.cooccurrence.set(
+					matched,
+					(discovery.cooccurrence.get(matched) || 0) + 1,
+				);
+			}
+			discoveries.set(key, discovery);
+		}
+	}
+
+	const records = [...discoveries.values()].map(
+		({ record, channels, cooccurrence }): HashtagDiscoveryRecord => {
+			const growthRate: number | "" =
+				record.previous7Days > 0
+					? Math.round((record.recent7Days / record.previous7Days) * 100) / 100
+					: "";
+			return {
+				...record,
+				channelCount: channels.size,
+				growthRate,
+				suggested:
+					record.recent7Days >= criteria.minVideos &&
+					(growthRate === "" || growthRate >= criteria.minGrowthRate),
+				cooccurrence: trackedHashtags
+					.filter((hashtag) => cooccurrence.has(hashtag))
+					.map((hashtag) => `${hashtag}:${cooccurrence.get(hashtag)}`)
+					.join(" "),
+			};
+		},
+	);
+	return records.sort(
+		(a, b) =>
+			Number(b.suggested) - Number(a.suggested) ||
+			b.recent7Days - a.recent7Days ||
+			b.videoCount - a.videoCount ||
+			a.hashtag.localeCompare(b.hashtag),
+	);
+}
+
+// メインシートの動画からハッシュタグ候補を集計し、「ハッシュタグ候補」シートに書き込む関数
+// 実行のたびにシートを書き換え、上位 500 件だけを書き込む。集計したすべての行を返す
+export function writeHashtagDiscoveryReport(
+	spreadsheet: GoogleAppsScript.Spreadsheet.Spreadsheet,
+	mainSheet: GoogleAppsScript.Spreadsheet.Sheet,
+	trackedHashtags: string[],
+	now = new Date(),
+): HashtagDiscoveryRecord[] {
+	const videoSchema = getVideoSheetSchema();
+	ensureSheetSchema(mainSheet, videoSchema);
+	const records = buildHashtagDiscovery(
+		readSheetRecords(mainSheet, videoSchema),
+		loadVideoHashtags(spreadsheet),
+		trackedHashtags,
+		getHashtagSuggestionCriteria(),
+		now,
+		getKeywordOnlyMatchRule() === "統計から除外",
+	);
+
+	const schema = getHashtagDiscoverySchema();
+	const sheet = ensureSheetSchema(
+		spreadsheet.getSheetByName(HASHTAG_DISCOVERY_SHEET_NAME) ||
+			spreadsheet.insertSheet(HASHTAG_DISCOVERY_SHEET_NAME),
+		schema,
+	);
+	replaceSheetRecords(
+		sheet,
+		schema,
+		records.slice(0, HASHTAG_DISCOVERY_MAX_ROWS),
+	);
+	return records;
+}
@@ -0,0 +1,96 @@
+// 動画の説明文などからハッシュタグを抽出し、動画が検索したハッシュタグに一致するかを判定するモジュール
+//
+// search.list の q によるハッシュタグの検索は全文検索のため、ハッシュタグが付いていない動画も
+// 返される。タイトル・説明文のハッシュタグと snippet.tags を照合し、一致の種類を記録する。
+import type { VideoRecord } from "./schema";
+
+// ハッシュタグとの一致の種類
+// ハッシュタグ: タイトルか説明文にハッシュタグがある / タグ: snippet.tags にある /
+// キーワードのみ: どちらにもなく、検索語として一致しただけ
+export type HashtagMatchType = "ハッシュタグ" | "タグ" | "キーワードのみ";
+
+// キーワードのみの一致の扱い
+// 含める: 記録して統計にも含める / 統計から除外: 記録するが統計には含めない / 記録しない: シートに書き込まない
+export type KeywordOnlyMatchRule = "含める" | "統計から除外" | "記録しない";
+
+// 照合に使う動画の情報
+export interface HashtagMatchSource {
+	title: string;
+	description: string;
+	tags: string[];
+}
+
+const KEYWORD_ONLY_MATCH_RULES: KeywordOnlyMatchRule[] = [
+	"含める",
+	"統計から除外",
+	"記録しない",
+];
+
+// 文中の #xxx（全角の ＃ を含む）をハッシュタグとして抽出する関数
+// 同じハッシュタグは最初に出現したものだけを、出現順に返す
+export function extractHashtags(text: string): string[] {
+	const pattern = /(?:^|[^\p{L}\p{M}\p{N}_])[#＃]([\p{L}\p{M}\p{N}_]+)/gu;
+	const hashtags: string[] = [];
+	for (const match of text.matchAll(pattern)) {
+		const hashtag = `#${match[1]}`;
+		if (!hashtags.includes(hashtag)) {
+			hashtags.push(hashtag);
+		}
+	}
+	return hashtags;
+}
+
+// ハッシュタグを照合用に正規化する関数
+// NFKC で全角英数字・半角カナなどをそろえ、先頭の # を除いて英字を小文字にする
+export function normalizeHashtag(hashtag: string): string {
+	return hashtag.normalize("NFKC").trim().replace(/^#+/, "").toLowerCase();
+}
+
+// 動画とハッシュタグの一致の種類を判定する関数
+export function getHashtagMatchType(
+	source: HashtagMatchSource,
+	hashtag: string,
+): HashtagMatchType {
+	const target = normalizeHashtag(hashtag);
+	const hashtags = extractHashtags(
+		`${source.title}\n${source.description}`.normalize("NFKC"),
+	);
+	if (hashtags.some((candidate) => normalizeHashtag(candidate) === target)) {
+		return "ハッシュタグ";
+	}
+	if (source.tags.some((tag) => normalizeHashtag(tag) === target)) {
+		return "タグ";
+	}
+	return "キーワードのみ";
+}
+
+// シートの行とハッシュタグの一致の種類を返す関数
+// 行の「ハッシュタグ」列のハッシュタグは記録済みの値を使い、それ以外は行の値から判定する
+// 積み上げシートの行は動画の説明が空欄のため、説明文のハッシュタグ列も照合に使う
+export function getVideoRecordMatchType(
+	video: VideoRecord,
+	hashtag: string,
+): HashtagMatchType {
+	if (video.hashtag === hashtag && video.matchType) {
+		return video.matchType as HashtagMatchType;
+	}
+	return getHashtagMatchType(
+		{
+			title: String(video.title),
+			description: `${video.description}\n${video.descriptionHashtags}`,
+			tags: String(video.tags).split(/,\s*/),
+		},
+		hashtag,
+	);
+}
+
+// キーワードのみの一致の扱いを返す関数
+// スクリプトプロパティ KEYWORD_ONLY_MATCHES で指定する（未設定・不正な場合は「含める」）
+export function getKeywordOnlyMatchRule(): KeywordOnlyMatchRule {
+	const stored = PropertiesService.getScriptProperties().getProperty(
+		"KEYWORD_ONLY_MATCHES",
+	) as KeywordOnlyMatchRule | null;
+	return stored && KEYWORD_ONLY_MATCH_RULES.includes(stored)
+		? stored
+		: KEYWORD_ONLY_MATCH_RULES[0];
+}
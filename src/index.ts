@@ -1,79 +1,483 @@
-// 型定義をインポート
-import type {
-	ChannelInfo,
-	VideoItem,
-	SearchResponse,
-	VideosResponse,
-	ChannelsResponse,
-} from "./types/youtube";
+import { type AlertDeliveryResult, runAlerts } from "./alerts";
+import { logUnresolvedChannels, resolveChannels } from "./channels";
+import {
+	type HashtagConfig,
+	buildSearchQuery,
+	getEnabledHashtagConfigs,
+} from "./config";
+import {
+	advanceHashtagCursor,
+	clearHashtagCursors,
+	getDiscoveryPublishedAfterISO,
+	getDiscoveryPublishedBeforeISO,
+	recordHashtagBacklog,
+} from "./cursors";
+import { writeHashtagDiscoveryReport } from "./discovery";
+import {
+	extractHashtags,
+	getHashtagMatchType,
+	getKeywordOnlyMatchRule,
+} from "./hashtags";
+import {
+	type JobCheckpoint,
+	abandonJob,
+	beginJobRun,
+	completeJob,
+	deleteJobContinuationTriggers,
+	getPendingJobNames,
+	isJobTimeRunningOut,
+	queueJob,
+	runWithJobLock,
+	saveJobCheckpoint,
+	startOrResumeJob,
+	suspendJob,
+} from "./jobs";
+import {
+	flushVideoHashtags,
+	loadVideoHashtags,
+	queueVideoHashtags,
+	recordVideoHashtags,
+	summarizeHashtagStats,
+} from "./links";
+import {
+	addRowsWritten,
+	logDebug,
+	logError,
+	logInfo,
+	logWarn,
+	runLogged,
+} from "./logging";
+import {
+	type QuotaRunSpend,
+	beginQuotaRun,
+	flushQuotaLedger,
+	getQuotaRunSpend,
+	hasQuotaFor,
+	logQuotaSummary,
+	restoreQuotaRunSpend,
+} from "./quota";
+import {
+	appendRefreshedSnapshot,
+	refreshDueVideoStats,
+	refreshSheetVideoStats,
+} from "./refresh";
+import {
+	type ReportFrequency,
+	getReportPeriod,
+	sendSummaryReport,
+} from "./report";
+import {
+	type VideoRecord,
+	appendSheetRecords,
+	ensureSheetSchema,
+	getSchemaHeaders,
+	getVideoSheetSchema,
+	readSheetRecords,
+	replaceSheetRecords,
+	toSheetRow,
+} from "./schema";
+import { classifyVideoType } from "./shorts";
+import {
+	formatStatsDate,
+	loadSnapshotHistory,
+	writeDailyStatsFromSnapshots,
+} from "./stats";
+import {
+	compactStackSheet,
+	getStackRetentionPolicy,
+	stripSnapshotDescriptions,
+	writeCellUsageReport,
+} from "./storage";
+import { recordSubscriberHistory } from "./subscribers";
+import { writeVideoTimeSeries } from "./timeseries";
+import { exportSheetsToDrive, importSheetsFromDrive } from "./transfer";
+import {
+	getTriggerDrift,
+	installScheduledTriggers,
+	logTriggerDrift,
+	uninstallScheduledTriggers,
+} from "./triggers";
+import {
+	type ApiErrorReport,
+	YouTubeApiError,
+	callYouTubeApi,
+	fetchVideosByIds,
+	logApiErrors,
+} from "./youtube";
 
 // Google Apps Script services are available globally
 
-// スプレッドシートに書き込む行データの型定義
-type FormattedVideoData = [
-	Date, // 取得日時
-	string, // ハッシュタグ
-	string, // 動画ID
-	string, // 動画カテゴリ ("ショート" | "通常")
-	string, // 動画タイトル
-	string, // 動画URL
-	string, // チャンネル名
-	number, // チャンネル登録者数
-	Date, // 動画公開日
-	string, // 動画の説明
-	number, // 視聴回数
-	number, // いいね数
-	number, // コメント数
-];
-
 // スプレッドシートの設定
-const SPREADSHEET_ID =
-	PropertiesService.getScriptProperties().getProperty("SPREADSHEET_ID") || "";
+// スクリプトプロパティはファイル読み込み時ではなく実行時に参照する
+function getSpreadsheetId(): string {
+	return (
+		PropertiesService.getScriptProperties().getProperty("SPREADSHEET_ID") || ""
+	);
+}
 const SHEET_NAME = "YouTubeハッシュタグ分析";
+const STACK_SHEET_NAME = "YouTubeハッシュタグ分析_積み上げ";
+
+// 検索ジョブ（main / dailyUpdate）の名前
+type DiscoveryJobName = "main" | "dailyUpdate";
+
+// 処理中のハッシュタグの進捗
+interface HashtagProgress {
+	hashtagIndex: number;
+	publishedAfter: string; // 検索開始日時（空の場合はまだ検索していない）
+	publishedBefore?: string; // 前回打ち切った検索の続きを取り込む場合の検索終了日時
+	pageToken?: string;
+	pageCount: number;
+	searchDone: boolean;
+	searchComplete: boolean; // 打ち切らずに検索できたか（検索位置を進めてよいか）
+	pendingVideoIds: string[]; // 検索済みで、まだ詳細を取得して書き込んでいない動画ID
+	hashtagAddedRows: number;
+	newestVideo?: { videoId: string; publishedAt: string };
+	oldestVideo?: { videoId: string; publishedAt: string };
+}
 
-// ハッシュタグのリスト
-const TARGET_HASHTAGS = ["#安野たかひろ", "#チームみらい"];
+// 検索ジョブのチェックポイントに保存する進捗
+interface DiscoveryJobState extends HashtagProgress {
+	hashtags: string[]; // 開始時点で有効だったハッシュタグ
+	addedRows: number;
+	finishStep: number; // 検索後の仕上げ処理のうち完了した段階の数
+	quotaSpend: QuotaRunSpend; // 中断前の実行も含めたジョブのクォータ消費
+}
 
-// メインの処理を実行する関数
-async function main() {
-	try {
-		// スプレッドシートを取得または作成
-		const spreadsheet = getOrCreateSpreadsheet();
-		const sheet = getOrCreateSheet(spreadsheet, SHEET_NAME);
+// 検索後の仕上げ処理の段階（シート全体を読み書きするため、段階ごとにチェックポイントを保存する）
+type DiscoveryFinishStep = "removeDuplicates" | "refreshStats";
+
+function getDiscoveryFinishSteps(
+	jobName: DiscoveryJobName,
+): DiscoveryFinishStep[] {
+	return jobName === "main"
+		? ["removeDuplicates", "refreshStats"]
+		: ["refreshStats", "removeDuplicates"];
+}
+
+function createHashtagProgress(hashtagIndex: number): HashtagProgress {
+	return {
+		hashtagIndex,
+		publishedAfter: "",
+		publishedBefore: undefined,
+		pageToken: undefined,
+		pageCount: 0,
+		searchDone: false,
+		searchComplete: true,
+		pendingVideoIds: [],
+		hashtagAddedRows: 0,
+		newestVideo: undefined,
+		oldestVideo: undefined,
+	};
+}
+
+function describeDiscoveryProgress(state: DiscoveryJobState): string {
+	if (state.hashtagIndex >= state.hashtags.length) {
+		return `検索完了・${state.addedRows}件追加（仕上げ処理 ${state.finishStep}段階完了）`;
+	}
+	return `ハッシュタグ ${state.hashtagIndex + 1}/${state.hashtags.length}（${state.hashtags[state.hashtagIndex]}）・${state.pageCount}ページ・未処理 ${state.pendingVideoIds.length}件・${state.addedRows}件追加`;
+}
 
-		// ヘッダーを設定
-		setupSheetHeaders(sheet);
+// 検索ジョブを1ステップ（検索1ページ、または動画50件の詳細取得と書き込み）進める関数
+function runDiscoveryStep(
+	jobName: DiscoveryJobName,
+	sheet: GoogleAppsScript.Spreadsheet.Sheet,
+	configs: HashtagConfig[],
+	state: DiscoveryJobState,
+): void {
+	const hashtag = state.hashtags[state.hashtagIndex];
+	const config = configs.find((candidate) => candidate.hashtag === hashtag);
+	if (!config) {
+		// 中断中に設定シートで無効にされたハッシュタグは処理しない
+		logWarn(
+			jobName,
+			`ハッシュタグ「${hashtag}」は有効な設定にないためスキップします。`,
+			{ hashtag },
+		);
+		Object.assign(state, createHashtagProgress(state.hashtagIndex + 1));
+		return;
+	}
 
-		// 各ハッシュタグに対して検索を実行
-		for (const hashtag of TARGET_HASHTAGS) {
-			await searchVideosByHashtag(hashtag, sheet);
+	if (!state.publishedAfter) {
+		state.publishedAfter = getDiscoveryPublishedAfterISO(
+			sheet.getName(),
+			config,
+		);
+		state.publishedBefore = getDiscoveryPublishedBeforeISO(
+			sheet.getName(),
+			config,
+		);
+		logInfo(
+			jobName,
+			state.publishedBefore
+				? `ハッシュタグ「${hashtag}」で前回打ち切った検索の続きを検索中 (公開日以降: ${state.publishedAfter}、${state.publishedBefore} 以前)`
+				: `ハッシュタグ「${hashtag}」で動画を検索中 (公開日以降: ${state.publishedAfter})`,
+			{ hashtag },
+		);
+	}
+
+	// 検索済みの動画は50件ずつ詳細を取得して書き込む
+	if (state.pendingVideoIds.length > 0) {
+		const batchVideoIds = state.pendingVideoIds.slice(0, 50);
+		const { rows, errors } = buildVideoRows(batchVideoIds, hashtag, new Date());
+		logApiErrors(jobName, errors);
+		// 積み上げシートには動画の説明を記録しない（説明はメインシートにだけ残す）
+		appendSheetRecords(
+			sheet,
+			getVideoSheetSchema(),
+			jobName === "dailyUpdate" ? stripSnapshotDescriptions(rows) : rows,
+		);
+		queueVideoHashtags(
+			rows.map((row) => ({
+				videoId: row.videoId,
+				hashtag: row.hashtag,
+				seenAt: row.fetchedAt,
+			})),
+		);
+		addRowsWritten(rows.length);
+		state.hashtagAddedRows += rows.length;
+		state.addedRows += rows.length;
+		for (const row of rows) {
+			const video = {
+				videoId: row.videoId,
+				publishedAt: row.publishedAt.toISOString(),
+			};
+			if (
+				!state.newestVideo ||
+				row.publishedAt.getTime() > Date.parse(state.newestVideo.publishedAt)
+			) {
+				state.newestVideo = video;
+			}
+			if (
+				!state.oldestVideo ||
+				row.publishedAt.getTime() < Date.parse(state.oldestVideo.publishedAt)
+			) {
+				state.oldestVideo = video;
+			}
+		}
+		state.pendingVideoIds = state.pendingVideoIds.slice(batchVideoIds.length);
+		return;
+	}
+
+	if (!state.searchDone) {
+		const page = searchVideoPage(
+			config,
+			state.publishedAfter,
+			state.pageToken,
+			state.pageCount + 1,
+			state.publishedBefore,
+		);
+		if (page.error) logApiErrors(jobName, [page.error]);
+		state.pendingVideoIds.push(...page.videoIds);
+		state.pageToken = page.nextPageToken;
+		if (page.videoIds.length > 0) state.pageCount++;
+		if (page.stopped) {
+			state.searchDone = true;
+			state.searchComplete = false;
+		} else if (page.videoIds.length === 0 || !page.nextPageToken) {
+			state.searchDone = true;
+		} else if (state.pageCount >= MAX_SEARCH_PAGES) {
+			// 取得していないページが残っているため、検索位置は進めずに続きの位置を記録する
+			logWarn(
+				jobName,
+				`ハッシュタグ「${hashtag}」の検索を上限の${MAX_SEARCH_PAGES}ページで打ち切りました。`,
+				{ hashtag, pages: state.pageCount },
+			);
+			state.searchDone = true;
+			state.searchComplete = false;
+		}
+		return;
+	}
+
+	// 書き込みまで完了した場合のみ次回の検索位置を進め、
+	// 打ち切った場合は次回そこから続けられるよう取り込んだ範囲を記録する
+	const written = [state.newestVideo, state.oldestVideo]
+		.filter((video) => video !== undefined)
+		.map((video) => ({
+			videoId: video.videoId,
+			publishedAt: new Date(video.publishedAt),
+		}));
+	if (state.searchComplete) {
+		advanceHashtagCursor(sheet.getName(), config, written);
+	} else {
+		recordHashtagBacklog(sheet.getName(), config, written);
+	}
+	logInfo(
+		jobName,
+		state.hashtagAddedRows > 0
+			? `ハッシュタグ「${hashtag}」の動画を ${state.hashtagAddedRows} 件追加しました。`
+			: `ハッシュタグ「${hashtag}」で追加する新しい動画はありませんでした。`,
+		{ hashtag, count: state.hashtagAddedRows },
+	);
+	Object.assign(state, createHashtagProgress(state.hashtagIndex + 1));
+}
+
+// 検索後の仕上げ処理を1段階進める関数
+// 統計の更新を時間の上限で打ち切った場合は、同じ段階を次の実行で続ける
+function runDiscoveryFinishStep(
+	jobName: DiscoveryJobName,
+	sheet: GoogleAppsScript.Spreadsheet.Sheet,
+	checkpoint: JobCheckpoint<DiscoveryJobState>,
+): void {
+	const state = checkpoint.state;
+	const step = getDiscoveryFinishSteps(jobName)[state.finishStep];
+	if (step === "removeDuplicates") {
+		// 重複を削除して最新のデータを残す（dailyUpdate は当日分のデータ内で削除）
+		if (jobName === "main") {
+			removeDuplicateVideos(sheet);
+		} else {
+			removeDailyDuplicates(sheet);
 		}
+		state.finishStep++;
+		return;
+	}
+
+	// 既知の動画の統計は Videos.list だけで更新する（今回追加した動画は取得済み）
+	// dailyUpdate は積み上げシートに当日分の統計を追加する
+	const refresh =
+		jobName === "main"
+			? refreshSheetVideoStats(sheet, {
+					skipFetchedSince: new Date(checkpoint.startedAt),
+				})
+			: appendRefreshedSnapshot(sheet);
+	logApiErrors(jobName, refresh.errors);
+	if (!refresh.interrupted) state.finishStep++;
+}
+
+// 新しい動画を検索してシートに追加する関数（main はメインシート、dailyUpdate は積み上げシート）
+// 実行時間の上限に近づいたら進捗を保存して中断し、resumeJobs で続きから処理する
+function runDiscoveryJob(jobName: DiscoveryJobName) {
+	// スプレッドシートを取得または作成
+	const spreadsheet = getOrCreateSpreadsheet();
+	const sheet = getOrCreateSheet(
+		spreadsheet,
+		jobName === "main" ? SHEET_NAME : STACK_SHEET_NAME,
+	);
 
-		// 重複を削除して最新のデータを残す
-		removeDuplicateVideos(sheet);
+	// ヘッダーを設定（古い列構成のシートは最新の列構成に移行する）
+	ensureSheetSchema(sheet, getVideoSheetSchema());
+
+	// 設定シートから追跡対象のハッシュタグを読み込み、前回以降の新しい動画を検索
+	const configs = getEnabledHashtagConfigs(spreadsheet);
+	const checkpoint = startOrResumeJob<DiscoveryJobState>(
+		spreadsheet,
+		jobName,
+		() => ({
+			hashtags: configs.map((config) => config.hashtag),
+			addedRows: 0,
+			finishStep: 0,
+			quotaSpend: getQuotaRunSpend(),
+			...createHashtagProgress(0),
+		}),
+	);
+	const state = checkpoint.state;
+	// 1回の実行・ハッシュタグごとのクォータ予算は、中断をまたいでジョブ全体で数える
+	restoreQuotaRunSpend(state.quotaSpend);
+
+	try {
+		// 少なくとも1ステップは処理し、以降は時間の上限に近づいたら中断する
+		// 検索を終えたら、仕上げ処理も1段階ずつチェックポイントを保存しながら進める
+		const finishSteps = getDiscoveryFinishSteps(jobName);
+		let steps = 0;
+		for (;;) {
+			if (steps > 0 && isJobTimeRunningOut()) {
+				suspendJob(spreadsheet, checkpoint, describeDiscoveryProgress(state));
+				return;
+			}
+			if (state.hashtagIndex < state.hashtags.length) {
+				runDiscoveryStep(jobName, sheet, configs, state);
+			} else if (state.finishStep < finishSteps.length) {
+				// 仕上げ処理は動画ハッシュタグシートも読み書きするため、先に検索中の対応を書き込む
+				flushVideoHashtags(spreadsheet);
+				runDiscoveryFinishStep(jobName, sheet, checkpoint);
+			} else {
+				break;
+			}
+			state.quotaSpend = getQuotaRunSpend();
+			saveJobCheckpoint(checkpoint);
+			steps++;
+		}
 
-		Logger.log("処理が完了しました。");
+		logInfo(
+			jobName,
+			jobName === "main" ? "処理が完了しました。" : "日次更新が完了しました。",
+			{ count: state.addedRows },
+		);
+		completeJob(spreadsheet, checkpoint, `${state.addedRows}件追加`);
 	} catch (error) {
 		const errorMessage = error instanceof Error ? error.message : String(error);
-		Logger.log(`Error in main function: ${errorMessage}`);
-		if (error instanceof Error && error.stack) {
-			Logger.log(error.stack);
-		}
+		abandonJob(spreadsheet, checkpoint, `エラー: ${errorMessage}`);
+		throw error;
+	} finally {
+		// 検索中に溜めた動画とハッシュタグの対応は、中断・完了・失敗のいずれでも書き込む
+		flushVideoHashtags(spreadsheet);
+	}
+}
+
+// 検索ジョブをスクリプトロックを取得して実行し、クォータの消費状況をログに出力する関数
+function executeDiscoveryJob(jobName: DiscoveryJobName) {
+	beginQuotaRun(jobName);
+	try {
+		const ran = runWithJobLock(jobName, () => {
+			runDiscoveryJob(jobName);
+			logUnresolvedChannels(jobName);
+		});
+		// 別の実行がロックを持っていた場合は、チェックポイントがなくても resumeJobs で処理する
+		if (!ran) queueJob(jobName);
+	} finally {
+		flushQuotaLedger();
+		logQuotaSummary();
 	}
 }
 
+// メインの処理を実行する関数
+async function main() {
+	runLogged("main", () => {
+		beginJobRun();
+		executeDiscoveryJob("main");
+	});
+}
+
+// 中断したジョブの続きを処理する関数（suspendJob が予約したトリガーから実行される）
+// 1つのジョブが失敗しても残りのジョブは再開し、最後に失敗として記録する
+async function resumeJobs() {
+	runLogged("resumeJobs", () => {
+		beginJobRun();
+		deleteJobContinuationTriggers();
+		const failedJobs: string[] = [];
+		for (const jobName of getPendingJobNames()) {
+			if (jobName !== "main" && jobName !== "dailyUpdate") {
+				logWarn("resumeJobs", `不明なジョブのため再開できません: ${jobName}`);
+				continue;
+			}
+			try {
+				executeDiscoveryJob(jobName);
+			} catch (error) {
+				const errorMessage =
+					error instanceof Error ? error.message : String(error);
+				logError("resumeJobs", `${jobName} が失敗しました: ${errorMessage}`);
+				failedJobs.push(jobName);
+			}
+		}
+		if (failedJobs.length > 0) {
+			throw new Error(`再開したジョブが失敗しました: ${failedJobs.join(", ")}`);
+		}
+	});
+}
+
 // スプレッドシートを取得または作成する関数
 function getOrCreateSpreadsheet() {
-	if (SPREADSHEET_ID) {
-		const spreadsheet = SpreadsheetApp.openById(SPREADSHEET_ID);
+	const spreadsheetId = getSpreadsheetId();
+	if (spreadsheetId) {
+		const spreadsheet = SpreadsheetApp.openById(spreadsheetId);
 		if (!spreadsheet) {
-			throw new Error(`Failed to open spreadsheet with ID: ${SPREADSHEET_ID}`);
+			throw new Error(`Failed to open spreadsheet with ID: ${spreadsheetId}`);
 		}
 		return spreadsheet;
 	}
 
 	const newSpreadsheet = SpreadsheetApp.create("YouTubeハッシュタグ分析");
-	Logger.log(
+	logInfo(
+		"getOrCreateSpreadsheet",
 		`新しいスプレッドシートが作成されました: ${newSpreadsheet.getUrl()}`,
 	);
 	return newSpreadsheet;
@@ -87,858 +491,864 @@ function getOrCreateSheet(
 	let sheet = spreadsheet.getSheetByName(sheetName);
 	if (!sheet) {
 		sheet = spreadsheet.insertSheet(sheetName);
-		Logger.log(`新しいシートが作成されました: ${sheetName}`);
+		logInfo("getOrCreateSheet", `新しいシートが作成されました: ${sheetName}`);
 	}
 	return sheet;
 }
 
-// YouTube APIから動画データを取得し整形する共通関数
-async function fetchYouTubeVideoData(
-	hashtag: string,
-	publishedAfterISO: string,
-): Promise<FormattedVideoData[]> {
-	Logger.log(
-		`fetchYouTubeVideoData: ハッシュタグ「${hashtag}」で動画を検索中 (公開日以降: ${publishedAfterISO})`,
-	);
-	const newRows: FormattedVideoData[] = [];
-	const fetchTime = new Date(); // 取得日時を一括で設定するため最初に取得
+// searchVideoPage の戻り値
+export interface SearchPageResult {
+	videoIds: string[];
+	nextPageToken?: string;
+	stopped: boolean; // 予算やエラーで検索を打ち切った場合は true
+	error?: ApiErrorReport;
+}
 
-	try {
-		// YouTube Data APIを使用して動画を検索（ページネーション対応）
-		const allVideoIds: string[] = [];
-		let nextPageToken: string | undefined = undefined;
-		let pageCount = 0;
-		const maxPages = 10; // 最大10ページ（500件）まで取得
-		
-		do {
-			const searchResponse = YouTube?.Search?.list("id,snippet", {
-				q: hashtag,
-				type: "video",
-				part: "snippet",
-				maxResults: 50,
-				order: "date",
-				publishedAfter: publishedAfterISO,
-				pageToken: nextPageToken,
-			});
+// 1回の検索で取得する最大ページ数（1ページ50件、最大500件）
+const MAX_SEARCH_PAGES = 10;
 
-			if (!searchResponse?.items || searchResponse.items.length === 0) {
-				if (pageCount === 0) {
-					Logger.log(
-						`fetchYouTubeVideoData: ハッシュタグ「${hashtag}」の動画は見つかりませんでした。`,
-					);
-				}
-				break;
-			}
-
-			const pageVideoIds = searchResponse.items
-				.map((item) => item.id?.videoId)
-				.filter((id): id is string => !!id);
-			
-			allVideoIds.push(...pageVideoIds);
-			nextPageToken = searchResponse.nextPageToken;
-			pageCount++;
-			
-			Logger.log(
-				`fetchYouTubeVideoData: ハッシュタグ「${hashtag}」ページ${pageCount}: ${pageVideoIds.length}件取得（累計: ${allVideoIds.length}件）`,
-			);
-			
-		} while (nextPageToken && pageCount < maxPages);
-		
-		const videoIds = allVideoIds;
-
-		if (videoIds.length === 0) {
-			Logger.log(
-				`fetchYouTubeVideoData: 有効な動画IDが見つかりませんでした: ${hashtag}`,
-			);
-			return newRows;
-		}
-
-		// Videos APIも分割して呼び出し（50件ずつ）
-		const allVideos: any[] = [];
-		const batchSize = 50;
-		
-		for (let i = 0; i < videoIds.length; i += batchSize) {
-			const batchVideoIds = videoIds.slice(i, i + batchSize);
-			
-			const videosResponse = YouTube?.Videos?.list("snippet,statistics", {
-				id: batchVideoIds.join(","),
-				part: "snippet,statistics",
-			});
+// ハッシュタグの検索結果を1ページ取得する関数
+export function searchVideoPage(
+	config: HashtagConfig,
+	publishedAfterISO: string,
+	pageToken: string | undefined,
+	pageNumber: number,
+	publishedBeforeISO?: string,
+): SearchPageResult {
+	const hashtag = config.hashtag;
+
+	// 検索1ページと、その詳細・チャンネル取得に必要な予算が残っているか確認
+	if (!hasQuotaFor(["search.list", "videos.list", "channels.list"], hashtag)) {
+		logWarn(
+			"searchVideoPage",
+			`クォータ予算に達したため、ハッシュタグ「${hashtag}」の検索を${pageNumber - 1}ページで打ち切りました。`,
+			{ hashtag, pages: pageNumber - 1 },
+		);
+		return { videoIds: [], stopped: true };
+	}
 
-			if (videosResponse?.items && videosResponse.items.length > 0) {
-				allVideos.push(...videosResponse.items);
-				Logger.log(
-					`fetchYouTubeVideoData: ハッシュタグ「${hashtag}」動画詳細 ${Math.floor(i/batchSize) + 1}バッチ: ${videosResponse.items.length}件取得`,
-				);
-			}
-		}
+	let searchResponse:
+		| GoogleAppsScript.YouTube.Schema.SearchListResponse
+		| undefined;
+	try {
+		searchResponse = callYouTubeApi(
+			"search.list",
+			() =>
+				YouTube?.Search?.list("id,snippet", {
+					q: buildSearchQuery(config),
+					type: "video",
+					part: "snippet",
+					maxResults: 50,
+					order: "date",
+					publishedAfter: publishedAfterISO,
+					publishedBefore: publishedBeforeISO,
+					pageToken,
+				}),
+			{ hashtag, context: `ページ${pageNumber}` },
+		);
+	} catch (error) {
+		if (!(error instanceof YouTubeApiError)) throw error;
+		// 取得済みのページは残したまま検索を打ち切る
+		logWarn("searchVideoPage", error.message, { hashtag });
+		return { videoIds: [], stopped: true, error: error.report };
+	}
 
-		if (allVideos.length === 0) {
-			Logger.log(
-				"fetchYouTubeVideoData: 動画の詳細情報を取得できませんでした。",
+	if (!searchResponse?.items || searchResponse.items.length === 0) {
+		if (pageNumber === 1) {
+			logInfo(
+				"searchVideoPage",
+				`ハッシュタグ「${hashtag}」の動画は見つかりませんでした。`,
+				{ hashtag },
 			);
-			return newRows;
-		}
-
-		const channelIds = [
-			...new Set(
-				allVideos
-					.map((video) => video.snippet?.channelId)
-					.filter((id): id is string => !!id),
-			),
-		];
-
-		const channelInfoMap = new Map<
-			string,
-			{ title: string; subscriberCount: string }
-		>();
-		if (channelIds.length > 0) {
-			const channelsResponse = YouTube?.Channels?.list("snippet,statistics", {
-				id: channelIds.join(","),
-				part: "snippet,statistics",
-			});
-			if (channelsResponse?.items) {
-				for (const channel of channelsResponse.items) {
-					if (channel.id && channel.snippet) {
-						channelInfoMap.set(channel.id, {
-							title: channel.snippet.title || "不明",
-							subscriberCount: channel.statistics?.subscriberCount || "0",
-						});
-					}
-				}
-			}
 		}
+		return { videoIds: [], stopped: false };
+	}
 
-		for (const video of allVideos) {
-			if (!video.id || !video.snippet) continue;
-
-			const channelId = video.snippet.channelId;
-			const channelInfo = channelId ? channelInfoMap.get(channelId) : null;
-
-			const videoId = video.id;
-			const stats = video.statistics || {
-				viewCount: "0",
-				likeCount: "0",
-				commentCount: "0",
-			};
-			const publishedAt = video.snippet.publishedAt;
+	const videoIds = searchResponse.items
+		.map((item) => item.id?.videoId)
+		.filter((id): id is string => !!id);
+	logDebug(
+		"searchVideoPage",
+		`ハッシュタグ「${hashtag}」ページ${pageNumber}: ${videoIds.length}件取得`,
+		{ hashtag, count: videoIds.length },
+	);
+	return {
+		videoIds,
+		nextPageToken: searchResponse.nextPageToken,
+		stopped: false,
+	};
+}
 
-			if (!publishedAt) {
-				Logger.log(
-					`fetchYouTubeVideoData: 公開日がないためスキップ: ${videoId}`,
-				);
-				continue;
-			}
+// 最も解像度の高いサムネイルのURLを返す関数
+function getThumbnailUrl(
+	thumbnails: GoogleAppsScript.YouTube.Schema.ThumbnailDetails | undefined,
+): string {
+	return (
+		thumbnails?.maxres?.url ||
+		thumbnails?.high?.url ||
+		thumbnails?.medium?.url ||
+		thumbnails?.default?.url ||
+		""
+	);
+}
 
-			const isShort =
-				video.snippet.title?.includes("#shorts") ||
-				video.snippet.description?.includes("#shorts") ||
-				video.snippet.title?.toLowerCase().includes("shorts") ||
-				video.snippet.description?.toLowerCase().includes("shorts");
-
-			newRows.push([
-				fetchTime, // 取得日時
-				hashtag, // ハッシュタグ
-				videoId, // 動画ID
-				isShort ? "ショート" : "通常", // 動画カテゴリ
-				video.snippet.title || "タイトルなし", // 動画タイトル
-				`https://www.youtube.com/watch?v=${videoId}`, // 動画URL
-				channelInfo?.title || "不明", // チャンネル名
-				Number.parseInt(channelInfo?.subscriberCount || "0", 10) || 0, // チャンネル登録者数
-				new Date(publishedAt), // 動画公開日
-				video.snippet.description || "", // 動画の説明
-				Number.parseInt(stats.viewCount || "0", 10) || 0, // 視聴回数
-				Number.parseInt(stats.likeCount || "0", 10) || 0, // いいね数
-				Number.parseInt(stats.commentCount || "0", 10) || 0, // コメント数
-			]);
-		}
-	} catch (error: unknown) {
-		const errorMessage = error instanceof Error ? error.message : String(error);
-		Logger.log(
-			`fetchYouTubeVideoData: エラーが発生しました (ハッシュタグ: ${hashtag}): ${errorMessage}`,
-		);
-		if (error instanceof Error && error.stack) {
-			Logger.log(error.stack);
-		}
-	}
-	return newRows;
-}
-
-// シートのヘッダーを設定する関数
-function setupSheetHeaders(sheet: GoogleAppsScript.Spreadsheet.Sheet) {
-	const headers = [
-		"取得日時",
-		"ハッシュタグ",
-		"動画ID",
-		"動画カテゴリ",
-		"動画タイトル",
-		"動画URL",
-		"チャンネル名",
-		"チャンネル登録者数",
-		"動画公開日",
-		"動画の説明",
-		"視聴回数",
-		"いいね数",
-		"コメント数",
-	];
-
-	// ヘッダーが既に設定されているかチェック
-	const range = sheet.getRange(1, 1, 1, headers.length);
-	const existingHeaders = range.getValues()[0];
-
-	if (existingHeaders[0] !== headers[0]) {
-		range.setValues([headers]);
-		// ヘッダー行を固定
-		sheet.setFrozenRows(1);
-		// ヘッダーを太字に
-		range.setFontWeight("bold");
-		// 列幅を自動調整
-		sheet.autoResizeColumns(1, headers.length);
+// ライブ配信の状態を返す関数（ライブ配信でない動画は "なし"）
+function getLiveBroadcastStatus(
+	video: GoogleAppsScript.YouTube.Schema.Video,
+): string {
+	switch (video.snippet?.liveBroadcastContent) {
+		case "live":
+			return "配信中";
+		case "upcoming":
+			return "配信予定";
 	}
+	return video.liveStreamingDetails?.actualEndTime ? "配信済み" : "なし";
 }
 
-// ハッシュタグで動画を検索する関数
-async function searchVideosByHashtag(
+// 動画IDの一覧から動画の詳細とチャンネル情報を取得し、行データに整形する関数
+export function buildVideoRows(
+	videoIds: string[],
 	hashtag: string,
-	sheet: GoogleAppsScript.Spreadsheet.Sheet,
-) {
-	Logger.log(
-		`searchVideosByHashtag: ハッシュタグ「${hashtag}」で動画を検索中...`,
+	fetchTime: Date,
+): { rows: VideoRecord[]; errors: ApiErrorReport[] } {
+	const rows: VideoRecord[] = [];
+	const errors: ApiErrorReport[] = [];
+
+	// Videos APIも分割して呼び出し（50件ずつ）
+	// contentDetails は再生時間、player は縦横比、liveStreamingDetails は配信済みかの判定に使用する
+	const videoFetch = fetchVideosByIds(
+		videoIds,
+		"snippet,statistics,contentDetails,player,liveStreamingDetails",
+		{
+			hashtag,
+			params: { maxHeight: 720 },
+			logPrefix: "buildVideoRows",
+		},
 	);
-	try {
-		const publishedAfterISO = new Date(
-			Date.now() - 365 * 24 * 60 * 60 * 1000,
-		).toISOString();
-
-		const newRows = await fetchYouTubeVideoData(hashtag, publishedAfterISO);
-
-		if (newRows.length > 0) {
-			const lastRow = sheet.getLastRow();
-			sheet
-				.getRange(lastRow + 1, 1, newRows.length, newRows[0].length)
-				.setValues(newRows);
-			Logger.log(
-				`searchVideosByHashtag: ハッシュタグ「${hashtag}」の動画を ${newRows.length} 件追加しました。`,
-			);
-		} else {
-			Logger.log(
-				`searchVideosByHashtag: ハッシュタグ「${hashtag}」で追加する新しい動画はありませんでした。`,
-			);
+	errors.push(...videoFetch.errors);
+	const allVideos = videoFetch.videos;
+
+	if (allVideos.length === 0) {
+		logWarn("buildVideoRows", "動画の詳細情報を取得できませんでした。", {
+			hashtag,
+		});
+		return { rows, errors };
+	}
+
+	// チャンネル情報は50件ずつ取得し、実行中はキャッシュを共有する
+	const channelResolution = resolveChannels(
+		allVideos.map((video) => video.snippet?.channelId),
+		hashtag,
+	);
+	errors.push(...channelResolution.errors);
+	const channelInfoMap = channelResolution.channels;
+	const keywordOnlyMatchRule = getKeywordOnlyMatchRule();
+	let skippedKeywordOnly = 0;
+
+	for (const video of allVideos) {
+		if (!video.id || !video.snippet) continue;
+
+		const channelId = video.snippet.channelId;
+		const channelInfo = channelId ? channelInfoMap.get(channelId) : null;
+
+		const videoId = video.id;
+		const stats = video.statistics || {
+			viewCount: "0",
+			likeCount: "0",
+			commentCount: "0",
+		};
+		const publishedAt = video.snippet.publishedAt;
+
+		if (!publishedAt) {
+			logWarn("buildVideoRows", `公開日がないためスキップ: ${videoId}`, {
+				hashtag,
+			});
+			continue;
 		}
-	} catch (error: unknown) {
-		const errorMessage = error instanceof Error ? error.message : String(error);
-		Logger.log(
-			`searchVideosByHashtag: エラーが発生しました (ハッシュタグ: ${hashtag}): ${errorMessage}`,
+
+		// 検索語として一致しただけの動画は、設定に応じて記録しない
+		const matchType = getHashtagMatchType(
+			{
+				title: video.snippet.title || "",
+				description: video.snippet.description || "",
+				tags: video.snippet.tags || [],
+			},
+			hashtag,
 		);
-		if (error instanceof Error && error.stack) {
-			Logger.log(error.stack);
+		if (
+			matchType === "キーワードのみ" &&
+			keywordOnlyMatchRule === "記録しない"
+		) {
+			skippedKeywordOnly++;
+			continue;
 		}
+
+		const classification = classifyVideoType(video);
+
+		rows.push({
+			fetchedAt: fetchTime,
+			hashtag,
+			videoId,
+			category: classification.category,
+			title: video.snippet.title || "タイトルなし",
+			url: `https://www.youtube.com/watch?v=${videoId}`,
+			channelName: channelInfo?.title || "不明",
+			subscriberCount:
+				Number.parseInt(channelInfo?.subscriberCount || "0", 10) || 0,
+			publishedAt: new Date(publishedAt),
+			description: video.snippet.description || "",
+			viewCount: Number.parseInt(stats.viewCount || "0", 10) || 0,
+			likeCount: Number.parseInt(stats.likeCount || "0", 10) || 0,
+			commentCount: Number.parseInt(stats.commentCount || "0", 10) || 0,
+			classificationReason: classification.reason,
+			durationSeconds: classification.durationSeconds ?? "",
+			statsUpdatedAt: fetchTime,
+			status: "公開中",
+			channelId: channelId || "",
+			tags: (video.snippet.tags || []).join(", "),
+			thumbnailUrl: getThumbnailUrl(video.snippet.thumbnails),
+			defaultLanguage:
+				video.snippet.defaultLanguage ||
+				video.snippet.defaultAudioLanguage ||
+				"",
+			liveBroadcast: getLiveBroadcastStatus(video),
+			descriptionHashtags: extractHashtags(
+				video.snippet.description || "",
+			).join(" "),
+			matchType,
+		});
 	}
+	if (skippedKeywordOnly > 0) {
+		logInfo(
+			"buildVideoRows",
+			`ハッシュタグ「${hashtag}」が付いていない動画 ${skippedKeywordOnly}件を記録しませんでした。`,
+			{ hashtag, count: skippedKeywordOnly },
+		);
+	}
+	return { rows, errors };
 }
 
 // 重複する動画を削除する関数（最新のデータを残す）
-function removeDuplicateVideos(sheet: GoogleAppsScript.Spreadsheet.Sheet) {
-	const lastRow = sheet.getLastRow();
-	if (lastRow <= 1) return; // ヘッダーのみの場合はスキップ
-
-	// ヘッダーを除く全データを取得
-	const dataRange = sheet.getDataRange();
-	const data = dataRange.getValues();
-	const headers = data[0]; // ヘッダー行を取得
-
-	// データ部分のみを処理（ヘッダーを除外）
-	const rows = data.slice(1);
+export function removeDuplicateVideos(sheet: GoogleAppsScript.Spreadsheet.Sheet) {
+	const schema = getVideoSheetSchema();
+	const rows = readSheetRecords(sheet, schema);
+	if (rows.length === 0) return; // ヘッダーのみの場合はスキップ
+
+	// 複数のハッシュタグで見つかった動画の行を削除しても、どのハッシュタグで見つかったかは残す
+	recordVideoHashtags(
+		sheet.getParent(),
+		rows.map((row) => ({
+			videoId: row.videoId,
+			hashtag: row.hashtag,
+			seenAt: new Date(row.fetchedAt),
+		})),
+	);
 
-	// 日付で降順にソート（0列目が日付）
-	rows.sort((a, b) => new Date(b[0]).getTime() - new Date(a[0]).getTime());
+	// 取得日時の降順にソート
+	rows.sort(
+		(a, b) => new Date(b.fetchedAt).getTime() - new Date(a.fetchedAt).getTime(),
+	);
 
 	// 動画IDをキーとして、最新の行を保持
-	const videoMap = new Map();
-
+	const videoMap = new Map<string, VideoRecord>();
 	for (const row of rows) {
-		const videoId = row[2]; // C列: 動画ID
-		if (!videoMap.has(videoId)) {
-			videoMap.set(videoId, row);
+		if (!videoMap.has(row.videoId)) {
+			videoMap.set(row.videoId, row);
 		}
 	}
 
-	// 重複を削除したデータを作成（ヘッダーを先頭に追加）
-	const uniqueData = [headers, ...Array.from(videoMap.values())];
-
-	// シートをクリアしてから再書き込み
-	sheet.clearContents();
-	if (uniqueData.length > 0) {
-		sheet
-			.getRange(1, 1, uniqueData.length, uniqueData[0].length)
-			.setValues(uniqueData);
-	}
+	// 重複を削除したデータで書き換える
+	replaceSheetRecords(sheet, schema, Array.from(videoMap.values()));
 
 	const duplicateCount = rows.length - videoMap.size;
 	if (duplicateCount > 0) {
-		Logger.log(`重複する動画を ${duplicateCount} 件削除しました。`);
+		logInfo(
+			"removeDuplicateVideos",
+			`重複する動画を ${duplicateCount} 件削除しました。`,
+			{ count: duplicateCount },
+		);
 	}
 }
 
-// 日次統計を更新する関数（重複削除前の生データから統計を計算）
-async function updateDailyStats() {
-	try {
-		const spreadsheet = SpreadsheetApp.openById(SPREADSHEET_ID);
-
-		const STATS_SHEET_NAME = "日次統計";
-		const statsSheet = getOrCreateSheet(spreadsheet, STATS_SHEET_NAME);
-
-		// ヘッダーを設定
-		if (statsSheet.getLastRow() === 0) {
-			const headers = [
-				"日付",
-				"ハッシュタグ",
-				"動画タイプ",
-				"動画数",
-				"チャンネル数",
-				"総再生回数",
-			];
-			statsSheet.getRange(1, 1, 1, headers.length).setValues([headers]);
+// 日次統計を更新する関数
+// 積み上げシートに記録済みの当日分のデータから計算し、YouTube API は呼び出さない
+export async function updateDailyStats() {
+	runLogged("updateDailyStats", () => {
+		const spreadsheet = SpreadsheetApp.openById(getSpreadsheetId());
+		const stackSheet = spreadsheet.getSheetByName(STACK_SHEET_NAME);
+		if (!stackSheet || stackSheet.getLastRow() <= 1) {
+			logWarn("updateDailyStats", "積み上げシートにデータがありません。");
+			return;
 		}
 
-		const today = new Date();
-		today.setHours(0, 0, 0, 0);
-		const todayStr = Utilities.formatDate(today, "Asia/Tokyo", "yyyy/MM/dd");
-
-		// 重複削除前の生データを取得するため、各ハッシュタグで直接YouTube APIを呼び出し
-		const publishedAfterISO = new Date(
-			Date.now() - 365 * 24 * 60 * 60 * 1000,
-		).toISOString();
-		
-		const allRawData: FormattedVideoData[] = [];
-		
-		// 各ハッシュタグから生データを取得
-		for (const hashtag of TARGET_HASHTAGS) {
-			Logger.log(`updateDailyStats: ハッシュタグ「${hashtag}」の生データを取得中...`);
-			const rawData = await fetchYouTubeVideoData(hashtag, publishedAfterISO);
-			allRawData.push(...rawData);
+		const today = formatStatsDate(new Date());
+		const hashtags = getEnabledHashtagConfigs(spreadsheet).map(
+			(config) => config.hashtag,
+		);
+		const { stats, topMovers, history } = writeDailyStatsFromSnapshots(
+			spreadsheet,
+			stackSheet,
+			hashtags,
+			[today],
+		);
+		if (stats.length === 0) {
+			logWarn(
+				"updateDailyStats",
+				"積み上げシートに当日のデータがありません。dailyUpdate または appendDailySnapshot の後に実行してください。",
+			);
+			return;
 		}
+		addRowsWritten(stats.length + topMovers.length);
+		for (const record of stats) {
+			logInfo(
+				"updateDailyStats",
+				`${record.hashtag} ${record.videoType} - 動画数:${record.videoCount}, チャンネル数:${record.channelCount}, 総再生回数:${record.totalViews}, 新規動画数:${record.newVideoCount}, 再生回数の前日比:${record.viewDelta}, エンゲージメント率:${record.engagementRate}, 再生回数の中央値:${record.medianViews}, 新規チャンネル数:${record.newChannelCount}`,
+				{ hashtag: record.hashtag, count: record.videoCount },
+			);
+		}
+		logInfo(
+			"updateDailyStats",
+			`急上昇に${topMovers.length}件の動画を記録しました。`,
+			{ count: topMovers.length },
+		);
+		logInfo(
+			"updateDailyStats",
+			`日次統計を更新しました（${today}、積み上げシートのデータを使用）。`,
+			{ count: stats.length },
+		);
+
+		logAlertDelivery(
+			"updateDailyStats",
+			runAlerts(spreadsheet, history, hashtags, today),
+		);
+	});
+}
 
-		if (allRawData.length === 0) {
-			Logger.log("updateDailyStats: 統計計算用のデータが見つかりませんでした。");
+// アラートの送信結果をログに出力する関数
+function logAlertDelivery(jobName: string, result: AlertDeliveryResult) {
+	if (result.failed) {
+		logError(
+			jobName,
+			"アラートを送信できませんでした。次回の実行で再送します。",
+		);
+		return;
+	}
+	addRowsWritten(result.sent.length);
+	logInfo(
+		jobName,
+		`アラート ${result.sent.length}件を送信しました（送信先: ${result.destinations.join(", ") || "なし"}、送信済みのため省略: ${result.duplicateCount}件）。`,
+		{ count: result.sent.length },
+	);
+}
+
+// 積み上げシートの当日分からアラートを判定して送信する関数（updateDailyStats の後に手動で確認する場合）
+// 送信済みのアラートは送らない
+function checkAlerts() {
+	runLogged("checkAlerts", () => {
+		const spreadsheet = getOrCreateSpreadsheet();
+		const stackSheet = spreadsheet.getSheetByName(STACK_SHEET_NAME);
+		if (!stackSheet || stackSheet.getLastRow() <= 1) {
+			logWarn("checkAlerts", "積み上げシートにデータがありません。");
 			return;
 		}
 
-		Logger.log(`updateDailyStats: ${allRawData.length}件の生データから統計を計算します。`);
-
-		// 各ハッシュタグと動画タイプごとに統計を計算（重複削除前のデータを使用）
-		for (const hashtag of TARGET_HASHTAGS) {
-			// 通常動画の統計
-			const regularVideos = allRawData.filter(
-				(row) => row[1] === hashtag && row[3] === "通常",
-			);
+		const hashtags = getEnabledHashtagConfigs(spreadsheet).map(
+			(config) => config.hashtag,
+		);
+		const history = loadSnapshotHistory(spreadsheet, stackSheet);
+		logAlertDelivery(
+			"checkAlerts",
+			runAlerts(spreadsheet, history, hashtags, formatStatsDate(new Date())),
+		);
+	});
+}
 
-			// 通常動画の統計を常に出力（動画がなくても0で出力）
-			const regularChannelCount = new Set(regularVideos.map((row) => row[6]))
-				.size; // チャンネル名でユニークカウント
-			const regularTotalViews = regularVideos.reduce(
-				(sum, row) => sum + (row[10] || 0),
-				0,
-			);
+// 積み上げシートに記録があるすべての日付について日次統計を計算し直す関数（過去分の補完）
+function backfillDailyStats() {
+	runLogged("backfillDailyStats", () => {
+		const spreadsheet = getOrCreateSpreadsheet();
+		const stackSheet = spreadsheet.getSheetByName(STACK_SHEET_NAME);
+		if (!stackSheet || stackSheet.getLastRow() <= 1) {
+			logWarn("backfillDailyStats", "積み上げシートにデータがありません。");
+			return;
+		}
 
-			statsSheet.appendRow([
-				todayStr,
-				hashtag,
-				"通常",
-				regularVideos.length,
-				regularChannelCount,
-				regularTotalViews,
-			]);
+		const hashtags = getEnabledHashtagConfigs(spreadsheet).map(
+			(config) => config.hashtag,
+		);
+		const { stats, topMovers } = writeDailyStatsFromSnapshots(
+			spreadsheet,
+			stackSheet,
+			hashtags,
+		);
+		addRowsWritten(stats.length + topMovers.length);
+		const dates = new Set(stats.map((record) => record.date));
+		logInfo(
+			"backfillDailyStats",
+			`${dates.size}日分の日次統計（${stats.length}行）と急上昇（${topMovers.length}行）を書き込みました。`,
+			{ days: dates.size, count: stats.length + topMovers.length },
+		);
+	});
+}
 
-			Logger.log(`updateDailyStats: ${hashtag} 通常動画 - 動画数:${regularVideos.length}, チャンネル数:${regularChannelCount}, 総再生回数:${regularTotalViews}`);
+// 積み上げシートから動画ごとの推移表を作成する関数（必要なときに手動で実行する）
+function buildVideoTimeSeries() {
+	runLogged("buildVideoTimeSeries", () => {
+		const spreadsheet = getOrCreateSpreadsheet();
+		const stackSheet = spreadsheet.getSheetByName(STACK_SHEET_NAME);
+		if (!stackSheet || stackSheet.getLastRow() <= 1) {
+			logWarn("buildVideoTimeSeries", "積み上げシートにデータがありません。");
+			return;
+		}
 
-			// ショート動画の統計
-			const shortVideos = allRawData.filter(
-				(row) => row[1] === hashtag && row[3] === "ショート",
+		for (const result of writeVideoTimeSeries(spreadsheet, stackSheet)) {
+			addRowsWritten(result.videoCount);
+			logInfo(
+				"buildVideoTimeSeries",
+				`「${result.sheetName}」に${result.videoCount}件の動画の推移（${result.dateCount}日分）を書き込みました。`,
+				{ count: result.videoCount, days: result.dateCount },
 			);
+		}
+	});
+}
 
-			// ショート動画の統計を常に出力（動画がなくても0で出力）
-			const shortChannelCount = new Set(shortVideos.map((row) => row[6])).size;
-			const shortTotalViews = shortVideos.reduce(
-				(sum, row) => sum + (row[10] || 0),
-				0,
-			);
+// 積み上げシートを保持方針に従って間引き、古い行を年ごとのアーカイブに移す関数
+// 日次統計は間引く前の日付で計算済みのため、updateDailyStats の後に実行する
+function compactStack() {
+	runLogged("compactStack", () => {
+		// main・dailyUpdate と同時に積み上げシートを書き換えないよう、スクリプトロックを取得して実行する
+		runWithJobLock("compactStack", () => {
+			const spreadsheet = getOrCreateSpreadsheet();
+			const stackSheet = spreadsheet.getSheetByName(STACK_SHEET_NAME);
+			if (!stackSheet || stackSheet.getLastRow() <= 1) {
+				logWarn("compactStack", "積み上げシートにデータがありません。");
+				return;
+			}
 
-			statsSheet.appendRow([
-				todayStr,
-				hashtag,
-				"ショート",
-				shortVideos.length,
-				shortChannelCount,
-				shortTotalViews,
-			]);
+			const policy = getStackRetentionPolicy();
+			const result = compactStackSheet(stackSheet, policy);
+			addRowsWritten(result.archivedRows);
+			for (const archive of result.archives) {
+				logInfo(
+					"compactStack",
+					archive.skippedRows > 0
+						? `${archive.year}年の${archive.rows}行をアーカイブ（${archive.spreadsheetId}）に移しました（アーカイブ済みの${archive.skippedRows}行は追加しませんでした）。`
+						: `${archive.year}年の${archive.rows}行をアーカイブ（${archive.spreadsheetId}）に移しました。`,
+					{ count: archive.rows },
+				);
+			}
+			logInfo(
+				"compactStack",
+				`残した行 ${result.keptRows}件、間引いた行 ${result.removedRows}件、アーカイブした行 ${result.archivedRows}件、説明を空欄にした行 ${result.clearedDescriptions}件（毎日: ${policy.dailyDays}日、週ごと: ${policy.weeklyDays}日、アーカイブ: ${policy.archiveDays}日より前）`,
+				{ count: result.removedRows + result.archivedRows },
+			);
+		});
+	});
+}
 
-			Logger.log(`updateDailyStats: ${hashtag} ショート動画 - 動画数:${shortVideos.length}, チャンネル数:${shortChannelCount}, 総再生回数:${shortTotalViews}`);
+// シートごとのセル使用量を「セル使用量」シートとログに出力する関数
+function reportCellUsage() {
+	runLogged("reportCellUsage", () => {
+		const spreadsheet = getOrCreateSpreadsheet();
+		const usages = writeCellUsageReport(spreadsheet);
+		addRowsWritten(usages.length);
+		for (const usage of usages) {
+			logInfo(
+				"reportCellUsage",
+				`${usage.sheetName} - ${usage.rowCount}行 × ${usage.columnCount}列 = ${usage.cellCount}セル（上限の${(usage.usageRate * 100).toFixed(2)}%）`,
+				{ count: usage.cellCount },
+			);
 		}
+	});
+}
 
-		// ソート（日付の降順、ハッシュタグ、動画タイプ）
-		statsSheet.getRange(2, 1, statsSheet.getLastRow() - 1, 6).sort([
-			{ column: 1, ascending: false },
-			{ column: 2, ascending: true },
-			{ column: 3, ascending: true },
-		]);
+// 追跡中の動画に付いているハッシュタグを集計し、追加候補を「ハッシュタグ候補」シートとログに出力する関数
+function reportHashtagDiscovery() {
+	runLogged("reportHashtagDiscovery", () => {
+		const spreadsheet = getOrCreateSpreadsheet();
+		const mainSheet = spreadsheet.getSheetByName(SHEET_NAME);
+		if (!mainSheet || mainSheet.getLastRow() <= 1) {
+			logWarn("reportHashtagDiscovery", "メインシートにデータがありません。");
+			return;
+		}
+		const hashtags = getEnabledHashtagConfigs(spreadsheet).map(
+			(config) => config.hashtag,
+		);
 
-		Logger.log("日次統計を更新しました（重複削除前の生データを使用）。");
-	} catch (error) {
-		const errorMessage = error instanceof Error ? error.message : String(error);
-		Logger.log(`Error in updateDailyStats: ${errorMessage}`);
-		if (error instanceof Error && error.stack) {
-			Logger.log(error.stack);
+		const records = writeHashtagDiscoveryReport(
+			spreadsheet,
+			mainSheet,
+			hashtags,
+		);
+		addRowsWritten(records.length);
+		const suggested = records.filter((record) => record.suggested);
+		for (const record of suggested) {
+			logInfo(
+				"reportHashtagDiscovery",
+				`追加候補 ${record.hashtag} - 直近7日 ${record.recent7Days}件（前の7日 ${record.previous7Days}件）、共起 ${record.cooccurrence}`,
+				{ hashtag: record.hashtag, count: record.recent7Days },
+			);
 		}
-	}
+		logInfo(
+			"reportHashtagDiscovery",
+			`${records.length}件のハッシュタグを集計しました（追加候補 ${suggested.length}件）。`,
+			{ count: records.length },
+		);
+	});
 }
 
-// ヘッダー名から列番号を取得する関数
-function getColumnIndexByHeader(
-	sheet: GoogleAppsScript.Spreadsheet.Sheet,
-	headerText: string,
-): number {
-	const headers = sheet.getRange(1, 1, 1, sheet.getLastColumn()).getValues()[0];
-	const index = headers.findIndex((header) => header === headerText);
-	if (index === -1) {
-		throw new Error(`ヘッダー "${headerText}" が見つかりませんでした`);
-	}
-	return index;
+// 各シートを CSV・NDJSON で Google ドライブのフォルダに書き出す関数
+function exportTrackedData() {
+	runLogged("exportTrackedData", () => {
+		const spreadsheet = getOrCreateSpreadsheet();
+		for (const result of exportSheetsToDrive(spreadsheet)) {
+			logInfo(
+				"exportTrackedData",
+				`${result.fileName} に${result.rows}行を書き出しました。`,
+				{ count: result.rows },
+			);
+		}
+	});
 }
 
-// チャンネル登録者数の履歴を記録する関数
-// 毎日実行され、すべてのユニークなチャンネルの登録者数を記録する
-function updateSubscriberHistory() {
-	const SHEET_NAME = "チャンネル登録者数履歴";
-	const spreadsheet = SpreadsheetApp.openById(SPREADSHEET_ID);
-	let sheet = spreadsheet.getSheetByName(SHEET_NAME);
-
-	// シートが存在しない場合は作成
-	if (!sheet) {
-		sheet = spreadsheet.insertSheet(SHEET_NAME);
-		sheet.appendRow([
-			"日付",
-			"チャンネルタイトル",
-			"チャンネル登録者数",
-			"視聴回数",
-		]);
-	} else if (sheet.getLastRow() === 0) {
-		// シートが空の場合はヘッダーを追加
-		sheet.appendRow([
-			"日付",
-			"チャンネルタイトル",
-			"チャンネル登録者数",
-			"視聴回数",
-		]);
-	}
-
-	// メインのシートからデータを取得
-	const mainSheet = spreadsheet.getSheetByName("YouTubeハッシュタグ分析");
-	if (!mainSheet) {
-		Logger.log("メインのシートが見つかりませんでした");
-		return;
-	}
+// exportTrackedData で書き出したファイルから各シートを書き換える関数（初期データの投入・復元用）
+function importTrackedData() {
+	runLogged("importTrackedData", () => {
+		const spreadsheet = getOrCreateSpreadsheet();
+		const results = importSheetsFromDrive(spreadsheet);
+		for (const result of results) {
+			addRowsWritten(result.rows);
+			logInfo(
+				"importTrackedData",
+				`${result.fileName} から${result.rows}行を読み込みました。`,
+				{ count: result.rows },
+			);
+		}
+		if (results.length === 0) {
+			logWarn("importTrackedData", "読み込むファイルがありませんでした。");
+		}
+	});
+}
 
-	// ヘッダーから列番号を取得
-	const channelTitleCol = getColumnIndexByHeader(mainSheet, "チャンネル名");
-	const subscriberCountCol = getColumnIndexByHeader(
-		mainSheet,
-		"チャンネル登録者数",
-	);
-	const viewCountCol = getColumnIndexByHeader(mainSheet, "視聴回数");
+// 日次統計・積み上げ・チャンネル登録者数履歴から期間のまとめを作り、メール（と Google ドキュメント）で届ける関数
+function runSummaryReport(functionName: string, frequency: ReportFrequency) {
+	runLogged(functionName, () => {
+		const spreadsheet = getOrCreateSpreadsheet();
+		const stackSheet = spreadsheet.getSheetByName(STACK_SHEET_NAME);
+		if (!stackSheet || stackSheet.getLastRow() <= 1) {
+			logWarn(functionName, "積み上げシートにデータがありません。");
+			return;
+		}
 
-	// データを取得（ヘッダー行を除く）
-	const data = mainSheet
-		.getRange(2, 1, mainSheet.getLastRow() - 1, mainSheet.getLastColumn())
-		.getValues();
+		const hashtags = getEnabledHashtagConfigs(spreadsheet).map(
+			(config) => config.hashtag,
+		);
+		const result = sendSummaryReport(
+			spreadsheet,
+			stackSheet,
+			hashtags,
+			getReportPeriod(frequency),
+		);
+		if (!result) {
+			logWarn(functionName, "日次統計シートにデータがありません。");
+			return;
+		}
+		const { report, recipients, documentUrl } = result;
+		logInfo(
+			functionName,
+			`${report.period.label}レポート（${report.startDate}〜${report.endDate}、${report.hashtags.length}件のハッシュタグ）を作成しました（メール: ${recipients || "なし"}、ドキュメント: ${documentUrl || "なし"}）。`,
+			{ count: report.hashtags.length },
+		);
+	});
+}
 
-	// チャンネルごとの最新の登録者数と視聴回数の合計を保持するマップ
-	const channelMap = new Map<
-		string,
-		{ title: string; count: number; viewCount: number }
-	>();
+// 直近7日のまとめを届ける関数（毎週月曜に実行する）
+function generateWeeklyReport() {
+	runSummaryReport("generateWeeklyReport", "weekly");
+}
 
-	// データを処理して、各チャンネルの最新の登録者数を取得
-	for (const row of data) {
-		const channelTitle = row[channelTitleCol];
-		const subscriberCount = row[subscriberCountCol];
-		const viewCount = row[viewCountCol];
+// 直近30日のまとめを届ける関数（毎月1日に実行する）
+function generateMonthlyReport() {
+	runSummaryReport("generateMonthlyReport", "monthly");
+}
 
-		if (
-			channelTitle &&
-			typeof subscriberCount === "number" &&
-			!Number.isNaN(subscriberCount)
-		) {
-			const currentViewCount =
-				typeof viewCount === "number" && !Number.isNaN(viewCount)
-					? viewCount
-					: 0;
-
-			const existing = channelMap.get(channelTitle);
-			if (existing) {
-				// 既存のチャンネルの場合、視聴回数を加算
-				// 登録者数は最新の値で更新
-				if (subscriberCount > existing.count) {
-					existing.count = subscriberCount;
-				}
-				existing.viewCount += currentViewCount;
-			} else {
-				// 新しいチャンネルの場合、新規に追加
-				channelMap.set(channelTitle, {
-					title: channelTitle,
-					count: subscriberCount,
-					viewCount: currentViewCount,
-				});
+// チャンネル登録者数の履歴を記録する関数
+// 毎日実行され、メインシートの動画のチャンネルごとに Channels.list の統計を記録する
+export function updateSubscriberHistory() {
+	runLogged("updateSubscriberHistory", () => {
+		beginQuotaRun("updateSubscriberHistory");
+		try {
+			const spreadsheet = SpreadsheetApp.openById(getSpreadsheetId());
+
+			// メインのシートからデータを取得
+			const mainSheet = spreadsheet.getSheetByName(SHEET_NAME);
+			if (!mainSheet) {
+				logWarn(
+					"updateSubscriberHistory",
+					"メインのシートが見つかりませんでした",
+				);
+				return;
 			}
-		}
-	}
 
-	// 現在の日時を取得
-	const now = new Date();
-
-	// マップのデータを行に変換
-	const rows = Array.from(channelMap.entries()).map(([_, channel]) => [
-		now, // 日付
-		channel.title, // チャンネルタイトル
-		Math.floor(channel.count), // 登録者数（整数に丸める）
-		Math.floor(channel.viewCount), // 視聴回数の合計（整数に丸める）
-	]);
-
-	// データをシートに追加
-	if (rows.length > 0) {
-		sheet
-			.getRange(sheet.getLastRow() + 1, 1, rows.length, rows[0].length)
-			.setValues(rows);
-
-		// データを日付の降順、チャンネルタイトルの昇順でソート
-		const range = sheet.getDataRange();
-		range.sort([
-			{ column: 1, ascending: false }, // 日付（新しい順）
-			{ column: 2, ascending: true }, // チャンネルタイトル（昇順）
-		]);
-
-		// ヘッダーを太字に
-		const headerRange = sheet.getRange(1, 1, 1, 3);
-		headerRange.setFontWeight("bold");
-
-		// 列幅を自動調整
-		sheet.autoResizeColumns(1, 4);
-
-		Logger.log(`${rows.length}件のチャンネル登録者数を記録しました`);
-	}
-}
+			// チャンネルID列がない古いシートでも最新の列構成に移行してから読み込む
+			ensureSheetSchema(mainSheet, getVideoSheetSchema());
 
-// ハッシュタグで動画を検索してシートに追加する関数
-async function searchAndAppendVideos(
-	hashtag: string,
-	sheet: GoogleAppsScript.Spreadsheet.Sheet,
-) {
-	Logger.log(
-		`searchAndAppendVideos: ハッシュタグ「${hashtag}」で動画を検索中...`,
-	);
-	try {
-		const publishedAfterISO = new Date(
-			Date.now() - 365 * 24 * 60 * 60 * 1000,
-		).toISOString();
-
-		const newRows = await fetchYouTubeVideoData(hashtag, publishedAfterISO);
-
-		if (newRows.length > 0) {
-			const lastRow = sheet.getLastRow();
-			sheet
-				.getRange(lastRow + 1, 1, newRows.length, newRows[0].length)
-				.setValues(newRows);
-			Logger.log(
-				`searchAndAppendVideos: ハッシュタグ「${hashtag}」の動画を ${newRows.length} 件追加しました。`,
+			const { recorded, errors } = recordSubscriberHistory(
+				spreadsheet,
+				mainSheet,
 			);
-		} else {
-			Logger.log(
-				`searchAndAppendVideos: ハッシュタグ「${hashtag}」で追加する新しい動画はありませんでした。`,
+			addRowsWritten(recorded);
+			logApiErrors("updateSubscriberHistory", errors);
+			logUnresolvedChannels("updateSubscriberHistory");
+			logInfo(
+				"updateSubscriberHistory",
+				`${recorded}件のチャンネル登録者数を記録しました`,
+				{ count: recorded },
 			);
+		} finally {
+			flushQuotaLedger();
+			logQuotaSummary();
 		}
-	} catch (error) {
-		Logger.log(
-			`searchAndAppendVideos: エラーが発生しました (ハッシュタグ: ${hashtag}): ${error}`,
-		);
-		if (error instanceof Error && error.stack) {
-			Logger.log(error.stack);
-		}
-	}
+	});
 }
 
-// 当日分のデータ内で重複を削除する関数
-function removeDailyDuplicates(sheet: GoogleAppsScript.Spreadsheet.Sheet) {
+// 当日分のデータ内で重複を削除する関数（シートは最新の列構成に移行済みである必要がある）
+// 残す行をメモリ上で決め、当日の最初の行以降だけを1回の書き込みで書き換えて余った行を削除する
+export function removeDailyDuplicates(sheet: GoogleAppsScript.Spreadsheet.Sheet) {
 	const today = new Date();
 	today.setHours(0, 0, 0, 0);
 
-	const data = sheet.getDataRange().getValues();
-	const header = data[0];
-	const videoIdIndex = header.indexOf("動画ID");
-	const dateIndex = header.indexOf("取得日時");
+	const schema = getVideoSheetSchema();
+	const rows = readSheetRecords(sheet, schema);
+	const isTodayRow = (row: VideoRecord) =>
+		new Date(row.fetchedAt).getTime() >= today.getTime();
 
-	if (videoIdIndex === -1 || dateIndex === -1) {
-		Logger.log("必要なカラムが見つかりませんでした。");
+	const firstTodayIndex = rows.findIndex(isTodayRow);
+	if (firstTodayIndex === -1 || rows.filter(isTodayRow).length <= 1) {
+		logDebug(
+			"removeDailyDuplicates",
+			"重複チェックの必要なし: 当日のデータが1件以下です。",
+		);
 		return;
 	}
 
-	// 当日のデータのみを抽出
-	const todayData = data.filter((row, index) => {
-		if (index === 0) return false; // ヘッダーをスキップ
-		const rowDate = new Date(row[dateIndex]);
-		return rowDate >= today;
+	// 動画IDごとに、当日の行のうち取得日時が最新の行を残す（同じ場合は後の行）
+	const latestIndexes = new Map<string, number>();
+	rows.forEach((row, index) => {
+		if (!isTodayRow(row)) return;
+		const latestIndex = latestIndexes.get(row.videoId);
+		if (
+			latestIndex === undefined ||
+			new Date(row.fetchedAt).getTime() >=
+				new Date(rows[latestIndex].fetchedAt).getTime()
+		) {
+			latestIndexes.set(row.videoId, index);
+		}
 	});
+	const keptIndexes = new Set(latestIndexes.values());
 
-	if (todayData.length <= 1) {
-		Logger.log("重複チェックの必要なし: 当日のデータが1件以下です。");
+	// 前日以前の行は、当日の行の間にあっても順序を保ったまま残す
+	const block = rows.slice(firstTodayIndex);
+	const survivors = block.filter(
+		(row, offset) =>
+			!isTodayRow(row) || keptIndexes.has(firstTodayIndex + offset),
+	);
+	const duplicateCount = block.length - survivors.length;
+	if (duplicateCount === 0) {
+		logDebug("removeDailyDuplicates", "重複する動画は見つかりませんでした。");
 		return;
 	}
 
-	// 重複を検出（動画IDが同じで最新のものだけを残す）
-	const uniqueVideos = new Map();
-	const rowsToDelete: number[] = [];
+	// 当日の最初の行より前は変わらないため、それ以降のブロックだけを書き換える
+	const firstRow = firstTodayIndex + 2; // ヘッダー行の次から
+	sheet
+		.getRange(firstRow, 1, survivors.length, getSchemaHeaders(schema).length)
+		.setValues(survivors.map((row) => toSheetRow(schema, row)));
+	sheet.deleteRows(firstRow + survivors.length, duplicateCount);
+
+	logInfo(
+		"removeDailyDuplicates",
+		`${duplicateCount} 件の重複動画を削除しました。`,
+		{ count: duplicateCount },
+	);
+}
 
-	// データを逆順に処理して、同じ動画IDの最初の出現（最新）を保持
-	for (let i = todayData.length - 1; i >= 0; i--) {
-		const row = todayData[i];
-		const videoId = row[videoIdIndex];
+// 日次更新を実行する関数
+async function dailyUpdate() {
+	runLogged("dailyUpdate", () => {
+		beginJobRun();
+		executeDiscoveryJob("dailyUpdate");
+	});
+}
 
-		if (!uniqueVideos.has(videoId)) {
-			uniqueVideos.set(videoId, i);
-		} else {
-			// 重複している行は削除対象
-			const originalRowIndex = uniqueVideos.get(videoId);
-			const rowDate = new Date(row[dateIndex]);
-			const originalRowDate = new Date(todayData[originalRowIndex][dateIndex]);
-
-			// 日付が新しい方を保持（同じ場合は既存のものを保持）
-			if (rowDate > originalRowDate) {
-				rowsToDelete.push(originalRowIndex);
-				uniqueVideos.set(videoId, i);
-			} else {
-				rowsToDelete.push(i);
+// メインシートのデータを積み上げシートに日次でコピーする関数
+function appendDailySnapshot() {
+	runLogged("appendDailySnapshot", () => {
+		// dailyUpdate・compactStack と同時に積み上げシートに書き込まないよう、スクリプトロックを取得して実行する
+		runWithJobLock("appendDailySnapshot", () => {
+			logDebug("appendDailySnapshot", "積み上げ処理を開始します。");
+			const spreadsheet = getOrCreateSpreadsheet();
+
+			// メインシートから最新データを取得
+			const mainSheet = spreadsheet.getSheetByName(SHEET_NAME);
+			if (!mainSheet || mainSheet.getLastRow() <= 1) {
+				logWarn("appendDailySnapshot", "メインシートにデータがありません。");
+				return;
 			}
-		}
-	}
-
-	// 重複する行を削除（逆順で削除する）
-	if (rowsToDelete.length > 0) {
-		const firstDataRow = sheet.getFrozenRows() + 1;
 
-		// 行番号を降順にソート
-		const sortedRowsToDelete = [...new Set(rowsToDelete)]
-			.map((i) => i + firstDataRow) // 実際の行番号に変換
-			.sort((a, b) => b - a); // 降順にソート
+			// 積み上げシートを取得または作成
+			const stackSheet = getOrCreateSheet(spreadsheet, STACK_SHEET_NAME);
 
-		// 重複行を削除
-		for (const rowNum of sortedRowsToDelete) {
-			sheet.deleteRow(rowNum);
-		}
+			// 両方のシートを最新の列構成にそろえてからコピーする
+			const schema = getVideoSheetSchema();
+			ensureSheetSchema(mainSheet, schema);
+			ensureSheetSchema(stackSheet, schema);
 
-		Logger.log(`${rowsToDelete.length} 件の重複動画を削除しました。`);
-	} else {
-		Logger.log("重複する動画は見つかりませんでした。");
-	}
-}
+			// メインシートの全データを取得
+			const dataRows = readSheetRecords(mainSheet, schema);
 
-// 日次更新を実行する関数
-async function dailyUpdate() {
-	try {
-		// スプレッドシートを取得または作成
-		const spreadsheet = getOrCreateSpreadsheet();
-		const sheet = getOrCreateSheet(
-			spreadsheet,
-			"YouTubeハッシュタグ分析_積み上げ",
-		);
+			if (dataRows.length === 0) {
+				logWarn("appendDailySnapshot", "メインシートにデータ行がありません。");
+				return;
+			}
 
-		// ヘッダーを設定
-		setupSheetHeaders(sheet);
+			// 今日の日付でタイムスタンプを更新してデータを追加（動画の説明はメインシートにだけ残す）
+			const today = new Date();
+			const updatedRows = stripSnapshotDescriptions(
+				dataRows.map((row) => ({ ...row, fetchedAt: today })),
+			);
 
-		// 各ハッシュタグに対して検索を実行し、新しい動画を追加
-		for (const hashtag of TARGET_HASHTAGS) {
-			await searchAndAppendVideos(hashtag, sheet);
-		}
+			// 積み上げシートに追加
+			appendSheetRecords(stackSheet, schema, updatedRows);
+			addRowsWritten(updatedRows.length);
 
-		// 当日分のデータ内で重複を削除
-		removeDailyDuplicates(sheet);
+			logInfo(
+				"appendDailySnapshot",
+				`${updatedRows.length}件のデータを積み上げシートに追加しました。`,
+				{ count: updatedRows.length },
+			);
 
-		Logger.log("日次更新が完了しました。");
-	} catch (error) {
-		const errorMessage = error instanceof Error ? error.message : String(error);
-		Logger.log(`Error in dailyUpdate: ${errorMessage}`);
-		if (error instanceof Error && error.stack) {
-			Logger.log(error.stack);
-		}
-	}
+			// 同じ日に dailyUpdate も実行していた場合は、当日分が二重にならないよう重複を削除する
+			removeDailyDuplicates(stackSheet);
+		});
+	});
 }
 
-// メインシートのデータを積み上げシートに日次でコピーする関数
-function appendDailySnapshot() {
-	try {
-		Logger.log("appendDailySnapshot: 積み上げ処理を開始します。");
+// テスト用: 複数のハッシュタグで見つかった動画と、ハッシュタグ別・全体の統計をログに出力する関数
+// メインシートと動画ハッシュタグシートから集計するため、YouTube API は呼び出さない
+async function testDuplicateStats() {
+	runLogged("testDuplicateStats", () => {
+		logInfo("testDuplicateStats", "=== ハッシュタグ別・全体の統計 ===");
+
 		const spreadsheet = getOrCreateSpreadsheet();
-		
-		// メインシートから最新データを取得
 		const mainSheet = spreadsheet.getSheetByName(SHEET_NAME);
 		if (!mainSheet || mainSheet.getLastRow() <= 1) {
-			Logger.log("appendDailySnapshot: メインシートにデータがありません。");
-			return;
-		}
-		
-		// 積み上げシートを取得または作成
-		const stackSheetName = "YouTubeハッシュタグ分析_積み上げ";
-		const stackSheet = getOrCreateSheet(spreadsheet, stackSheetName);
-		
-		// メインシートの全データを取得（ヘッダー含む）
-		const mainData = mainSheet.getDataRange().getValues();
-		const headers = mainData[0];
-		const dataRows = mainData.slice(1);
-		
-		if (dataRows.length === 0) {
-			Logger.log("appendDailySnapshot: メインシートにデータ行がありません。");
+			logWarn("testDuplicateStats", "メインシートにデータがありません。");
 			return;
 		}
-		
-		// 初回の場合はヘッダーを設定
-		if (stackSheet.getLastRow() === 0) {
-			stackSheet.getRange(1, 1, 1, headers.length).setValues([headers]);
-			stackSheet.setFrozenRows(1);
-			stackSheet.getRange(1, 1, 1, headers.length).setFontWeight("bold");
-			stackSheet.autoResizeColumns(1, headers.length);
-			Logger.log("appendDailySnapshot: 積み上げシートにヘッダーを設定しました。");
-		}
-		
-		// 今日の日付でタイムスタンプを更新してデータを追加
-		const today = new Date();
-		const updatedRows = dataRows.map(row => {
-			const newRow = [...row];
-			newRow[0] = today; // 取得日時を今日に更新
-			return newRow;
-		});
-		
-		// 積み上げシートに追加
-		const lastRow = stackSheet.getLastRow();
-		stackSheet.getRange(lastRow + 1, 1, updatedRows.length, updatedRows[0].length)
-				 .setValues(updatedRows);
-		
-		Logger.log(`appendDailySnapshot: ${updatedRows.length}件のデータを積み上げシートに追加しました。`);
-		
-	} catch (error) {
-		const errorMessage = error instanceof Error ? error.message : String(error);
-		Logger.log(`Error in appendDailySnapshot: ${errorMessage}`);
-		if (error instanceof Error && error.stack) {
-			Logger.log(error.stack);
-		}
-	}
-}
+		const schema = getVideoSheetSchema();
+		ensureSheetSchema(mainSheet, schema);
+		const videos = readSheetRecords(mainSheet, schema);
+		const videoHashtags = loadVideoHashtags(spreadsheet);
+		const hashtags = getEnabledHashtagConfigs(spreadsheet).map(
+			(config) => config.hashtag,
+		);
 
-// テスト用: 重複削除前後の統計比較関数
-async function testDuplicateStats() {
-	try {
-		Logger.log("=== 重複削除前後の統計比較テスト開始 ===");
-		
-		const publishedAfterISO = new Date(
-			Date.now() - 365 * 24 * 60 * 60 * 1000,
-		).toISOString();
-		
-		const allRawData: FormattedVideoData[] = [];
-		const duplicateAnalysis = new Map<string, string[]>(); // 動画ID -> ハッシュタグ配列
-		
-		// 各ハッシュタグから生データを取得
-		for (const hashtag of TARGET_HASHTAGS) {
-			Logger.log(`テスト: ハッシュタグ「${hashtag}」の生データを取得中...`);
-			const rawData = await fetchYouTubeVideoData(hashtag, publishedAfterISO);
-			allRawData.push(...rawData);
-			
-			// 重複分析用のデータを収集
-			for (const row of rawData) {
-				const videoId = row[2] as string;
-				const currentHashtag = row[1] as string;
-				
-				if (!duplicateAnalysis.has(videoId)) {
-					duplicateAnalysis.set(videoId, []);
-				}
-				duplicateAnalysis.get(videoId)!.push(currentHashtag);
-			}
-		}
-		
-		Logger.log(`テスト: 生データ総数 ${allRawData.length}件を取得`);
-		
-		// 重複分析結果を出力
-		let duplicateCount = 0;
+		// 複数のハッシュタグで見つかった動画
 		let multiHashtagVideos = 0;
-		
-		for (const [videoId, hashtags] of duplicateAnalysis.entries()) {
-			if (hashtags.length > 1) {
+		for (const [videoId, videoTags] of videoHashtags.entries()) {
+			if (videoTags.length > 1) {
 				multiHashtagVideos++;
-				duplicateCount += hashtags.length - 1;
-				Logger.log(`重複検出: 動画ID=${videoId}, ハッシュタグ=[${hashtags.join(", ")}]`);
+				logDebug(
+					"testDuplicateStats",
+					`複数ハッシュタグ: 動画ID=${videoId}, ハッシュタグ=[${videoTags.join(", ")}]`,
+				);
 			}
 		}
-		
-		Logger.log(`=== 重複分析結果 ===`);
-		Logger.log(`複数ハッシュタグを持つ動画数: ${multiHashtagVideos}件`);
-		Logger.log(`重複により削除される行数: ${duplicateCount}件`);
-		Logger.log(`重複削除前データ数: ${allRawData.length}件`);
-		Logger.log(`重複削除後データ数: ${allRawData.length - duplicateCount}件`);
-		
-		// 重複削除前の統計を計算
-		Logger.log(`=== 重複削除前の統計 ===`);
-		for (const hashtag of TARGET_HASHTAGS) {
-			const regularVideos = allRawData.filter(
-				(row) => row[1] === hashtag && row[3] === "通常",
-			);
-			const shortVideos = allRawData.filter(
-				(row) => row[1] === hashtag && row[3] === "ショート",
+		logInfo(
+			"testDuplicateStats",
+			`複数ハッシュタグを持つ動画数: ${multiHashtagVideos}件`,
+			{ count: multiHashtagVideos },
+		);
+
+		const excludeKeywordOnly = getKeywordOnlyMatchRule() === "統計から除外";
+		for (const stats of summarizeHashtagStats(
+			videos,
+			videoHashtags,
+			hashtags,
+			excludeKeywordOnly,
+		)) {
+			logInfo(
+				"testDuplicateStats",
+				`${stats.hashtag} ${stats.videoType}: ${stats.videoCount}件, ${stats.channelCount}チャンネル, ${stats.totalViews}再生`,
+				{ hashtag: stats.hashtag, count: stats.videoCount },
 			);
-			
-			const regularChannelCount = new Set(regularVideos.map(row => row[6])).size;
-			const regularTotalViews = regularVideos.reduce((sum, row) => sum + (row[10] || 0), 0);
-			const shortChannelCount = new Set(shortVideos.map(row => row[6])).size;
-			const shortTotalViews = shortVideos.reduce((sum, row) => sum + (row[10] || 0), 0);
-			
-			Logger.log(`${hashtag} 通常: ${regularVideos.length}件, ${regularChannelCount}チャンネル, ${regularTotalViews}再生`);
-			Logger.log(`${hashtag} ショート: ${shortVideos.length}件, ${shortChannelCount}チャンネル, ${shortTotalViews}再生`);
 		}
-		
-		// 重複削除後のデータを作成（removeDuplicateVideosの仕組みを模倣）
-		const videoMap = new Map();
-		const sortedData = [...allRawData].sort((a, b) => new Date(b[0] as Date).getTime() - new Date(a[0] as Date).getTime());
-		
-		for (const row of sortedData) {
-			const videoId = row[2];
-			if (!videoMap.has(videoId)) {
-				videoMap.set(videoId, row);
+
+		logInfo("testDuplicateStats", "=== ハッシュタグ別・全体の統計 完了 ===");
+	});
+}
+
+// 既知の動画の統計情報を更新する関数（1時間ごとのトリガーで実行する想定）
+// 公開から48時間以内の動画は1時間ごと、30日以内は1日ごと、それ以降は1週間ごとに更新する
+function refreshVideoStats() {
+	runLogged("refreshVideoStats", () => {
+		// main の追加・重複削除と同時にメインシートを書き換えないよう、スクリプトロックを取得して実行する
+		runWithJobLock("refreshVideoStats", () => {
+			beginQuotaRun("refreshVideoStats");
+			try {
+				const spreadsheet = getOrCreateSpreadsheet();
+				const sheet = spreadsheet.getSheetByName(SHEET_NAME);
+				if (!sheet || sheet.getLastRow() <= 1) {
+					logWarn("refreshVideoStats", "メインシートにデータがありません。");
+					return;
+				}
+
+				// 統計更新日時・状態の列がない古いシートでも最新の列構成に移行してから更新する
+				ensureSheetSchema(sheet, getVideoSheetSchema());
+
+				const result = refreshDueVideoStats(sheet);
+				logApiErrors("refreshVideoStats", result.errors);
+				if (result.missingIds.length > 0) {
+					logWarn(
+						"refreshVideoStats",
+						`削除または非公開になった動画: ${result.missingIds.join(", ")}`,
+						{ count: result.missingIds.length },
+					);
+				}
+			} finally {
+				flushQuotaLedger();
+				logQuotaSummary();
 			}
-		}
-		
-		const uniqueData = Array.from(videoMap.values());
-		
-		Logger.log(`=== 重複削除後の統計 ===`);
-		for (const hashtag of TARGET_HASHTAGS) {
-			const regularVideos = uniqueData.filter(
-				(row) => row[1] === hashtag && row[3] === "通常",
-			);
-			const shortVideos = uniqueData.filter(
-				(row) => row[1] === hashtag && row[3] === "ショート",
-			);
-			
-			const regularChannelCount = new Set(regularVideos.map(row => row[6])).size;
-			const regularTotalViews = regularVideos.reduce((sum, row) => sum + (row[10] || 0), 0);
-			const shortChannelCount = new Set(shortVideos.map(row => row[6])).size;
-			const shortTotalViews = shortVideos.reduce((sum, row) => sum + (row[10] || 0), 0);
-			
-			Logger.log(`${hashtag} 通常: ${regularVideos.length}件, ${regularChannelCount}チャンネル, ${regularTotalViews}再生`);
-			Logger.log(`${hashtag} ショート: ${shortVideos.length}件, ${shortChannelCount}チャンネル, ${shortTotalViews}再生`);
-		}
-		
-		Logger.log("=== 重複削除前後の統計比較テスト完了 ===");
-		
-	} catch (error) {
-		const errorMessage = error instanceof Error ? error.message : String(error);
-		Logger.log(`Error in testDuplicateStats: ${errorMessage}`);
-		if (error instanceof Error && error.stack) {
-			Logger.log(error.stack);
-		}
-	}
+		});
+	});
+}
+
+// 記録されている検索位置をすべて削除する関数
+// 次回の main / dailyUpdate は遡及日数分の動画を検索し直す
+function resetHashtagCursors() {
+	const count = clearHashtagCursors();
+	logInfo("resetHashtagCursors", `${count} 件の検索位置を削除しました。`, {
+		count,
+	});
+}
+
+// スケジュールどおりに時間主導型トリガーを作成する関数（何度実行しても重複しない）
+function installTriggers() {
+	logTriggerDrift("installTriggers", installScheduledTriggers());
+}
+
+// スケジュールに含まれる関数のトリガーを削除する関数
+function uninstallTriggers() {
+	const count = uninstallScheduledTriggers();
+	logInfo("uninstallTriggers", `${count} 件のトリガーを削除しました。`, {
+		count,
+	});
+}
+
+// インストール済みのトリガーとスケジュールの差分をログに出力する関数
+function listTriggers() {
+	logTriggerDrift("listTriggers", getTriggerDrift());
 }
 
 // グローバルスコープに型をマージ
@@ -947,8 +1357,24 @@ interface GlobalWithMain {
 	dailyUpdate: () => Promise<void>;
 	appendDailySnapshot: () => void;
 	updateDailyStats: () => Promise<void>;
+	backfillDailyStats: () => void;
+	checkAlerts: () => void;
+	buildVideoTimeSeries: () => void;
+	compactStack: () => void;
+	reportCellUsage: () => void;
+	reportHashtagDiscovery: () => void;
+	exportTrackedData: () => void;
+	importTrackedData: () => void;
+	generateWeeklyReport: () => void;
+	generateMonthlyReport: () => void;
 	updateSubscriberHistory: () => void;
 	testDuplicateStats: () => Promise<void>;
+	resetHashtagCursors: () => void;
+	refreshVideoStats: () => void;
+	resumeJobs: () => Promise<void>;
+	installTriggers: () => void;
+	uninstallTriggers: () => void;
+	listTriggers: () => void;
 }
 
 // 手動実行用の関数
@@ -957,5 +1383,21 @@ globalObj.main = main;
 globalObj.dailyUpdate = dailyUpdate;
 globalObj.appendDailySnapshot = appendDailySnapshot;
 globalObj.updateDailyStats = updateDailyStats;
+globalObj.backfillDailyStats = backfillDailyStats;
+globalObj.checkAlerts = checkAlerts;
+globalObj.buildVideoTimeSeries = buildVideoTimeSeries;
+globalObj.compactStack = compactStack;
+globalObj.reportCellUsage = reportCellUsage;
+globalObj.reportHashtagDiscovery = reportHashtagDiscovery;
+globalObj.exportTrackedData = exportTrackedData;
+globalObj.importTrackedData = importTrackedData;
+globalObj.generateWeeklyReport = generateWeeklyReport;
+globalObj.generateMonthlyReport = generateMonthlyReport;
 globalObj.updateSubscriberHistory = updateSubscriberHistory;
 globalObj.testDuplicateStats = testDuplicateStats;
+globalObj.resetHashtagCursors = resetHashtagCursors;
+globalObj.refreshVideoStats = refreshVideoStats;
+globalObj.resumeJobs = resumeJobs;
+globalObj.installTriggers = installTriggers;
+globalObj.uninstallTriggers = uninstallTriggers;
+globalObj.listTriggers = listTriggers;
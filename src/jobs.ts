@@ -0,0 +1,303 @@
+// 実行時間の上限（6分）をまたいで処理を続けるためのジョブ管理モジュール
+//
+// 処理の進捗（チェックポイント）をスクリプトプロパティに保存し、時間の上限に近づいたら
+// 処理を中断して ScriptApp の時間主導型トリガーで resumeJobs を予約する。再開時は
+// チェックポイントから続きを処理する。各実行の状態は「ジョブ状況」シートに記録する。
+// 同じチェックポイントを複数の実行が同時に処理しないよう、ジョブはスクリプトロックを取得して実行する。
+import { logInfo, logWarn } from "./logging";
+import { getNumberProperty } from "./properties";
+
+// ジョブの状態（ジョブ状況シートの「状態」列）
+export type JobStatus = "実行中" | "完了" | "放棄";
+
+// スクリプトプロパティに保存するチェックポイント
+export interface JobCheckpoint<T> {
+	runId: string;
+	jobName: string;
+	startedAt: string;
+	updatedAt: string;
+	resumeCount: number; // 中断後に再開した回数
+	queued?: boolean; // ロックを取得できず、resumeJobs での開始を待っている場合は true（state は null）
+	state: T; // ジョブごとの進捗
+}
+
+const JOB_CHECKPOINT_PREFIX = "JOB_CHECKPOINT_";
+const JOB_STATUS_SHEET_NAME = "ジョブ状況";
+const JOB_STATUS_HEADERS = [
+	"実行ID",
+	"ジョブ",
+	"状態",
+	"開始日時",
+	"更新日時",
+	"再開回数",
+	"進捗",
+];
+
+// 続きを処理するトリガーのハンドラー関数名
+const RESUME_JOBS_HANDLER = "resumeJobs";
+
+// Apps Script の実行時間の上限（6分）に余裕を持たせて中断する（スクリプトプロパティで変更可）
+const DEFAULT_JOB_TIME_BUDGET_SECONDS = 270;
+const JOB_CONTINUATION_DELAY_MS = 60 * 1000;
+
+// 更新が止まったチェックポイントや再開を繰り返すジョブは放棄する
+const JOB_STALE_HOURS = 6;
+const MAX_JOB_RESUMES = 20;
+
+// 別の実行が持っているスクリプトロックの解放を待つ時間
+const JOB_LOCK_WAIT_MS = 10 * 1000;
+
+// 実行の開始時刻（Apps Script は実行ごとにグローバル状態が初期化される）
+const jobRun = {
+	startedAtMs: Date.now(),
+};
+
+// 実行の開始時に呼び出し、実行時間の計測を始める関数
+export function beginJobRun(): void {
+	jobRun.startedAtMs = Date.now();
+}
+
+function getJobTimeBudgetMs(): number {
+	const seconds = getNumberProperty(
+		"JOB_TIME_BUDGET_SECONDS",
+		DEFAULT_JOB_TIME_BUDGET_SECONDS,
+		{ allowZero: true },
+	);
+	return seconds * 1000;
+}
+
+// 実行時間の上限に近づいているかを返す関数
+export function isJobTimeRunningOut(): boolean {
+	return Date.now() - jobRun.startedAtMs >= getJobTimeBudgetMs();
+}
+
+function getCheckpointKey(jobName: string): string {
+	return `${JOB_CHECKPOINT_PREFIX}${jobName}`;
+}
+
+// 保存されているチェックポイントを読み込む関数（ない場合・不正な場合は null）
+export function loadJobCheckpoint<T>(jobName: string): JobCheckpoint<T> | null {
+	const stored = PropertiesService.getScriptProperties().getProperty(
+		getCheckpointKey(jobName),
+	);
+	if (!stored) return null;
+	try {
+		return JSON.parse(stored) as JobCheckpoint<T>;
+	} catch {
+		logWarn(
+			"loadJobCheckpoint",
+			`チェックポイントを読み込めませんでした: ${stored}`,
+		);
+		return null;
+	}
+}
+
+// 中断中のジョブ名の一覧を返す関数
+export function getPendingJobNames(): string[] {
+	return PropertiesService.getScriptProperties()
+		.getKeys()
+		.filter((key) => key.startsWith(JOB_CHECKPOINT_PREFIX))
+		.map((key) => key.slice(JOB_CHECKPOINT_PREFIX.length));
+}
+
+// 進捗をチェックポイントとして保存する関数
+export function saveJobCheckpoint<T>(checkpoint: JobCheckpoint<T>): void {
+	checkpoint.updatedAt = new Date().toISOString();
+	PropertiesService.getScriptProperties().setProperty(
+		getCheckpointKey(checkpoint.jobName),
+		JSON.stringify(checkpoint),
+	);
+}
+
+function deleteJobCheckpoint(jobName: string): void {
+	PropertiesService.getScriptProperties().deleteProperty(
+		getCheckpointKey(jobName),
+	);
+}
+
+// ジョブ状況シートの実行IDの行を更新する（ない場合は追加する）関数
+function writeJobStatus<T>(
+	spreadsheet: GoogleAppsScript.Spreadsheet.Spreadsheet,
+	checkpoint: JobCheckpoint<T>,
+	status: JobStatus,
+	progress: string,
+): void {
+	let sheet = spreadsheet.getSheetByName(JOB_STATUS_SHEET_NAME);
+	if (!sheet) {
+		sheet = spreadsheet.insertSheet(JOB_STATUS_SHEET_NAME);
+	}
+	if (sheet.getLastRow() === 0) {
+		sheet.appendRow(JOB_STATUS_HEADERS);
+		sheet.setFrozenRows(1);
+		sheet.getRange(1, 1, 1, JOB_STATUS_HEADERS.length).setFontWeight("bold");
+	}
+
+	const row = [
+		checkpoint.runId,
+		checkpoint.jobName,
+		status,
+		new Date(checkpoint.startedAt),
+		new Date(),
+		checkpoint.resumeCount,
+		progress,
+	];
+	const runIds =
+		sheet.getLastRow() > 1
+			? sheet
+					.getRange(2, 1, sheet.getLastRow() - 1, 1)
+					.getValues()
+					.map((values) => values[0])
+			: [];
+	const index = runIds.indexOf(checkpoint.runId);
+	if (index === -1) {
+		sheet.appendRow(row);
+	} else {
+		sheet.getRange(index + 2, 1, 1, row.length).setValues([row]);
+	}
+}
+
+// 中断中のジョブがあれば再開し、なければ新しく開始する関数
+// 更新が止まっている・再開を繰り返しているチェックポイントは放棄して新しく開始する
+export function startOrResumeJob<T>(
+	spreadsheet: GoogleAppsScript.Spreadsheet.Spreadsheet,
+	jobName: string,
+	createState: () => T,
+): JobCheckpoint<T> {
+	// 開始を待っていたジョブは新しく開始する
+	const existing = loadJobCheckpoint<T>(jobName);
+	if (existing && !existing.queued) {
+		const staleMs = JOB_STALE_HOURS * 60 * 60 * 1000;
+		if (Date.now() - Date.parse(existing.updatedAt) >= staleMs) {
+			abandonJob(spreadsheet, existing, "更新が止まっていたため放棄しました");
+		} else if (existing.resumeCount >= MAX_JOB_RESUMES) {
+			abandonJob(
+				spreadsheet,
+				existing,
+				`${MAX_JOB_RESUMES}回再開しても完了しなかったため放棄しました`,
+			);
+		} else {
+			existing.resumeCount++;
+			saveJobCheckpoint(existing);
+			writeJobStatus(spreadsheet, existing, "実行中", "再開しました");
+			logInfo(
+				"startOrResumeJob",
+				`${jobName} を再開します (実行ID: ${existing.runId}, ${existing.resumeCount}回目)`,
+			);
+			return existing;
+		}
+	}
+
+	const now = new Date();
+	const checkpoint: JobCheckpoint<T> = {
+		runId: `${jobName}-${now.getTime()}`,
+		jobName,
+		startedAt: now.toISOString(),
+		updatedAt: now.toISOString(),
+		resumeCount: 0,
+		state: createState(),
+	};
+	saveJobCheckpoint(checkpoint);
+	writeJobStatus(spreadsheet, checkpoint, "実行中", "開始しました");
+	return checkpoint;
+}
+
+// 続きを処理するトリガーがなければ予約する関数
+function scheduleJobContinuation(): void {
+	const scheduled = ScriptApp.getProjectTriggers().some(
+		(trigger) => trigger.getHandlerFunction() === RESUME_JOBS_HANDLER,
+	);
+	if (!scheduled) {
+		ScriptApp.newTrigger(RESUME_JOBS_HANDLER)
+			.timeBased()
+			.after(JOB_CONTINUATION_DELAY_MS)
+			.create();
+	}
+}
+
+// 続きを処理するトリガーを削除する関数（実行済みの単発トリガーも残るため再開時に呼び出す）
+export function deleteJobContinuationTriggers(): void {
+	for (const trigger of ScriptApp.getProjectTriggers()) {
+		if (trigger.getHandlerFunction() === RESUME_JOBS_HANDLER) {
+			ScriptApp.deleteTrigger(trigger);
+		}
+	}
+}
+
+// 進捗を保存して処理を中断し、続きを処理するトリガーを予約する関数
+export function suspendJob<T>(
+	spreadsheet: GoogleAppsScript.Spreadsheet.Spreadsheet,
+	checkpoint: JobCheckpoint<T>,
+	progress: string,
+): void {
+	saveJobCheckpoint(checkpoint);
+	scheduleJobContinuation();
+	writeJobStatus(spreadsheet, checkpoint, "実行中", progress);
+	logInfo(
+		"suspendJob",
+		`実行時間の上限に近づいたため ${checkpoint.jobName} を中断しました (${progress})`,
+	);
+}
+
+// スクリプトロックを取得してジョブを実行する関数（チェックポイントの読み込みから保存までを囲む）
+// 別の実行がロックを持っている場合は実行せず、中断中のジョブがあれば続きを処理するトリガーを予約して false を返す
+export function runWithJobLock(jobName: string, run: () => void): boolean {
+	const lock = LockService.getScriptLock();
+	if (!lock.tryLock(JOB_LOCK_WAIT_MS)) {
+		logWarn(
+			"runWithJobLock",
+			`別の実行がジョブを処理中のため ${jobName} をスキップしました`,
+		);
+		if (getPendingJobNames().length > 0) scheduleJobContinuation();
+		return false;
+	}
+	try {
+		run();
+		return true;
+	} finally {
+		lock.releaseLock();
+	}
+}
+
+// ロックを取得できなかったジョブを resumeJobs で処理するよう予約する関数
+// チェックポイントがまだない場合は、開始待ちのチェックポイントを保存する
+export function queueJob(jobName: string): void {
+	if (!loadJobCheckpoint(jobName)) {
+		const now = new Date();
+		const checkpoint: JobCheckpoint<null> = {
+			runId: `${jobName}-${now.getTime()}`,
+			jobName,
+			startedAt: now.toISOString(),
+			updatedAt: now.toISOString(),
+			resumeCount: 0,
+			queued: true,
+			state: null,
+		};
+		saveJobCheckpoint(checkpoint);
+		logInfo("queueJob", `${jobName} を次の resumeJobs で開始します`);
+	}
+	scheduleJobContinuation();
+}
+
+// ジョブの完了を記録し、チェックポイントを削除する関数
+export function completeJob<T>(
+	spreadsheet: GoogleAppsScript.Spreadsheet.Spreadsheet,
+	checkpoint: JobCheckpoint<T>,
+	progress: string,
+): void {
+	deleteJobCheckpoint(checkpoint.jobName);
+	writeJobStatus(spreadsheet, checkpoint, "完了", progress);
+}
+
+// ジョブを放棄したことを記録し、チェックポイントを削除する関数
+export function abandonJob<T>(
+	spreadsheet: GoogleAppsScript.Spreadsheet.Spreadsheet,
+	checkpoint: JobCheckpoint<T>,
+	reason: string,
+): void {
+	deleteJobCheckpoint(checkpoint.jobName);
+	writeJobStatus(spreadsheet, checkpoint, "放棄", reason);
+	logWarn(
+		"abandonJob",
+		`${checkpoint.jobName} (実行ID: ${checkpoint.runId}) を放棄しました: ${reason}`,
+	);
+}
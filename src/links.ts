@@ -0,0 +1,213 @@
+// 動画とハッシュタグの対応（多対多）を記録するモジュール
+//
+// メインシートは重複削除後に動画ごとに1行になるが、同じ動画が複数のハッシュタグで見つかる
+// ことがある。どのハッシュタグで見つかったかを「動画ハッシュタグ」シートに動画IDと
+// ハッシュタグの組で記録し、ハッシュタグ別の集計は API を呼び出さずにこの対応から行う。
+// 検索ジョブは対応を実行中に溜めておき、実行の終わりに flushVideoHashtags でまとめて書き込む。
+import { getVideoRecordMatchType } from "./hashtags";
+import {
+	type VideoHashtagRecord,
+	type VideoRecord,
+	ensureSheetSchema,
+	getVideoHashtagSchema,
+	readSheetRecords,
+	replaceSheetRecords,
+} from "./schema";
+
+// 動画がハッシュタグで見つかった記録
+export interface HashtagSighting {
+	videoId: string;
+	hashtag: string;
+	seenAt: Date;
+}
+
+// ハッシュタグ・動画タイプごとの集計
+export interface HashtagStats {
+	hashtag: string; // 全ハッシュタグの合計は "全体"（複数のハッシュタグで見つかった動画も1回だけ数える）
+	videoType: string; // "通常" | "ショート"
+	videoCount: number;
+	channelCount: number;
+	totalViews: number;
+}
+
+const VIDEO_HASHTAG_SHEET_NAME = "動画ハッシュタグ";
+const OVERALL_HASHTAG_LABEL = "全体";
+
+// 実行中にまだ書き込んでいない対応（Apps Script は実行ごとにグローバル状態が初期化される）
+const videoHashtagRun = {
+	pending: [] as HashtagSighting[],
+};
+
+function getVideoHashtagKey(videoId: string, hashtag: string): string {
+	return `${videoId}\n${hashtag}`;
+}
+
+// 動画とハッシュタグの対応を記録する関数（追加した組の数を返す）
+// 既に記録されている組は初回検出日時を残し、最終検出日時だけを更新する
+export function recordVideoHashtags(
+	spreadsheet: GoogleAppsScript.Spreadsheet.Spreadsheet,
+	sightings: HashtagSighting[],
+): number {
+	if (sightings.length === 0) return 0;
+
+	const schema = getVideoHashtagSchema();
+	const sheet = ensureSheetSchema(
+		spreadsheet.getSheetByName(VIDEO_HASHTAG_SHEET_NAME) ||
+			spreadsheet.insertSheet(VIDEO_HASHTAG_SHEET_NAME),
+		schema,
+	);
+	const records = readSheetRecords(sheet, schema);
+	const recordsByKey = new Map<string, VideoHashtagRecord>(
+		records.map((record) => [
+			getVideoHashtagKey(String(record.videoId), String(record.hashtag)),
+			record,
+		]),
+	);
+
+	let added = 0;
+	let changed = false;
+	for (const { videoId, hashtag, seenAt } of sightings) {
+		if (!videoId || !hashtag) continue;
+		const key = getVideoHashtagKey(videoId, hashtag);
+		const existing = recordsByKey.get(key);
+		if (!existing) {
+			const record = {
+				videoId,
+				hashtag,
+				firstSeenAt: seenAt,
+				lastSeenAt: seenAt,
+			};
+			recordsByKey.set(key, record);
+			records.push(record);
+			added++;
+			changed = true;
+			continue;
+		}
+		if (seenAt.getTime() > new Date(existing.lastSeenAt).getTime()) {
+			existing.lastSeenAt = seenAt;
+			changed = true;
+		}
+		if (seenAt.getTime() < new Date(existing.firstSeenAt).getTime()) {
+			existing.firstSeenAt = seenAt;
+			changed = true;
+		}
+	}
+
+	if (changed) {
+		replaceSheetRecords(sheet, schema, records);
+	}
+	return added;
+}
+
+// 動画とハッシュタグの対応を、実行の終わりにまとめて記録するために溜める関数
+// 検索ジョブは50件ごとに呼び出すため、シート全体の読み書きを flushVideoHashtags の1回にまとめる
+export function queueVideoHashtags(sightings: HashtagSighting[]): void {
+	videoHashtagRun.pending.push(...sightings);
+}
+
+// 溜めた対応を動画ハッシュタグシートに書き込む関数（追加した組の数を返す）
+export function flushVideoHashtags(
+	spreadsheet: GoogleAppsScript.Spreadsheet.Spreadsheet,
+): number {
+	const sightings = videoHashtagRun.pending;
+	videoHashtagRun.pending = [];
+	return recordVideoHashtags(spreadsheet, sightings);
+}
+
+// 動画ハッシュタグシートの行を読み込む関数（シートがない場合は空）
+export function loadVideoHashtagRecords(
+	spreadsheet: GoogleAppsScript.Spreadsheet.Spreadsheet,
+): VideoHashtagRecord[] {
+	const sheet = spreadsheet.getSheetByName(VIDEO_HASHTAG_SHEET_NAME);
+	if (!sheet || sheet.getLastRow() <= 1) return [];
+	return readSheetRecords(sheet, getVideoHashtagSchema());
+}
+
+// 動画ハッシュタグシートの行を、動画IDごとのハッシュタグの一覧にまとめる関数
+export function groupVideoHashtags(
+	records: VideoHashtagRecord[],
+): Map<string, string[]> {
+	const videoHashtags = new Map<string, string[]>();
+	for (const record of records) {
+		const hashtags = videoHashtags.get(String(record.videoId)) || [];
+		hashtags.push(String(record.hashtag));
+		videoHashtags.set(String(record.videoId), hashtags);
+	}
+	return videoHashtags;
+}
+
+// 動画IDごとに、見つかったハッシュタグの一覧を読み込む関数
+export function loadVideoHashtags(
+	spreadsheet: GoogleAppsScript.Spreadsheet.Spreadsheet,
+): Map<string, string[]> {
+	return groupVideoHashtags(loadVideoHashtagRecords(spreadsheet));
+}
+
+// 動画とハッシュタグの対応から、ハッシュタグ・動画タイプごとの集計と全体の集計を計算する関数
+// 同じ動画の行が複数ある場合は取得日時が最新の行を使う。対応が記録されていない動画は
+// 行の「ハッシュタグ」列で見つかったものとして扱う。excludeKeywordOnly の場合は、
+// キーワードのみで一致したハッシュタグでは見つかっていないものとして扱う。
+export function summarizeHashtagStats(
+	videos: VideoRecord[],
+	videoHashtags: Map<string, string[]>,
+	hashtags: string[],
+	excludeKeywordOnly = false,
+): HashtagStats[] {
+	const latestVideos = new Map<string, VideoRecord>();
+	for (const video of videos) {
+		const existing = latestVideos.get(video.videoId);
+		if (
+			!existing ||
+			new Date(video.fetchedAt).getTime() >
+				new Date(existing.fetchedAt).getTime()
+		) {
+			latestVideos.set(video.videoId, video);
+		}
+	}
+
+	const matched = [...latestVideos.values()].map((video) => ({
+		video,
+		hashtags: new Set(
+			[
+				...(videoHashtags.get(video.videoId) || []),
+				...(video.hashtag ? [video.hashtag] : []),
+			].filter(
+				(hashtag) =>
+					!excludeKeywordOnly ||
+					getVideoRecordMatchType(video, hashtag) !== "キーワードのみ",
+			),
+		),
+	}));
+
+	const summarize = (
+		hashtag: string,
+		videoType: string,
+		targets: VideoRecord[],
+	): HashtagStats => {
+		const typed = targets.filter((video) => video.category === videoType);
+		return {
+			hashtag,
+			videoType,
+			videoCount: typed.length,
+			channelCount: new Set(
+				typed.map((video) => video.channelId || video.channelName),
+			).size,
+			totalViews: typed.reduce((sum, video) => sum + (video.viewCount || 0), 0),
+		};
+	};
+
+	const stats: HashtagStats[] = [];
+	for (const hashtag of hashtags) {
+		const targets = matched
+			.filter((entry) => entry.hashtags.has(hashtag))
+			.map((entry) => entry.video);
+		stats.push(summarize(hashtag, "通常", targets));
+		stats.push(summarize(hashtag, "ショート", targets));
+	}
+	const overall = matched
+		.filter((entry) => hashtags.some((hashtag) => entry.hashtags.has(hashtag)))
+		.map((entry) => entry.video);
+	stats.push(summarize(OVERALL_HASHTAG_LABEL, "通常", overall));
+	stats.push(summarize(OVERALL_HASHTAG_LABEL, "ショート", overall));
+	return stats;
+}
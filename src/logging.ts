@@ -0,0 +1,267 @@
+// レベル付きのログと、エントリーポイントの実行ログを記録するモジュール
+//
+// ログは「[レベル] 関数名: メッセージ {項目}」の形で Logger に出力する。項目にはハッシュタグや件数などを
+// JSON で付ける。DEBUG のログはスクリプトプロパティ DEBUG_MODE が true の場合だけ出力する。
+// runLogged で実行したエントリーポイントは、開始・終了日時、状態、書き込んだ行数、消費したユニット数、
+// エラーメッセージを「実行ログ」シートに1行ずつ記録し、同じ関数が続けて失敗した場合はメールで知らせる。
+import { getNumberProperty } from "./properties";
+import { getTotalQuotaSpent } from "./quota";
+import {
+	type RunLogRecord,
+	appendSheetRecords,
+	ensureSheetSchema,
+	getRunLogSchema,
+	readSheetRecords,
+} from "./schema";
+
+export type LogLevel = "DEBUG" | "INFO" | "WARN" | "ERROR";
+
+// ログに付ける項目（ハッシュタグ・件数など）
+export type LogFields = Record<string, string | number | boolean>;
+
+export type RunStatus = "成功" | "警告" | "失敗";
+
+const RUN_LOG_SHEET_NAME = "実行ログ";
+const RUN_LOG_MAX_ROWS = 5000;
+const DEFAULT_RUN_FAILURE_ALERT_COUNT = 3;
+const RUN_FAILURE_SUBJECT_PREFIX = "[YouTubeハッシュタグ分析]";
+
+// 実行中のエントリーポイントの状況（Apps Script は実行ごとにグローバル状態が初期化される）
+const loggedRun = {
+	active: false,
+	debugMode: false,
+	rowsWritten: 0,
+	warningCount: 0,
+	firstError: "",
+};
+
+// スクリプトプロパティ DEBUG_MODE が true かを返す関数
+function getDebugModeProperty(): boolean {
+	return (
+		PropertiesService.getScriptProperties().getProperty("DEBUG_MODE") === "true"
+	);
+}
+
+// DEBUG のログを出力するかを返す関数（実行中は開始時に読み込んだ値を使う）
+function isDebugMode(): boolean {
+	return loggedRun.active ? loggedRun.debugMode : getDebugModeProperty();
+}
+
+// ログの1行を組み立てる関数
+export function formatLogMessage(
+	level: LogLevel,
+	functionName: string,
+	message: string,
+	fields?: LogFields,
+): string {
+	const text = `[${level}] ${functionName}: ${message}`;
+	return fields && Object.keys(fields).length > 0
+		? `${text} ${JSON.stringify(fields)}`
+		: text;
+}
+
+function writeLog(
+	level: LogLevel,
+	functionName: string,
+	message: string,
+	fields?: LogFields,
+): void {
+	if (level === "DEBUG" && !isDebugMode()) return;
+	if (level === "WARN" || level === "ERROR") loggedRun.warningCount++;
+	if (level === "ERROR" && !loggedRun.firstError) {
+		loggedRun.firstError = `${functionName}: ${message}`;
+	}
+	Logger.log(formatLogMessage(level, functionName, message, fields));
+}
+
+// 調査用の詳細なログ（DEBUG_MODE が true の場合だけ出力する）
+export function logDebug(
+	functionName: string,
+	message: string,
+	fields?: LogFields,
+): void {
+	writeLog("DEBUG", functionName, message, fields);
+}
+
+export function logInfo(
+	functionName: string,
+	message: string,
+	fields?: LogFields,
+): void {
+	writeLog("INFO", functionName, message, fields);
+}
+
+// 処理は続けられるが確認が必要なログ（実行ログの警告数に数える）
+export function logWarn(
+	functionName: string,
+	message: string,
+	fields?: LogFields,
+): void {
+	writeLog("WARN", functionName, message, fields);
+}
+
+// 一部の処理に失敗したログ（最後まで実行できた場合、実行ログの状態は「警告」になる）
+export function logError(
+	functionName: string,
+	message: string,
+	fields?: LogFields,
+): void {
+	writeLog("ERROR", functionName, message, fields);
+}
+
+// 実行中のエントリーポイントがシートに書き込んだ行数を加える関数
+export function addRowsWritten(count: number): void {
+	loggedRun.rowsWritten += count;
+}
+
+// 続けて失敗したらメールを送る回数（スクリプトプロパティ RUN_FAILURE_ALERT_COUNT、0 は送らない）
+function getRunFailureAlertCount(): number {
+	return getNumberProperty(
+		"RUN_FAILURE_ALERT_COUNT",
+		DEFAULT_RUN_FAILURE_ALERT_COUNT,
+		{ integer: true, allowZero: true },
+	);
+}
+
+// 同じ関数の直近の実行が何回続けて失敗しているかを返す関数
+export function countConsecutiveFailures(
+	records: RunLogRecord[],
+	functionName: string,
+): number {
+	let count = 0;
+	for (let index = records.length - 1; index >= 0; index--) {
+		if (records[index].functionName !== functionName) continue;
+		if (records[index].status !== "失敗") break;
+		count++;
+	}
+	return count;
+}
+
+// 続けて失敗したことをメールで知らせる関数
+// 送信先はスクリプトプロパティ RUN_FAILURE_EMAIL（未設定の場合は ALERT_EMAIL）
+function sendRunFailureEmail(record: RunLogRecord, failures: number): void {
+	const properties = PropertiesService.getScriptProperties();
+	const recipients =
+		properties.getProperty("RUN_FAILURE_EMAIL") ||
+		properties.getProperty("ALERT_EMAIL");
+	if (!recipients) {
+		logWarn(
+			"runLogged",
+			`${record.functionName} が${failures}回続けて失敗しましたが、RUN_FAILURE_EMAIL・ALERT_EMAIL が未設定のためメールを送りません。`,
+		);
+		return;
+	}
+	MailApp.sendEmail(
+		recipients,
+		`${RUN_FAILURE_SUBJECT_PREFIX} ${record.functionName} が${failures}回続けて失敗しました`,
+		[
+			`${record.functionName} の直近${failures}回の実行が失敗しました。`,
+			`最後の実行: ${record.startedAt.toISOString()}`,
+			`エラー: ${record.errorMessage}`,
+			"詳細はスプレッドシートの「実行ログ」シートを確認してください。",
+		].join("\n"),
+	);
+}
+
+// 実行ログシートに1行追加し、同じ関数がちょうど N 回続けて失敗した場合はメールを送る関数
+// スクリプトプロパティ SPREADSHEET_ID が未設定の場合は記録しない
+function recordRunLog(record: RunLogRecord): void {
+	const spreadsheetId =
+		PropertiesService.getScriptProperties().getProperty("SPREADSHEET_ID");
+	if (!spreadsheetId) return;
+	const spreadsheet = SpreadsheetApp.openById(spreadsheetId);
+	const schema = getRunLogSchema();
+	const sheet = ensureSheetSchema(
+		spreadsheet.getSheetByName(RUN_LOG_SHEET_NAME) ||
+			spreadsheet.insertSheet(RUN_LOG_SHEET_NAME),
+		schema,
+	);
+	appendSheetRecords(sheet, schema, [record]);
+
+	// 古い行を削除して行数を保つ（ヘッダー行を除く）
+	const excessRows = sheet.getLastRow() - 1 - RUN_LOG_MAX_ROWS;
+	if (excessRows > 0) sheet.deleteRows(2, excessRows);
+
+	const alertCount = getRunFailureAlertCount();
+	if (record.status !== "失敗" || alertCount === 0) return;
+	const failures = countConsecutiveFailures(
+		readSheetRecords(sheet, schema),
+		record.functionName,
+	);
+	// 失敗が続く間に何度も送らないよう、ちょうど N 回目の失敗でだけ送る
+	if (failures === alertCount) sendRunFailureEmail(record, failures);
+}
+
+// エントリーポイントの処理を実行し、実行ログシートに記録する関数
+// エラーはログと実行ログに記録してから投げ直し、Apps Script の実行を失敗として扱わせる
+export function runLogged<T>(functionName: string, body: () => T): T {
+	const startedAt = new Date();
+	const startQuota = getTotalQuotaSpent();
+	Object.assign(loggedRun, {
+		debugMode: getDebugModeProperty(),
+		rowsWritten: 0,
+		warningCount: 0,
+		firstError: "",
+		active: true,
+	});
+	logDebug(functionName, "実行を開始します。");
+
+	let thrown: unknown = null;
+	let failed = false;
+	try {
+		return body();
+	} catch (error) {
+		failed = true;
+		thrown = error;
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		logError(functionName, errorMessage);
+		if (error instanceof Error && error.stack) {
+			Logger.log(error.stack);
+		}
+		throw error;
+	} finally {
+		const finishedAt = new Date();
+		const status: RunStatus = failed
+			? "失敗"
+			: loggedRun.firstError
+				? "警告"
+				: "成功";
+		const record: RunLogRecord = {
+			startedAt,
+			finishedAt,
+			functionName,
+			status,
+			durationSeconds:
+				Math.round((finishedAt.getTime() - startedAt.getTime()) / 100) / 10,
+			rowsWritten: loggedRun.rowsWritten,
+			quotaUnits: getTotalQuotaSpent() - startQuota,
+			warningCount: loggedRun.warningCount,
+			errorMessage: failed
+				? thrown instanceof Error
+					? thrown.message
+					: String(thrown)
+				: loggedRun.firstError,
+		};
+		logInfo(functionName, `実行が${record.status}で終了しました。`, {
+			durationSeconds: record.durationSeconds,
+			rowsWritten: record.rowsWritten,
+			quotaUnits: record.quotaUnits,
+			warningCount: record.warningCount,
+		});
+		try {
+			recordRunLog(record);
+		} catch (error) {
+			// 実行ログを記録できなくても、元の処理の結果は変えない
+			const errorMessage =
+				error instanceof Error ? error.message : String(error);
+			Logger.log(
+				formatLogMessage(
+					"ERROR",
+					"runLogged",
+					`実行ログを記録できませんでした: ${errorMessage}`,
+				),
+			);
+		}
+		loggedRun.active = false;
+	}
+}
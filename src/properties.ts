@@ -0,0 +1,25 @@
+// スクリプトプロパティの数値設定を読み込むモジュール
+//
+// 件数・日数・予算などの設定はスクリプトプロパティに文字列で保存されるため、未設定や空欄、
+// 数値でない値、範囲外の値はすべて既定値として扱い、呼び出し側では検証しない。
+
+// 受け付ける値の範囲（既定では正の有限な数）
+export interface NumberPropertyOptions {
+	integer?: boolean; // 整数だけを受け付ける
+	allowZero?: boolean; // 0 を受け付ける（0 で機能を無効にする設定など）
+}
+
+// 数値のスクリプトプロパティを読み込む関数（未設定・不正な場合は既定値）
+export function getNumberProperty(
+	key: string,
+	defaultValue: number,
+	options: NumberPropertyOptions = {},
+): number {
+	const stored = PropertiesService.getScriptProperties().getProperty(key);
+	if (stored === null || stored.trim() === "") return defaultValue;
+	const value = Number(stored);
+	if (!Number.isFinite(value)) return defaultValue;
+	if (options.integer && !Number.isInteger(value)) return defaultValue;
+	if (value > 0 || (options.allowZero && value === 0)) return value;
+	return defaultValue;
+}
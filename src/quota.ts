@@ -0,0 +1,312 @@
+// YouTube Data API のクォータ（ユニット）を管理するモジュール
+//
+// 呼び出し前に予算を確認して消費を記録し、上限に達する前に処理を止められるようにする。
+// 日ごとの消費量はスクリプトプロパティに記録する（クォータは太平洋時間の0時にリセット）。
+// 消費記録は実行ごとに1回だけ読み込み、実行の終わりに flushQuotaLedger でまとめて書き戻す。
+import { logInfo, logWarn } from "./logging";
+import { getNumberProperty } from "./properties";
+
+export type YouTubeEndpoint = "search.list" | "videos.list" | "channels.list";
+
+// 予算超過の範囲（1日の上限 / 1回の実行 / ハッシュタグごと）
+export type QuotaScope = "daily" | "run" | "hashtag";
+
+// 1日分の消費記録
+export interface QuotaLedger {
+	date: string; // yyyy-MM-dd（太平洋時間）
+	total: number;
+	byFunction: Record<string, number>;
+	byEndpoint: Record<string, number>;
+}
+
+// ジョブの消費状況（中断をまたいで予算を引き継ぐため、チェックポイントに保存する）
+export interface QuotaRunSpend {
+	spent: number;
+	byHashtag: Record<string, number>;
+	byEndpoint: Record<string, number>;
+}
+
+// 予算を超える呼び出しをしようとした場合のエラー
+export class QuotaBudgetExceededError extends Error {
+	constructor(
+		readonly scope: QuotaScope,
+		readonly endpoint: YouTubeEndpoint,
+		readonly hashtag?: string,
+	) {
+		super(
+			`クォータ予算を超えるため ${endpoint} を呼び出せません (範囲: ${scope}${hashtag ? `, ハッシュタグ: ${hashtag}` : ""})`,
+		);
+		this.name = "QuotaBudgetExceededError";
+	}
+}
+
+// 各エンドポイントの1回あたりの消費ユニット
+const QUOTA_COSTS: Record<YouTubeEndpoint, number> = {
+	"search.list": 100,
+	"videos.list": 1,
+	"channels.list": 1,
+};
+
+// スクリプトプロパティで上書きできる予算の既定値
+const DEFAULT_DAILY_LIMIT = 10000;
+const DEFAULT_RUN_BUDGET = 5000;
+const DEFAULT_HASHTAG_BUDGET = 1100;
+
+const QUOTA_LEDGER_PREFIX = "QUOTA_LEDGER_";
+const QUOTA_LEDGER_RETENTION_DAYS = 7;
+const QUOTA_TIME_ZONE = "America/Los_Angeles";
+
+// 実行中の消費状況（Apps Script は実行ごとにグローバル状態が初期化される）
+const quotaRun = {
+	functionName: "unknown",
+	spent: 0,
+	totalSpent: 0, // beginQuotaRun で初期化しない、スクリプトの実行全体での消費
+	byHashtag: new Map<string, number>(),
+	byEndpoint: new Map<string, number>(),
+	exhausted: false, // APIからクォータ超過が返された場合は true
+	ledger: null as QuotaLedger | null, // 読み込んだ消費記録にこの実行の消費を加えたもの
+	pending: null as QuotaLedger | null, // まだ書き戻していないこの実行の消費
+	pruned: false, // この実行で保持期間を過ぎた記録を削除済みなら true
+};
+
+// 数値のスクリプトプロパティを読み込む関数（未設定・不正な場合は既定値）
+function getQuotaLimits() {
+	return {
+		daily: getNumberProperty("QUOTA_DAILY_LIMIT", DEFAULT_DAILY_LIMIT),
+		run: getNumberProperty("QUOTA_RUN_BUDGET", DEFAULT_RUN_BUDGET),
+		hashtag: getNumberProperty("QUOTA_HASHTAG_BUDGET", DEFAULT_HASHTAG_BUDGET),
+	};
+}
+
+function getLedgerDate(date = new Date()): string {
+	return Utilities.formatDate(date, QUOTA_TIME_ZONE, "yyyy-MM-dd");
+}
+
+function createEmptyLedger(date: string): QuotaLedger {
+	return { date, total: 0, byFunction: {}, byEndpoint: {} };
+}
+
+// スクリプトプロパティから指定した日の消費記録を読み込む関数
+function readStoredLedger(ledgerDate: string): QuotaLedger {
+	const stored = PropertiesService.getScriptProperties().getProperty(
+		`${QUOTA_LEDGER_PREFIX}${ledgerDate}`,
+	);
+	if (stored) {
+		try {
+			return JSON.parse(stored) as QuotaLedger;
+		} catch {
+			logWarn("getQuotaLedger", `消費記録を読み込めませんでした: ${stored}`);
+		}
+	}
+	return createEmptyLedger(ledgerDate);
+}
+
+// 消費記録に消費ユニットを加える関数
+function addToLedger(
+	ledger: QuotaLedger,
+	endpoint: string,
+	units: number,
+): void {
+	ledger.total += units;
+	ledger.byFunction[quotaRun.functionName] =
+		(ledger.byFunction[quotaRun.functionName] || 0) + units;
+	ledger.byEndpoint[endpoint] = (ledger.byEndpoint[endpoint] || 0) + units;
+}
+
+// この実行で使う当日の消費記録を返す関数（実行中に日付が変わった場合は読み込み直す）
+function getRunLedger(): QuotaLedger {
+	const ledgerDate = getLedgerDate();
+	if (quotaRun.ledger?.date !== ledgerDate) {
+		flushQuotaLedger();
+		quotaRun.ledger = readStoredLedger(ledgerDate);
+	}
+	return quotaRun.ledger;
+}
+
+// 当日の消費記録を返す関数（この実行でまだ書き戻していない消費も含める）
+export function getQuotaLedger(date = new Date()): QuotaLedger {
+	const ledgerDate = getLedgerDate(date);
+	if (quotaRun.ledger?.date === ledgerDate) return quotaRun.ledger;
+	return readStoredLedger(ledgerDate);
+}
+
+// この実行の消費を消費記録に書き戻す関数（実行の終わりに呼び出す）
+// 同じ日に別の実行が記録した分を消さないよう、保存されている記録に加算してから保存する
+export function flushQuotaLedger(): void {
+	const properties = PropertiesService.getScriptProperties();
+	const pending = quotaRun.pending;
+	if (pending) {
+		const ledger = readStoredLedger(pending.date);
+		for (const [functionName, units] of Object.entries(pending.byFunction)) {
+			ledger.byFunction[functionName] =
+				(ledger.byFunction[functionName] || 0) + units;
+		}
+		for (const [endpoint, units] of Object.entries(pending.byEndpoint)) {
+			ledger.byEndpoint[endpoint] = (ledger.byEndpoint[endpoint] || 0) + units;
+		}
+		ledger.total += pending.total;
+		properties.setProperty(
+			`${QUOTA_LEDGER_PREFIX}${pending.date}`,
+			JSON.stringify(ledger),
+		);
+		if (quotaRun.ledger?.date === ledger.date) quotaRun.ledger = ledger;
+		quotaRun.pending = null;
+	}
+
+	if (!quotaRun.pruned) {
+		pruneQuotaLedgers();
+		quotaRun.pruned = true;
+	}
+}
+
+// 保持期間を過ぎた消費記録を削除する関数
+function pruneQuotaLedgers(): void {
+	const properties = PropertiesService.getScriptProperties();
+	const oldest = getLedgerDate(
+		new Date(Date.now() - QUOTA_LEDGER_RETENTION_DAYS * 24 * 60 * 60 * 1000),
+	);
+	for (const key of properties.getKeys()) {
+		if (
+			key.startsWith(QUOTA_LEDGER_PREFIX) &&
+			key.slice(QUOTA_LEDGER_PREFIX.length) < oldest
+		) {
+			properties.deleteProperty(key);
+		}
+	}
+}
+
+// 実行の開始時に呼び出し、消費を記録する関数名を設定する関数
+// 消費記録は次の呼び出しで読み込み直す（前の実行の消費は flushQuotaLedger で書き戻しておく）
+export function beginQuotaRun(functionName: string): void {
+	quotaRun.ledger = null;
+	quotaRun.pending = null;
+	quotaRun.pruned = false;
+	quotaRun.functionName = functionName;
+	quotaRun.spent = 0;
+	quotaRun.byHashtag.clear();
+	quotaRun.byEndpoint.clear();
+	quotaRun.exhausted = false;
+}
+
+// APIから quotaExceeded が返された場合に、この実行での以降の呼び出しを止める関数
+export function markQuotaExhausted(): void {
+	quotaRun.exhausted = true;
+}
+
+// 指定したエンドポイントを呼び出す予算が残っているかを返す関数
+// 予算が足りない場合は超過する範囲を返す
+function findExceededScope(units: number, hashtag?: string): QuotaScope | null {
+	const limits = getQuotaLimits();
+	if (quotaRun.exhausted) return "daily";
+	if (getRunLedger().total + units > limits.daily) return "daily";
+	if (quotaRun.spent + units > limits.run) return "run";
+	if (
+		hashtag &&
+		(quotaRun.byHashtag.get(hashtag) || 0) + units > limits.hashtag
+	) {
+		return "hashtag";
+	}
+	return null;
+}
+
+// 複数のエンドポイントをまとめて呼び出す予算があるかを返す関数
+// （検索1ページ分と、その詳細取得に必要な分を事前に確認する用途）
+export function hasQuotaFor(
+	endpoints: YouTubeEndpoint[],
+	hashtag?: string,
+): boolean {
+	const units = endpoints.reduce(
+		(sum, endpoint) => sum + QUOTA_COSTS[endpoint],
+		0,
+	);
+	return findExceededScope(units, hashtag) === null;
+}
+
+// API呼び出しの直前に予算を確認して消費を記録する関数
+// 予算を超える場合は QuotaBudgetExceededError を投げる
+export function reserveQuota(
+	endpoint: YouTubeEndpoint,
+	hashtag?: string,
+): void {
+	const units = QUOTA_COSTS[endpoint];
+	const exceeded = findExceededScope(units, hashtag);
+	if (exceeded) {
+		throw new QuotaBudgetExceededError(exceeded, endpoint, hashtag);
+	}
+
+	quotaRun.spent += units;
+	quotaRun.totalSpent += units;
+	quotaRun.byEndpoint.set(
+		endpoint,
+		(quotaRun.byEndpoint.get(endpoint) || 0) + units,
+	);
+	if (hashtag) {
+		quotaRun.byHashtag.set(
+			hashtag,
+			(quotaRun.byHashtag.get(hashtag) || 0) + units,
+		);
+	}
+
+	const ledger = getRunLedger();
+	quotaRun.pending ??= createEmptyLedger(ledger.date);
+	addToLedger(ledger, endpoint, units);
+	addToLedger(quotaRun.pending, endpoint, units);
+}
+
+// 今回の実行で消費したユニット数を返す関数
+export function getRunQuotaSpent(): number {
+	return quotaRun.spent;
+}
+
+// ジョブの消費状況を返す関数（チェックポイントに保存する）
+export function getQuotaRunSpend(): QuotaRunSpend {
+	return {
+		spent: quotaRun.spent,
+		byHashtag: Object.fromEntries(quotaRun.byHashtag),
+		byEndpoint: Object.fromEntries(quotaRun.byEndpoint),
+	};
+}
+
+// 中断したジョブを再開したときに、それまでの消費状況を引き継ぐ関数
+// 1回の実行・ハッシュタグごとの予算は、ジョブの開始から数える
+export function restoreQuotaRunSpend(spend: QuotaRunSpend): void {
+	quotaRun.spent = spend.spent;
+	quotaRun.byHashtag = new Map(Object.entries(spend.byHashtag));
+	quotaRun.byEndpoint = new Map(Object.entries(spend.byEndpoint));
+}
+
+// スクリプトの実行全体で消費したユニット数を返す関数（実行ログに記録する）
+// resumeJobs のように1回の実行で複数のジョブを処理した場合も合計する
+export function getTotalQuotaSpent(): number {
+	return quotaRun.totalSpent;
+}
+
+// 今回の実行と当日の消費状況をログに出力する関数
+export function logQuotaSummary(): void {
+	const limits = getQuotaLimits();
+	const ledger = getQuotaLedger();
+
+	const byEndpoint = [...quotaRun.byEndpoint.entries()]
+		.map(([endpoint, units]) => `${endpoint}=${units}`)
+		.join(", ");
+	const byHashtag = [...quotaRun.byHashtag.entries()]
+		.map(([hashtag, units]) => `${hashtag}=${units}`)
+		.join(", ");
+	logInfo(
+		quotaRun.functionName,
+		`クォータ: ${quotaRun.functionName} の消費 ${quotaRun.spent}/${limits.run} ユニット (${byEndpoint || "なし"})`,
+		{ quotaUnits: quotaRun.spent },
+	);
+	if (byHashtag) {
+		logInfo(quotaRun.functionName, `クォータ: ハッシュタグ別 ${byHashtag}`);
+	}
+
+	const byFunction = Object.entries(ledger.byFunction)
+		.sort(([, a], [, b]) => b - a)
+		.map(([name, units]) => `${name}=${units}`)
+		.join(", ");
+	logInfo(
+		quotaRun.functionName,
+		`クォータ: ${ledger.date} の合計 ${ledger.total}/${limits.daily} ユニット (関数別: ${byFunction || "なし"})`,
+	);
+}
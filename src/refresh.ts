@@ -0,0 +1,381 @@
+// 既知の動画の統計情報（視聴回数・いいね数・コメント数）を更新するモジュール
+//
+// 新しい動画の検索（Search.list、1ページ100ユニット）とは別の処理として、シートに保存済みの
+// 動画IDに対して Videos.list（50件で1ユニット）だけを呼び出して数値を更新する。
+// シートは最新の列構成に移行済みである必要がある（ensureSheetSchema）。
+import { isJobTimeRunningOut } from "./jobs";
+import { addRowsWritten, logInfo, logWarn } from "./logging";
+import {
+	type VideoRecord,
+	appendSheetRecords,
+	getVideoSheetSchema,
+	readSheetRecords,
+	replaceSheetRecords,
+} from "./schema";
+import { stripSnapshotDescriptions } from "./storage";
+import { type ApiErrorReport, fetchVideosByIds } from "./youtube";
+
+// 動画の状態（Videos.list で取得できなくなった動画は削除・非公開とみなす）
+export type VideoStatus = "公開中" | "削除・非公開";
+
+export interface VideoStatistics {
+	viewCount: number;
+	likeCount: number;
+	commentCount: number;
+}
+
+export interface StatsRefreshResult {
+	refreshed: number; // 更新（積み上げシートの場合は追加）した行数
+	missingIds: string[]; // 取得できなかった動画（削除・非公開など）
+	errors: ApiErrorReport[];
+	interrupted: boolean; // 実行時間の上限に近づいたため、残りの動画を次の実行に回した場合は true
+}
+
+export interface TieredStatsRefreshResult extends StatsRefreshResult {
+	due: number; // 更新間隔を過ぎていた動画の数
+	remaining: number; // 時間やクォータの都合で今回更新できなかった動画の数
+}
+
+// 動画の公開からの経過時間ごとの統計の更新間隔（上から順に判定）
+const STATS_REFRESH_TIERS = [
+	{ maxAgeHours: 48, intervalHours: 1 },
+	{ maxAgeHours: 30 * 24, intervalHours: 24 },
+	{ maxAgeHours: Number.POSITIVE_INFINITY, intervalHours: 7 * 24 },
+];
+
+// Apps Script の実行時間の上限（6分）に余裕を持たせて打ち切る
+const STATS_REFRESH_TIME_BUDGET_MS = 4.5 * 60 * 1000;
+
+const STATS_REFRESH_BATCH_SIZE = 50;
+
+// 動画IDの一覧から最新の統計情報を取得する関数
+export function fetchVideoStatistics(
+	videoIds: string[],
+	logPrefix: string,
+): {
+	statistics: Map<string, VideoStatistics>;
+	missingIds: string[];
+	errors: ApiErrorReport[];
+} {
+	const { videos, missingIds, errors } = fetchVideosByIds(
+		[...new Set(videoIds)],
+		"statistics",
+		{ logPrefix },
+	);
+	const statistics = new Map<string, VideoStatistics>();
+	for (const video of videos) {
+		if (!video.id) continue;
+		const stats = video.statistics || {};
+		statistics.set(video.id, {
+			viewCount: Number.parseInt(stats.viewCount || "0", 10) || 0,
+			likeCount: Number.parseInt(stats.likeCount || "0", 10) || 0,
+			commentCount: Number.parseInt(stats.commentCount || "0", 10) || 0,
+		});
+	}
+	return { statistics, missingIds, errors };
+}
+
+// 動画IDの一覧から統計情報を50件ずつ取得する関数（検索ジョブの仕上げ処理用）
+// 少なくとも1バッチは取得し、以降は実行時間の上限に近づいたら打ち切る
+function fetchVideoStatisticsWithinTime(
+	videoIds: string[],
+	logPrefix: string,
+): ReturnType<typeof fetchVideoStatistics> & { interrupted: boolean } {
+	const uniqueIds = [...new Set(videoIds)];
+	const statistics = new Map<string, VideoStatistics>();
+	const missingIds: string[] = [];
+	const errors: ApiErrorReport[] = [];
+	for (let i = 0; i < uniqueIds.length; i += STATS_REFRESH_BATCH_SIZE) {
+		if (i > 0 && isJobTimeRunningOut()) {
+			logWarn(
+				logPrefix,
+				`実行時間の上限に近づいたため、残りの ${uniqueIds.length - i} 件の統計は次の実行で更新します。`,
+			);
+			return { statistics, missingIds, errors, interrupted: true };
+		}
+		const batch = fetchVideoStatistics(
+			uniqueIds.slice(i, i + STATS_REFRESH_BATCH_SIZE),
+			logPrefix,
+		);
+		for (const [videoId, stats] of batch.statistics) {
+			statistics.set(videoId, stats);
+		}
+		missingIds.push(...batch.missingIds);
+		errors.push(...batch.errors);
+	}
+	return { statistics, missingIds, errors, interrupted: false };
+}
+
+// 取得した統計を行に反映する関数
+// 統計が取得できなかった動画は数値を残したまま削除・非公開として記録する
+function applyStatistics(
+	record: VideoRecord,
+	stats: VideoStatistics | undefined,
+	checkedAt: Date,
+): void {
+	const status: VideoStatus = stats ? "公開中" : "削除・非公開";
+	record.statsUpdatedAt = checkedAt;
+	record.status = status;
+	if (stats) {
+		record.viewCount = stats.viewCount;
+		record.likeCount = stats.likeCount;
+		record.commentCount = stats.commentCount;
+	}
+}
+
+// シート上の動画の統計情報をその場で更新する関数（メインシート用）
+// skipFetchedSince を指定すると、その日時以降に取得・更新した行（今回の検索で追加した行や、
+// 時間の上限で中断する前に更新した行）は更新しない
+export function refreshSheetVideoStats(
+	sheet: GoogleAppsScript.Spreadsheet.Sheet,
+	options: { skipFetchedSince?: Date } = {},
+): StatsRefreshResult {
+	const result: StatsRefreshResult = {
+		refreshed: 0,
+		missingIds: [],
+		errors: [],
+		interrupted: false,
+	};
+	const schema = getVideoSheetSchema();
+	const records = readSheetRecords(sheet, schema);
+	const skipTime = options.skipFetchedSince?.getTime();
+	const isSkipped = (date: unknown) =>
+		skipTime !== undefined && new Date(date as Date).getTime() >= skipTime;
+	const targetRecords = records.filter(
+		(record) =>
+			record.videoId &&
+			!isSkipped(record.fetchedAt) &&
+			!isSkipped(record.statsUpdatedAt),
+	);
+	if (targetRecords.length === 0) return result;
+
+	const { statistics, missingIds, errors, interrupted } =
+		fetchVideoStatisticsWithinTime(
+			targetRecords.map((record) => String(record.videoId)),
+			"refreshSheetVideoStats",
+		);
+	result.missingIds = missingIds;
+	result.errors = errors;
+	result.interrupted = interrupted;
+
+	// 失敗したバッチや取得しなかった動画は missingIds に含まれないため、そのまま残す
+	const missing = new Set(missingIds);
+	const checkedAt = new Date();
+	for (const record of targetRecords) {
+		const videoId = String(record.videoId);
+		const stats = statistics.get(videoId);
+		if (stats || missing.has(videoId)) {
+			applyStatistics(record, stats, checkedAt);
+			result.refreshed++;
+		}
+	}
+	if (result.refreshed > 0) {
+		replaceSheetRecords(sheet, schema, records);
+	}
+
+	logInfo(
+		"refreshSheetVideoStats",
+		`${sheet.getName()} の ${result.refreshed} 件の統計を更新しました。`,
+		{ count: result.refreshed },
+	);
+	return result;
+}
+
+// 積み上げシートの既知の動画について、最新の統計で当日分の行を追加する関数
+// 当日の行がすでにある動画（今回の検索で追加した動画や、時間の上限で中断する前に追加した動画）は対象にしない
+export function appendRefreshedSnapshot(
+	sheet: GoogleAppsScript.Spreadsheet.Sheet,
+): StatsRefreshResult {
+	const result: StatsRefreshResult = {
+		refreshed: 0,
+		missingIds: [],
+		errors: [],
+		interrupted: false,
+	};
+	const schema = getVideoSheetSchema();
+	const records = readSheetRecords(sheet, schema);
+
+	const today = new Date();
+	today.setHours(0, 0, 0, 0);
+
+	// ハッシュタグと動画IDの組み合わせごとに、前日以前の最新の行を残す
+	const todayKeys = new Set<string>();
+	const latestRecords = new Map<string, VideoRecord>();
+	for (const record of records) {
+		if (!record.videoId) continue;
+		const key = `${record.hashtag}\t${record.videoId}`;
+		const fetchedAt = new Date(record.fetchedAt).getTime();
+		if (fetchedAt >= today.getTime()) {
+			todayKeys.add(key);
+			continue;
+		}
+		const latest = latestRecords.get(key);
+		if (!latest || fetchedAt > new Date(latest.fetchedAt).getTime()) {
+			latestRecords.set(key, record);
+		}
+	}
+	const targetRecords = [...latestRecords.entries()]
+		.filter(([key]) => !todayKeys.has(key))
+		.map(([, record]) => record);
+	if (targetRecords.length === 0) return result;
+
+	const { statistics, missingIds, errors, interrupted } =
+		fetchVideoStatisticsWithinTime(
+			targetRecords.map((record) => String(record.videoId)),
+			"appendRefreshedSnapshot",
+		);
+	result.missingIds = missingIds;
+	result.errors = errors;
+	result.interrupted = interrupted;
+
+	// 取得できなかった動画（削除・非公開など）は前日の数値のまま引き継がない
+	// 動画の説明はメインシートにだけ残すため、積み上げる行では空欄にする
+	const fetchedAt = new Date();
+	const newRecords: VideoRecord[] = [];
+	for (const record of stripSnapshotDescriptions(targetRecords)) {
+		const stats = statistics.get(String(record.videoId));
+		if (!stats) continue;
+		record.fetchedAt = fetchedAt;
+		applyStatistics(record, stats, fetchedAt);
+		newRecords.push(record);
+	}
+
+	appendSheetRecords(sheet, schema, newRecords);
+	result.refreshed = newRecords.length;
+	addRowsWritten(newRecords.length);
+	logInfo(
+		"appendRefreshedSnapshot",
+		`既知の動画 ${newRecords.length} 件の統計を ${sheet.getName()} に追加しました。`,
+		{ count: newRecords.length },
+	);
+	return result;
+}
+
+// 公開からの経過時間に応じた統計の更新間隔（時間）を返す関数
+export function getStatsRefreshIntervalHours(
+	publishedAt: Date,
+	now = new Date(),
+): number {
+	const ageHours = (now.getTime() - publishedAt.getTime()) / (60 * 60 * 1000);
+	const tier =
+		STATS_REFRESH_TIERS.find((candidate) => ageHours < candidate.maxAgeHours) ||
+		STATS_REFRESH_TIERS[STATS_REFRESH_TIERS.length - 1];
+	return tier.intervalHours;
+}
+
+// 統計の更新間隔を過ぎているかを返す関数（一度も更新していない場合は常に true）
+export function isStatsRefreshDue(
+	publishedAt: Date,
+	statsUpdatedAt: unknown,
+	now = new Date(),
+): boolean {
+	const updatedTime =
+		statsUpdatedAt instanceof Date || typeof statsUpdatedAt === "string"
+			? new Date(statsUpdatedAt).getTime()
+			: Number.NaN;
+	if (Number.isNaN(updatedTime)) return true;
+	const intervalMs =
+		getStatsRefreshIntervalHours(publishedAt, now) * 60 * 60 * 1000;
+	return now.getTime() - updatedTime >= intervalMs;
+}
+
+// 更新間隔を過ぎた動画の統計をその場で更新する関数（refreshVideoStats 用）
+// 最後に更新した日時が古い動画から50件ずつ処理し、時間の上限に近づいたら打ち切る
+export function refreshDueVideoStats(
+	sheet: GoogleAppsScript.Spreadsheet.Sheet,
+	options: { now?: Date; timeBudgetMs?: number } = {},
+): TieredStatsRefreshResult {
+	const startedAt = Date.now();
+	const now = options.now || new Date();
+	const timeBudgetMs = options.timeBudgetMs ?? STATS_REFRESH_TIME_BUDGET_MS;
+	const result: TieredStatsRefreshResult = {
+		refreshed: 0,
+		missingIds: [],
+		errors: [],
+		interrupted: false,
+		due: 0,
+		remaining: 0,
+	};
+	const schema = getVideoSheetSchema();
+	const records = readSheetRecords(sheet, schema);
+
+	// 動画IDごとの行と最後に更新した日時（重複行がある場合もまとめて更新する）
+	const recordsByVideoId = new Map<string, VideoRecord[]>();
+	const lastUpdatedByVideoId = new Map<string, number>();
+	for (const record of records) {
+		const videoId = String(record.videoId || "");
+		if (!videoId) continue;
+		const publishedAt = new Date(record.publishedAt);
+		if (
+			Number.isNaN(publishedAt.getTime()) ||
+			!isStatsRefreshDue(publishedAt, record.statsUpdatedAt, now)
+		) {
+			continue;
+		}
+		const videoRecords = recordsByVideoId.get(videoId) || [];
+		videoRecords.push(record);
+		recordsByVideoId.set(videoId, videoRecords);
+		const updatedTime = new Date(record.statsUpdatedAt || 0).getTime() || 0;
+		lastUpdatedByVideoId.set(
+			videoId,
+			Math.min(lastUpdatedByVideoId.get(videoId) ?? updatedTime, updatedTime),
+		);
+	}
+
+	const dueIds = [...recordsByVideoId.keys()].sort(
+		(a, b) =>
+			(lastUpdatedByVideoId.get(a) || 0) - (lastUpdatedByVideoId.get(b) || 0),
+	);
+	result.due = dueIds.length;
+
+	let processed = 0;
+	for (let i = 0; i < dueIds.length; i += STATS_REFRESH_BATCH_SIZE) {
+		// 少なくとも1バッチは処理し、以降は時間の上限を超える前に打ち切る
+		if (i > 0 && Date.now() - startedAt >= timeBudgetMs) {
+			logWarn(
+				"refreshDueVideoStats",
+				"実行時間の上限に近づいたため処理を打ち切ります。",
+			);
+			result.interrupted = true;
+			break;
+		}
+
+		const batchIds = dueIds.slice(i, i + STATS_REFRESH_BATCH_SIZE);
+		const { statistics, missingIds, errors } = fetchVideoStatistics(
+			batchIds,
+			"refreshDueVideoStats",
+		);
+		result.errors.push(...errors);
+		result.missingIds.push(...missingIds);
+		if (errors.length > 0) {
+			// クォータを使い切った場合は残りのバッチも失敗するため打ち切る
+			if (errors.some((error) => ["quota", "budget"].includes(error.kind))) {
+				break;
+			}
+			continue;
+		}
+
+		const missing = new Set(missingIds);
+		const checkedAt = new Date();
+		for (const videoId of batchIds) {
+			const stats = statistics.get(videoId);
+			if (!stats && !missing.has(videoId)) continue;
+			for (const record of recordsByVideoId.get(videoId) || []) {
+				applyStatistics(record, stats, checkedAt);
+				result.refreshed++;
+			}
+			processed++;
+		}
+	}
+	result.remaining = dueIds.length - processed;
+
+	if (result.refreshed > 0) {
+		replaceSheetRecords(sheet, schema, records);
+	}
+	logInfo(
+		"refreshDueVideoStats",
+		`更新対象 ${result.due} 件中 ${processed} 件の統計を更新しました（削除・非公開: ${result.missingIds.length} 件、未処理: ${result.remaining} 件）。`,
+		{ count: processed },
+	);
+	return result;
+}
@@ -0,0 +1,668 @@
+// ハッシュタグごとの週次・月次のまとめを作成し、HTML メールと Google ドキュメントで届けるモジュール
+//
+// 日次統計シートから期間中の新規動画数・再生回数の増加を、積み上げシートから期間中に伸びた動画と
+// チャンネル・新しく投稿したチャンネルを、チャンネル登録者数履歴シートから登録者数の増加を集計する。
+// 推移のグラフは Charts で画像にしてメールに埋め込む。スクリプトプロパティ REPORT_DOC_FOLDER_ID を
+// 設定した場合は、同じ内容の Google ドキュメントをそのフォルダに作成する。
+import { getNumberProperty } from "./properties";
+import {
+	type DailyStatsRecord,
+	type SubscriberHistoryRecord,
+	type VideoRecord,
+	ensureSheetSchema,
+	getDailyStatsSchema,
+	getSubscriberHistorySchema,
+	readSheetRecords,
+} from "./schema";
+import {
+	type SnapshotHistory,
+	findNewChannelVideos,
+	formatStatsDate,
+	getChannelKey,
+	getMatchedVideos,
+	getPreviousStatsDate,
+	getSnapshotDates,
+	loadSnapshotHistory,
+} from "./stats";
+
+export type ReportFrequency = "weekly" | "monthly";
+
+// 集計する期間の種類
+export interface ReportPeriod {
+	label: string; // 件名・見出しに使う名前（週次・月次）
+	days: number; // 期間の日数（終了日を含む）
+}
+
+// 期間中に再生回数が伸びた動画
+export interface ReportVideo {
+	videoId: string;
+	title: string;
+	channelName: string;
+	category: string;
+	url: string;
+	viewCount: number; // 終了日の再生回数
+	viewGain: number; // 期間中の再生回数の増加
+}
+
+// 期間中に再生回数が伸びたチャンネル
+export interface ReportChannel {
+	channelId: string;
+	channelName: string;
+	videoCount: number; // ハッシュタグで見つかった動画数
+	viewGain: number; // 動画の再生回数の増加の合計
+	subscriberCount: number | ""; // 終了日時点の登録者数（記録がない・非公開の場合は空欄）
+	subscriberGain: number | ""; // 期間中の登録者数の増加（期間前の記録がない場合は空欄）
+}
+
+// 期間中にハッシュタグで初めて記録されたチャンネル
+export interface ReportNewChannel {
+	date: string; // 初めて記録された日付（yyyy/MM/dd）
+	channelName: string;
+	subscriberCount: number | "";
+	title: string; // 初めて記録された動画のタイトル
+	url: string;
+}
+
+// 動画タイプ（通常・ショート）ごとの集計
+export interface ReportTypeSummary {
+	videoType: string;
+	videoCount: number; // 終了日の動画数
+	totalViews: number; // 終了日の総再生回数
+	newVideoCount: number; // 期間中に公開された動画数
+	viewDelta: number; // 期間中の再生回数の増加
+}
+
+// ハッシュタグ1件分のまとめ
+export interface HashtagReport {
+	hashtag: string;
+	videoCount: number;
+	totalViews: number;
+	newVideoCount: number;
+	viewDelta: number;
+	newChannelCount: number;
+	types: ReportTypeSummary[];
+	topVideos: ReportVideo[];
+	topChannels: ReportChannel[];
+	newChannels: ReportNewChannel[];
+}
+
+// グラフに使う日ごとの値
+export interface ReportDailyPoint {
+	date: string;
+	hashtag: string;
+	totalViews: number;
+	newVideoCount: number;
+}
+
+export interface SummaryReport {
+	period: ReportPeriod;
+	startDate: string; // yyyy/MM/dd
+	endDate: string; // yyyy/MM/dd
+	hashtags: HashtagReport[];
+	daily: ReportDailyPoint[];
+}
+
+// 送信・作成の結果
+export interface SummaryReportResult {
+	report: SummaryReport;
+	recipients: string; // メールの宛先（送らなかった場合は空）
+	documentUrl: string; // 作成した Google ドキュメントの URL（作成しなかった場合は空）
+}
+
+// メールと Google ドキュメントに載せる表
+interface ReportTable {
+	title: string;
+	headers: string[];
+	rows: string[][];
+}
+
+interface ReportSection {
+	heading: string;
+	summary: string;
+	tables: ReportTable[];
+}
+
+const REPORT_DAILY_STATS_SHEET_NAME = "日次統計";
+const REPORT_SUBSCRIBER_SHEET_NAME = "チャンネル登録者数履歴";
+const REPORT_SUBJECT_PREFIX = "[YouTubeハッシュタグ分析]";
+const REPORT_VIDEO_TYPES = ["通常", "ショート"];
+const DEFAULT_REPORT_TOP_COUNT = 5;
+const REPORT_MAX_NEW_CHANNELS = 20;
+const REPORT_CHART_WIDTH = 720;
+const REPORT_CHART_HEIGHT = 360;
+
+// 期間の種類を返す関数
+export function getReportPeriod(frequency: ReportFrequency): ReportPeriod {
+	return frequency === "weekly"
+		? { label: "週次", days: 7 }
+		: { label: "月次", days: 30 };
+}
+
+// 上位の動画・チャンネルを何件載せるかを返す関数（スクリプトプロパティ REPORT_TOP_COUNT で変更できる）
+function getReportTopCount(): number {
+	return getNumberProperty("REPORT_TOP_COUNT", DEFAULT_REPORT_TOP_COUNT, {
+		integer: true,
+	});
+}
+
+function toReportCount(value: unknown): number {
+	const count = Number(value);
+	return value !== "" && Number.isFinite(count) ? count : 0;
+}
+
+function toOptionalCount(value: unknown): number | "" {
+	const count = Number(value);
+	return value !== "" && value !== null && Number.isFinite(count) ? count : "";
+}
+
+// 終了日から遡って期間の日付を返す関数（古い順）
+function getPeriodDates(endDate: string, days: number): string[] {
+	const dates = [endDate];
+	while (dates.length < days) {
+		dates.unshift(getPreviousStatsDate(dates[0]));
+	}
+	return dates;
+}
+
+// 期間の開始前の再生回数を返す関数
+// 開始日の前日以前の最新の記録、期間中に公開された動画は 0、どちらもなければ期間中の最初の記録を使う
+function getBaselineViews(
+	history: SnapshotHistory,
+	snapshotDates: string[],
+	video: VideoRecord,
+	startDate: string,
+): number {
+	for (let index = snapshotDates.length - 1; index >= 0; index--) {
+		if (snapshotDates[index] >= startDate) continue;
+		const previous = history.videosByDate
+			.get(snapshotDates[index])
+			?.get(video.videoId);
+		if (previous) return toReportCount(previous.viewCount);
+	}
+	if (video.publishedAt && formatStatsDate(video.publishedAt) >= startDate) {
+		return 0;
+	}
+	for (const date of snapshotDates) {
+		if (date < startDate) continue;
+		const first = history.videosByDate.get(date)?.get(video.videoId);
+		if (first) return toReportCount(first.viewCount);
+	}
+	return toReportCount(video.viewCount);
+}
+
+// チャンネルID -> 期間の終了時点と開始前の登録者数
+function getSubscriberCounts(
+	records: SubscriberHistoryRecord[],
+	startDate: string,
+	endDate: string,
+): Map<string, { current: number | ""; baseline: number | "" }> {
+	const sorted = [...records].sort(
+		(a, b) => new Date(a.date).getTime() - new Date(b.date).getTime(),
+	);
+	const counts = new Map<
+		string,
+		{ current: number | ""; baseline: number | "" }
+	>();
+	for (const record of sorted) {
+		const date = formatStatsDate(record.date);
+		if (date > endDate) continue;
+		const channelId = String(record.channelId);
+		const entry = counts.get(channelId) || { current: "", baseline: "" };
+		const count = record.hiddenSubscriberCount
+			? ""
+			: toOptionalCount(record.subscriberCount);
+		entry.current = count;
+		if (date < startDate) entry.baseline = count;
+		counts.set(channelId, entry);
+	}
+	return counts;
+}
+
+// 日次統計・積み上げ・登録者数履歴から期間のまとめを作る関数
+// 終了日は now 以前で日次統計がある最新の日付（日次統計がない場合は null）
+export function buildSummaryReport(
+	dailyStats: DailyStatsRecord[],
+	history: SnapshotHistory,
+	subscriberRecords: SubscriberHistoryRecord[],
+	hashtags: string[],
+	period: ReportPeriod,
+	now = new Date(),
+	topCount = DEFAULT_REPORT_TOP_COUNT,
+): SummaryReport | null {
+	const today = formatStatsDate(now);
+	const stats = dailyStats
+		.map((record) => ({ ...record, date: formatStatsDate(record.date) }))
+		.filter((record) => record.date <= today);
+	if (stats.length === 0) return null;
+	const endDate = stats.reduce(
+		(latest, record) => (record.date > latest ? record.date : latest),
+		stats[0].date,
+	);
+	const periodDates = getPeriodDates(endDate, period.days);
+	const startDate = periodDates[0];
+	const periodStats = stats.filter((record) => record.date >= startDate);
+
+	const snapshotDates = getSnapshotDates(history).filter(
+		(date) => date <= endDate,
+	);
+	const lastSnapshotDate = [...snapshotDates]
+		.reverse()
+		.find((date) => date >= startDate);
+	const subscriberCounts = getSubscriberCounts(
+		subscriberRecords,
+		startDate,
+		endDate,
+	);
+
+	const reports: HashtagReport[] = hashtags.map((hashtag) => {
+		const hashtagStats = periodStats.filter(
+			(record) => record.hashtag === hashtag,
+		);
+		const types = REPORT_VIDEO_TYPES.map((videoType): ReportTypeSummary => {
+			const typed = hashtagStats.filter(
+				(record) => record.videoType === videoType,
+			);
+			const latest = typed.find((record) => record.date === endDate);
+			return {
+				videoType,
+				videoCount: toReportCount(latest?.videoCount),
+				totalViews: toReportCount(latest?.totalViews),
+				newVideoCount: typed.reduce(
+					(sum, record) => sum + toReportCount(record.newVideoCount),
+					0,
+				),
+				viewDelta: typed.reduce(
+					(sum, record) => sum + toReportCount(record.viewDelta),
+					0,
+				),
+			};
+		});
+
+		const matchedVideos = lastSnapshotDate
+			? getMatchedVideos(history, hashtag, lastSnapshotDate)
+			: [];
+		const videos: ReportVideo[] = matchedVideos.map((video) => ({
+			videoId: video.videoId,
+			title: video.title,
+			channelName: video.channelName,
+			category: video.category,
+			url: video.url,
+			viewCount: toReportCount(video.viewCount),
+			viewGain:
+				toReportCount(video.viewCount) -
+				getBaselineViews(history, snapshotDates, video, startDate),
+		}));
+		const channels = new Map<string, ReportChannel>();
+		matchedVideos.forEach((video, index) => {
+			const key = getChannelKey(video);
+			const subscribers = subscriberCounts.get(String(video.channelId));
+			const channel = channels.get(key) || {
+				channelId: String(video.channelId),
+				channelName: video.channelName,
+				videoCount: 0,
+				viewGain: 0,
+				subscriberCount: subscribers
+					? subscribers.current
+					: toOptionalCount(video.subscriberCount),
+				subscriberGain:
+					subscribers &&
+					subscribers.current !== "" &&
+					subscribers.baseline !== ""
+						? subscribers.current - subscribers.baseline
+						: "",
+			};
+			channel.videoCount++;
+			channel.viewGain += videos[index].viewGain;
+			channels.set(key, channel);
+		});
+
+		const newChannels: ReportNewChannel[] = snapshotDates
+			.filter((date) => date >= startDate)
+			.flatMap((date) =>
+				findNewChannelVideos(history, [hashtag], date).map(({ video }) => ({
+					date,
+					channelName: video.channelName,
+					subscriberCount: toOptionalCount(video.subscriberCount),
+					title: video.title,
+					url: video.url,
+				})),
+			);
+
+		return {
+			hashtag,
+			videoCount: types.reduce((sum, type) => sum + type.videoCount, 0),
+			totalViews: types.reduce((sum, type) => sum + type.totalViews, 0),
+			newVideoCount: types.reduce((sum, type) => sum + type.newVideoCount, 0),
+			viewDelta: types.reduce((sum, type) => sum + type.viewDelta, 0),
+			newChannelCount: hashtagStats.reduce(
+				(sum, record) => sum + toReportCount(record.newChannelCount),
+				0,
+			),
+			types,
+			topVideos: videos
+				.filter((video) => video.viewGain > 0)
+				.sort(
+					(a, b) =>
+						b.viewGain - a.viewGain || a.videoId.localeCompare(b.videoId),
+				)
+				.slice(0, topCount),
+			topChannels: [...channels.values()]
+				.filter((channel) => channel.viewGain > 0)
+				.sort(
+					(a, b) =>
+						b.viewGain - a.viewGain ||
+						a.channelName.localeCompare(b.channelName),
+				)
+				.slice(0, topCount),
+			newChannels: newChannels.slice(0, REPORT_MAX_NEW_CHANNELS),
+		};
+	});
+
+	const daily: ReportDailyPoint[] = periodDates.flatMap((date) =>
+		hashtags.map((hashtag) => {
+			const records = periodStats.filter(
+				(record) => record.date === date && record.hashtag === hashtag,
+			);
+			return {
+				date,
+				hashtag,
+				totalViews: records.reduce(
+					(sum, record) => sum + toReportCount(record.totalViews),
+					0,
+				),
+				newVideoCount: records.reduce(
+					(sum, record) => sum + toReportCount(record.newVideoCount),
+					0,
+				),
+			};
+		}),
+	);
+
+	return { period, startDate, endDate, hashtags: reports, daily };
+}
+
+// 3桁ごとに「,」を入れた数値（signed の場合は増加に + を付ける）
+function formatReportNumber(value: number | "", signed = false): string {
+	if (value === "") return "-";
+	const text = String(Math.abs(value)).replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+	if (value < 0) return `-${text}`;
+	return signed && value > 0 ? `+${text}` : text;
+}
+
+// ハッシュタグごとの見出し・概要・表を返す関数（HTML・テキスト・ドキュメントで共通）
+function getReportSections(report: SummaryReport): ReportSection[] {
+	return report.hashtags.map((hashtag) => ({
+		heading: hashtag.hashtag,
+		summary: `新規動画 ${formatReportNumber(hashtag.newVideoCount)}件、総再生回数 ${formatReportNumber(hashtag.totalViews)}（期間中 ${formatReportNumber(hashtag.viewDelta, true)}）、新規チャンネル ${formatReportNumber(hashtag.newChannelCount)}件`,
+		tables: [
+			{
+				title: "ショートと通常の内訳",
+				headers: ["動画タイプ", "動画数", "新規動画数", "総再生回数", "増加"],
+				rows: hashtag.types.map((type) => [
+					type.videoType,
+					formatReportNumber(type.videoCount),
+					formatReportNumber(type.newVideoCount),
+					formatReportNumber(type.totalViews),
+					formatReportNumber(type.viewDelta, true),
+				]),
+			},
+			{
+				title: "再生回数が伸びた動画",
+				headers: ["タイトル", "チャンネル", "動画タイプ", "再生回数", "増加"],
+				rows: hashtag.topVideos.map((video) => [
+					video.title,
+					video.channelName,
+					video.category,
+					formatReportNumber(video.viewCount),
+					formatReportNumber(video.viewGain, true),
+				]),
+			},
+			{
+				title: "再生回数が伸びたチャンネル",
+				headers: ["チャンネル", "動画数", "再生回数の増加", "登録者数", "増加"],
+				rows: hashtag.topChannels.map((channel) => [
+					channel.channelName,
+					formatReportNumber(channel.videoCount),
+					formatReportNumber(channel.viewGain, true),
+					formatReportNumber(channel.subscriberCount),
+					formatReportNumber(channel.subscriberGain, true),
+				]),
+			},
+			{
+				title: "新しく投稿したチャンネル",
+				headers: ["日付", "チャンネル", "登録者数", "動画"],
+				rows: hashtag.newChannels.map((channel) => [
+					channel.date,
+					channel.channelName,
+					formatReportNumber(channel.subscriberCount),
+					channel.title,
+				]),
+			},
+		],
+	}));
+}
+
+function getReportTitle(report: SummaryReport): string {
+	return `${report.period.label}レポート（${report.startDate}〜${report.endDate}）`;
+}
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+// メールの HTML を作る関数（chartIds のグラフは cid: で埋め込んだ画像を参照する）
+export function renderReportHtml(
+	report: SummaryReport,
+	chartIds: string[] = [],
+	documentUrl = "",
+): string {
+	const tableStyle =
+		'style="border-collapse:collapse" border="1" cellpadding="4"';
+	const parts = [
+		`<h1>${escapeHtml(getReportTitle(report))}</h1>`,
+		...chartIds.map((id) => `<p><img src="cid:${id}" alt="${id}"></p>`),
+	];
+	if (documentUrl) {
+		parts.push(
+			`<p><a href="${escapeHtml(documentUrl)}">Google ドキュメントで開く</a></p>`,
+		);
+	}
+	for (const section of getReportSections(report)) {
+		parts.push(
+			`<h2>${escapeHtml(section.heading)}</h2>`,
+			`<p>${escapeHtml(section.summary)}</p>`,
+		);
+		for (const table of section.tables) {
+			if (table.rows.length === 0) continue;
+			parts.push(
+				`<h3>${escapeHtml(table.title)}</h3>`,
+				`<table ${tableStyle}>`,
+				`<tr>${table.headers.map((header) => `<th>${escapeHtml(header)}</th>`).join("")}</tr>`,
+				...table.rows.map(
+					(row) =>
+						`<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join("")}</tr>`,
+				),
+				"</table>",
+			);
+		}
+	}
+	return parts.join("\n");
+}
+
+// HTML を表示できないメールソフト向けの本文を作る関数
+export function renderReportText(
+	report: SummaryReport,
+	documentUrl = "",
+): string {
+	const lines = [getReportTitle(report)];
+	if (documentUrl) lines.push(documentUrl);
+	for (const section of getReportSections(report)) {
+		lines.push("", `■ ${section.heading}`, section.summary);
+		for (const table of section.tables) {
+			if (table.rows.length === 0) continue;
+			lines.push(`【${table.title}】`);
+			for (const row of table.rows) {
+				lines.push(`- ${row.join(" / ")}`);
+			}
+		}
+	}
+	return lines.join("\n");
+}
+
+// 日ごとの値を、日付を行・ハッシュタグを列にした表にする関数
+function buildReportDataTable(
+	report: SummaryReport,
+	key: "totalViews" | "newVideoCount",
+): GoogleAppsScript.Charts.DataTableBuilder {
+	const hashtags = report.hashtags.map((hashtag) => hashtag.hashtag);
+	const table = Charts.newDataTable().addColumn(
+		Charts.ColumnType.STRING,
+		"日付",
+	);
+	for (const hashtag of hashtags) {
+		table.addColumn(Charts.ColumnType.NUMBER, hashtag);
+	}
+	const dates = [...new Set(report.daily.map((point) => point.date))];
+	for (const date of dates) {
+		table.addRow([
+			date.slice(5),
+			...hashtags.map(
+				(hashtag) =>
+					report.daily.find(
+						(point) => point.date === date && point.hashtag === hashtag,
+					)?.[key] ?? 0,
+			),
+		]);
+	}
+	return table;
+}
+
+// 総再生回数の推移（折れ線）と新規動画数（積み上げ縦棒）のグラフを PNG の画像にする関数
+// 戻り値は画像の名前 -> 画像
+export function createReportCharts(
+	report: SummaryReport,
+): Record<string, GoogleAppsScript.Base.Blob> {
+	const viewsChart = Charts.newLineChart()
+		.setDataTable(buildReportDataTable(report, "totalViews"))
+		.setTitle("総再生回数の推移")
+		.setLegendPosition(Charts.Position.BOTTOM)
+		.setDimensions(REPORT_CHART_WIDTH, REPORT_CHART_HEIGHT)
+		.build();
+	const newVideosChart = Charts.newColumnChart()
+		.setDataTable(buildReportDataTable(report, "newVideoCount"))
+		.setTitle("新規動画数")
+		.setStacked()
+		.setLegendPosition(Charts.Position.BOTTOM)
+		.setDimensions(REPORT_CHART_WIDTH, REPORT_CHART_HEIGHT)
+		.build();
+	return {
+		viewsChart: viewsChart.getAs("image/png").setName("views.png"),
+		newVideosChart: newVideosChart.getAs("image/png").setName("new_videos.png"),
+	};
+}
+
+// まとめを Google ドキュメントにしてフォルダに移す関数（ドキュメントの URL を返す）
+function writeReportDocument(
+	report: SummaryReport,
+	charts: Record<string, GoogleAppsScript.Base.Blob>,
+	folderId: string,
+): string {
+	const document = DocumentApp.create(
+		`YouTubeハッシュタグ分析 ${getReportTitle(report)}`,
+	);
+	const body = document.getBody();
+	body
+		.appendParagraph(getReportTitle(report))
+		.setHeading(DocumentApp.ParagraphHeading.TITLE);
+	for (const chart of Object.values(charts)) {
+		body.appendImage(chart);
+	}
+	for (const section of getReportSections(report)) {
+		body
+			.appendParagraph(section.heading)
+			.setHeading(DocumentApp.ParagraphHeading.HEADING1);
+		body.appendParagraph(section.summary);
+		for (const table of section.tables) {
+			if (table.rows.length === 0) continue;
+			body
+				.appendParagraph(table.title)
+				.setHeading(DocumentApp.ParagraphHeading.HEADING2);
+			body.appendTable([table.headers, ...table.rows]);
+		}
+	}
+	document.saveAndClose();
+	DriveApp.getFileById(document.getId()).moveTo(
+		DriveApp.getFolderById(folderId),
+	);
+	return document.getUrl();
+}
+
+// 日次統計・積み上げ・登録者数履歴のシートから期間のまとめを作り、メールで送る関数
+// 宛先はスクリプトプロパティ REPORT_EMAIL（「,」区切り）。REPORT_DOC_FOLDER_ID を設定した場合は
+// そのフォルダに Google ドキュメントも作成する。日次統計がない場合は何もせずに null を返す
+export function sendSummaryReport(
+	spreadsheet: GoogleAppsScript.Spreadsheet.Spreadsheet,
+	stackSheet: GoogleAppsScript.Spreadsheet.Sheet,
+	hashtags: string[],
+	period: ReportPeriod,
+	now = new Date(),
+): SummaryReportResult | null {
+	const properties = PropertiesService.getScriptProperties();
+	const recipients = properties.getProperty("REPORT_EMAIL") || "";
+	const folderId = properties.getProperty("REPORT_DOC_FOLDER_ID") || "";
+	if (!recipients && !folderId) {
+		throw new Error(
+			"スクリプトプロパティ REPORT_EMAIL または REPORT_DOC_FOLDER_ID にレポートの送信先を設定してください。",
+		);
+	}
+
+	const statsSheet = spreadsheet.getSheetByName(REPORT_DAILY_STATS_SHEET_NAME);
+	if (!statsSheet) return null;
+	const statsSchema = getDailyStatsSchema();
+	const dailyStats = readSheetRecords(
+		ensureSheetSchema(statsSheet, statsSchema),
+		statsSchema,
+	);
+	const subscriberSheet = spreadsheet.getSheetByName(
+		REPORT_SUBSCRIBER_SHEET_NAME,
+	);
+	const subscriberSchema = getSubscriberHistorySchema();
+	const subscriberRecords = subscriberSheet
+		? readSheetRecords(
+				ensureSheetSchema(subscriberSheet, subscriberSchema),
+				subscriberSchema,
+			)
+		: [];
+
+	const report = buildSummaryReport(
+		dailyStats,
+		loadSnapshotHistory(spreadsheet, stackSheet),
+		subscriberRecords,
+		hashtags,
+		period,
+		now,
+		getReportTopCount(),
+	);
+	if (!report) return null;
+
+	const charts = createReportCharts(report);
+	const documentUrl = folderId
+		? writeReportDocument(report, charts, folderId)
+		: "";
+	if (recipients) {
+		MailApp.sendEmail(
+			recipients,
+			`${REPORT_SUBJECT_PREFIX} ${getReportTitle(report)}`,
+			renderReportText(report, documentUrl),
+			{
+				htmlBody: renderReportHtml(report, Object.keys(charts), documentUrl),
+				inlineImages: charts,
+			},
+		);
+	}
+	return { report, recipients, documentUrl };
+}
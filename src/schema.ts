@@ -0,0 +1,650 @@
+// シートの列構成（スキーマ）をバージョン付きで管理するモジュール
+//
+// シートの種類ごとに列構成の履歴を登録し、ヘッダー行全体を照合して現在のバージョンを判定する。
+// 古いバージョンのシートは登録された移行処理を順に適用して最新の列構成に書き換え、適用した
+// バージョンをスクリプトプロパティ SHEET_SCHEMA_VERSION_<シート名> に記録する。
+// 行は列の位置ではなく、ヘッダー名に対応付けたオブジェクトとして読み書きする。
+import { getHashtagMatchType } from "./hashtags";
+import { logInfo } from "./logging";
+
+// 列構成の1バージョン
+interface SheetLayoutVersion {
+	version: number;
+	headers: string[];
+	// 1つ前のバージョンからの移行で各行（ヘッダー名がキー）に適用する処理
+	// 省略した場合は同じヘッダー名の値を引き継ぎ、新しい列は空欄にする
+	migrateRow?: (record: Record<string, unknown>) => void;
+	// 1つ前のバージョンの行を引き継げない場合は、シートの名前を変えて残し新しいシートを作る
+	archivePrevious?: boolean;
+}
+
+export interface SheetSchema<T> {
+	columns: Record<keyof T & string, string>; // プロパティ名 -> ヘッダー名
+	versions: SheetLayoutVersion[]; // 古い順。最後のバージョンが現在の列構成
+}
+
+// メインシート・積み上げシートの1行
+export interface VideoRecord {
+	fetchedAt: Date; // 取得日時
+	hashtag: string; // ハッシュタグ
+	videoId: string; // 動画ID
+	category: string; // 動画カテゴリ ("ショート" | "通常")
+	title: string; // 動画タイトル
+	url: string; // 動画URL
+	channelName: string; // チャンネル名
+	subscriberCount: number; // チャンネル登録者数
+	publishedAt: Date; // 動画公開日
+	description: string; // 動画の説明
+	viewCount: number; // 視聴回数
+	likeCount: number; // いいね数
+	commentCount: number; // コメント数
+	classificationReason: string; // 判定理由（ショート／通常の判定根拠）
+	durationSeconds: number | ""; // 再生時間(秒)
+	statsUpdatedAt: Date; // 統計更新日時（視聴回数・いいね数・コメント数を最後に取得した日時）
+	status: string; // 状態 ("公開中" | "削除・非公開")
+	channelId: string; // チャンネルID
+	tags: string; // タグ（snippet.tags をカンマ区切り）
+	thumbnailUrl: string; // サムネイルURL
+	defaultLanguage: string; // デフォルト言語
+	liveBroadcast: string; // ライブ配信 ("なし" | "配信予定" | "配信中" | "配信済み")
+	descriptionHashtags: string; // 説明文のハッシュタグ（空白区切り）
+	matchType: string; // 一致の種類 ("ハッシュタグ" | "タグ" | "キーワードのみ")
+}
+
+// 動画ハッシュタグシートの1行（動画とハッシュタグの対応）
+export interface VideoHashtagRecord {
+	videoId: string; // 動画ID
+	hashtag: string; // 検索で見つかったハッシュタグ
+	firstSeenAt: Date; // 初回検出日時
+	lastSeenAt: Date; // 最終検出日時
+}
+
+// 日次統計シートの1行
+export interface DailyStatsRecord {
+	date: Date | string; // 日付（書き込み時は yyyy/MM/dd）
+	hashtag: string; // ハッシュタグ
+	videoType: string; // 動画タイプ ("通常" | "ショート")
+	videoCount: number; // 動画数
+	channelCount: number; // チャンネル数
+	totalViews: number; // 総再生回数
+	newVideoCount: number | ""; // 新規動画数（その日に公開された動画）
+	viewDelta: number | ""; // 再生回数の前日比（前日の記録がない場合は空欄）
+	likeDelta: number | ""; // いいね数の前日比
+	commentDelta: number | ""; // コメント数の前日比
+	engagementRate: number | ""; // エンゲージメント率 ((いいね数+コメント数)/再生回数)
+	medianViews: number | ""; // 再生回数の中央値
+	newChannelCount: number | ""; // 新規チャンネル数（そのハッシュタグで初めて記録されたチャンネル）
+}
+
+// 急上昇シートの1行（24時間の再生回数の増加が大きい動画）
+export interface TopMoverRecord {
+	date: Date | string; // 日付（書き込み時は yyyy/MM/dd）
+	rank: number; // 順位
+	videoId: string; // 動画ID
+	title: string; // 動画タイトル
+	channelName: string; // チャンネル名
+	category: string; // 動画カテゴリ ("ショート" | "通常")
+	hashtags: string; // ハッシュタグ（空白区切り）
+	viewCount: number; // 視聴回数
+	viewGain: number; // 24時間の再生回数の増加
+	url: string; // 動画URL
+}
+
+// セル使用量シートの1行
+export interface CellUsageRecord {
+	sheetName: string; // シート名（合計の行は "合計"）
+	rowCount: number; // 行数
+	columnCount: number; // 列数
+	cellCount: number; // セル数（行数×列数）
+	dataRowCount: number; // データのある行数
+	dataColumnCount: number; // データのある列数
+	usageRate: number; // スプレッドシートのセル数の上限に対する割合
+}
+
+// ハッシュタグ候補シートの1行（追跡中の動画に付いている、追跡していないハッシュタグ）
+export interface HashtagDiscoveryRecord {
+	hashtag: string; // ハッシュタグ（動画のタグは # を付けて表示する）
+	suggested: boolean; // 追加候補（直近7日に急増している）
+	videoCount: number; // 動画数
+	channelCount: number; // チャンネル数
+	totalViews: number; // 総再生回数
+	recent7Days: number; // 直近7日に公開された動画数
+	previous7Days: number; // その前の7日に公開された動画数
+	recent30Days: number; // 直近30日に公開された動画数
+	previous30Days: number; // その前の30日に公開された動画数
+	growthRate: number | ""; // 7日の増加率（直近7日 ÷ その前の7日。その前の7日が0件の場合は空欄）
+	cooccurrence: string; // 共起（追跡中のハッシュタグごとの動画数を空白区切り、例: "#安野たかひろ:12 #チームみらい:3"）
+	firstPublishedAt: Date; // 初出日（最初に公開された動画の公開日）
+}
+
+// アラート履歴シートの1行（送信したアラート）
+export interface AlertRecord {
+	sentAt: Date; // 送信日時
+	date: Date | string; // 対象の日付（書き込み時は yyyy/MM/dd）
+	rule: string; // ルール ("再生回数の急増" | "新規チャンネル" | "投稿数の急増")
+	key: string; // 重複して送信しないためのキー
+	hashtag: string; // ハッシュタグ
+	message: string; // 内容
+	url: string; // 動画・チャンネルのURL
+	destinations: string; // 送信先（"メール" | "Webhook" を空白区切り。送信先が未設定の場合は "ログのみ"）
+}
+
+// 実行ログシートの1行（エントリーポイントの実行1回分）
+export interface RunLogRecord {
+	startedAt: Date; // 開始日時
+	finishedAt: Date; // 終了日時
+	functionName: string; // 関数名
+	status: string; // 状態 ("成功" | "警告" | "失敗")
+	durationSeconds: number; // 所要時間（秒）
+	rowsWritten: number; // シートに書き込んだ行数
+	quotaUnits: number; // 消費した YouTube API のユニット数
+	warningCount: number; // 警告・エラーのログの件数
+	errorMessage: string; // エラーメッセージ（失敗した場合は投げられたエラー、警告の場合は最初のエラーのログ）
+}
+
+// チャンネル登録者数履歴シートの1行
+export interface SubscriberHistoryRecord {
+	date: Date; // 日付
+	channelId: string; // チャンネルID
+	channelTitle: string; // チャンネルタイトル
+	previousTitle: string; // 以前のタイトル（変更された場合のみ）
+	subscriberCount: number | ""; // チャンネル登録者数（非公開の場合は空欄）
+	hiddenSubscriberCount: boolean; // 登録者数非公開
+	channelViewCount: number; // チャンネル総視聴回数
+	videoCount: number; // 動画数
+	trackedViewCount: number; // 追跡動画の視聴回数（重複なし）
+}
+
+const SCHEMA_VERSION_PREFIX = "SHEET_SCHEMA_VERSION_";
+
+// 動画シート（メイン・積み上げ）のスキーマ
+// 列は末尾にのみ追加してきたため、各バージョンの列は最新の列の先頭部分と一致する
+export function getVideoSheetSchema(): SheetSchema<VideoRecord> {
+	const columns: Record<keyof VideoRecord, string> = {
+		fetchedAt: "取得日時",
+		hashtag: "ハッシュタグ",
+		videoId: "動画ID",
+		category: "動画カテゴリ",
+		title: "動画タイトル",
+		url: "動画URL",
+		channelName: "チャンネル名",
+		subscriberCount: "チャンネル登録者数",
+		publishedAt: "動画公開日",
+		description: "動画の説明",
+		viewCount: "視聴回数",
+		likeCount: "いいね数",
+		commentCount: "コメント数",
+		classificationReason: "判定理由",
+		durationSeconds: "再生時間(秒)",
+		statsUpdatedAt: "統計更新日時",
+		status: "状態",
+		channelId: "チャンネルID",
+		tags: "タグ",
+		thumbnailUrl: "サムネイルURL",
+		defaultLanguage: "デフォルト言語",
+		liveBroadcast: "ライブ配信",
+		descriptionHashtags: "説明文のハッシュタグ",
+		matchType: "一致の種類",
+	};
+	const headers = Object.values(columns);
+	return {
+		columns,
+		versions: [
+			{ version: 1, headers: headers.slice(0, 13) },
+			// ショート動画の判定理由と再生時間
+			{ version: 2, headers: headers.slice(0, 15) },
+			// 統計の更新日時と削除・非公開の状態（旧形式の行の統計は取得日時の時点のもの）
+			{
+				version: 3,
+				headers: headers.slice(0, 17),
+				migrateRow: (record) => {
+					if (record.統計更新日時 === "") record.統計更新日時 = record.取得日時;
+					if (record.状態 === "") record.状態 = "公開中";
+				},
+			},
+			// チャンネルID と動画のメタデータ
+			{ version: 4, headers: headers.slice(0, 23) },
+			// ハッシュタグとの一致の種類（旧形式の行は記録済みのタイトル・説明文・タグから判定する）
+			{
+				version: 5,
+				headers,
+				migrateRow: (record) => {
+					record.一致の種類 = getHashtagMatchType(
+						{
+							title: String(record.動画タイトル),
+							description: `${record.動画の説明}\n${record.説明文のハッシュタグ}`,
+							tags: String(record.タグ).split(/,\s*/),
+						},
+						String(record.ハッシュタグ),
+					);
+				},
+			},
+		],
+	};
+}
+
+// 動画ハッシュタグシートのスキーマ
+export function getVideoHashtagSchema(): SheetSchema<VideoHashtagRecord> {
+	const columns: Record<keyof VideoHashtagRecord, string> = {
+		videoId: "動画ID",
+		hashtag: "ハッシュタグ",
+		firstSeenAt: "初回検出日時",
+		lastSeenAt: "最終検出日時",
+	};
+	return {
+		columns,
+		versions: [{ version: 1, headers: Object.values(columns) }],
+	};
+}
+
+// 日次統計シートのスキーマ
+export function getDailyStatsSchema(): SheetSchema<DailyStatsRecord> {
+	const columns: Record<keyof DailyStatsRecord, string> = {
+		date: "日付",
+		hashtag: "ハッシュタグ",
+		videoType: "動画タイプ",
+		videoCount: "動画数",
+		channelCount: "チャンネル数",
+		totalViews: "総再生回数",
+		newVideoCount: "新規動画数",
+		viewDelta: "再生回数の前日比",
+		likeDelta: "いいね数の前日比",
+		commentDelta: "コメント数の前日比",
+		engagementRate: "エンゲージメント率",
+		medianViews: "再生回数の中央値",
+		newChannelCount: "新規チャンネル数",
+	};
+	const headers = Object.values(columns);
+	return {
+		columns,
+		versions: [
+			{ version: 1, headers: headers.slice(0, 6) },
+			// 積み上げの履歴を使った指標（旧形式の行は backfillDailyStats で再計算する）
+			{ version: 2, headers },
+		],
+	};
+}
+
+// 急上昇シートのスキーマ
+export function getTopMoversSchema(): SheetSchema<TopMoverRecord> {
+	const columns: Record<keyof TopMoverRecord, string> = {
+		date: "日付",
+		rank: "順位",
+		videoId: "動画ID",
+		title: "動画タイトル",
+		channelName: "チャンネル名",
+		category: "動画カテゴリ",
+		hashtags: "ハッシュタグ",
+		viewCount: "視聴回数",
+		viewGain: "24時間の増加",
+		url: "動画URL",
+	};
+	return {
+		columns,
+		versions: [{ version: 1, headers: Object.values(columns) }],
+	};
+}
+
+// セル使用量シートのスキーマ
+export function getCellUsageSchema(): SheetSchema<CellUsageRecord> {
+	const columns: Record<keyof CellUsageRecord, string> = {
+		sheetName: "シート名",
+		rowCount: "行数",
+		columnCount: "列数",
+		cellCount: "セル数",
+		dataRowCount: "データのある行数",
+		dataColumnCount: "データのある列数",
+		usageRate: "上限に対する割合",
+	};
+	return {
+		columns,
+		versions: [{ version: 1, headers: Object.values(columns) }],
+	};
+}
+
+// ハッシュタグ候補シートのスキーマ
+export function getHashtagDiscoverySchema(): SheetSchema<HashtagDiscoveryRecord> {
+	const columns: Record<keyof HashtagDiscoveryRecord, string> = {
+		hashtag: "ハッシュタグ",
+		suggested: "追加候補",
+		videoCount: "動画数",
+		channelCount: "チャンネル数",
+		totalViews: "総再生回数",
+		recent7Days: "直近7日の動画数",
+		previous7Days: "前の7日の動画数",
+		recent30Days: "直近30日の動画数",
+		previous30Days: "前の30日の動画数",
+		growthRate: "7日の増加率",
+		cooccurrence: "共起",
+		firstPublishedAt: "初出日",
+	};
+	return {
+		columns,
+		versions: [{ version: 1, headers: Object.values(columns) }],
+	};
+}
+
+// アラート履歴シートのスキーマ
+export function getAlertHistorySchema(): SheetSchema<AlertRecord> {
+	const columns: Record<keyof AlertRecord, string> = {
+		sentAt: "送信日時",
+		date: "日付",
+		rule: "ルール",
+		key: "キー",
+		hashtag: "ハッシュタグ",
+		message: "内容",
+		url: "URL",
+		destinations: "送信先",
+	};
+	return {
+		columns,
+		versions: [{ version: 1, headers: Object.values(columns) }],
+	};
+}
+
+// 実行ログシートのスキーマ
+export function getRunLogSchema(): SheetSchema<RunLogRecord> {
+	const columns: Record<keyof RunLogRecord, string> = {
+		startedAt: "開始日時",
+		finishedAt: "終了日時",
+		functionName: "関数名",
+		status: "状態",
+		durationSeconds: "所要時間（秒）",
+		rowsWritten: "書き込んだ行数",
+		quotaUnits: "消費ユニット数",
+		warningCount: "警告数",
+		errorMessage: "エラーメッセージ",
+	};
+	return {
+		columns,
+		versions: [{ version: 1, headers: Object.values(columns) }],
+	};
+}
+
+// チャンネル登録者数履歴シートのスキーマ
+export function getSubscriberHistorySchema(): SheetSchema<SubscriberHistoryRecord> {
+	const columns: Record<keyof SubscriberHistoryRecord, string> = {
+		date: "日付",
+		channelId: "チャンネルID",
+		channelTitle: "チャンネルタイトル",
+		previousTitle: "以前のタイトル",
+		subscriberCount: "チャンネル登録者数",
+		hiddenSubscriberCount: "登録者数非公開",
+		channelViewCount: "チャンネル総視聴回数",
+		videoCount: "動画数",
+		trackedViewCount: "追跡動画の視聴回数",
+	};
+	return {
+		columns,
+		versions: [
+			// チャンネル名をキーにしていた旧形式
+			{
+				version: 1,
+				headers: [
+					"日付",
+					"チャンネルタイトル",
+					"チャンネル登録者数",
+					"視聴回数",
+				],
+			},
+			// チャンネルIDをキーにした形式（旧形式の行はチャンネルIDを特定できないため引き継がない）
+			{ version: 2, headers: Object.values(columns), archivePrevious: true },
+		],
+	};
+}
+
+// スキーマの現在の列（ヘッダー名）を返す関数
+export function getSchemaHeaders<T>(schema: SheetSchema<T>): string[] {
+	return schema.versions[schema.versions.length - 1].headers;
+}
+
+// プロパティに対応する列番号（0始まり）を返す関数
+export function getSchemaColumnIndex<T>(
+	schema: SheetSchema<T>,
+	key: keyof T & string,
+): number {
+	return getSchemaHeaders(schema).indexOf(schema.columns[key]);
+}
+
+// ヘッダー行を読み込む関数（末尾の空欄は除く）
+function readHeaderRow(sheet: GoogleAppsScript.Spreadsheet.Sheet): string[] {
+	const lastColumn = sheet.getLastColumn();
+	const headers =
+		lastColumn > 0
+			? sheet.getRange(1, 1, 1, lastColumn).getValues()[0].map(String)
+			: [];
+	while (headers.length > 0 && headers[headers.length - 1] === "") {
+		headers.pop();
+	}
+	return headers;
+}
+
+function isSameHeaders(a: string[], b: string[]): boolean {
+	return (
+		a.length === b.length && a.every((header, index) => header === b[index])
+	);
+}
+
+function getSchemaVersionKey(
+	sheet: GoogleAppsScript.Spreadsheet.Sheet,
+): string {
+	return `${SCHEMA_VERSION_PREFIX}${sheet.getName()}`;
+}
+
+// 記録されているスキーマのバージョンを返す関数（記録がない場合は null）
+export function getRecordedSchemaVersion(
+	sheet: GoogleAppsScript.Spreadsheet.Sheet,
+): number | null {
+	const stored = PropertiesService.getScriptProperties().getProperty(
+		getSchemaVersionKey(sheet),
+	);
+	const version = Number(stored);
+	return stored && Number.isInteger(version) ? version : null;
+}
+
+function recordSchemaVersion(
+	sheet: GoogleAppsScript.Spreadsheet.Sheet,
+	version: number,
+): void {
+	if (getRecordedSchemaVersion(sheet) !== version) {
+		PropertiesService.getScriptProperties().setProperty(
+			getSchemaVersionKey(sheet),
+			String(version),
+		);
+	}
+}
+
+function writeHeaderRow(
+	sheet: GoogleAppsScript.Spreadsheet.Sheet,
+	headers: string[],
+): void {
+	const range = sheet.getRange(1, 1, 1, headers.length);
+	range.setValues([headers]);
+	// ヘッダー行を固定
+	sheet.setFrozenRows(1);
+	// ヘッダーを太字に
+	range.setFontWeight("bold");
+	// 列幅を自動調整
+	sheet.autoResizeColumns(1, headers.length);
+}
+
+// 引き継げないシートの名前を変えて残し、同じ名前の空のシートを作成する関数
+function archiveSheet(
+	sheet: GoogleAppsScript.Spreadsheet.Sheet,
+): GoogleAppsScript.Spreadsheet.Sheet {
+	const spreadsheet = sheet.getParent();
+	const sheetName = sheet.getName();
+	const baseName = `${sheetName}_旧形式`;
+	const archiveName = spreadsheet.getSheetByName(baseName)
+		? `${baseName}_${Date.now()}`
+		: baseName;
+	sheet.setName(archiveName);
+	logInfo(
+		"ensureSheetSchema",
+		`旧形式のシート「${sheetName}」を「${archiveName}」に名前を変更しました。`,
+	);
+	return spreadsheet.insertSheet(sheetName);
+}
+
+// シートを最新の列構成にそろえる関数（新しいシートを作成した場合はそのシートを返す）
+// 空のシートにはヘッダーを設定し、古いバージョンのシートは移行処理を順に適用する。
+// どのバージョンとも一致しないシートは書き換えずにエラーにする。
+export function ensureSheetSchema<T>(
+	sheet: GoogleAppsScript.Spreadsheet.Sheet,
+	schema: SheetSchema<T>,
+): GoogleAppsScript.Spreadsheet.Sheet {
+	const latest = schema.versions[schema.versions.length - 1];
+	const existingHeaders = readHeaderRow(sheet);
+	if (existingHeaders.length === 0 && sheet.getLastRow() === 0) {
+		writeHeaderRow(sheet, latest.headers);
+		recordSchemaVersion(sheet, latest.version);
+		return sheet;
+	}
+
+	// 同じ列構成のバージョンが複数ある場合は、記録されているバージョンを優先する
+	const recordedVersion = getRecordedSchemaVersion(sheet);
+	const matching = schema.versions.filter((candidate) =>
+		isSameHeaders(candidate.headers, existingHeaders),
+	);
+	const current =
+		matching.find((candidate) => candidate.version === recordedVersion) ||
+		matching[0];
+	if (!current) {
+		throw new Error(
+			`シート「${sheet.getName()}」の列構成がどのバージョンとも一致しないため移行できません: ${existingHeaders.join(", ")}`,
+		);
+	}
+	if (current === latest) {
+		recordSchemaVersion(sheet, latest.version);
+		return sheet;
+	}
+
+	// 行をヘッダー名をキーにしたオブジェクトとして読み込み、移行処理を順に適用する
+	let target = sheet;
+	const dataRowCount = sheet.getLastRow() - 1;
+	let records: Record<string, unknown>[] =
+		dataRowCount > 0
+			? sheet
+					.getRange(2, 1, dataRowCount, existingHeaders.length)
+					.getValues()
+					.map((row) =>
+						Object.fromEntries(
+							existingHeaders.map((header, index) => [header, row[index]]),
+						),
+					)
+			: [];
+	for (const next of schema.versions.filter(
+		(candidate) => candidate.version > current.version,
+	)) {
+		if (next.archivePrevious) {
+			target = archiveSheet(target);
+			records = [];
+			continue;
+		}
+		records = records.map((record) => {
+			const migrated = { ...record };
+			for (const header of next.headers) {
+				if (!(header in migrated)) migrated[header] = "";
+			}
+			next.migrateRow?.(migrated);
+			return migrated;
+		});
+	}
+
+	const rows = records.map((record) =>
+		latest.headers.map((header) => record[header] ?? ""),
+	);
+	if (target === sheet && existingHeaders.length > latest.headers.length) {
+		// 列が減った場合は、残った古い値を消す
+		sheet
+			.getRange(
+				1,
+				latest.headers.length + 1,
+				sheet.getLastRow(),
+				existingHeaders.length - latest.headers.length,
+			)
+			.clearContent();
+	}
+	writeHeaderRow(target, latest.headers);
+	if (rows.length > 0) {
+		target.getRange(2, 1, rows.length, latest.headers.length).setValues(rows);
+	}
+	recordSchemaVersion(target, latest.version);
+	logInfo(
+		"ensureSheetSchema",
+		`シート「${target.getName()}」をバージョン${current.version}からバージョン${latest.version}に移行しました（${rows.length}行）。`,
+		{ count: rows.length },
+	);
+	return target;
+}
+
+// シートの行をオブジェクトとして読み込む関数（ヘッダー行全体が最新の列構成と一致する必要がある）
+export function readSheetRecords<T>(
+	sheet: GoogleAppsScript.Spreadsheet.Sheet,
+	schema: SheetSchema<T>,
+): T[] {
+	const headers = getSchemaHeaders(schema);
+	if (!isSameHeaders(readHeaderRow(sheet), headers)) {
+		throw new Error(
+			`シート「${sheet.getName()}」の列構成が最新ではありません。ensureSheetSchema で移行してください。`,
+		);
+	}
+	const dataRowCount = sheet.getLastRow() - 1;
+	if (dataRowCount <= 0) return [];
+	return sheet
+		.getRange(2, 1, dataRowCount, headers.length)
+		.getValues()
+		.map((row) => toSheetRecord(schema, row));
+}
+
+// 列の並びの配列をオブジェクトに変換する関数
+export function toSheetRecord<T>(schema: SheetSchema<T>, row: unknown[]): T {
+	const headers = getSchemaHeaders(schema);
+	const record: Record<string, unknown> = {};
+	for (const [key, header] of Object.entries(schema.columns)) {
+		record[key] = row[headers.indexOf(header as string)];
+	}
+	return record as T;
+}
+
+// オブジェクトを列の並びの配列に変換する関数
+export function toSheetRow<T>(schema: SheetSchema<T>, record: T): unknown[] {
+	const valuesByHeader = new Map<string, unknown>();
+	for (const [key, header] of Object.entries(schema.columns)) {
+		valuesByHeader.set(header as string, record[key as keyof T]);
+	}
+	return getSchemaHeaders(schema).map(
+		(header) => valuesByHeader.get(header) ?? "",
+	);
+}
+
+// オブジェクトをシートの末尾にまとめて追加する関数
+export function appendSheetRecords<T>(
+	sheet: GoogleAppsScript.Spreadsheet.Sheet,
+	schema: SheetSchema<T>,
+	records: T[],
+): void {
+	if (records.length === 0) return;
+	const rows = records.map((record) => toSheetRow(schema, record));
+	sheet
+		.getRange(sheet.getLastRow() + 1, 1, rows.length, rows[0].length)
+		.setValues(rows);
+}
+
+// ヘッダー行を残してデータ行をすべて書き換える関数
+export function replaceSheetRecords<T>(
+	sheet: GoogleAppsScript.Spreadsheet.Sheet,
+	schema: SheetSchema<T>,
+	records: T[],
+): void {
+	const headers = getSchemaHeaders(schema);
+	const lastRow = sheet.getLastRow();
+	if (lastRow > 1) {
+		sheet.getRange(2, 1, lastRow - 1, headers.length).clearContent();
+	}
+	if (records.length > 0) {
+		sheet
+			.getRange(2, 1, records.length, headers.length)
+			.setValues(records.map((record) => toSheetRow(schema, record)));
+	}
+}
@@ -0,0 +1,206 @@
+// ショート動画の判定を行うモジュール
+//
+// タイトルや説明文の "shorts" という文字列ではなく、再生時間・縦横比・ハッシュタグ・
+// /shorts URL の順に段階的に判定し、判定理由を記録する。
+import { isJobTimeRunningOut } from "./jobs";
+import { logWarn } from "./logging";
+import { getNumberProperty } from "./properties";
+
+export type VideoCategory = "ショート" | "通常";
+
+export interface ShortsClassification {
+	category: VideoCategory;
+	reason: string; // 判定理由（シートの「判定理由」列に記録する）
+	durationSeconds: number | null; // 再生時間（秒）。取得できない場合は null
+}
+
+// ショート動画として扱う再生時間の上限（2024年10月以降は3分まで）
+const SHORTS_MAX_DURATION_SECONDS = 180;
+
+// 縦横比が分からない場合でもショートとみなす再生時間の上限
+const SHORTS_CERTAIN_DURATION_SECONDS = 60;
+
+// 1回の実行で /shorts URL を確認する動画数の上限（スクリプトプロパティ SHORTS_URL_CHECK_LIMIT で変更可）
+const DEFAULT_SHORTS_URL_CHECK_LIMIT = 30;
+
+// /shorts URL の確認結果をキャッシュする時間（CacheService の上限の6時間）
+const SHORTS_URL_CACHE_SECONDS = 6 * 60 * 60;
+const SHORTS_URL_CACHE_PREFIX = "SHORTS_URL_";
+
+// 実行中に /shorts URL を確認した回数（Apps Script は実行ごとにグローバル状態が初期化される）
+const shortsUrlRun = {
+	fetchCount: 0,
+	skipLogged: false,
+};
+
+// ISO 8601 形式の再生時間（例: PT1H2M3S, P1DT2H）を秒数に変換する関数
+export function parseIsoDuration(duration: string | undefined): number | null {
+	if (!duration) return null;
+	const match = duration.match(
+		/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/,
+	);
+	if (!match) return null;
+	const [, days, hours, minutes, seconds] = match;
+	return (
+		Number(days || 0) * 86400 +
+		Number(hours || 0) * 3600 +
+		Number(minutes || 0) * 60 +
+		Math.round(Number(seconds || 0))
+	);
+}
+
+// タイトル・説明文・タグに #shorts ハッシュタグが付いているか判定する関数
+function hasShortsHashtag(
+	video: GoogleAppsScript.YouTube.Schema.Video,
+): boolean {
+	const pattern = /(^|[^\p{L}\p{N}_])[#＃]shorts(?![\p{L}\p{N}_])/iu;
+	return (
+		pattern.test(video.snippet?.title || "") ||
+		pattern.test(video.snippet?.description || "") ||
+		(video.snippet?.tags || []).some((tag) => tag.toLowerCase() === "shorts")
+	);
+}
+
+// 埋め込みプレイヤーのサイズから縦横比を判定する関数（不明な場合は null）
+function isVerticalPlayer(
+	video: GoogleAppsScript.YouTube.Schema.Video,
+): boolean | null {
+	const width = Number(video.player?.embedWidth);
+	const height = Number(video.player?.embedHeight);
+	if (!width || !height) return null;
+	return height >= width;
+}
+
+// /shorts URL を確認した回数をリセットする関数（テスト用）
+export function resetShortsUrlChecks(): void {
+	shortsUrlRun.fetchCount = 0;
+	shortsUrlRun.skipLogged = false;
+}
+
+function getShortsUrlCheckLimit(): number {
+	return getNumberProperty(
+		"SHORTS_URL_CHECK_LIMIT",
+		DEFAULT_SHORTS_URL_CHECK_LIMIT,
+		{ integer: true, allowZero: true },
+	);
+}
+
+// この実行でまだ /shorts URL を確認してよいかを返す関数
+// 回数の上限に達した場合や実行時間の上限に近づいた場合は確認しない
+function canFetchShortsUrl(videoId: string): boolean {
+	if (
+		shortsUrlRun.fetchCount < getShortsUrlCheckLimit() &&
+		!isJobTimeRunningOut()
+	) {
+		return true;
+	}
+	if (!shortsUrlRun.skipLogged) {
+		shortsUrlRun.skipLogged = true;
+		logWarn(
+			"checkShortsUrl",
+			`確認の上限（${shortsUrlRun.fetchCount}件）または実行時間の上限に達したため、${videoId} 以降の /shorts URL の確認を省略します。`,
+		);
+	}
+	return false;
+}
+
+// /shorts/{videoId} にアクセスし、リダイレクトされなければショートと判定する関数
+// 結果は動画IDごとにキャッシュし、確認できない場合（通信エラー・上限に達した場合など）は null を返す
+function checkShortsUrl(videoId: string): boolean | null {
+	const cache = CacheService.getScriptCache();
+	const cacheKey = `${SHORTS_URL_CACHE_PREFIX}${videoId}`;
+	const cached = cache.get(cacheKey);
+	if (cached !== null) return cached === "true";
+	if (!canFetchShortsUrl(videoId)) return null;
+
+	shortsUrlRun.fetchCount++;
+	try {
+		const response = UrlFetchApp.fetch(
+			`https://www.youtube.com/shorts/${videoId}`,
+			{ followRedirects: false, muteHttpExceptions: true },
+		);
+		const code = response.getResponseCode();
+		const isShorts =
+			code === 200 ? true : code >= 300 && code < 400 ? false : null;
+		if (isShorts !== null) {
+			cache.put(cacheKey, String(isShorts), SHORTS_URL_CACHE_SECONDS);
+		}
+		return isShorts;
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		logWarn(
+			"checkShortsUrl",
+			`判定に失敗しました (${videoId}): ${errorMessage}`,
+		);
+		return null;
+	}
+}
+
+// 動画をショート／通常に分類する関数
+export function classifyVideoType(
+	video: GoogleAppsScript.YouTube.Schema.Video,
+): ShortsClassification {
+	const durationSeconds = parseIsoDuration(video.contentDetails?.duration);
+	const hasHashtag = hasShortsHashtag(video);
+
+	// 1. 再生時間が分からない場合はハッシュタグのみで判定
+	if (durationSeconds === null) {
+		return hasHashtag
+			? {
+					category: "ショート",
+					reason: "#shorts（再生時間不明）",
+					durationSeconds,
+				}
+			: { category: "通常", reason: "再生時間不明", durationSeconds };
+	}
+
+	// 2. 配信中・配信予定のライブ（再生時間が P0D）はショートではない
+	if (durationSeconds === 0) {
+		return { category: "通常", reason: "ライブ配信", durationSeconds };
+	}
+
+	// 3. 上限を超える長さの動画はショートではない
+	if (durationSeconds > SHORTS_MAX_DURATION_SECONDS) {
+		return {
+			category: "通常",
+			reason: `再生時間${SHORTS_MAX_DURATION_SECONDS}秒超`,
+			durationSeconds,
+		};
+	}
+
+	// 4. 縦横比が分かる場合は縦型かどうかで判定
+	const vertical = isVerticalPlayer(video);
+	if (vertical !== null) {
+		return vertical
+			? { category: "ショート", reason: "縦型・短尺", durationSeconds }
+			: { category: "通常", reason: "横型", durationSeconds };
+	}
+
+	// 5. #shorts ハッシュタグが付いた短尺動画
+	if (hasHashtag) {
+		return { category: "ショート", reason: "#shorts・短尺", durationSeconds };
+	}
+
+	// 6. 60秒以下の動画はショートとみなす
+	if (durationSeconds <= SHORTS_CERTAIN_DURATION_SECONDS) {
+		return {
+			category: "ショート",
+			reason: `${SHORTS_CERTAIN_DURATION_SECONDS}秒以下`,
+			durationSeconds,
+		};
+	}
+
+	// 7. それでも判定できない場合は /shorts URL で確認
+	const shortsUrl = video.id ? checkShortsUrl(video.id) : null;
+	if (shortsUrl !== null) {
+		return shortsUrl
+			? { category: "ショート", reason: "/shorts URL", durationSeconds }
+			: {
+					category: "通常",
+					reason: "/shorts URL でリダイレクト",
+					durationSeconds,
+				};
+	}
+
+	return { category: "通常", reason: "判定材料なし", durationSeconds };
+}
@@ -0,0 +1,473 @@
+// 積み上げシートに記録済みのデータから日次統計を計算するモジュール
+//
+// YouTube API を呼び出さずに、積み上げシートの日付ごとの行と動画ハッシュタグシートの対応から
+// (日付, ハッシュタグ, 動画タイプ) ごとの統計と、前日からの再生回数の増加が大きい動画（急上昇）を
+// 計算する。同じ日付を再計算した場合は行を置き換えるため、何度実行しても同じ日付の行は重複しない。
+import { getKeywordOnlyMatchRule, getVideoRecordMatchType } from "./hashtags";
+import { loadVideoHashtagRecords } from "./links";
+import { getNumberProperty } from "./properties";
+import {
+	type DailyStatsRecord,
+	type SheetSchema,
+	type TopMoverRecord,
+	type VideoHashtagRecord,
+	type VideoRecord,
+	ensureSheetSchema,
+	getDailyStatsSchema,
+	getTopMoversSchema,
+	getVideoSheetSchema,
+	readSheetRecords,
+	replaceSheetRecords,
+} from "./schema";
+
+const DAILY_STATS_SHEET_NAME = "日次統計";
+// 日次統計の日付は日本時間（夏時間がないため UTC+9 で固定）で区切る
+const DAILY_STATS_UTC_OFFSET_MS = 9 * 60 * 60 * 1000;
+const TOP_MOVERS_SHEET_NAME = "急上昇";
+const DEFAULT_TOP_MOVERS_COUNT = 20;
+const MILLISECONDS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// UTC の年月日を yyyy/MM/dd 形式にする関数
+function formatUtcStatsDate(date: Date): string {
+	return [
+		date.getUTCFullYear(),
+		String(date.getUTCMonth() + 1).padStart(2, "0"),
+		String(date.getUTCDate()).padStart(2, "0"),
+	].join("/");
+}
+
+// 日付を日次統計の日付（yyyy/MM/dd、Asia/Tokyo）に変換する関数
+// Apps Script のサービスを使わないため、Node の CLI からも呼び出せる
+export function formatStatsDate(value: Date | string): string {
+	if (typeof value === "string" && /^\d{4}\/\d{2}\/\d{2}$/.test(value)) {
+		return value;
+	}
+	return formatUtcStatsDate(
+		new Date(new Date(value).getTime() + DAILY_STATS_UTC_OFFSET_MS),
+	);
+}
+
+// 積み上げシートの行を日付ごとにまとめた履歴
+export interface SnapshotHistory {
+	videosByDate: Map<string, Map<string, VideoRecord>>; // 日付 -> 動画ID -> その日の最新の行
+	linkDates: Map<string, Map<string, string>>; // 動画ID -> ハッシュタグ -> 初回検出日
+	firstChannelDates: Map<string, Map<string, string>>; // ハッシュタグ -> チャンネル -> 初めて記録された日付（計算済みのもの）
+	excludeKeywordOnly: boolean; // ハッシュタグが付いておらず検索語として一致しただけの動画を統計に含めない
+}
+
+// 日次統計と急上昇の計算結果
+export interface DailyStatsResult {
+	stats: DailyStatsRecord[];
+	topMovers: TopMoverRecord[];
+	history: SnapshotHistory; // 計算に使った履歴（アラートの判定にも使う）
+}
+
+// ハッシュタグで初めて記録されたチャンネルの動画
+export interface NewChannelVideo {
+	hashtag: string;
+	video: VideoRecord;
+}
+
+const VIDEO_TYPES = ["通常", "ショート"];
+
+// 積み上げシートの行と動画ハッシュタグの対応から履歴を作る関数
+// 同じ日に同じ動画の行が複数ある場合は取得日時が最新の行を使う
+export function buildSnapshotHistory(
+	snapshots: VideoRecord[],
+	videoHashtagRecords: VideoHashtagRecord[],
+	excludeKeywordOnly = false,
+): SnapshotHistory {
+	const videosByDate = new Map<string, Map<string, VideoRecord>>();
+	for (const video of snapshots) {
+		if (!video.videoId) continue;
+		const date = formatStatsDate(video.fetchedAt);
+		const videos = videosByDate.get(date) || new Map<string, VideoRecord>();
+		const existing = videos.get(video.videoId);
+		if (
+			!existing ||
+			new Date(video.fetchedAt).getTime() >
+				new Date(existing.fetchedAt).getTime()
+		) {
+			videos.set(video.videoId, video);
+		}
+		videosByDate.set(date, videos);
+	}
+
+	const linkDates = new Map<string, Map<string, string>>();
+	for (const record of videoHashtagRecords) {
+		const videoId = String(record.videoId);
+		const dates = linkDates.get(videoId) || new Map<string, string>();
+		dates.set(String(record.hashtag), formatStatsDate(record.firstSeenAt));
+		linkDates.set(videoId, dates);
+	}
+	return {
+		videosByDate,
+		linkDates,
+		firstChannelDates: new Map(),
+		excludeKeywordOnly,
+	};
+}
+
+// 動画がその日の時点でハッシュタグで見つかっていたかを返す関数
+// 動画ハッシュタグシートの対応は初回検出日がその日以前のものだけを使い、対応が記録されて
+// いない動画は行の「ハッシュタグ」列で見つかったものとして扱う
+// excludeKeywordOnly の場合は、キーワードのみで一致した動画を見つかっていないものとして扱う
+function isVideoMatched(
+	history: SnapshotHistory,
+	video: VideoRecord,
+	hashtag: string,
+	date: string,
+): boolean {
+	const firstSeen = history.linkDates.get(video.videoId)?.get(hashtag);
+	if (
+		video.hashtag !== hashtag &&
+		(firstSeen === undefined || firstSeen > date)
+	) {
+		return false;
+	}
+	return (
+		!history.excludeKeywordOnly ||
+		getVideoRecordMatchType(video, hashtag) !== "キーワードのみ"
+	);
+}
+
+// その日の積み上げデータのうち、ハッシュタグで見つかっていた動画を返す関数
+export function getMatchedVideos(
+	history: SnapshotHistory,
+	hashtag: string,
+	date: string,
+): VideoRecord[] {
+	return [...(history.videosByDate.get(date)?.values() || [])].filter((video) =>
+		isVideoMatched(history, video, hashtag, date),
+	);
+}
+
+// ハッシュタグごとに、各チャンネルの動画が初めて記録された日付を返す関数
+function getFirstChannelDates(
+	history: SnapshotHistory,
+	hashtag: string,
+): Map<string, string> {
+	const cached = history.firstChannelDates.get(hashtag);
+	if (cached) return cached;
+	const firstDates = new Map<string, string>();
+	for (const [date, videos] of history.videosByDate) {
+		for (const video of videos.values()) {
+			const channel = getChannelKey(video);
+			const existing = firstDates.get(channel);
+			if (
+				(!existing || date < existing) &&
+				isVideoMatched(history, video, hashtag, date)
+			) {
+				firstDates.set(channel, date);
+			}
+		}
+	}
+	history.firstChannelDates.set(hashtag, firstDates);
+	return firstDates;
+}
+
+// その日にハッシュタグで初めて記録されたチャンネルの動画を返す関数（チャンネルごとに1件）
+export function findNewChannelVideos(
+	history: SnapshotHistory,
+	hashtags: string[],
+	date: string,
+): NewChannelVideo[] {
+	const videos = [...(history.videosByDate.get(date)?.values() || [])];
+	const found: NewChannelVideo[] = [];
+	for (const hashtag of hashtags) {
+		const firstChannelDates = getFirstChannelDates(history, hashtag);
+		const seenChannels = new Set<string>();
+		for (const video of videos) {
+			const channel = getChannelKey(video);
+			if (
+				firstChannelDates.get(channel) !== date ||
+				seenChannels.has(channel) ||
+				!isVideoMatched(history, video, hashtag, date)
+			) {
+				continue;
+			}
+			seenChannels.add(channel);
+			found.push({ hashtag, video });
+		}
+	}
+	return found;
+}
+
+// 動画のチャンネルを区別するキー（チャンネルIDがない古い行はチャンネル名）
+export function getChannelKey(video: VideoRecord): string {
+	return String(video.channelId || video.channelName);
+}
+
+// 日付（yyyy/MM/dd）を1970/01/01からの通算日数に変換する関数
+export function getStatsDayNumber(date: string): number {
+	const [year, month, day] = date.split("/").map(Number);
+	return Date.UTC(year, month - 1, day) / MILLISECONDS_PER_DAY;
+}
+
+// 日付（yyyy/MM/dd）の前日を返す関数
+export function getPreviousStatsDate(date: string): string {
+	return formatUtcStatsDate(
+		new Date((getStatsDayNumber(date) - 1) * MILLISECONDS_PER_DAY),
+	);
+}
+
+function toCount(value: unknown): number {
+	const count = Number(value);
+	return Number.isFinite(count) ? count : 0;
+}
+
+function getMedian(values: number[]): number {
+	if (values.length === 0) return 0;
+	const sorted = [...values].sort((a, b) => a - b);
+	const middle = Math.floor(sorted.length / 2);
+	return sorted.length % 2 === 1
+		? sorted[middle]
+		: (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// 1日分の積み上げデータから、ハッシュタグ・動画タイプごとの日次統計を計算する関数
+// 前日比は前日にも記録がある動画だけの増加の合計（前日の記録がない場合は空欄）
+export function computeDailyStats(
+	history: SnapshotHistory,
+	hashtags: string[],
+	date: string,
+): DailyStatsRecord[] {
+	const previousVideos = history.videosByDate.get(getPreviousStatsDate(date));
+
+	const stats: DailyStatsRecord[] = [];
+	for (const hashtag of hashtags) {
+		const matched = getMatchedVideos(history, hashtag, date);
+		const firstChannelDates = getFirstChannelDates(history, hashtag);
+		for (const videoType of VIDEO_TYPES) {
+			const typed = matched.filter((video) => video.category === videoType);
+			const views = typed.map((video) => toCount(video.viewCount));
+			const totalViews = views.reduce((sum, count) => sum + count, 0);
+			const totalReactions = typed.reduce(
+				(sum, video) =>
+					sum + toCount(video.likeCount) + toCount(video.commentCount),
+				0,
+			);
+			const sumDelta = (
+				key: "viewCount" | "likeCount" | "commentCount",
+			): number | "" => {
+				if (!previousVideos) return "";
+				return typed.reduce((sum, video) => {
+					const previous = previousVideos.get(video.videoId);
+					return previous
+						? sum + toCount(video[key]) - toCount(previous[key])
+						: sum;
+				}, 0);
+			};
+			const channels = new Set(typed.map(getChannelKey));
+
+			stats.push({
+				date,
+				hashtag,
+				videoType,
+				videoCount: typed.length,
+				channelCount: channels.size,
+				totalViews,
+				newVideoCount: typed.filter(
+					(video) =>
+						video.publishedAt && formatStatsDate(video.publishedAt) === date,
+				).length,
+				viewDelta: sumDelta("viewCount"),
+				likeDelta: sumDelta("likeCount"),
+				commentDelta: sumDelta("commentCount"),
+				engagementRate:
+					totalViews > 0
+						? Math.round((totalReactions / totalViews) * 10000) / 10000
+						: "",
+				medianViews: getMedian(views),
+				newChannelCount: [...channels].filter(
+					(channel) => firstChannelDates.get(channel) === date,
+				).length,
+			});
+		}
+	}
+	return stats;
+}
+
+// 急上昇シートに載せる動画数を返す関数（スクリプトプロパティ TOP_MOVERS_COUNT で変更できる）
+function getTopMoversCount(): number {
+	return getNumberProperty("TOP_MOVERS_COUNT", DEFAULT_TOP_MOVERS_COUNT, {
+		integer: true,
+	});
+}
+
+// 前日からの再生回数の増加が大きい順に、上位 count 件の動画を返す関数
+// 対象はいずれかのハッシュタグで見つかっていて、前日にも記録があり再生回数が増えた動画
+export function computeTopMovers(
+	history: SnapshotHistory,
+	hashtags: string[],
+	date: string,
+	count: number,
+): TopMoverRecord[] {
+	const previousVideos = history.videosByDate.get(getPreviousStatsDate(date));
+	if (!previousVideos) return [];
+	const candidates: Omit<TopMoverRecord, "rank">[] = [];
+	for (const video of history.videosByDate.get(date)?.values() || []) {
+		const previous = previousVideos.get(video.videoId);
+		if (!previous) continue;
+		const matchedHashtags = hashtags.filter((hashtag) =>
+			isVideoMatched(history, video, hashtag, date),
+		);
+		const viewGain = toCount(video.viewCount) - toCount(previous.viewCount);
+		if (matchedHashtags.length === 0 || viewGain <= 0) continue;
+		candidates.push({
+			date,
+			videoId: video.videoId,
+			title: video.title,
+			channelName: video.channelName,
+			category: video.category,
+			hashtags: matchedHashtags.join(" "),
+			viewCount: toCount(video.viewCount),
+			viewGain,
+			url: video.url,
+		});
+	}
+	return candidates
+		.sort(
+			(a, b) => b.viewGain - a.viewGain || a.videoId.localeCompare(b.videoId),
+		)
+		.slice(0, count)
+		.map((candidate, index) => ({ ...candidate, rank: index + 1 }));
+}
+
+function getDailyStatsKey(record: DailyStatsRecord): string {
+	return [formatStatsDate(record.date), record.hashtag, record.videoType].join(
+		"\n",
+	);
+}
+
+// 日次統計の並び順（日付の降順、ハッシュタグ・動画タイプの昇順）
+export function compareDailyStats(
+	a: DailyStatsRecord,
+	b: DailyStatsRecord,
+): number {
+	return (
+		formatStatsDate(b.date).localeCompare(formatStatsDate(a.date)) ||
+		String(a.hashtag).localeCompare(String(b.hashtag)) ||
+		String(a.videoType).localeCompare(String(b.videoType))
+	);
+}
+
+// 急上昇の並び順（日付の降順、順位の昇順）
+export function compareTopMovers(a: TopMoverRecord, b: TopMoverRecord): number {
+	return (
+		formatStatsDate(b.date).localeCompare(formatStatsDate(a.date)) ||
+		Number(a.rank) - Number(b.rank)
+	);
+}
+
+// 日次統計を (日付, ハッシュタグ, 動画タイプ) ごとに置き換えて書き込む関数
+// 日付の降順、ハッシュタグ・動画タイプの昇順に並べ替えて書き込む
+export function upsertDailyStats(
+	sheet: GoogleAppsScript.Spreadsheet.Sheet,
+	records: DailyStatsRecord[],
+): void {
+	const schema = getDailyStatsSchema();
+	const replacedKeys = new Set(records.map(getDailyStatsKey));
+	const merged = [
+		...readSheetRecords(sheet, schema).filter(
+			(record) => !replacedKeys.has(getDailyStatsKey(record)),
+		),
+		...records,
+	];
+	merged.sort(compareDailyStats);
+	replaceSheetRecords(sheet, schema, merged);
+}
+
+// 急上昇の行を日付ごとに置き換えて書き込む関数（日付の降順、順位の昇順）
+export function upsertTopMovers(
+	sheet: GoogleAppsScript.Spreadsheet.Sheet,
+	dates: string[],
+	records: TopMoverRecord[],
+): void {
+	const schema = getTopMoversSchema();
+	const merged = [
+		...readSheetRecords(sheet, schema).filter(
+			(record) => !dates.includes(formatStatsDate(record.date)),
+		),
+		...records,
+	];
+	merged.sort(compareTopMovers);
+	replaceSheetRecords(sheet, schema, merged);
+}
+
+// 積み上げシートの記録がある日付の一覧を返す関数（古い順）
+export function getSnapshotDates(history: SnapshotHistory): string[] {
+	return [...history.videosByDate.keys()].sort();
+}
+
+function getOrCreateSchemaSheet<T>(
+	spreadsheet: GoogleAppsScript.Spreadsheet.Spreadsheet,
+	sheetName: string,
+	schema: SheetSchema<T>,
+): GoogleAppsScript.Spreadsheet.Sheet {
+	return ensureSheetSchema(
+		spreadsheet.getSheetByName(sheetName) || spreadsheet.insertSheet(sheetName),
+		schema,
+	);
+}
+
+// 積み上げシートと動画ハッシュタグシートから履歴を読み込む関数
+export function loadSnapshotHistory(
+	spreadsheet: GoogleAppsScript.Spreadsheet.Spreadsheet,
+	stackSheet: GoogleAppsScript.Spreadsheet.Sheet,
+): SnapshotHistory {
+	const videoSchema = getVideoSheetSchema();
+	ensureSheetSchema(stackSheet, videoSchema);
+	return buildSnapshotHistory(
+		readSheetRecords(stackSheet, videoSchema),
+		loadVideoHashtagRecords(spreadsheet),
+		getKeywordOnlyMatchRule() === "統計から除外",
+	);
+}
+
+// 積み上げシートから指定した日付の日次統計と急上昇を計算し、それぞれのシートに書き込む関数
+// dates を省略した場合は、積み上げシートに記録があるすべての日付を計算する（過去分の補完）
+// 積み上げシートに記録がない日付は書き込まない
+export function writeDailyStatsFromSnapshots(
+	spreadsheet: GoogleAppsScript.Spreadsheet.Spreadsheet,
+	stackSheet: GoogleAppsScript.Spreadsheet.Sheet,
+	hashtags: string[],
+	dates?: string[],
+): DailyStatsResult {
+	const history = loadSnapshotHistory(spreadsheet, stackSheet);
+
+	const snapshotDates = getSnapshotDates(history);
+	const targetDates = dates
+		? dates.filter((date) => snapshotDates.includes(date))
+		: snapshotDates;
+	const topMoversCount = getTopMoversCount();
+	const result: DailyStatsResult = {
+		stats: targetDates.flatMap((date) =>
+			computeDailyStats(history, hashtags, date),
+		),
+		topMovers: targetDates.flatMap((date) =>
+			computeTopMovers(history, hashtags, date, topMoversCount),
+		),
+		history,
+	};
+	if (targetDates.length > 0) {
+		upsertDailyStats(
+			getOrCreateSchemaSheet(
+				spreadsheet,
+				DAILY_STATS_SHEET_NAME,
+				getDailyStatsSchema(),
+			),
+			result.stats,
+		);
+		upsertTopMovers(
+			getOrCreateSchemaSheet(
+				spreadsheet,
+				TOP_MOVERS_SHEET_NAME,
+				getTopMoversSchema(),
+			),
+			targetDates,
+			result.topMovers,
+		);
+	}
+	return result;
+}
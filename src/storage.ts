@@ -0,0 +1,302 @@
+// 積み上げシートの保持期間とスプレッドシートのセル使用量を管理するモジュール
+//
+// スプレッドシートのセル数には上限（1,000万セル）があるため、積み上げシートの古い記録を間引く。
+// 直近は毎日分、それより古い記録は週ごと、さらに古い記録は月ごとに最後の日付の行だけを残し、
+// 保持期間を過ぎた行は年ごとのアーカイブ用スプレッドシートに移す。
+// 動画の説明はメインシートにだけ残し、積み上げシートの行では空欄にする。
+import { logInfo } from "./logging";
+import { getNumberProperty } from "./properties";
+import {
+	type CellUsageRecord,
+	type VideoRecord,
+	appendSheetRecords,
+	ensureSheetSchema,
+	getCellUsageSchema,
+	getVideoSheetSchema,
+	readSheetRecords,
+	replaceSheetRecords,
+} from "./schema";
+import { formatStatsDate, getStatsDayNumber } from "./stats";
+
+// 積み上げシートの保持方針（日数は実行日からの経過日数）
+export interface StackRetentionPolicy {
+	dailyDays: number; // この日数以内の記録は毎日分を残す
+	weeklyDays: number; // この日数以内の記録は週（月曜始まり）ごとに最後の日付だけを残す。より古い記録は月ごと
+	archiveDays: number; // この日数より古い記録はアーカイブに移す
+}
+
+// アーカイブに移した行
+export interface StackArchiveResult {
+	year: string;
+	spreadsheetId: string;
+	rows: number; // アーカイブに追加した行数
+	skippedRows: number; // 既にアーカイブにあったため追加しなかった行数
+}
+
+export interface StackCompactionResult {
+	keptRows: number; // 積み上げシートに残した行数
+	removedRows: number; // 間引いて削除した行数
+	archivedRows: number; // アーカイブに移した行数
+	clearedDescriptions: number; // 動画の説明を空欄にした行数
+	archives: StackArchiveResult[];
+}
+
+const DEFAULT_STACK_DAILY_RETENTION_DAYS = 90;
+const DEFAULT_STACK_WEEKLY_RETENTION_DAYS = 365;
+const DEFAULT_STACK_ARCHIVE_AFTER_DAYS = 730;
+const STACK_ARCHIVE_PREFIX = "STACK_ARCHIVE_SPREADSHEET_";
+const STACK_ARCHIVE_SHEET_NAME = "積み上げアーカイブ";
+const SPREADSHEET_CELL_LIMIT = 10000000;
+const CELL_USAGE_SHEET_NAME = "セル使用量";
+
+// 日数のスクリプトプロパティを読み込む関数（未設定・不正な場合は既定値）
+function getRetentionDaysProperty(key: string, defaultValue: number): number {
+	return getNumberProperty(key, defaultValue, { integer: true });
+}
+
+// スクリプトプロパティから保持方針を読み込む関数
+// 期間が前の段階より短く設定されている場合は、前の段階の期間にそろえる
+export function getStackRetentionPolicy(): StackRetentionPolicy {
+	const dailyDays = getRetentionDaysProperty(
+		"STACK_DAILY_RETENTION_DAYS",
+		DEFAULT_STACK_DAILY_RETENTION_DAYS,
+	);
+	const weeklyDays = Math.max(
+		getRetentionDaysProperty(
+			"STACK_WEEKLY_RETENTION_DAYS",
+			DEFAULT_STACK_WEEKLY_RETENTION_DAYS,
+		),
+		dailyDays,
+	);
+	const archiveDays = Math.max(
+		getRetentionDaysProperty(
+			"STACK_ARCHIVE_AFTER_DAYS",
+			DEFAULT_STACK_ARCHIVE_AFTER_DAYS,
+		),
+		weeklyDays,
+	);
+	return { dailyDays, weeklyDays, archiveDays };
+}
+
+// 保持方針に従って残す日付（yyyy/MM/dd）を返す関数
+// 週ごと・月ごとの期間では、同じ週・月の日付のうち最も新しい日付だけを残す
+export function selectRetainedSnapshotDates(
+	dates: string[],
+	policy: StackRetentionPolicy,
+	today: string,
+): Set<string> {
+	const todayNumber = getStatsDayNumber(today);
+	const latestByPeriod = new Map<string, string>();
+	const retained = new Set<string>();
+	for (const date of dates) {
+		const dayNumber = getStatsDayNumber(date);
+		const age = todayNumber - dayNumber;
+		if (age <= policy.dailyDays) {
+			retained.add(date);
+			continue;
+		}
+		// 1970/01/01 は木曜日のため、3日ずらして月曜始まりの週にする
+		const period =
+			age <= policy.weeklyDays
+				? `週:${Math.floor((dayNumber + 3) / 7)}`
+				: `月:${date.slice(0, 7)}`;
+		const latest = latestByPeriod.get(period);
+		if (!latest || date > latest) latestByPeriod.set(period, date);
+	}
+	for (const date of latestByPeriod.values()) retained.add(date);
+	return retained;
+}
+
+// 積み上げシートに書き込む行から動画の説明を除く関数（説明はメインシートにだけ残す）
+export function stripSnapshotDescriptions(
+	records: VideoRecord[],
+): VideoRecord[] {
+	return records.map((record) => ({ ...record, description: "" }));
+}
+
+// 年ごとのアーカイブ用スプレッドシートを取得または作成する関数
+// 作成したスプレッドシートのIDはスクリプトプロパティ STACK_ARCHIVE_SPREADSHEET_<年> に記録する
+function getOrCreateStackArchive(
+	year: string,
+	baseName: string,
+): GoogleAppsScript.Spreadsheet.Spreadsheet {
+	const properties = PropertiesService.getScriptProperties();
+	const key = `${STACK_ARCHIVE_PREFIX}${year}`;
+	const storedId = properties.getProperty(key);
+	if (storedId) return SpreadsheetApp.openById(storedId);
+
+	const archive = SpreadsheetApp.create(`${baseName}_${year}`);
+	properties.setProperty(key, archive.getId());
+	logInfo(
+		"compactStackSheet",
+		`${year}年のアーカイブ用スプレッドシートを作成しました: ${archive.getUrl()}`,
+	);
+	return archive;
+}
+
+// アーカイブ済みかどうかを判定するキー（同じ動画・同じ日付の行は1つとみなす）
+function getStackArchiveKey(record: VideoRecord): string {
+	const fetchedAt = new Date(record.fetchedAt);
+	return `${record.videoId}\n${Number.isNaN(fetchedAt.getTime()) ? "" : formatStatsDate(fetchedAt)}`;
+}
+
+// 行をアーカイブ用スプレッドシートの末尾に追加する関数
+// アーカイブへの追加後、積み上げシートを書き換える前に中断した実行をやり直しても
+// 同じ行が重複しないよう、同じ動画・同じ日付の行が既にあれば追加しない
+function appendToStackArchive(
+	year: string,
+	baseName: string,
+	records: VideoRecord[],
+): StackArchiveResult {
+	const archive = getOrCreateStackArchive(year, baseName);
+	const schema = getVideoSheetSchema();
+	const sheet = ensureSheetSchema(
+		archive.getSheetByName(STACK_ARCHIVE_SHEET_NAME) ||
+			archive.insertSheet(STACK_ARCHIVE_SHEET_NAME),
+		schema,
+	);
+	const archivedKeys = new Set(
+		readSheetRecords(sheet, schema).map(getStackArchiveKey),
+	);
+	const newRecords = records.filter(
+		(record) => !archivedKeys.has(getStackArchiveKey(record)),
+	);
+	appendSheetRecords(sheet, schema, newRecords);
+	return {
+		year,
+		spreadsheetId: archive.getId(),
+		rows: newRecords.length,
+		skippedRows: records.length - newRecords.length,
+	};
+}
+
+// 積み上げシートを保持方針に従って間引き、古い行をアーカイブに移す関数
+// 残した行の動画の説明は空欄にし、不要になった行はシートから削除してセル数を減らす
+export function compactStackSheet(
+	stackSheet: GoogleAppsScript.Spreadsheet.Sheet,
+	policy: StackRetentionPolicy,
+	now = new Date(),
+): StackCompactionResult {
+	const schema = getVideoSheetSchema();
+	ensureSheetSchema(stackSheet, schema);
+	const records = readSheetRecords(stackSheet, schema);
+	const today = formatStatsDate(now);
+
+	// 取得日時が読み取れない行は日付で判断できないため残す
+	const datedRecords = records.map((record) => ({
+		record,
+		date: Number.isNaN(new Date(record.fetchedAt).getTime())
+			? ""
+			: formatStatsDate(record.fetchedAt),
+	}));
+	const retainedDates = selectRetainedSnapshotDates(
+		[...new Set(datedRecords.map(({ date }) => date).filter(Boolean))],
+		policy,
+		today,
+	);
+
+	const kept: VideoRecord[] = [];
+	const archivedByYear = new Map<string, VideoRecord[]>();
+	let removedRows = 0;
+	for (const { record, date } of datedRecords) {
+		if (!date) {
+			kept.push(record);
+		} else if (!retainedDates.has(date)) {
+			removedRows++;
+		} else if (
+			getStatsDayNumber(today) - getStatsDayNumber(date) >
+			policy.archiveDays
+		) {
+			const year = date.slice(0, 4);
+			const yearRecords = archivedByYear.get(year) || [];
+			yearRecords.push(record);
+			archivedByYear.set(year, yearRecords);
+		} else {
+			kept.push(record);
+		}
+	}
+	const clearedDescriptions = kept.filter(
+		(record) => record.description !== "",
+	).length;
+
+	const archives = [...archivedByYear.entries()]
+		.sort(([a], [b]) => a.localeCompare(b))
+		.map(([year, yearRecords]) =>
+			appendToStackArchive(
+				year,
+				stackSheet.getName(),
+				stripSnapshotDescriptions(yearRecords),
+			),
+		);
+	const archivedRows = archives.reduce(
+		(sum, archive) => sum + archive.rows + archive.skippedRows,
+		0,
+	);
+
+	if (removedRows > 0 || archivedRows > 0 || clearedDescriptions > 0) {
+		replaceSheetRecords(stackSheet, schema, stripSnapshotDescriptions(kept));
+		// 空になった行を削除する（固定されていない行をすべて削除することはできないため1行は残す）
+		const neededRows = Math.max(kept.length + 1, 2);
+		const maxRows = stackSheet.getMaxRows();
+		if (maxRows > neededRows) {
+			stackSheet.deleteRows(neededRows + 1, maxRows - neededRows);
+		}
+	}
+	return {
+		keptRows: kept.length,
+		removedRows,
+		archivedRows,
+		clearedDescriptions,
+		archives,
+	};
+}
+
+// シートごとのセル数と、スプレッドシートのセル数の上限に対する割合を返す関数（最後の行は合計）
+export function getCellUsage(
+	spreadsheet: GoogleAppsScript.Spreadsheet.Spreadsheet,
+): CellUsageRecord[] {
+	const toUsageRate = (cellCount: number) =>
+		Math.round((cellCount / SPREADSHEET_CELL_LIMIT) * 10000) / 10000;
+	const usage = spreadsheet.getSheets().map((sheet) => {
+		const rowCount = sheet.getMaxRows();
+		const columnCount = sheet.getMaxColumns();
+		return {
+			sheetName: sheet.getName(),
+			rowCount,
+			columnCount,
+			cellCount: rowCount * columnCount,
+			dataRowCount: sheet.getLastRow(),
+			dataColumnCount: sheet.getLastColumn(),
+			usageRate: toUsageRate(rowCount * columnCount),
+		};
+	});
+	const sum = (key: keyof Omit<CellUsageRecord, "sheetName">) =>
+		usage.reduce((total, record) => total + record[key], 0);
+	return [
+		...usage,
+		{
+			sheetName: "合計",
+			rowCount: sum("rowCount"),
+			columnCount: sum("columnCount"),
+			cellCount: sum("cellCount"),
+			dataRowCount: sum("dataRowCount"),
+			dataColumnCount: sum("dataColumnCount"),
+			usageRate: toUsageRate(sum("cellCount")),
+		},
+	];
+}
+
+// セル使用量を「セル使用量」シートに書き込む関数（実行のたびに書き換える）
+export function writeCellUsageReport(
+	spreadsheet: GoogleAppsScript.Spreadsheet.Spreadsheet,
+): CellUsageRecord[] {
+	const schema = getCellUsageSchema();
+	const sheet = ensureSheetSchema(
+		spreadsheet.getSheetByName(CELL_USAGE_SHEET_NAME) ||
+			spreadsheet.insertSheet(CELL_USAGE_SHEET_NAME),
+		schema,
+	);
+	const usage = getCellUsage(spreadsheet);
+	replaceSheetRecords(sheet, schema, usage);
+	return usage;
+}
@@ -0,0 +1,180 @@
+// チャンネル登録者数の履歴を記録するモジュール
+//
+// 同名のチャンネルの統合や改名による分裂を避けるため、チャンネルIDをキーにして
+// Channels.list の統計（登録者数・総視聴回数・動画数）をそのまま記録する。
+// 追跡中の動画の視聴回数は、複数のハッシュタグで見つかった動画を1回だけ数える。
+import { resolveChannels } from "./channels";
+import { logInfo } from "./logging";
+import {
+	type SubscriberHistoryRecord,
+	appendSheetRecords,
+	ensureSheetSchema,
+	getSchemaColumnIndex,
+	getSchemaHeaders,
+	getSubscriberHistorySchema,
+	getVideoSheetSchema,
+	readSheetRecords,
+} from "./schema";
+import { type ApiErrorReport, fetchVideosByIds } from "./youtube";
+
+export interface SubscriberHistoryResult {
+	recorded: number; // 記録したチャンネル数
+	errors: ApiErrorReport[];
+}
+
+const SUBSCRIBER_HISTORY_SHEET_NAME = "チャンネル登録者数履歴";
+
+// 履歴シートを取得または作成する関数
+// チャンネル名をキーにしていた旧形式のシートは、スキーマの移行で名前を変えて残される
+function getOrCreateHistorySheet(
+	spreadsheet: GoogleAppsScript.Spreadsheet.Spreadsheet,
+): GoogleAppsScript.Spreadsheet.Sheet {
+	const sheet =
+		spreadsheet.getSheetByName(SUBSCRIBER_HISTORY_SHEET_NAME) ||
+		spreadsheet.insertSheet(SUBSCRIBER_HISTORY_SHEET_NAME);
+	return ensureSheetSchema(sheet, getSubscriberHistorySchema());
+}
+
+// メインシートに記録された動画ごとの最新の値
+interface TrackedVideo {
+	views: number;
+	channelId: string; // チャンネルIDが記録されていない古い行では空
+}
+
+// 動画IDごとの最新の視聴回数とチャンネルIDをメインシートから読み込む関数
+function getLatestTrackedVideos(
+	mainSheet: GoogleAppsScript.Spreadsheet.Sheet,
+): Map<string, TrackedVideo> {
+	// 同じ動画が複数のハッシュタグで記録されていても、最新の行の視聴回数だけを使う
+	const latest = new Map<string, TrackedVideo & { fetchedAt: number }>();
+	for (const row of readSheetRecords(mainSheet, getVideoSheetSchema())) {
+		const videoId = String(row.videoId || "");
+		const views = row.viewCount;
+		if (!videoId || typeof views !== "number" || Number.isNaN(views)) {
+			continue;
+		}
+		const fetchedAt = new Date(row.fetchedAt).getTime() || 0;
+		const existing = latest.get(videoId);
+		if (!existing || fetchedAt > existing.fetchedAt) {
+			latest.set(videoId, {
+				fetchedAt,
+				views,
+				channelId: String(row.channelId || "") || existing?.channelId || "",
+			});
+		}
+	}
+	return new Map(
+		[...latest.entries()].map(([videoId, { views, channelId }]) => [
+			videoId,
+			{ views, channelId },
+		]),
+	);
+}
+
+// 履歴シートからチャンネルIDごとの直近のタイトルを読み込む関数
+function getLatestTitles(
+	sheet: GoogleAppsScript.Spreadsheet.Sheet,
+): Map<string, string> {
+	const titles = new Map<string, string>();
+	const latestDates = new Map<string, number>();
+	for (const row of readSheetRecords(sheet, getSubscriberHistorySchema())) {
+		const channelId = String(row.channelId || "");
+		const date = new Date(row.date).getTime() || 0;
+		if (channelId && date >= (latestDates.get(channelId) ?? 0)) {
+			latestDates.set(channelId, date);
+			titles.set(channelId, String(row.channelTitle));
+		}
+	}
+	return titles;
+}
+
+// メインシートの動画のチャンネルについて、Channels.list の統計を履歴シートに追加する関数
+// メインシートは最新の列構成に移行済みである必要がある
+export function recordSubscriberHistory(
+	spreadsheet: GoogleAppsScript.Spreadsheet.Spreadsheet,
+	mainSheet: GoogleAppsScript.Spreadsheet.Sheet,
+): SubscriberHistoryResult {
+	const schema = getSubscriberHistorySchema();
+	const sheet = getOrCreateHistorySheet(spreadsheet);
+	const errors: ApiErrorReport[] = [];
+	if (mainSheet.getLastRow() <= 1) {
+		return { recorded: 0, errors };
+	}
+
+	const trackedVideos = getLatestTrackedVideos(mainSheet);
+
+	// チャンネルIDが記録されていない古い行の動画だけ、動画からチャンネルIDを取得する
+	const unknownVideoIds = [...trackedVideos.entries()]
+		.filter(([, video]) => !video.channelId)
+		.map(([videoId]) => videoId);
+	if (unknownVideoIds.length > 0) {
+		const videoFetch = fetchVideosByIds(unknownVideoIds, "snippet", {
+			logPrefix: "updateSubscriberHistory",
+		});
+		errors.push(...videoFetch.errors);
+		for (const video of videoFetch.videos) {
+			const trackedVideo = video.id ? trackedVideos.get(video.id) : undefined;
+			if (trackedVideo && video.snippet?.channelId) {
+				trackedVideo.channelId = video.snippet.channelId;
+			}
+		}
+	}
+
+	const trackedViews = new Map<string, number>();
+	for (const { views, channelId } of trackedVideos.values()) {
+		if (!channelId) continue;
+		trackedViews.set(channelId, (trackedViews.get(channelId) || 0) + views);
+	}
+
+	const resolution = resolveChannels([...trackedViews.keys()]);
+	errors.push(...resolution.errors);
+
+	const previousTitles = getLatestTitles(sheet);
+	const now = new Date();
+	const records: SubscriberHistoryRecord[] = [
+		...resolution.channels.entries(),
+	].map(([channelId, info]) => {
+		const previousTitle = previousTitles.get(channelId);
+		return {
+			date: now,
+			channelId,
+			channelTitle: info.title,
+			previousTitle:
+				previousTitle && previousTitle !== info.title ? previousTitle : "",
+			subscriberCount: info.hiddenSubscriberCount
+				? ""
+				: Number.parseInt(info.subscriberCount, 10) || 0,
+			hiddenSubscriberCount: info.hiddenSubscriberCount,
+			channelViewCount: Number.parseInt(info.viewCount, 10) || 0,
+			videoCount: Number.parseInt(info.videoCount, 10) || 0,
+			trackedViewCount: trackedViews.get(channelId) || 0,
+		};
+	});
+
+	for (const record of records) {
+		if (record.previousTitle) {
+			logInfo(
+				"updateSubscriberHistory",
+				`チャンネル名が変更されました (${record.channelId}): ${record.previousTitle} → ${record.channelTitle}`,
+			);
+		}
+	}
+
+	if (records.length > 0) {
+		appendSheetRecords(sheet, schema, records);
+
+		// データを日付の降順、チャンネルタイトルの昇順でソート
+		const columnCount = getSchemaHeaders(schema).length;
+		sheet.getRange(2, 1, sheet.getLastRow() - 1, columnCount).sort([
+			{ column: getSchemaColumnIndex(schema, "date") + 1, ascending: false }, // 日付（新しい順）
+			{
+				column: getSchemaColumnIndex(schema, "channelTitle") + 1,
+				ascending: true,
+			}, // チャンネルタイトル（昇順）
+		]);
+
+		// 列幅を自動調整
+		sheet.autoResizeColumns(1, columnCount);
+	}
+	return { recorded: records.length, errors };
+}
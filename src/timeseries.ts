@@ -0,0 +1,167 @@
+// 積み上げシートの履歴から動画ごとの推移表を作成するモジュール
+//
+// 動画ごとに1行、積み上げシートの日付ごとに1列の表を作り、視聴回数などの推移を横に並べる。
+// 公開からの日数と1日あたりの増加（速度）もあわせて出力し、公開時期の違う動画を比べられるようにする。
+// 表は実行のたびに作り直す。
+import {
+	type VideoRecord,
+	ensureSheetSchema,
+	getVideoSheetSchema,
+	readSheetRecords,
+} from "./schema";
+import {
+	buildSnapshotHistory,
+	getSnapshotDates,
+	getStatsDayNumber,
+} from "./stats";
+
+// 推移表を作成する指標
+export interface TimeSeriesMetric {
+	key: "viewCount" | "likeCount" | "commentCount";
+	label: string; // 指標名（シート名・列名に使う）
+}
+
+// 作成した推移表
+export interface TimeSeriesSheetResult {
+	sheetName: string;
+	videoCount: number;
+	dateCount: number;
+}
+
+const TIME_SERIES_SHEET_PREFIX = "動画推移_";
+const TIME_SERIES_METRICS: TimeSeriesMetric[] = [
+	{ key: "viewCount", label: "視聴回数" },
+	{ key: "likeCount", label: "いいね数" },
+	{ key: "commentCount", label: "コメント数" },
+];
+const TIME_SERIES_MILLISECONDS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// 推移表を作成する指標を返す関数
+// スクリプトプロパティ VIDEO_TIME_SERIES_METRICS に指標名を「,」区切りで指定する（既定は視聴回数のみ）
+function getTimeSeriesMetrics(): TimeSeriesMetric[] {
+	const stored =
+		PropertiesService.getScriptProperties().getProperty(
+			"VIDEO_TIME_SERIES_METRICS",
+		) || "";
+	const labels = stored
+		.split(/[,、\s]+/)
+		.map((label) => label.trim())
+		.filter((label) => label !== "");
+	const metrics = TIME_SERIES_METRICS.filter((metric) =>
+		labels.includes(metric.label),
+	);
+	return metrics.length > 0 ? metrics : [TIME_SERIES_METRICS[0]];
+}
+
+function roundPerDay(value: number): number {
+	return Math.round(value * 10) / 10;
+}
+
+// 日付の列より前に並べる列
+function getTimeSeriesFixedHeaders(metric: TimeSeriesMetric): string[] {
+	return [
+		"動画ID",
+		"動画タイトル",
+		"チャンネル名",
+		"動画カテゴリ",
+		"動画公開日",
+		"公開からの日数",
+		`最新の${metric.label}`,
+		"公開後の1日あたり",
+		"直近の1日あたり",
+	];
+}
+
+// 推移表のヘッダーと行を作る関数（公開日の新しい順）
+// 公開からの日数と公開後の1日あたりは、最後に記録された時点までの経過日数で計算する
+// 直近の1日あたりは、最後の2回の記録の差を記録の間隔（日数）で割った値
+export function buildVideoTimeSeriesRows(
+	snapshots: VideoRecord[],
+	metric: TimeSeriesMetric,
+): unknown[][] {
+	const history = buildSnapshotHistory(snapshots, []);
+	const dates = getSnapshotDates(history);
+	const videoIds = new Set<string>();
+	for (const videos of history.videosByDate.values()) {
+		for (const videoId of videos.keys()) videoIds.add(videoId);
+	}
+
+	const rows = [...videoIds].map((videoId) => {
+		const recorded = dates.flatMap((date) => {
+			const video = history.videosByDate.get(date)?.get(videoId);
+			return video
+				? [{ date, video, value: Number(video[metric.key]) || 0 }]
+				: [];
+		});
+		const latest = recorded[recorded.length - 1];
+		const previous = recorded[recorded.length - 2];
+		const publishedAt = latest.video.publishedAt
+			? new Date(latest.video.publishedAt).getTime()
+			: Number.NaN;
+		const elapsedDays = Number.isNaN(publishedAt)
+			? Number.NaN
+			: (new Date(latest.video.fetchedAt).getTime() - publishedAt) /
+				TIME_SERIES_MILLISECONDS_PER_DAY;
+		const valuesByDate = new Map(
+			recorded.map(({ date, value }) => [date, value]),
+		);
+		return {
+			publishedAt,
+			cells: [
+				videoId,
+				latest.video.title,
+				latest.video.channelName,
+				latest.video.category,
+				latest.video.publishedAt,
+				Number.isNaN(elapsedDays) ? "" : Math.max(Math.floor(elapsedDays), 0),
+				latest.value,
+				Number.isNaN(elapsedDays)
+					? ""
+					: roundPerDay(latest.value / Math.max(elapsedDays, 1)),
+				previous
+					? roundPerDay(
+							(latest.value - previous.value) /
+								(getStatsDayNumber(latest.date) -
+									getStatsDayNumber(previous.date)),
+						)
+					: "",
+				...dates.map((date) => valuesByDate.get(date) ?? ""),
+			],
+		};
+	});
+	rows.sort((a, b) => (b.publishedAt || 0) - (a.publishedAt || 0));
+
+	const headers = [...getTimeSeriesFixedHeaders(metric), ...dates];
+	return [headers, ...rows.map((row) => row.cells)];
+}
+
+// 積み上げシートから指標ごとの推移表を作成し、「動画推移_<指標名>」シートに書き込む関数
+export function writeVideoTimeSeries(
+	spreadsheet: GoogleAppsScript.Spreadsheet.Spreadsheet,
+	stackSheet: GoogleAppsScript.Spreadsheet.Sheet,
+): TimeSeriesSheetResult[] {
+	const schema = getVideoSheetSchema();
+	ensureSheetSchema(stackSheet, schema);
+	const snapshots = readSheetRecords(stackSheet, schema);
+
+	return getTimeSeriesMetrics().map((metric) => {
+		const sheetName = `${TIME_SERIES_SHEET_PREFIX}${metric.label}`;
+		const sheet =
+			spreadsheet.getSheetByName(sheetName) ||
+			spreadsheet.insertSheet(sheetName);
+		const rows = buildVideoTimeSeriesRows(snapshots, metric);
+		const headers = rows[0];
+
+		sheet.clearContents();
+		sheet.getRange(1, 1, rows.length, headers.length).setValues(rows);
+		// ヘッダー行を固定
+		sheet.setFrozenRows(1);
+		// ヘッダーを太字に
+		sheet.getRange(1, 1, 1, headers.length).setFontWeight("bold");
+		return {
+			sheetName,
+			videoCount: rows.length - 1,
+			dateCount: headers.length - getTimeSeriesFixedHeaders(metric).length,
+		};
+	});
+}
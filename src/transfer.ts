@@ -0,0 +1,337 @@
+// 記録したデータを CSV・NDJSON でエクスポート・インポートするモジュール
+//
+// メイン・積み上げ・動画ハッシュタグ・日次統計・急上昇・チャンネル登録者数履歴の各シートを、
+// レコードのプロパティ名を列名にして Google ドライブのフォルダに書き出す。日時は ISO 8601、
+// 日次統計・急上昇の日付は yyyy-MM-dd で出力する。インポートは同じファイルからシートを書き換える。
+// 変換処理は Apps Script のサービスを使わないため、Node の CLI（cli/aggregate.ts）からも使う。
+import { logInfo } from "./logging";
+import {
+	type SheetSchema,
+	ensureSheetSchema,
+	getDailyStatsSchema,
+	getSubscriberHistorySchema,
+	getTopMoversSchema,
+	getVideoHashtagSchema,
+	getVideoSheetSchema,
+	readSheetRecords,
+	replaceSheetRecords,
+} from "./schema";
+import { formatStatsDate } from "./stats";
+
+// 列の値の種類（省略した列は文字列）
+// datetime は ISO 8601 の日時、day は yyyy-MM-dd の日付
+export type TransferFieldType = "number" | "boolean" | "datetime" | "day";
+
+// エクスポートするデータセット
+export interface TransferDataset {
+	name: string; // ファイル名（拡張子を除く）
+	sheetName: string;
+	schema: SheetSchema<object>;
+	fieldTypes: Record<string, TransferFieldType>;
+}
+
+export type TransferFormat = "csv" | "ndjson";
+
+export interface TransferFileResult {
+	dataset: string;
+	fileName: string;
+	rows: number;
+}
+
+const EXPORT_FOLDER_NAME = "YouTubeハッシュタグ分析_エクスポート";
+const TRANSFER_MIME_TYPES: Record<TransferFormat, string> = {
+	csv: "text/csv",
+	ndjson: "application/x-ndjson",
+};
+
+// 動画シート（メイン・積み上げ）の列の種類
+function getVideoFieldTypes(): Record<string, TransferFieldType> {
+	return {
+		fetchedAt: "datetime",
+		subscriberCount: "number",
+		publishedAt: "datetime",
+		viewCount: "number",
+		likeCount: "number",
+		commentCount: "number",
+		durationSeconds: "number",
+		statsUpdatedAt: "datetime",
+	};
+}
+
+// エクスポートするデータセットの一覧
+export function getTransferDatasets(): TransferDataset[] {
+	return [
+		{
+			name: "main",
+			sheetName: "YouTubeハッシュタグ分析",
+			schema: getVideoSheetSchema(),
+			fieldTypes: getVideoFieldTypes(),
+		},
+		{
+			name: "stack",
+			sheetName: "YouTubeハッシュタグ分析_積み上げ",
+			schema: getVideoSheetSchema(),
+			fieldTypes: getVideoFieldTypes(),
+		},
+		{
+			name: "video_hashtags",
+			sheetName: "動画ハッシュタグ",
+			schema: getVideoHashtagSchema(),
+			fieldTypes: { firstSeenAt: "datetime", lastSeenAt: "datetime" },
+		},
+		{
+			name: "daily_stats",
+			sheetName: "日次統計",
+			schema: getDailyStatsSchema(),
+			fieldTypes: {
+				date: "day",
+				videoCount: "number",
+				channelCount: "number",
+				totalViews: "number",
+				newVideoCount: "number",
+				viewDelta: "number",
+				likeDelta: "number",
+				commentDelta: "number",
+				engagementRate: "number",
+				medianViews: "number",
+				newChannelCount: "number",
+			},
+		},
+		{
+			name: "top_movers",
+			sheetName: "急上昇",
+			schema: getTopMoversSchema(),
+			fieldTypes: {
+				date: "day",
+				rank: "number",
+				viewCount: "number",
+				viewGain: "number",
+			},
+		},
+		{
+			name: "subscriber_history",
+			sheetName: "チャンネル登録者数履歴",
+			schema: getSubscriberHistorySchema(),
+			fieldTypes: {
+				date: "datetime",
+				subscriberCount: "number",
+				hiddenSubscriberCount: "boolean",
+				channelViewCount: "number",
+				videoCount: "number",
+				trackedViewCount: "number",
+			},
+		},
+	];
+}
+
+// データセットの列名（レコードのプロパティ名）をシートの列順で返す関数
+export function getTransferColumns(dataset: TransferDataset): string[] {
+	return Object.keys(dataset.schema.columns);
+}
+
+// シートの値をエクスポートする値に変換する関数（空欄は ""）
+function toTransferValue(
+	value: unknown,
+	type: TransferFieldType | undefined,
+): string | number | boolean {
+	if (value === "" || value === null || value === undefined) return "";
+	switch (type) {
+		case "datetime": {
+			const date = new Date(value as Date | string);
+			return Number.isNaN(date.getTime()) ? String(value) : date.toISOString();
+		}
+		case "day":
+			return formatStatsDate(value as Date | string).replace(/\//g, "-");
+		case "number":
+			return typeof value === "number" ? value : Number(value);
+		case "boolean":
+			return value === true || value === "true" || value === "TRUE";
+		default:
+			return String(value);
+	}
+}
+
+// エクスポートした値をシートに書き込む値に変換する関数（CSV の文字列にも対応する）
+function fromTransferValue(
+	value: unknown,
+	type: TransferFieldType | undefined,
+): unknown {
+	if (value === "" || value === null || value === undefined) return "";
+	switch (type) {
+		case "datetime":
+			return new Date(String(value));
+		case "day":
+			return String(value).replace(/-/g, "/");
+		case "number":
+			return Number(value);
+		case "boolean":
+			return value === true || value === "true";
+		default:
+			return String(value);
+	}
+}
+
+// シートのレコードをエクスポートするオブジェクトに変換する関数
+export function toTransferRecord(
+	dataset: TransferDataset,
+	record: object,
+): Record<string, string | number | boolean> {
+	const values = record as Record<string, unknown>;
+	return Object.fromEntries(
+		getTransferColumns(dataset).map((column) => [
+			column,
+			toTransferValue(values[column], dataset.fieldTypes[column]),
+		]),
+	);
+}
+
+// エクスポートしたオブジェクト（CSV の行を含む）をシートのレコードに変換する関数
+// ファイルにない列は空欄にする
+export function fromTransferRecord<T>(
+	dataset: TransferDataset,
+	values: Record<string, unknown>,
+): T {
+	return Object.fromEntries(
+		getTransferColumns(dataset).map((column) => [
+			column,
+			fromTransferValue(values[column], dataset.fieldTypes[column]),
+		]),
+	) as T;
+}
+
+function escapeCsvValue(value: string | number | boolean): string {
+	const text = String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// レコードを CSV（1行目は列名）または NDJSON（1行に1レコード）の文字列にする関数
+export function formatTransferContent(
+	dataset: TransferDataset,
+	records: object[],
+	format: TransferFormat,
+): string {
+	const rows = records.map((record) => toTransferRecord(dataset, record));
+	if (format === "ndjson") {
+		return rows.map((row) => `${JSON.stringify(row)}\n`).join("");
+	}
+	const columns = getTransferColumns(dataset);
+	return [
+		columns.join(","),
+		...rows.map((row) =>
+			columns.map((column) => escapeCsvValue(row[column])).join(","),
+		),
+	]
+		.map((line) => `${line}\r\n`)
+		.join("");
+}
+
+// NDJSON の文字列をオブジェクトの配列にする関数（空行は無視する）
+export function parseNdjson(content: string): Record<string, unknown>[] {
+	return content
+		.split(/\r?\n/)
+		.filter((line) => line.trim() !== "")
+		.map((line) => JSON.parse(line) as Record<string, unknown>);
+}
+
+// エクスポート先のフォルダを取得または作成する関数
+// フォルダのIDはスクリプトプロパティ EXPORT_FOLDER_ID に記録する
+function getOrCreateExportFolder(): GoogleAppsScript.Drive.Folder {
+	const properties = PropertiesService.getScriptProperties();
+	const folderId = properties.getProperty("EXPORT_FOLDER_ID");
+	if (folderId) return DriveApp.getFolderById(folderId);
+
+	const folder = DriveApp.createFolder(EXPORT_FOLDER_NAME);
+	properties.setProperty("EXPORT_FOLDER_ID", folder.getId());
+	logInfo(
+		"exportTrackedData",
+		`エクスポート先のフォルダを作成しました: ${folder.getUrl()}`,
+	);
+	return folder;
+}
+
+// フォルダ内の同じ名前のファイルを返す関数（ない場合は null）
+function findFileByName(
+	folder: GoogleAppsScript.Drive.Folder,
+	fileName: string,
+): GoogleAppsScript.Drive.File | null {
+	const files = folder.getFilesByName(fileName);
+	return files.hasNext() ? files.next() : null;
+}
+
+// 各シートを CSV と NDJSON でエクスポート先のフォルダに書き出す関数（同じ名前のファイルは上書きする）
+// シートがないデータセットは書き出さない
+export function exportSheetsToDrive(
+	spreadsheet: GoogleAppsScript.Spreadsheet.Spreadsheet,
+): TransferFileResult[] {
+	const folder = getOrCreateExportFolder();
+	const results: TransferFileResult[] = [];
+	for (const dataset of getTransferDatasets()) {
+		const sheet = spreadsheet.getSheetByName(dataset.sheetName);
+		if (!sheet) continue;
+		const records = readSheetRecords(
+			ensureSheetSchema(sheet, dataset.schema),
+			dataset.schema,
+		);
+		for (const format of ["csv", "ndjson"] as const) {
+			const fileName = `${dataset.name}.${format}`;
+			const content = formatTransferContent(dataset, records, format);
+			const existing = findFileByName(folder, fileName);
+			if (existing) {
+				existing.setContent(content);
+			} else {
+				folder.createFile(fileName, content, TRANSFER_MIME_TYPES[format]);
+			}
+			results.push({ dataset: dataset.name, fileName, rows: records.length });
+		}
+	}
+	return results;
+}
+
+// エクスポート先のフォルダのファイルから各シートを書き換える関数（シートがない場合は作成する）
+// NDJSON のファイルがあればそれを、なければ CSV のファイルを読み込む。ファイルがないデータセットは変更しない
+export function importSheetsFromDrive(
+	spreadsheet: GoogleAppsScript.Spreadsheet.Spreadsheet,
+): TransferFileResult[] {
+	const folderId =
+		PropertiesService.getScriptProperties().getProperty("EXPORT_FOLDER_ID");
+	if (!folderId) {
+		throw new Error(
+			"スクリプトプロパティ EXPORT_FOLDER_ID にインポート元のフォルダIDを設定してください。",
+		);
+	}
+	const folder = DriveApp.getFolderById(folderId);
+
+	const results: TransferFileResult[] = [];
+	for (const dataset of getTransferDatasets()) {
+		const ndjsonFile = findFileByName(folder, `${dataset.name}.ndjson`);
+		const file = ndjsonFile || findFileByName(folder, `${dataset.name}.csv`);
+		if (!file) continue;
+
+		const content = file.getBlob().getDataAsString("UTF-8");
+		const values = ndjsonFile ? parseNdjson(content) : parseCsvRecords(content);
+		const records = values.map((value) => fromTransferRecord(dataset, value));
+		const sheet = ensureSheetSchema(
+			spreadsheet.getSheetByName(dataset.sheetName) ||
+				spreadsheet.insertSheet(dataset.sheetName),
+			dataset.schema,
+		);
+		replaceSheetRecords(sheet, dataset.schema, records);
+		results.push({
+			dataset: dataset.name,
+			fileName: file.getName(),
+			rows: records.length,
+		});
+	}
+	return results;
+}
+
+// CSV の文字列を、1行目の列名をキーにしたオブジェクトの配列にする関数
+function parseCsvRecords(content: string): Record<string, unknown>[] {
+	const [columns, ...rows] = Utilities.parseCsv(content);
+	if (!columns) return [];
+	return rows
+		.filter((row) => row.some((value) => value !== ""))
+		.map((row) =>
+			Object.fromEntries(columns.map((column, index) => [column, row[index]])),
+		);
+}
@@ -0,0 +1,315 @@
+// 時間主導型トリガーをスケジュールの定義から作成・削除するモジュール
+//
+// Apps Script のトリガーからは実行時刻などの設定を読み取れないため、作成したトリガーの
+// ID と定義をスクリプトプロパティに記録し、定義と一致しているかの確認に使う。
+import { logInfo, logWarn } from "./logging";
+
+export type TriggerFrequency = "hourly" | "daily" | "weekly" | "monthly";
+
+// weekly の曜日（スクリプトプロパティに記録できるよう ScriptApp.WeekDay の名前で持つ）
+export type TriggerWeekDay = keyof typeof GoogleAppsScript.Base.Weekday;
+
+// スケジュールの定義1件分
+export interface TriggerDefinition {
+	functionName: string;
+	frequency: TriggerFrequency;
+	hour?: number; // daily・weekly・monthly の実行時刻（Asia/Tokyo、0〜23時）
+	everyHours?: number; // hourly の間隔（1, 2, 4, 6, 8, 12）
+	weekDay?: TriggerWeekDay; // weekly の曜日
+	monthDay?: number; // monthly の日（1〜31）
+}
+
+// インストール済みのトリガーと定義の比較結果
+export type TriggerDriftStatus =
+	| "一致"
+	| "定義と異なる"
+	| "重複"
+	| "未インストール"
+	| "定義外";
+
+export interface TriggerDriftEntry {
+	functionName: string;
+	uniqueId: string; // 未インストールの場合は空
+	status: TriggerDriftStatus;
+	schedule: string; // 定義されたスケジュールの説明
+}
+
+// 作成したトリガーの記録（スクリプトプロパティに保存する）
+interface InstalledTriggerRecord {
+	uniqueId: string;
+	definition: TriggerDefinition;
+}
+
+const TRIGGER_RECORD_PREFIX = "TRIGGER_INSTALLED_";
+const TRIGGER_TIME_ZONE = "Asia/Tokyo";
+const TRIGGER_WEEKDAY_LABELS: Record<TriggerWeekDay, string> = {
+	SUNDAY: "日曜",
+	MONDAY: "月曜",
+	TUESDAY: "火曜",
+	WEDNESDAY: "水曜",
+	THURSDAY: "木曜",
+	FRIDAY: "金曜",
+	SATURDAY: "土曜",
+};
+
+// ジョブの再開用に jobs.ts が作成するトリガーは管理対象外
+const UNMANAGED_TRIGGER_HANDLERS = ["resumeJobs"];
+
+// スケジュールから外した関数（installScheduledTriggers で以前に作成したトリガーを削除する）
+// appendDailySnapshot は dailyUpdate と同じ日の行を積み上げるため、手動で実行する場合だけ使う
+const RETIRED_TRIGGER_HANDLERS = ["appendDailySnapshot"];
+
+// トリガーのスケジュール（時刻は Asia/Tokyo）
+export function getTriggerSchedule(): TriggerDefinition[] {
+	return [
+		{ functionName: "main", frequency: "daily", hour: 5 },
+		{ functionName: "dailyUpdate", frequency: "daily", hour: 6 },
+		{ functionName: "updateDailyStats", frequency: "daily", hour: 8 },
+		{ functionName: "updateSubscriberHistory", frequency: "daily", hour: 9 },
+		{ functionName: "compactStack", frequency: "daily", hour: 10 },
+		{ functionName: "reportHashtagDiscovery", frequency: "daily", hour: 11 },
+		{ functionName: "refreshVideoStats", frequency: "hourly", everyHours: 1 },
+		{
+			functionName: "generateWeeklyReport",
+			frequency: "weekly",
+			weekDay: "MONDAY",
+			hour: 12,
+		},
+		{
+			functionName: "generateMonthlyReport",
+			frequency: "monthly",
+			monthDay: 1,
+			hour: 12,
+		},
+	];
+}
+
+// スケジュールの説明を返す関数（ログ用）
+export function describeTriggerDefinition(
+	definition: TriggerDefinition,
+): string {
+	const time = `${definition.hour ?? 0}時 (${TRIGGER_TIME_ZONE})`;
+	switch (definition.frequency) {
+		case "daily":
+			return `毎日 ${time}`;
+		case "weekly":
+			return `毎週${TRIGGER_WEEKDAY_LABELS[definition.weekDay ?? "MONDAY"]} ${time}`;
+		case "monthly":
+			return `毎月 ${definition.monthDay ?? 1}日 ${time}`;
+		default:
+			return `${definition.everyHours ?? 1}時間ごと`;
+	}
+}
+
+function isSameDefinition(a: TriggerDefinition, b: TriggerDefinition): boolean {
+	return (
+		a.functionName === b.functionName &&
+		a.frequency === b.frequency &&
+		(a.hour ?? 0) === (b.hour ?? 0) &&
+		(a.everyHours ?? 1) === (b.everyHours ?? 1) &&
+		(a.weekDay ?? "MONDAY") === (b.weekDay ?? "MONDAY") &&
+		(a.monthDay ?? 1) === (b.monthDay ?? 1)
+	);
+}
+
+function getRecordKey(functionName: string): string {
+	return `${TRIGGER_RECORD_PREFIX}${functionName}`;
+}
+
+function loadTriggerRecord(
+	functionName: string,
+): InstalledTriggerRecord | null {
+	const stored = PropertiesService.getScriptProperties().getProperty(
+		getRecordKey(functionName),
+	);
+	if (!stored) return null;
+	try {
+		return JSON.parse(stored) as InstalledTriggerRecord;
+	} catch {
+		return null;
+	}
+}
+
+// インストール済みのトリガーとスケジュールを比較する関数
+export function getTriggerDrift(): TriggerDriftEntry[] {
+	const schedule = getTriggerSchedule();
+	const triggers = ScriptApp.getProjectTriggers();
+	const entries: TriggerDriftEntry[] = [];
+
+	for (const definition of schedule) {
+		const record = loadTriggerRecord(definition.functionName);
+		const installed = triggers.filter(
+			(trigger) => trigger.getHandlerFunction() === definition.functionName,
+		);
+		const description = describeTriggerDefinition(definition);
+		if (installed.length === 0) {
+			entries.push({
+				functionName: definition.functionName,
+				uniqueId: "",
+				status: "未インストール",
+				schedule: description,
+			});
+			continue;
+		}
+
+		// 記録と一致するトリガーを優先し、それ以外は重複として扱う
+		const recorded = installed.find(
+			(trigger) => trigger.getUniqueId() === record?.uniqueId,
+		);
+		const primary = recorded || installed[0];
+		for (const trigger of installed) {
+			let status: TriggerDriftStatus = "重複";
+			if (trigger === primary) {
+				status =
+					recorded && record && isSameDefinition(record.definition, definition)
+						? "一致"
+						: "定義と異なる";
+			}
+			entries.push({
+				functionName: definition.functionName,
+				uniqueId: trigger.getUniqueId(),
+				status,
+				schedule: description,
+			});
+		}
+	}
+
+	const scheduledFunctions = schedule.map(
+		(definition) => definition.functionName,
+	);
+	for (const trigger of triggers) {
+		const handler = trigger.getHandlerFunction();
+		if (
+			scheduledFunctions.includes(handler) ||
+			UNMANAGED_TRIGGER_HANDLERS.includes(handler)
+		) {
+			continue;
+		}
+		entries.push({
+			functionName: handler,
+			uniqueId: trigger.getUniqueId(),
+			status: "定義外",
+			schedule: "",
+		});
+	}
+	return entries;
+}
+
+function createTrigger(
+	definition: TriggerDefinition,
+): GoogleAppsScript.Script.Trigger {
+	const builder = ScriptApp.newTrigger(definition.functionName).timeBased();
+	if (definition.frequency === "hourly") {
+		return builder.everyHours(definition.everyHours ?? 1).create();
+	}
+	if (definition.frequency === "weekly") {
+		return builder
+			.onWeekDay(ScriptApp.WeekDay[definition.weekDay ?? "MONDAY"])
+			.atHour(definition.hour ?? 0)
+			.inTimezone(TRIGGER_TIME_ZONE)
+			.create();
+	}
+	if (definition.frequency === "monthly") {
+		return builder
+			.onMonthDay(definition.monthDay ?? 1)
+			.atHour(definition.hour ?? 0)
+			.inTimezone(TRIGGER_TIME_ZONE)
+			.create();
+	}
+	return builder
+		.everyDays(1)
+		.atHour(definition.hour ?? 0)
+		.inTimezone(TRIGGER_TIME_ZONE)
+		.create();
+}
+
+// スケジュールどおりにトリガーを作成する関数
+// 定義と一致するトリガーはそのまま残すため、何度実行しても重複しない
+export function installScheduledTriggers(): TriggerDriftEntry[] {
+	const drift = getTriggerDrift();
+	const properties = PropertiesService.getScriptProperties();
+
+	for (const definition of getTriggerSchedule()) {
+		const entries = drift.filter(
+			(entry) => entry.functionName === definition.functionName,
+		);
+		if (entries.length === 1 && entries[0].status === "一致") continue;
+
+		for (const trigger of ScriptApp.getProjectTriggers()) {
+			if (trigger.getHandlerFunction() === definition.functionName) {
+				ScriptApp.deleteTrigger(trigger);
+			}
+		}
+		const trigger = createTrigger(definition);
+		const record: InstalledTriggerRecord = {
+			uniqueId: trigger.getUniqueId(),
+			definition,
+		};
+		properties.setProperty(
+			getRecordKey(definition.functionName),
+			JSON.stringify(record),
+		);
+		logInfo(
+			"installTriggers",
+			`${definition.functionName} のトリガーを作成しました (${describeTriggerDefinition(definition)})`,
+		);
+	}
+
+	for (const trigger of ScriptApp.getProjectTriggers()) {
+		const handler = trigger.getHandlerFunction();
+		if (RETIRED_TRIGGER_HANDLERS.includes(handler)) {
+			ScriptApp.deleteTrigger(trigger);
+			properties.deleteProperty(getRecordKey(handler));
+			logInfo(
+				"installTriggers",
+				`スケジュールから外した ${handler} のトリガーを削除しました (ID: ${trigger.getUniqueId()})`,
+			);
+		}
+	}
+
+	for (const entry of drift) {
+		if (
+			entry.status === "定義外" &&
+			!RETIRED_TRIGGER_HANDLERS.includes(entry.functionName)
+		) {
+			logWarn(
+				"installTriggers",
+				`スケジュールにない ${entry.functionName} のトリガーがあります (ID: ${entry.uniqueId})`,
+			);
+		}
+	}
+	return getTriggerDrift();
+}
+
+// スケジュールに含まれる関数のトリガーをすべて削除する関数（削除した件数を返す）
+// スケジュールにない関数のトリガーやジョブの再開用トリガーは削除しない
+export function uninstallScheduledTriggers(): number {
+	const properties = PropertiesService.getScriptProperties();
+	const scheduledFunctions = getTriggerSchedule().map(
+		(definition) => definition.functionName,
+	);
+	let deleted = 0;
+	for (const trigger of ScriptApp.getProjectTriggers()) {
+		if (scheduledFunctions.includes(trigger.getHandlerFunction())) {
+			ScriptApp.deleteTrigger(trigger);
+			deleted++;
+		}
+	}
+	for (const functionName of scheduledFunctions) {
+		properties.deleteProperty(getRecordKey(functionName));
+	}
+	return deleted;
+}
+
+// トリガーとスケジュールの比較結果をログに出力する関数
+export function logTriggerDrift(
+	functionName: string,
+	entries: TriggerDriftEntry[],
+): void {
+	for (const entry of entries) {
+		logInfo(
+			functionName,
+			`[${entry.status}] ${entry.functionName}${entry.schedule ? ` ${entry.schedule}` : ""}${entry.uniqueId ? ` (ID: ${entry.uniqueId})` : ""}`,
+		);
+	}
+}
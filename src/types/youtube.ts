@@ -1,6 +1,9 @@
 export interface ChannelInfo {
 	title: string;
 	subscriberCount: string;
+	viewCount: string; // チャンネル全体の総視聴回数
+	videoCount: string;
+	hiddenSubscriberCount: boolean; // 登録者数が非公開の場合は true
 }
 
 export interface VideoItem {
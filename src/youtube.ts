@@ -0,0 +1,204 @@
+// YouTube Data API 呼び出しのラッパー
+//
+// エラーを「一時的」「クォータ」「認証」「不正なリクエスト」に分類し、一時的なエラーのみ
+// 指数バックオフ（ジッター付き）で再試行する。失敗した呼び出しは構造化したレポートとして
+// 呼び出し元に返し、それまでに取得できたデータは破棄しない。
+import { logDebug, logError, logWarn } from "./logging";
+import {
+	QuotaBudgetExceededError,
+	type YouTubeEndpoint,
+	markQuotaExhausted,
+	reserveQuota,
+} from "./quota";
+
+export type ApiErrorKind = "transient" | "quota" | "auth" | "badRequest";
+
+// 失敗したAPI呼び出しのレポート
+export interface ApiErrorReport {
+	endpoint: YouTubeEndpoint;
+	kind: ApiErrorKind | "budget"; // budget は自前のクォータ予算による打ち切り
+	message: string;
+	attempts: number;
+	hashtag?: string;
+	context?: string; // 失敗した処理の説明（例: "ページ7"）
+}
+
+// 再試行しても失敗したAPI呼び出しのエラー
+export class YouTubeApiError extends Error {
+	constructor(readonly report: ApiErrorReport) {
+		super(
+			`${report.endpoint} の呼び出しに失敗しました (${report.kind}, ${report.attempts}回試行): ${report.message}`,
+		);
+		this.name = "YouTubeApiError";
+	}
+}
+
+const MAX_ATTEMPTS = 4;
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 16000;
+
+// エラーメッセージからエラーの種類を判定する関数
+// Apps Script の高度なサービスは "API call to youtube.search.list failed with error: ..."
+// の形式でエラーを投げるため、メッセージに含まれる理由やステータスで分類する
+export function classifyApiError(error: unknown): ApiErrorKind {
+	const message = error instanceof Error ? error.message : String(error);
+
+	// クォータ超過も 403 で返るため、認証エラーより先に判定する
+	if (/quotaExceeded|dailyLimitExceeded|exceeded your quota/i.test(message)) {
+		return "quota";
+	}
+	if (
+		/rateLimitExceeded|userRateLimitExceeded|backendError|internalError|Internal error|Backend Error|Service unavailable|Empty response|timed out|timeout|Address unavailable|\b(500|502|503|504)\b/i.test(
+			message,
+		)
+	) {
+		return "transient";
+	}
+	if (
+		/Login Required|Invalid Credentials|authError|insufficientPermissions|forbidden|unauthorized|\b(401|403)\b/i.test(
+			message,
+		)
+	) {
+		return "auth";
+	}
+	return "badRequest";
+}
+
+// 再試行までの待ち時間を計算する関数（指数バックオフ + ジッター）
+function getBackoffDelay(attempt: number): number {
+	const exponential = Math.min(
+		BACKOFF_BASE_MS * 2 ** (attempt - 1),
+		BACKOFF_MAX_MS,
+	);
+	return exponential + Math.floor(Math.random() * BACKOFF_BASE_MS);
+}
+
+// クォータを消費してAPIを呼び出し、一時的なエラーは再試行する関数
+// 再試行しても失敗した場合や予算が足りない場合は YouTubeApiError を投げる
+export function callYouTubeApi<T>(
+	endpoint: YouTubeEndpoint,
+	request: () => T,
+	options: { hashtag?: string; context?: string } = {},
+): T {
+	for (let attempt = 1; ; attempt++) {
+		try {
+			// 失敗した呼び出しもクォータを消費するため、試行ごとに記録する
+			reserveQuota(endpoint, options.hashtag);
+			return request();
+		} catch (error) {
+			if (error instanceof QuotaBudgetExceededError) {
+				throw new YouTubeApiError({
+					endpoint,
+					kind: "budget",
+					message: error.message,
+					attempts: attempt,
+					...options,
+				});
+			}
+
+			const kind = classifyApiError(error);
+			const message = error instanceof Error ? error.message : String(error);
+			if (kind === "transient" && attempt < MAX_ATTEMPTS) {
+				const delay = getBackoffDelay(attempt);
+				logWarn(
+					"callYouTubeApi",
+					`${endpoint} で一時的なエラーが発生したため ${delay}ms 後に再試行します (${attempt}/${MAX_ATTEMPTS}): ${message}`,
+				);
+				Utilities.sleep(delay);
+				continue;
+			}
+
+			// APIのクォータを使い切った場合は、この実行ではこれ以上呼び出さない
+			if (kind === "quota") {
+				markQuotaExhausted();
+			}
+			throw new YouTubeApiError({
+				endpoint,
+				kind,
+				message,
+				attempts: attempt,
+				...options,
+			});
+		}
+	}
+}
+
+// エラーレポートをログに出力する関数
+export function logApiErrors(
+	functionName: string,
+	errors: ApiErrorReport[],
+): void {
+	for (const report of errors) {
+		logError(
+			functionName,
+			`[${report.kind}] ${report.endpoint}${report.hashtag ? ` (${report.hashtag})` : ""}${report.context ? ` ${report.context}` : ""}: ${report.message}`,
+			report.hashtag ? { hashtag: report.hashtag } : undefined,
+		);
+	}
+}
+
+// Videos.list が1回の呼び出しで受け付けるIDの上限
+const VIDEOS_BATCH_SIZE = 50;
+
+export interface VideoFetchResult {
+	videos: GoogleAppsScript.YouTube.Schema.Video[];
+	missingIds: string[]; // 応答に含まれなかった動画（削除・非公開など）
+	errors: ApiErrorReport[];
+}
+
+// 動画IDの一覧から Videos.list で動画情報を取得する関数（50件ずつ、1バッチ1ユニット）
+// 失敗したバッチはエラーとして報告し、残りのバッチの取得を続ける
+export function fetchVideosByIds(
+	videoIds: string[],
+	part: string,
+	options: {
+		hashtag?: string;
+		params?: Record<string, unknown>;
+		logPrefix?: string;
+	} = {},
+): VideoFetchResult {
+	const logPrefix = options.logPrefix || "fetchVideosByIds";
+	const videos: GoogleAppsScript.YouTube.Schema.Video[] = [];
+	const missingIds: string[] = [];
+	const errors: ApiErrorReport[] = [];
+
+	for (let i = 0; i < videoIds.length; i += VIDEOS_BATCH_SIZE) {
+		const batchVideoIds = videoIds.slice(i, i + VIDEOS_BATCH_SIZE);
+		const batchNumber = Math.floor(i / VIDEOS_BATCH_SIZE) + 1;
+
+		let videosResponse:
+			| GoogleAppsScript.YouTube.Schema.VideoListResponse
+			| undefined;
+		try {
+			videosResponse = callYouTubeApi(
+				"videos.list",
+				() =>
+					YouTube?.Videos?.list(part, {
+						...options.params,
+						id: batchVideoIds.join(","),
+						part,
+					}),
+				{ hashtag: options.hashtag, context: `動画詳細${batchNumber}バッチ目` },
+			);
+		} catch (error) {
+			if (!(error instanceof YouTubeApiError)) throw error;
+			// 失敗したバッチのみ諦め、残りのバッチは取得を続ける
+			errors.push(error.report);
+			logWarn(logPrefix, error.message);
+			continue;
+		}
+
+		const items = videosResponse?.items || [];
+		videos.push(...items);
+		const returnedIds = new Set(items.map((video) => video.id));
+		missingIds.push(...batchVideoIds.filter((id) => !returnedIds.has(id)));
+		if (items.length > 0) {
+			logDebug(
+				logPrefix,
+				`${options.hashtag ? `ハッシュタグ「${options.hashtag}」` : ""}動画詳細 ${batchNumber}バッチ: ${items.length}件取得`,
+			);
+		}
+	}
+
+	return { videos, missingIds, errors };
+}
@@ -0,0 +1,249 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+	type Alert,
+	type AlertThresholds,
+	deliverAlerts,
+	evaluateAlerts,
+} from "../src/alerts";
+import { getAlertHistorySchema, readSheetRecords } from "../src/schema";
+import type { VideoRecord } from "../src/schema";
+import { buildSnapshotHistory } from "../src/stats";
+import { type FakeSheet, installFakes, videoRecord } from "./harness";
+
+function asSheet(sheet: FakeSheet): GoogleAppsScript.Spreadsheet.Sheet {
+	return sheet as unknown as GoogleAppsScript.Spreadsheet.Sheet;
+}
+
+function asSpreadsheet(
+	spreadsheet: unknown,
+): GoogleAppsScript.Spreadsheet.Spreadsheet {
+	return spreadsheet as GoogleAppsScript.Spreadsheet.Spreadsheet;
+}
+
+const WEBHOOK_URL = "https://hooks.example.com/alerts";
+
+function thresholds(values: Partial<AlertThresholds>): AlertThresholds {
+	return {
+		viewGain: 0,
+		newChannelSubscribers: 0,
+		uploadSurgePercent: 0,
+		uploadSurgeMinVideos: 3,
+		...values,
+	};
+}
+
+function alert(key: string): Alert {
+	return {
+		rule: "再生回数の急増",
+		key,
+		date: "2025/06/02",
+		hashtag: "#安野たかひろ",
+		message: `${key} の再生回数が増えました。`,
+		url: `https://www.youtube.com/watch?v=${key}`,
+	};
+}
+
+describe("evaluateAlerts", () => {
+	const history = buildSnapshotHistory(
+		[
+			videoRecord({ date: "2025-06-01", videoId: "v1", views: 100 }),
+			videoRecord({ date: "2025-06-02", videoId: "v1", views: 20100 }),
+			videoRecord({
+				date: "2025-06-02",
+				videoId: "v2",
+				channelId: "c2",
+				subscribers: 50000,
+				views: 10,
+			}),
+			videoRecord({
+				date: "2025-06-02",
+				videoId: "v3",
+				channelId: "c3",
+				subscribers: 20,
+			}),
+		],
+		[],
+	);
+
+	it("再生回数の増加と新規チャンネルの登録者数がしきい値を超えたものを返す", () => {
+		installFakes();
+
+		const alerts = evaluateAlerts(
+			history,
+			["#安野たかひろ"],
+			"2025/06/02",
+			thresholds({ viewGain: 10000, newChannelSubscribers: 10000 }),
+		);
+
+		assert.deepEqual(
+			alerts.map((alert) => [alert.rule, alert.key, alert.hashtag]),
+			[
+				["再生回数の急増", "再生回数の急増:v1", "#安野たかひろ"],
+				["新規チャンネル", "新規チャンネル:c2", "#安野たかひろ"],
+			],
+		);
+		assert.equal(
+			alerts[0].message,
+			"「動画v1」（チャンネルc1）の再生回数が24時間で20000回増えました（20100回）。",
+		);
+	});
+
+	it("しきい値が0のルールは判定しない", () => {
+		installFakes();
+
+		assert.deepEqual(
+			evaluateAlerts(history, ["#安野たかひろ"], "2025/06/02", thresholds({})),
+			[],
+		);
+	});
+
+	it("新規動画数が直前7日の平均を指定した割合より多く上回ったハッシュタグを返す", () => {
+		installFakes();
+		const snapshots: VideoRecord[] = [];
+		for (let day = 1; day <= 7; day++) {
+			const date = `2025-06-0${day}`;
+			snapshots.push(
+				videoRecord({ date, videoId: `d${day}`, publishedAt: date }),
+			);
+		}
+		for (const videoId of ["s1", "s2", "s3"]) {
+			snapshots.push(
+				videoRecord({ date: "2025-06-08", videoId, publishedAt: "2025-06-08" }),
+			);
+		}
+		const surgeHistory = buildSnapshotHistory(snapshots, []);
+
+		const alerts = evaluateAlerts(
+			surgeHistory,
+			["#安野たかひろ", "#チームみらい"],
+			"2025/06/08",
+			thresholds({ uploadSurgePercent: 100 }),
+		);
+		const strict = evaluateAlerts(
+			surgeHistory,
+			["#安野たかひろ"],
+			"2025/06/08",
+			thresholds({ uploadSurgePercent: 100, uploadSurgeMinVideos: 4 }),
+		);
+
+		assert.deepEqual(
+			alerts.map((alert) => [alert.key, alert.message]),
+			[
+				[
+					"投稿数の急増:#安野たかひろ:2025/06/08",
+					"#安野たかひろ の新規動画数が3件で、直前7日の平均（1件）を200%上回りました。",
+				],
+			],
+		);
+		assert.deepEqual(strict, []);
+	});
+});
+
+describe("deliverAlerts", () => {
+	it("メールと Webhook で送信して記録し、同じキーのアラートは再送しない", () => {
+		const env = installFakes({
+			properties: {
+				ALERT_EMAIL: "team@example.com",
+				ALERT_WEBHOOK_URL: WEBHOOK_URL,
+			},
+		});
+		env.urlFetchApp.respond(WEBHOOK_URL, { code: 204 });
+		const now = new Date("2025-06-02T00:00:00Z");
+
+		const first = deliverAlerts(
+			asSpreadsheet(env.spreadsheet),
+			[alert("v1"), alert("v2"), alert("v1")],
+			now,
+		);
+		const second = deliverAlerts(
+			asSpreadsheet(env.spreadsheet),
+			[alert("v1"), alert("v2")],
+			now,
+		);
+
+		assert.deepEqual(
+			first.sent.map((sent) => sent.key),
+			["v1", "v2"],
+		);
+		assert.deepEqual(first.destinations, ["メール", "Webhook"]);
+		assert.deepEqual(second.sent, []);
+		assert.equal(second.duplicateCount, 2);
+
+		assert.equal(env.mailApp.sent.length, 1);
+		assert.equal(env.mailApp.sent[0].recipient, "team@example.com");
+		assert.equal(
+			env.mailApp.sent[0].subject,
+			"[YouTubeハッシュタグ分析] アラート 2件（2025/06/02）",
+		);
+		assert.ok(
+			env.mailApp.sent[0].body.includes(
+				"【再生回数の急増】v1 の再生回数が増えました。\nhttps://www.youtube.com/watch?v=v1",
+			),
+		);
+		assert.equal(env.urlFetchApp.requests.length, 1);
+		const request = env.urlFetchApp.requests[0];
+		assert.equal(request.params.method, "post");
+		assert.deepEqual(
+			JSON.parse(String(request.params.payload)).alerts.map(
+				(sent: Alert) => sent.key,
+			),
+			["v1", "v2"],
+		);
+
+		const sheet = env.spreadsheet.getSheetByName("アラート履歴");
+		assert.ok(sheet);
+		assert.deepEqual(
+			readSheetRecords(asSheet(sheet), getAlertHistorySchema()).map(
+				(record) => [record.key, record.destinations],
+			),
+			[
+				["v1", "メール Webhook"],
+				["v2", "メール Webhook"],
+			],
+		);
+	});
+
+	it("すべての送信先で失敗した場合は記録せず、次回の実行で再送する", () => {
+		const env = installFakes({
+			properties: {
+				ALERT_EMAIL: "team@example.com",
+				ALERT_WEBHOOK_URL: WEBHOOK_URL,
+			},
+		});
+		env.urlFetchApp.respond(WEBHOOK_URL, { code: 500, body: "error" });
+		env.mailApp.failure = "Service invoked too many times";
+
+		const failed = deliverAlerts(asSpreadsheet(env.spreadsheet), [alert("v1")]);
+		env.mailApp.failure = null;
+		const retried = deliverAlerts(asSpreadsheet(env.spreadsheet), [
+			alert("v1"),
+		]);
+
+		assert.equal(failed.failed, true);
+		assert.ok(
+			env.logger.includes(
+				"deliverAlerts: Webhookの送信に失敗しました: HTTP 500: error",
+			),
+		);
+		assert.deepEqual(
+			retried.sent.map((sent) => sent.key),
+			["v1"],
+		);
+		assert.deepEqual(retried.destinations, ["メール"]);
+	});
+
+	it("送信先が設定されていない場合はログにだけ出力して記録する", () => {
+		const env = installFakes();
+
+		const result = deliverAlerts(asSpreadsheet(env.spreadsheet), [alert("v1")]);
+
+		assert.deepEqual(result.destinations, ["ログのみ"]);
+		assert.ok(
+			env.logger.includes(
+				"deliverAlerts: 【再生回数の急増】v1 の再生回数が増えました。",
+			),
+		);
+		assert.equal(env.mailApp.sent.length, 0);
+	});
+});
@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import {
+	getUnresolvedChannelIds,
+	resetChannelCache,
+	resolveChannels,
+} from "../src/channels";
+import {
+	type FakeEnvironment,
+	type YouTubeFixtures,
+	installFakes,
+} from "./harness";
+
+// channel-0 〜 channel-{count-1} のチャンネルを持つフィクスチャを作る
+function channelFixtures(count: number): YouTubeFixtures {
+	const channels: YouTubeFixtures["channels"] = {};
+	for (let i = 0; i < count; i++) {
+		channels[`channel-${i}`] = {
+			id: `channel-${i}`,
+			snippet: { title: `チャンネル${i}` },
+			statistics: { subscriberCount: String(i * 10) },
+		};
+	}
+	return { search: {}, videos: {}, channels };
+}
+
+describe("resolveChannels", () => {
+	let env: FakeEnvironment;
+
+	beforeEach(() => {
+		resetChannelCache();
+		env = installFakes({ fixtures: channelFixtures(120) });
+	});
+
+	it("50件ずつに分割して全チャンネルを解決する", () => {
+		const ids = Array.from({ length: 120 }, (_, i) => `channel-${i}`);
+
+		const { channels } = resolveChannels(ids);
+
+		assert.equal(channels.size, 120);
+		assert.deepEqual(channels.get("channel-119"), {
+			title: "チャンネル119",
+			subscriberCount: "1190",
+			viewCount: "0",
+			videoCount: "0",
+			hiddenSubscriberCount: false,
+		});
+		const calls = env.youtube.callsTo("channels.list");
+		assert.deepEqual(
+			calls.map((call) => String(call.params.id).split(",").length),
+			[50, 50, 20],
+		);
+	});
+
+	it("解決済みのチャンネルは再度問い合わせない", () => {
+		resolveChannels(["channel-1", "channel-2"]);
+		const { channels } = resolveChannels([
+			"channel-2",
+			"channel-3",
+			"channel-3",
+		]);
+
+		assert.equal(channels.size, 2);
+		const calls = env.youtube.callsTo("channels.list");
+		assert.deepEqual(
+			calls.map((call) => call.params.id),
+			["channel-1,channel-2", "channel-3"],
+		);
+	});
+
+	it("取得できなかったチャンネルIDを報告する", () => {
+		const { channels } = resolveChannels(["channel-1", "deleted-channel"]);
+
+		assert.equal(channels.size, 1);
+		assert.deepEqual(getUnresolvedChannelIds(), ["deleted-channel"]);
+		assert.ok(env.logger.includes("deleted-channel"));
+
+		// 未解決のIDも同じ実行中は再度問い合わせない
+		resolveChannels(["deleted-channel"]);
+		assert.equal(env.youtube.callsTo("channels.list").length, 1);
+	});
+});
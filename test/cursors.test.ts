@@ -0,0 +1,244 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import { resetChannelCache } from "../src/channels";
+import type { HashtagConfig } from "../src/config";
+import {
+	advanceHashtagCursor,
+	clearHashtagCursors,
+	getDiscoveryPublishedAfterISO,
+	getDiscoveryPublishedBeforeISO,
+	getHashtagCursor,
+	recordHashtagBacklog,
+} from "../src/cursors";
+import "../src/index";
+import { getSchemaHeaders, getVideoSheetSchema } from "../src/schema";
+import {
+	type FakeEnvironment,
+	installFakes,
+	loadFixtures,
+	seedConfigSheet,
+} from "./harness";
+
+const SHEET = "YouTubeハッシュタグ分析";
+const VIDEO_ID_COLUMN = getSchemaHeaders(getVideoSheetSchema()).indexOf(
+	"動画ID",
+);
+
+function config(overrides: Partial<HashtagConfig> = {}): HashtagConfig {
+	return {
+		hashtag: "#安野たかひろ",
+		enabled: true,
+		lookbackDays: 3650,
+		extraKeywords: [],
+		excludeKeywords: [],
+		owner: "",
+		rowNumber: 2,
+		...overrides,
+	};
+}
+
+describe("getDiscoveryPublishedAfterISO", () => {
+	let env: FakeEnvironment;
+
+	beforeEach(() => {
+		env = installFakes();
+	});
+
+	it("検索位置がなければ遡及日数分を検索する", () => {
+		const after = Date.parse(getDiscoveryPublishedAfterISO(SHEET, config()));
+		const expected = Date.now() - 3650 * 24 * 60 * 60 * 1000;
+		assert.ok(Math.abs(after - expected) < 60 * 1000);
+	});
+
+	it("最新の公開日時の24時間前から検索する", () => {
+		advanceHashtagCursor(SHEET, config(), [
+			{ videoId: "v1", publishedAt: new Date("2025-06-01T10:00:00Z") },
+			{ videoId: "v2", publishedAt: new Date("2025-06-03T12:00:00Z") },
+		]);
+
+		assert.equal(getHashtagCursor(SHEET, "#安野たかひろ")?.lastVideoId, "v2");
+		assert.equal(
+			getDiscoveryPublishedAfterISO(SHEET, config()),
+			"2025-06-02T12:00:00.000Z",
+		);
+		// 書き込み先のシートごとに独立している
+		assert.equal(getHashtagCursor("別のシート", "#安野たかひろ"), null);
+	});
+
+	it("古い動画では検索位置を戻さない", () => {
+		advanceHashtagCursor(SHEET, config(), [
+			{ videoId: "v2", publishedAt: new Date("2025-06-03T12:00:00Z") },
+		]);
+		advanceHashtagCursor(SHEET, config(), [
+			{ videoId: "v1", publishedAt: new Date("2025-06-01T10:00:00Z") },
+		]);
+
+		assert.equal(getHashtagCursor(SHEET, "#安野たかひろ")?.lastVideoId, "v2");
+	});
+
+	it("検索クエリが変わった場合や遡及期間外の位置は使わない", () => {
+		advanceHashtagCursor(SHEET, config(), [
+			{ videoId: "v1", publishedAt: new Date("2025-06-01T10:00:00Z") },
+		]);
+
+		// 追加キーワードを変えた場合は遡及日数分を検索し直す
+		const changed = config({ extraKeywords: ["政策"] });
+		assert.ok(
+			Date.parse(getDiscoveryPublishedAfterISO(SHEET, changed)) <
+				Date.parse("2020-01-01T00:00:00Z"),
+		);
+		const shortLookback = config({ lookbackDays: 7 });
+		assert.ok(
+			Date.parse(getDiscoveryPublishedAfterISO(SHEET, shortLookback)) >
+				Date.parse("2025-06-01T10:00:00Z"),
+		);
+	});
+
+	it("打ち切った検索は最も古い動画より前を続きとして検索し、完了したら最新の動画まで進める", () => {
+		advanceHashtagCursor(SHEET, config(), [
+			{ videoId: "v0", publishedAt: new Date("2025-05-01T00:00:00Z") },
+		]);
+		recordHashtagBacklog(SHEET, config(), [
+			{ videoId: "v3", publishedAt: new Date("2025-06-03T00:00:00Z") },
+			{ videoId: "v2", publishedAt: new Date("2025-06-02T00:00:00Z") },
+		]);
+
+		// 下限は前回の位置のまま、続きの位置より前だけを検索する
+		assert.equal(
+			getDiscoveryPublishedAfterISO(SHEET, config()),
+			"2025-04-30T00:00:00.000Z",
+		);
+		assert.equal(
+			getDiscoveryPublishedBeforeISO(SHEET, config()),
+			"2025-06-02T00:00:00.000Z",
+		);
+
+		// 続きも打ち切った場合は、さらに古い位置から続ける
+		recordHashtagBacklog(SHEET, config(), [
+			{ videoId: "v1", publishedAt: new Date("2025-05-20T00:00:00Z") },
+		]);
+		assert.equal(
+			getDiscoveryPublishedBeforeISO(SHEET, config()),
+			"2025-05-20T00:00:00.000Z",
+		);
+
+		advanceHashtagCursor(SHEET, config(), [
+			{ videoId: "v1b", publishedAt: new Date("2025-05-10T00:00:00Z") },
+		]);
+		const cursor = getHashtagCursor(SHEET, "#安野たかひろ");
+		assert.equal(cursor?.lastVideoId, "v3");
+		assert.equal(cursor?.resumeBefore, undefined);
+		assert.equal(getDiscoveryPublishedBeforeISO(SHEET, config()), undefined);
+		// 検索クエリが変わった場合は続きの位置を使わない
+		recordHashtagBacklog(SHEET, config(), [
+			{ videoId: "v4", publishedAt: new Date("2025-06-04T00:00:00Z") },
+		]);
+		assert.equal(
+			getDiscoveryPublishedBeforeISO(
+				SHEET,
+				config({ extraKeywords: ["政策"] }),
+			),
+			undefined,
+		);
+	});
+
+	it("clearHashtagCursors は検索位置だけを削除する", () => {
+		advanceHashtagCursor(SHEET, config(), [
+			{ videoId: "v1", publishedAt: new Date("2025-06-01T10:00:00Z") },
+		]);
+
+		assert.equal(clearHashtagCursors(), 1);
+		assert.equal(getHashtagCursor(SHEET, "#安野たかひろ"), null);
+		assert.ok(
+			env.propertiesService.getScriptProperties().getProperty("SPREADSHEET_ID"),
+		);
+	});
+});
+
+describe("main の差分検索", () => {
+	it("2回目以降は前回の位置以降だけを検索し、既知の動画は統計だけ更新する", async () => {
+		resetChannelCache();
+		const env = installFakes({ fixtures: loadFixtures("youtube") });
+		seedConfigSheet(env, ["#安野たかひろ"]);
+		const main = (globalThis as unknown as { main: () => Promise<void> }).main;
+
+		await main();
+		const firstSearch = env.youtube.callsTo("search.list").length;
+		await main();
+
+		const searches = env.youtube.callsTo("search.list").slice(firstSearch);
+		assert.equal(searches[0].params.publishedAfter, "2025-06-02T12:00:00.000Z");
+		const refreshCalls = env.youtube
+			.callsTo("videos.list")
+			.filter((call) => call.part === "statistics");
+		assert.equal(refreshCalls.length, 1);
+		assert.equal(refreshCalls[0].params.id, "video-a1,video-a2");
+		const sheet = env.spreadsheet.getSheetByName(SHEET);
+		assert.equal(sheet?.getLastRow(), 4);
+	});
+});
+
+describe("検索ページ数の上限", () => {
+	let env: FakeEnvironment;
+	let main: () => Promise<void>;
+
+	beforeEach(() => {
+		resetChannelCache();
+		const fixtures = loadFixtures("youtube");
+		const template = fixtures.videos["video-a1"];
+		// 1ページ1件で上限（10ページ）より多いページを新しい順に返す
+		const pages = Array.from({ length: 12 }, (_, index) => [
+			`video-page-${index}`,
+		]);
+		for (const [index, [videoId]] of pages.entries()) {
+			fixtures.videos[videoId] = {
+				...template,
+				id: videoId,
+				snippet: {
+					...(template.snippet as Record<string, unknown>),
+					publishedAt: new Date(
+						Date.UTC(2025, 5, 1) - index * 60 * 60 * 1000,
+					).toISOString(),
+				},
+			};
+		}
+		fixtures.search["#安野たかひろ"] = pages;
+		env = installFakes({ fixtures });
+		seedConfigSheet(env, ["#安野たかひろ"]);
+		main = (globalThis as unknown as { main: () => Promise<void> }).main;
+	});
+
+	it("上限のページ数で打ち切った場合は検索位置を進めずに続きの位置を記録する", async () => {
+		await main();
+
+		assert.equal(env.youtube.callsTo("search.list").length, 10);
+		const cursor = getHashtagCursor(SHEET, "#安野たかひろ");
+		assert.equal(cursor?.lastPublishedAt, "");
+		assert.equal(cursor?.resumeBefore, "2025-05-31T15:00:00.000Z");
+		assert.ok(env.logger.includes("検索を上限の10ページで打ち切りました"));
+	});
+
+	it("次の実行は続きの位置より前を検索し、残りを取り込んだら検索位置を進める", async () => {
+		await main();
+		const firstSearch = env.youtube.callsTo("search.list").length;
+		await main();
+
+		const searches = env.youtube.callsTo("search.list").slice(firstSearch);
+		assert.equal(
+			searches[0].params.publishedBefore,
+			"2025-05-31T15:00:00.000Z",
+		);
+		const videoIds = (
+			env.spreadsheet
+				.getSheetByName(SHEET)
+				?.getDataRange()
+				.getValues()
+				.slice(1) ?? []
+		).map((row) => row[VIDEO_ID_COLUMN]);
+		assert.equal(new Set(videoIds).size, 12);
+		assert.equal(videoIds.length, 12);
+		const cursor = getHashtagCursor(SHEET, "#安野たかひろ");
+		assert.equal(cursor?.lastVideoId, "video-page-0");
+		assert.equal(cursor?.resumeBefore, undefined);
+	});
+});
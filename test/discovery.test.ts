@@ -0,0 +1,238 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+	type HashtagSuggestionCriteria,
+	buildHashtagDiscovery,
+	writeHashtagDiscoveryReport,
+} from "../src/discovery";
+import { recordVideoHashtags } from "../src/links";
+import {
+	type VideoRecord,
+	ensureSheetSchema,
+	getHashtagDiscoverySchema,
+	getVideoSheetSchema,
+	readSheetRecords,
+	toSheetRow,
+} from "../src/schema";
+import {
+	type FakeSheet,
+	type VideoRecordValues,
+	installFakes,
+	videoRecord,
+} from "./harness";
+
+function asSheet(sheet: FakeSheet): GoogleAppsScript.Spreadsheet.Sheet {
+	return sheet as unknown as GoogleAppsScript.Spreadsheet.Sheet;
+}
+
+function asSpreadsheet(
+	spreadsheet: unknown,
+): GoogleAppsScript.Spreadsheet.Spreadsheet {
+	return spreadsheet as GoogleAppsScript.Spreadsheet.Spreadsheet;
+}
+
+const NOW = new Date("2025-06-30T03:00:00Z");
+const CRITERIA: HashtagSuggestionCriteria = {
+	minVideos: 2,
+	minGrowthRate: 2,
+	excludedHashtags: ["#shorts"],
+};
+
+// NOW に取得したメインシートの行（publishedDaysAgo は NOW からの日数）
+function video({
+	publishedDaysAgo,
+	...values
+}: Omit<VideoRecordValues, "fetchedAt" | "publishedAt"> & {
+	publishedDaysAgo: number;
+}): VideoRecord {
+	return videoRecord({
+		...values,
+		fetchedAt: NOW,
+		publishedAt: new Date(
+			NOW.getTime() - publishedDaysAgo * 24 * 60 * 60 * 1000,
+		),
+	});
+}
+
+describe("buildHashtagDiscovery", () => {
+	it("追跡中のハッシュタグとの共起と直近7日・30日の動画数を数え、急増しているものを追加候補にする", () => {
+		const videos = [
+			video({
+				videoId: "v1",
+				publishedDaysAgo: 1,
+				title: "演説 #安野たかひろ #AI政策 #shorts",
+				views: 100,
+			}),
+			video({
+				videoId: "v2",
+				publishedDaysAgo: 3,
+				description: "#チームみらい ＃ＡＩ政策",
+				tags: "選挙, 安野 たかひろ",
+				channelId: "channel-2",
+				views: 50,
+			}),
+			video({
+				videoId: "v3",
+				publishedDaysAgo: 10,
+				description: "#選挙",
+				tags: "AI政策",
+			}),
+			video({
+				videoId: "v4",
+				publishedDaysAgo: 20,
+				description: "#選挙",
+			}),
+			// 追跡中のハッシュタグで見つかっていない動画は数えない
+			video({
+				videoId: "v5",
+				hashtag: "#無関係",
+				publishedDaysAgo: 1,
+				description: "#AI政策",
+			}),
+		];
+		const videoHashtags = new Map([["v2", ["#安野たかひろ", "#チームみらい"]]]);
+
+		const records = buildHashtagDiscovery(
+			videos,
+			videoHashtags,
+			["#安野たかひろ", "#チームみらい"],
+			CRITERIA,
+			NOW,
+		);
+
+		assert.deepEqual(
+			records.map((record) => [
+				record.hashtag,
+				record.suggested,
+				record.videoCount,
+				record.channelCount,
+				record.totalViews,
+				record.recent7Days,
+				record.previous7Days,
+				record.recent30Days,
+				record.previous30Days,
+				record.growthRate,
+				record.cooccurrence,
+			]),
+			[
+				[
+					"#AI政策",
+					true,
+					3,
+					2,
+					150,
+					2,
+					1,
+					3,
+					0,
+					2,
+					"#安野たかひろ:3 #チームみらい:1",
+				],
+				[
+					"#選挙",
+					false,
+					3,
+					2,
+					50,
+					1,
+					1,
+					3,
+					0,
+					1,
+					"#安野たかひろ:3 #チームみらい:1",
+				],
+			],
+		);
+		assert.deepEqual(
+			records[0].firstPublishedAt,
+			new Date("2025-06-20T03:00:00Z"),
+		);
+	});
+
+	it("キーワードのみの一致を除外する場合は、その動画のハッシュタグを数えない", () => {
+		const videos = [
+			video({
+				videoId: "v1",
+				publishedDaysAgo: 1,
+				title: "安野たかひろさんの話",
+				description: "#選挙",
+			}),
+		];
+		videos[0].matchType = "キーワードのみ";
+
+		assert.equal(
+			buildHashtagDiscovery(videos, new Map(), ["#安野たかひろ"], CRITERIA, NOW)
+				.length,
+			1,
+		);
+		assert.deepEqual(
+			buildHashtagDiscovery(
+				videos,
+				new Map(),
+				["#安野たかひろ"],
+				CRITERIA,
+				NOW,
+				true,
+			),
+			[],
+		);
+	});
+});
+
+describe("writeHashtagDiscoveryReport", () => {
+	it("メインシートと動画ハッシュタグシートから集計し、ハッシュタグ候補シートを書き換える", () => {
+		const env = installFakes({
+			properties: {
+				HASHTAG_SUGGESTION_MIN_VIDEOS: "1",
+				HASHTAG_DISCOVERY_EXCLUDED: "#除外",
+			},
+		});
+		const schema = getVideoSheetSchema();
+		const mainSheet = asSheet(
+			env.spreadsheet.insertSheet("YouTubeハッシュタグ分析"),
+		);
+		ensureSheetSchema(mainSheet, schema);
+		mainSheet.appendRow(
+			toSheetRow(
+				schema,
+				video({
+					videoId: "v1",
+					publishedDaysAgo: 2,
+					description: "#新しいタグ #除外 #shorts",
+				}),
+			),
+		);
+		recordVideoHashtags(asSpreadsheet(env.spreadsheet), [
+			{ videoId: "v1", hashtag: "#チームみらい", seenAt: NOW },
+		]);
+
+		writeHashtagDiscoveryReport(
+			asSpreadsheet(env.spreadsheet),
+			mainSheet,
+			["#安野たかひろ", "#チームみらい"],
+			NOW,
+		);
+		const records = writeHashtagDiscoveryReport(
+			asSpreadsheet(env.spreadsheet),
+			mainSheet,
+			["#安野たかひろ", "#チームみらい"],
+			NOW,
+		);
+
+		const sheet = env.spreadsheet.getSheetByName("ハッシュタグ候補");
+		assert.ok(sheet);
+		const written = readSheetRecords(
+			asSheet(sheet),
+			getHashtagDiscoverySchema(),
+		);
+		assert.deepEqual(written, records);
+		assert.deepEqual(
+			written.map((record) => [
+				record.hashtag,
+				record.suggested,
+				record.cooccurrence,
+			]),
+			[["#新しいタグ", true, "#安野たかひろ:1 #チームみらい:1"]],
+		);
+	});
+});
@@ -0,0 +1,121 @@
+// Charts のデータ表とグラフのビルダーを再現するフェイク（画像の代わりに設定内容を持つ Blob を返す）
+export class FakeBlob {
+	private name = "";
+
+	constructor(
+		readonly contentType: string,
+		readonly chart: FakeChart,
+	) {}
+
+	getName(): string {
+		return this.name;
+	}
+
+	setName(name: string): FakeBlob {
+		this.name = name;
+		return this;
+	}
+
+	getContentType(): string {
+		return this.contentType;
+	}
+}
+
+export interface FakeDataTable {
+	columns: [string, string][]; // [種類, 列名]
+	rows: unknown[][];
+}
+
+class FakeDataTableBuilder {
+	private readonly table: FakeDataTable = { columns: [], rows: [] };
+
+	addColumn(type: string, label: string): FakeDataTableBuilder {
+		this.table.columns.push([type, label]);
+		return this;
+	}
+
+	addRow(values: unknown[]): FakeDataTableBuilder {
+		this.table.rows.push(values);
+		return this;
+	}
+
+	build(): FakeDataTable {
+		return this.table;
+	}
+}
+
+export interface FakeChart {
+	type: string;
+	title: string;
+	stacked: boolean;
+	table: FakeDataTable | null;
+	getAs(contentType: string): FakeBlob;
+}
+
+class FakeChartBuilder {
+	private readonly chart: FakeChart;
+
+	constructor(type: string) {
+		this.chart = {
+			type,
+			title: "",
+			stacked: false,
+			table: null,
+			getAs: (contentType) => new FakeBlob(contentType, this.chart),
+		};
+	}
+
+	setDataTable(table: FakeDataTableBuilder | FakeDataTable): FakeChartBuilder {
+		this.chart.table =
+			table instanceof FakeDataTableBuilder ? table.build() : table;
+		return this;
+	}
+
+	setTitle(title: string): FakeChartBuilder {
+		this.chart.title = title;
+		return this;
+	}
+
+	setStacked(): FakeChartBuilder {
+		this.chart.stacked = true;
+		return this;
+	}
+
+	setLegendPosition(_position: string): FakeChartBuilder {
+		return this;
+	}
+
+	setDimensions(_width: number, _height: number): FakeChartBuilder {
+		return this;
+	}
+
+	build(): FakeChart {
+		return this.chart;
+	}
+}
+
+export class FakeCharts {
+	readonly ColumnType = {
+		STRING: "string",
+		NUMBER: "number",
+		DATE: "date",
+	};
+	readonly Position = {
+		TOP: "top",
+		RIGHT: "right",
+		BOTTOM: "bottom",
+		NONE: "none",
+	};
+
+	newDataTable(): FakeDataTableBuilder {
+		return new FakeDataTableBuilder();
+	}
+
+	newLineChart(): FakeChartBuilder {
+		return new FakeChartBuilder("line");
+	}
+
+	newColumnChart(): FakeChartBuilder {
+		return new FakeChartBuilder("column");
+	}
+}
@@ -0,0 +1,78 @@
+// DocumentApp で作成したドキュメントの本文をメモリ上で再現するフェイク
+export type FakeDocumentElement =
+	| { type: "paragraph"; text: string; heading: string }
+	| { type: "table"; cells: string[][] }
+	| { type: "image"; name: string };
+
+class FakeParagraph {
+	constructor(private readonly element: { heading: string }) {}
+
+	setHeading(heading: string): FakeParagraph {
+		this.element.heading = heading;
+		return this;
+	}
+}
+
+class FakeDocumentBody {
+	readonly elements: FakeDocumentElement[] = [];
+
+	appendParagraph(text: string): FakeParagraph {
+		const element = { type: "paragraph" as const, text, heading: "NORMAL" };
+		this.elements.push(element);
+		return new FakeParagraph(element);
+	}
+
+	appendTable(cells: string[][]): void {
+		this.elements.push({ type: "table", cells });
+	}
+
+	appendImage(image: { getName(): string }): void {
+		this.elements.push({ type: "image", name: image.getName() });
+	}
+}
+
+export class FakeDocument {
+	readonly body = new FakeDocumentBody();
+	closed = false;
+
+	constructor(
+		private readonly id: string,
+		readonly name: string,
+	) {}
+
+	getId(): string {
+		return this.id;
+	}
+
+	getUrl(): string {
+		return `https://docs.google.com/document/d/${this.id}/edit`;
+	}
+
+	getBody(): FakeDocumentBody {
+		return this.body;
+	}
+
+	saveAndClose(): void {
+		this.closed = true;
+	}
+}
+
+export class FakeDocumentApp {
+	readonly documents: FakeDocument[] = [];
+	readonly ParagraphHeading = {
+		NORMAL: "NORMAL",
+		TITLE: "TITLE",
+		HEADING1: "HEADING1",
+		HEADING2: "HEADING2",
+		HEADING3: "HEADING3",
+	};
+
+	create(name: string): FakeDocument {
+		const document = new FakeDocument(
+			`document-${this.documents.length + 1}`,
+			name,
+		);
+		this.documents.push(document);
+		return document;
+	}
+}
@@ -0,0 +1,108 @@
+// DriveApp のフォルダとファイルをメモリ上で再現するフェイク
+export class FakeDriveFile {
+	constructor(
+		private readonly name: string,
+		public content: string,
+		readonly mimeType: string,
+	) {}
+
+	getName(): string {
+		return this.name;
+	}
+
+	setContent(content: string): FakeDriveFile {
+		this.content = content;
+		return this;
+	}
+
+	getBlob() {
+		return { getDataAsString: (_charset?: string) => this.content };
+	}
+}
+
+// DocumentApp などで作成したファイル（移動先のフォルダだけを記録する）
+export class FakeDriveItem {
+	folderId: string | null = null;
+
+	constructor(private readonly id: string) {}
+
+	getId(): string {
+		return this.id;
+	}
+
+	moveTo(folder: FakeDriveFolder): FakeDriveItem {
+		this.folderId = folder.getId();
+		return this;
+	}
+}
+
+export class FakeDriveFolder {
+	readonly files: FakeDriveFile[] = [];
+
+	constructor(
+		private readonly id: string,
+		private readonly name: string,
+	) {}
+
+	getId(): string {
+		return this.id;
+	}
+
+	getName(): string {
+		return this.name;
+	}
+
+	getUrl(): string {
+		return `https://drive.google.com/drive/folders/${this.id}`;
+	}
+
+	getFilesByName(name: string) {
+		const files = this.files.filter((file) => file.getName() === name);
+		return {
+			hasNext: () => files.length > 0,
+			next: () => {
+				const file = files.shift();
+				if (!file) throw new Error("ファイルがありません");
+				return file;
+			},
+		};
+	}
+
+	createFile(name: string, content: string, mimeType: string): FakeDriveFile {
+		const file = new FakeDriveFile(name, content, mimeType);
+		this.files.push(file);
+		return file;
+	}
+
+	// テストからファイルの内容を参照する
+	fileContent(name: string): string | undefined {
+		return this.files.find((file) => file.getName() === name)?.content;
+	}
+}
+
+export class FakeDriveApp {
+	readonly folders = new Map<string, FakeDriveFolder>();
+	readonly items = new Map<string, FakeDriveItem>();
+	private createdCount = 0;
+
+	getFileById(id: string): FakeDriveItem {
+		const item = this.items.get(id) || new FakeDriveItem(id);
+		this.items.set(id, item);
+		return item;
+	}
+
+	getFolderById(id: string): FakeDriveFolder {
+		const folder = this.folders.get(id);
+		if (!folder) {
+			throw new Error(`フォルダが見つかりません: ${id}`);
+		}
+		return folder;
+	}
+
+	createFolder(name: string): FakeDriveFolder {
+		this.createdCount++;
+		const folder = new FakeDriveFolder(`folder-${this.createdCount}`, name);
+		this.folders.set(folder.getId(), folder);
+		return folder;
+	}
+}
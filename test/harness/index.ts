@@ -0,0 +1,143 @@
+// Apps Script のグローバルサービスをインメモリ実装に差し替えるテストハーネス
+import { readFileSync } from "node:fs";
+import { FakeCharts } from "./charts";
+import { FakeDocumentApp } from "./document";
+import { FakeDriveApp } from "./drive";
+import {
+	FakeCacheService,
+	FakeLockService,
+	FakeLogger,
+	FakeMailApp,
+	FakePropertiesService,
+	FakeScriptApp,
+	FakeUrlFetchApp,
+	FakeUtilities,
+} from "./services";
+import { type FakeSpreadsheet, FakeSpreadsheetApp } from "./spreadsheet";
+import { FakeYouTube, type YouTubeFixtures } from "./youtube";
+
+export { FakeBlob, FakeCharts } from "./charts";
+export { FakeDocument, FakeDocumentApp } from "./document";
+export { FakeDriveApp, FakeDriveFolder, FakeDriveItem } from "./drive";
+export {
+	FakeCache,
+	FakeCacheService,
+	FakeLock,
+	FakeLockService,
+	FakeLogger,
+	FakeMailApp,
+	FakeProperties,
+	FakeScriptApp,
+	FakeTrigger,
+	FakeUrlFetchApp,
+} from "./services";
+export { type VideoRecordValues, videoRecord } from "./records";
+export { FakeRange, FakeSheet, FakeSpreadsheet } from "./spreadsheet";
+export { FakeYouTube, type YouTubeFixtures } from "./youtube";
+
+export const TEST_SPREADSHEET_ID = "test-spreadsheet";
+
+export interface FakeEnvironment {
+	spreadsheetApp: FakeSpreadsheetApp;
+	spreadsheet: FakeSpreadsheet;
+	youtube: FakeYouTube;
+	logger: FakeLogger;
+	propertiesService: FakePropertiesService;
+	cacheService: FakeCacheService;
+	lockService: FakeLockService;
+	utilities: FakeUtilities;
+	urlFetchApp: FakeUrlFetchApp;
+	mailApp: FakeMailApp;
+	scriptApp: FakeScriptApp;
+	driveApp: FakeDriveApp;
+	charts: FakeCharts;
+	documentApp: FakeDocumentApp;
+}
+
+export interface InstallOptions {
+	fixtures?: YouTubeFixtures;
+	properties?: Record<string, string>;
+}
+
+// test/fixtures 配下の JSON フィクスチャを読み込む
+export function loadFixtures<T = YouTubeFixtures>(name: string): T {
+	const url = new URL(`../fixtures/${name}.json`, import.meta.url);
+	return JSON.parse(readFileSync(url, "utf8")) as T;
+}
+
+// フェイクをグローバルに登録し、テストから操作するためのハンドルを返す
+export function installFakes(options: InstallOptions = {}): FakeEnvironment {
+	const spreadsheetApp = new FakeSpreadsheetApp();
+	const spreadsheet = spreadsheetApp.add(TEST_SPREADSHEET_ID);
+	const youtube = new FakeYouTube(
+		options.fixtures || { search: {}, videos: {}, channels: {} },
+	);
+	const logger = new FakeLogger();
+	const propertiesService = new FakePropertiesService({
+		SPREADSHEET_ID: TEST_SPREADSHEET_ID,
+		...options.properties,
+	});
+	const cacheService = new FakeCacheService();
+	const lockService = new FakeLockService();
+	const utilities = new FakeUtilities();
+	const urlFetchApp = new FakeUrlFetchApp();
+	const mailApp = new FakeMailApp();
+	const scriptApp = new FakeScriptApp();
+	const driveApp = new FakeDriveApp();
+	const charts = new FakeCharts();
+	const documentApp = new FakeDocumentApp();
+
+	Object.assign(globalThis, {
+		SpreadsheetApp: spreadsheetApp,
+		YouTube: youtube,
+		Logger: logger,
+		PropertiesService: propertiesService,
+		CacheService: cacheService,
+		LockService: lockService,
+		Utilities: utilities,
+		UrlFetchApp: urlFetchApp,
+		MailApp: mailApp,
+		ScriptApp: scriptApp,
+		DriveApp: driveApp,
+		Charts: charts,
+		DocumentApp: documentApp,
+	});
+
+	return {
+		spreadsheetApp,
+		spreadsheet,
+		youtube,
+		logger,
+		propertiesService,
+		cacheService,
+		lockService,
+		utilities,
+		urlFetchApp,
+		mailApp,
+		scriptApp,
+		driveApp,
+		charts,
+		documentApp,
+	};
+}
+
+// フィクスチャの公開日が遡及期間に収まるよう、設定シートを用意する
+export function seedConfigSheet(
+	env: FakeEnvironment,
+	hashtags: string[],
+	lookbackDays = 3650,
+): void {
+	const sheet = env.spreadsheet.insertSheet("設定");
+	sheet.appendRow([
+		"ハッシュタグ",
+		"有効",
+		"遡及日数",
+		"追加キーワード",
+		"除外キーワード",
+		"担当者",
+		"検証結果",
+	]);
+	for (const hashtag of hashtags) {
+		sheet.appendRow([hashtag, true, lookbackDays, "", "", "", ""]);
+	}
+}
@@ -0,0 +1,51 @@
+// テストで使うシートの行を作るファクトリ
+import type { VideoRecord } from "../../src/schema";
+
+// 行の値（指定しない列は集計に影響しない既定値にする）
+export interface VideoRecordValues {
+	videoId: string;
+	date?: string; // 積み上げシートの日付（取得日時はその日の日本時間の正午）
+	fetchedAt?: Date; // date の代わりに取得日時を直接指定する
+	hashtag?: string;
+	category?: string;
+	title?: string;
+	description?: string;
+	tags?: string;
+	channelId?: string;
+	subscribers?: number;
+	publishedAt?: string | Date; // 文字列の場合は日付（日本時間の正午）
+	views?: number;
+	likes?: number;
+	comments?: number;
+}
+
+function toNoonInJapan(date: string): Date {
+	return new Date(`${date}T03:00:00Z`);
+}
+
+// 集計に使う列だけを指定した動画の行（メインシート・積み上げシート共通）
+export function videoRecord(values: VideoRecordValues): VideoRecord {
+	const channelId = values.channelId || "c1";
+	const publishedAt = values.publishedAt || "2025-05-01";
+	return {
+		fetchedAt: values.fetchedAt || toNoonInJapan(values.date || "2025-06-01"),
+		hashtag: values.hashtag || "#安野たかひろ",
+		videoId: values.videoId,
+		category: values.category || "通常",
+		title: values.title || `動画${values.videoId}`,
+		url: `https://www.youtube.com/watch?v=${values.videoId}`,
+		channelName: `チャンネル${channelId}`,
+		channelId,
+		subscriberCount: values.subscribers ?? 100,
+		publishedAt:
+			typeof publishedAt === "string"
+				? toNoonInJapan(publishedAt)
+				: publishedAt,
+		description: values.description || "",
+		tags: values.tags || "",
+		descriptionHashtags: "",
+		viewCount: values.views ?? 0,
+		likeCount: values.likes ?? 0,
+		commentCount: values.comments ?? 0,
+	} as VideoRecord;
+}
@@ -0,0 +1,30 @@
+// フィクスチャを使ってエントリーポイントをローカルで実行するスクリプト
+//
+// 使い方: npm start -- <関数名>   (例: npm start -- main)
+import { installFakes, loadFixtures, seedConfigSheet } from "./index";
+
+const functionName = process.argv[2] || "main";
+
+const env = installFakes({ fixtures: loadFixtures("youtube") });
+seedConfigSheet(env, ["#安野たかひろ", "#チームみらい"]);
+await import("../../src/index");
+
+const entryPoint = (globalThis as unknown as Record<string, unknown>)[
+	functionName
+];
+if (typeof entryPoint !== "function") {
+	console.error(`関数が見つかりません: ${functionName}`);
+	process.exit(1);
+}
+
+await entryPoint();
+
+for (const message of env.logger.messages) {
+	console.log(message);
+}
+for (const sheet of env.spreadsheet.getSheets()) {
+	console.log(`\n[${sheet.getName()}] ${sheet.getLastRow()}行`);
+	for (const row of sheet.getDataRange().getValues().slice(0, 5)) {
+		console.log(row.map((cell) => String(cell).slice(0, 30)).join(" | "));
+	}
+}
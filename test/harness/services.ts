@@ -0,0 +1,343 @@
+// Logger / PropertiesService / CacheService / LockService / Utilities / UrlFetchApp / MailApp / ScriptApp のインメモリ実装
+import { parse } from "csv-parse/sync";
+
+export class FakeLogger {
+	readonly messages: string[] = [];
+
+	log(format: unknown, ...values: unknown[]): FakeLogger {
+		let message = String(format);
+		for (const value of values) {
+			message = message.replace(/%s|%d/, String(value));
+		}
+		this.messages.push(message);
+		return this;
+	}
+
+	clear(): void {
+		this.messages.length = 0;
+	}
+
+	getLog(): string {
+		return this.messages.join("\n");
+	}
+
+	// 指定した文字列を含むログがあるかを返す
+	includes(text: string): boolean {
+		return this.messages.some((message) => message.includes(text));
+	}
+}
+
+export class FakeProperties {
+	private readonly values = new Map<string, string>();
+
+	constructor(initial: Record<string, string> = {}) {
+		for (const [key, value] of Object.entries(initial)) {
+			this.values.set(key, value);
+		}
+	}
+
+	getProperty(key: string): string | null {
+		return this.values.get(key) ?? null;
+	}
+
+	setProperty(key: string, value: string): FakeProperties {
+		this.values.set(key, String(value));
+		return this;
+	}
+
+	setProperties(properties: Record<string, string>): FakeProperties {
+		for (const [key, value] of Object.entries(properties)) {
+			this.setProperty(key, value);
+		}
+		return this;
+	}
+
+	getProperties(): Record<string, string> {
+		return Object.fromEntries(this.values);
+	}
+
+	getKeys(): string[] {
+		return [...this.values.keys()];
+	}
+
+	deleteProperty(key: string): FakeProperties {
+		this.values.delete(key);
+		return this;
+	}
+
+	deleteAllProperties(): FakeProperties {
+		this.values.clear();
+		return this;
+	}
+}
+
+export class FakePropertiesService {
+	readonly scriptProperties: FakeProperties;
+
+	constructor(initial: Record<string, string> = {}) {
+		this.scriptProperties = new FakeProperties(initial);
+	}
+
+	getScriptProperties(): FakeProperties {
+		return this.scriptProperties;
+	}
+}
+
+// 有効期限は扱わず、put した値をそのまま返す
+export class FakeCache {
+	readonly values = new Map<string, string>();
+
+	get(key: string): string | null {
+		return this.values.get(key) ?? null;
+	}
+
+	put(key: string, value: string, _expirationInSeconds?: number): void {
+		this.values.set(key, value);
+	}
+
+	remove(key: string): void {
+		this.values.delete(key);
+	}
+}
+
+export class FakeCacheService {
+	readonly scriptCache = new FakeCache();
+
+	getScriptCache(): FakeCache {
+		return this.scriptCache;
+	}
+}
+
+// heldElsewhere を true にすると、別の実行がロックを持っている状態を再現する
+export class FakeLock {
+	heldElsewhere = false;
+	locked = false;
+	readonly waits: number[] = [];
+
+	tryLock(timeoutInMillis: number): boolean {
+		this.waits.push(timeoutInMillis);
+		if (this.heldElsewhere) return false;
+		this.locked = true;
+		return true;
+	}
+
+	hasLock(): boolean {
+		return this.locked;
+	}
+
+	releaseLock(): void {
+		this.locked = false;
+	}
+}
+
+export class FakeLockService {
+	readonly scriptLock = new FakeLock();
+
+	getScriptLock(): FakeLock {
+		return this.scriptLock;
+	}
+}
+
+export class FakeUtilities {
+	readonly sleeps: number[] = [];
+
+	// Utilities.formatDate の yyyy/MM/dd/HH/mm/ss 書式に対応する
+	formatDate(date: Date, timeZone: string, format: string): string {
+		const parts = Object.fromEntries(
+			new Intl.DateTimeFormat("en-US", {
+				timeZone,
+				year: "numeric",
+				month: "2-digit",
+				day: "2-digit",
+				hour: "2-digit",
+				minute: "2-digit",
+				second: "2-digit",
+				hourCycle: "h23",
+			})
+				.formatToParts(date)
+				.map((part) => [part.type, part.value]),
+		);
+		return format
+			.replace("yyyy", parts.year)
+			.replace("MM", parts.month)
+			.replace("dd", parts.day)
+			.replace("HH", parts.hour)
+			.replace("mm", parts.minute)
+			.replace("ss", parts.second);
+	}
+
+	parseCsv(csv: string): string[][] {
+		return parse(csv, { relax_column_count: true }) as string[][];
+	}
+
+	sleep(milliseconds: number): void {
+		this.sleeps.push(milliseconds);
+	}
+}
+
+export interface FakeHttpResponse {
+	code: number;
+	body?: string;
+}
+
+export interface UrlFetchRequest {
+	url: string;
+	params: Record<string, unknown>;
+}
+
+export class FakeUrlFetchApp {
+	readonly requests: UrlFetchRequest[] = [];
+
+	// URL -> 応答。登録されていない URL は 404 を返す
+	constructor(
+		private readonly responses: Record<string, FakeHttpResponse> = {},
+	) {}
+
+	respond(url: string, response: FakeHttpResponse): void {
+		this.responses[url] = response;
+	}
+
+	fetch(url: string, params: Record<string, unknown> = {}) {
+		this.requests.push({ url, params });
+		const response = this.responses[url] || { code: 404, body: "" };
+		return {
+			getResponseCode: () => response.code,
+			getContentText: () => response.body || "",
+		};
+	}
+}
+
+export interface SentEmail {
+	recipient: string;
+	subject: string;
+	body: string;
+	htmlBody?: string;
+	inlineImages?: Record<string, unknown>;
+}
+
+export class FakeMailApp {
+	readonly sent: SentEmail[] = [];
+	// 設定すると sendEmail がこのメッセージのエラーを投げる
+	failure: string | null = null;
+
+	sendEmail(
+		recipient: string,
+		subject: string,
+		body: string,
+		options: { htmlBody?: string; inlineImages?: Record<string, unknown> } = {},
+	): void {
+		if (this.failure) throw new Error(this.failure);
+		this.sent.push({ recipient, subject, body, ...options });
+	}
+}
+
+// 時間主導型トリガーの設定内容（ビルダーに渡された値をそのまま記録する）
+export type TriggerSchedule = Record<string, unknown>;
+
+let nextTriggerId = 1;
+
+export class FakeTrigger {
+	readonly uniqueId = `trigger-${nextTriggerId++}`;
+
+	constructor(
+		readonly handlerFunction: string,
+		readonly schedule: TriggerSchedule,
+	) {}
+
+	getHandlerFunction(): string {
+		return this.handlerFunction;
+	}
+
+	getUniqueId(): string {
+		return this.uniqueId;
+	}
+}
+
+class FakeClockTriggerBuilder {
+	private readonly schedule: TriggerSchedule = {};
+
+	constructor(
+		private readonly scriptApp: FakeScriptApp,
+		private readonly handlerFunction: string,
+	) {}
+
+	after(milliseconds: number): FakeClockTriggerBuilder {
+		this.schedule.after = milliseconds;
+		return this;
+	}
+
+	everyHours(hours: number): FakeClockTriggerBuilder {
+		this.schedule.everyHours = hours;
+		return this;
+	}
+
+	everyDays(days: number): FakeClockTriggerBuilder {
+		this.schedule.everyDays = days;
+		return this;
+	}
+
+	onWeekDay(weekDay: string): FakeClockTriggerBuilder {
+		this.schedule.onWeekDay = weekDay;
+		return this;
+	}
+
+	onMonthDay(day: number): FakeClockTriggerBuilder {
+		this.schedule.onMonthDay = day;
+		return this;
+	}
+
+	atHour(hour: number): FakeClockTriggerBuilder {
+		this.schedule.atHour = hour;
+		return this;
+	}
+
+	inTimezone(timeZone: string): FakeClockTriggerBuilder {
+		this.schedule.timeZone = timeZone;
+		return this;
+	}
+
+	create(): FakeTrigger {
+		const trigger = new FakeTrigger(this.handlerFunction, {
+			...this.schedule,
+		});
+		this.scriptApp.triggers.push(trigger);
+		return trigger;
+	}
+}
+
+export class FakeScriptApp {
+	readonly triggers: FakeTrigger[] = [];
+	readonly WeekDay = {
+		SUNDAY: "SUNDAY",
+		MONDAY: "MONDAY",
+		TUESDAY: "TUESDAY",
+		WEDNESDAY: "WEDNESDAY",
+		THURSDAY: "THURSDAY",
+		FRIDAY: "FRIDAY",
+		SATURDAY: "SATURDAY",
+	};
+
+	newTrigger(handlerFunction: string) {
+		return {
+			timeBased: () => new FakeClockTriggerBuilder(this, handlerFunction),
+		};
+	}
+
+	getProjectTriggers(): FakeTrigger[] {
+		return [...this.triggers];
+	}
+
+	deleteTrigger(trigger: FakeTrigger): void {
+		const index = this.triggers.indexOf(trigger);
+		if (index !== -1) {
+			this.triggers.splice(index, 1);
+		}
+	}
+
+	// 指定した関数を実行するトリガーを返す
+	triggersFor(handlerFunction: string): FakeTrigger[] {
+		return this.triggers.filter(
+			(trigger) => trigger.handlerFunction === handlerFunction,
+		);
+	}
+}
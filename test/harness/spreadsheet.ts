@@ -0,0 +1,331 @@
+// SpreadsheetApp / Spreadsheet / Sheet / Range のインメモリ実装
+//
+// 本番コードが使うメソッドだけを実装し、未実装のメソッドは呼ばれた時点で失敗させる。
+
+type Cell = unknown;
+
+type SortSpec = number | { column: number; ascending?: boolean };
+
+// スプレッドシートの昇順（数値・日付 < 文字列 < 真偽値）での型の順位
+function cellRank(value: Cell): number {
+	if (typeof value === "number" || value instanceof Date) return 0;
+	if (typeof value === "string") return 1;
+	return 2;
+}
+
+// セル値を Apps Script の並び順に近い形で比較する関数
+function compareCells(a: Cell, b: Cell): number {
+	if (a === b) return 0;
+	const rankDiff = cellRank(a) - cellRank(b);
+	if (rankDiff !== 0) return rankDiff;
+	const left = a instanceof Date ? a.getTime() : a;
+	const right = b instanceof Date ? b.getTime() : b;
+	if (typeof left === "number" && typeof right === "number") {
+		return left - right;
+	}
+	return String(left).localeCompare(String(right));
+}
+
+export class FakeRange {
+	constructor(
+		private readonly sheet: FakeSheet,
+		private readonly row: number,
+		private readonly column: number,
+		private readonly numRows: number,
+		private readonly numColumns: number,
+	) {
+		if (row < 1 || column < 1 || numRows < 1 || numColumns < 1) {
+			throw new Error(
+				`範囲が不正です: (${row}, ${column}, ${numRows}, ${numColumns})`,
+			);
+		}
+	}
+
+	getRow(): number {
+		return this.row;
+	}
+
+	getColumn(): number {
+		return this.column;
+	}
+
+	getNumRows(): number {
+		return this.numRows;
+	}
+
+	getNumColumns(): number {
+		return this.numColumns;
+	}
+
+	getValues(): Cell[][] {
+		const values: Cell[][] = [];
+		for (let r = 0; r < this.numRows; r++) {
+			const source = this.sheet.data[this.row - 1 + r] || [];
+			const row: Cell[] = [];
+			for (let c = 0; c < this.numColumns; c++) {
+				const value = source[this.column - 1 + c];
+				row.push(value === undefined || value === null ? "" : value);
+			}
+			values.push(row);
+		}
+		return values;
+	}
+
+	getValue(): Cell {
+		return this.getValues()[0][0];
+	}
+
+	setValues(values: Cell[][]): FakeRange {
+		if (
+			values.length !== this.numRows ||
+			values.some((row) => row.length !== this.numColumns)
+		) {
+			throw new Error(
+				`データの行数または列数が範囲と一致しません: 範囲 ${this.numRows}x${this.numColumns}`,
+			);
+		}
+		values.forEach((row, r) => {
+			row.forEach((value, c) => {
+				this.sheet.setCell(this.row + r, this.column + c, value);
+			});
+		});
+		return this;
+	}
+
+	setValue(value: Cell): FakeRange {
+		this.sheet.setCell(this.row, this.column, value);
+		return this;
+	}
+
+	clearContent(): FakeRange {
+		for (let r = 0; r < this.numRows; r++) {
+			for (let c = 0; c < this.numColumns; c++) {
+				this.sheet.setCell(this.row + r, this.column + c, "");
+			}
+		}
+		return this;
+	}
+
+	sort(specs: SortSpec | SortSpec[]): FakeRange {
+		const normalized = (Array.isArray(specs) ? specs : [specs]).map((spec) =>
+			typeof spec === "number"
+				? { column: spec, ascending: true }
+				: { column: spec.column, ascending: spec.ascending !== false },
+		);
+		const rows = this.getValues();
+		rows.sort((a, b) => {
+			for (const { column, ascending } of normalized) {
+				const index = column - this.column;
+				const result = compareCells(a[index], b[index]);
+				if (result !== 0) return ascending ? result : -result;
+			}
+			return 0;
+		});
+		return this.setValues(rows);
+	}
+
+	// 書式系のメソッドはデータに影響しないため記録のみ行う
+	setFontWeight(_weight: string): FakeRange {
+		return this;
+	}
+
+	setNumberFormat(_format: string): FakeRange {
+		return this;
+	}
+
+	insertCheckboxes(): FakeRange {
+		return this;
+	}
+}
+
+export class FakeSheet {
+	data: Cell[][] = [];
+	frozenRows = 0;
+
+	constructor(
+		private name: string,
+		private readonly spreadsheet: FakeSpreadsheet,
+	) {}
+
+	getName(): string {
+		return this.name;
+	}
+
+	setName(name: string): FakeSheet {
+		this.name = name;
+		return this;
+	}
+
+	getParent(): FakeSpreadsheet {
+		return this.spreadsheet;
+	}
+
+	setCell(row: number, column: number, value: Cell): void {
+		while (this.data.length < row) this.data.push([]);
+		const target = this.data[row - 1];
+		while (target.length < column) target.push("");
+		target[column - 1] = value;
+	}
+
+	getLastRow(): number {
+		for (let r = this.data.length - 1; r >= 0; r--) {
+			if (this.data[r].some((cell) => cell !== "" && cell !== undefined)) {
+				return r + 1;
+			}
+		}
+		return 0;
+	}
+
+	getLastColumn(): number {
+		let last = 0;
+		for (const row of this.data) {
+			for (let c = row.length - 1; c >= last; c--) {
+				if (row[c] !== "" && row[c] !== undefined) {
+					last = c + 1;
+					break;
+				}
+			}
+		}
+		return last;
+	}
+
+	getMaxRows(): number {
+		return Math.max(this.data.length, 1000);
+	}
+
+	getMaxColumns(): number {
+		return Math.max(this.getLastColumn(), 26);
+	}
+
+	getRange(
+		row: number,
+		column: number,
+		numRows = 1,
+		numColumns = 1,
+	): FakeRange {
+		return new FakeRange(this, row, column, numRows, numColumns);
+	}
+
+	getDataRange(): FakeRange {
+		return new FakeRange(
+			this,
+			1,
+			1,
+			Math.max(this.getLastRow(), 1),
+			Math.max(this.getLastColumn(), 1),
+		);
+	}
+
+	appendRow(values: Cell[]): FakeSheet {
+		const row = this.getLastRow() + 1;
+		values.forEach((value, c) => this.setCell(row, c + 1, value));
+		return this;
+	}
+
+	deleteRow(row: number): FakeSheet {
+		if (row < 1 || row > this.data.length) {
+			throw new Error(`行 ${row} は範囲外です`);
+		}
+		this.data.splice(row - 1, 1);
+		return this;
+	}
+
+	deleteRows(row: number, howMany: number): FakeSheet {
+		this.data.splice(row - 1, howMany);
+		return this;
+	}
+
+	clearContents(): FakeSheet {
+		this.data = [];
+		return this;
+	}
+
+	clear(): FakeSheet {
+		return this.clearContents();
+	}
+
+	setFrozenRows(rows: number): void {
+		this.frozenRows = rows;
+	}
+
+	getFrozenRows(): number {
+		return this.frozenRows;
+	}
+
+	autoResizeColumns(_start: number, _count: number): FakeSheet {
+		return this;
+	}
+}
+
+export class FakeSpreadsheet {
+	readonly sheets: FakeSheet[] = [];
+
+	constructor(
+		private readonly id: string,
+		private readonly name: string,
+	) {}
+
+	getId(): string {
+		return this.id;
+	}
+
+	getName(): string {
+		return this.name;
+	}
+
+	getUrl(): string {
+		return `https://docs.google.com/spreadsheets/d/${this.id}/edit`;
+	}
+
+	getSheets(): FakeSheet[] {
+		return [...this.sheets];
+	}
+
+	getSheetByName(name: string): FakeSheet | null {
+		return this.sheets.find((sheet) => sheet.getName() === name) || null;
+	}
+
+	insertSheet(name: string): FakeSheet {
+		if (this.getSheetByName(name)) {
+			throw new Error(`シート「${name}」は既に存在します`);
+		}
+		const sheet = new FakeSheet(name, this);
+		this.sheets.push(sheet);
+		return sheet;
+	}
+
+	deleteSheet(sheet: FakeSheet): void {
+		const index = this.sheets.indexOf(sheet);
+		if (index !== -1) this.sheets.splice(index, 1);
+	}
+}
+
+export class FakeSpreadsheetApp {
+	readonly spreadsheets = new Map<string, FakeSpreadsheet>();
+	private createdCount = 0;
+
+	openById(id: string): FakeSpreadsheet {
+		const spreadsheet = this.spreadsheets.get(id);
+		if (!spreadsheet) {
+			throw new Error(`スプレッドシートが見つかりません: ${id}`);
+		}
+		return spreadsheet;
+	}
+
+	create(name: string): FakeSpreadsheet {
+		this.createdCount++;
+		const spreadsheet = new FakeSpreadsheet(
+			`created-${this.createdCount}`,
+			name,
+		);
+		this.spreadsheets.set(spreadsheet.getId(), spreadsheet);
+		return spreadsheet;
+	}
+
+	// テストから既存のスプレッドシートを登録する
+	add(id: string, name = "テスト用スプレッドシート"): FakeSpreadsheet {
+		const spreadsheet = new FakeSpreadsheet(id, name);
+		this.spreadsheets.set(id, spreadsheet);
+		return spreadsheet;
+	}
+}
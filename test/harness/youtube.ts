@@ -0,0 +1,145 @@
+// YouTube Data API (Search / Videos / Channels) の JSON フィクスチャ実装
+
+export interface YouTubeFixtures {
+	// 検索クエリ -> ページごとの動画ID
+	search: Record<string, string[][]>;
+	// 動画ID -> Videos.list が返すリソース
+	videos: Record<string, Record<string, unknown>>;
+	// チャンネルID -> Channels.list が返すリソース
+	channels: Record<string, Record<string, unknown>>;
+}
+
+export interface YouTubeCall {
+	endpoint: "search.list" | "videos.list" | "channels.list";
+	part: string;
+	params: Record<string, unknown>;
+}
+
+// Channels.list / Videos.list が1回で受け付けるIDの上限
+const MAX_IDS_PER_REQUEST = 50;
+
+interface PlannedFailure {
+	endpoint: YouTubeCall["endpoint"];
+	message: string;
+	remaining: number;
+	pageToken?: string;
+}
+
+export class FakeYouTube {
+	readonly calls: YouTubeCall[] = [];
+	private readonly failures: PlannedFailure[] = [];
+
+	constructor(private readonly fixtures: YouTubeFixtures) {}
+
+	readonly Search = {
+		list: (part: string, params: Record<string, unknown> = {}) => {
+			this.calls.push({ endpoint: "search.list", part, params });
+			this.throwPlannedFailure("search.list", params);
+			const publishedAfter = params.publishedAfter
+				? new Date(String(params.publishedAfter)).getTime()
+				: 0;
+			const publishedBefore = params.publishedBefore
+				? new Date(String(params.publishedBefore)).getTime()
+				: Number.POSITIVE_INFINITY;
+			// 実際のAPIと同様に、絞り込みで空になったページは返さない
+			const pages = (this.fixtures.search[String(params.q)] || [])
+				.map((ids) =>
+					ids.filter((id) => {
+						const snippet = this.fixtures.videos[id]?.snippet as
+							| { publishedAt?: string }
+							| undefined;
+						return (
+							!snippet?.publishedAt ||
+							(new Date(snippet.publishedAt).getTime() >= publishedAfter &&
+								new Date(snippet.publishedAt).getTime() <= publishedBefore)
+						);
+					}),
+				)
+				.filter((ids) => ids.length > 0);
+			const pageIndex = params.pageToken
+				? Number(String(params.pageToken).replace("page-", ""))
+				: 0;
+			const items = (pages[pageIndex] || []).map((id) => ({
+				id: { kind: "youtube#video", videoId: id },
+				snippet: this.fixtures.videos[id]?.snippet,
+			}));
+			return {
+				items,
+				nextPageToken:
+					pageIndex + 1 < pages.length ? `page-${pageIndex + 1}` : undefined,
+			};
+		},
+	};
+
+	readonly Videos = {
+		list: (part: string, params: Record<string, unknown> = {}) => {
+			this.calls.push({ endpoint: "videos.list", part, params });
+			this.throwPlannedFailure("videos.list", params);
+			const ids = this.splitIds(params.id);
+			return {
+				items: ids
+					.map((id) => this.fixtures.videos[id])
+					.filter((video) => video !== undefined),
+			};
+		},
+	};
+
+	readonly Channels = {
+		list: (part: string, params: Record<string, unknown> = {}) => {
+			this.calls.push({ endpoint: "channels.list", part, params });
+			this.throwPlannedFailure("channels.list", params);
+			const ids = this.splitIds(params.id);
+			return {
+				items: ids
+					.map((id) => this.fixtures.channels[id])
+					.filter((channel) => channel !== undefined),
+			};
+		},
+	};
+
+	// 実際のAPIと同様に、上限を超えたIDは結果に含めない
+	private splitIds(value: unknown): string[] {
+		return String(value ?? "")
+			.split(",")
+			.filter((id) => id.length > 0)
+			.slice(0, MAX_IDS_PER_REQUEST);
+	}
+
+	// 次の呼び出しから times 回、Apps Script と同じ形式のエラーを投げる
+	// pageToken を指定すると、そのページの検索だけを失敗させる
+	fail(
+		endpoint: YouTubeCall["endpoint"],
+		message: string,
+		options: { times?: number; pageToken?: string } = {},
+	): void {
+		this.failures.push({
+			endpoint,
+			message,
+			remaining: options.times ?? 1,
+			pageToken: options.pageToken,
+		});
+	}
+
+	private throwPlannedFailure(
+		endpoint: YouTubeCall["endpoint"],
+		params: Record<string, unknown>,
+	): void {
+		const failure = this.failures.find(
+			(candidate) =>
+				candidate.endpoint === endpoint &&
+				candidate.remaining > 0 &&
+				(candidate.pageToken === undefined ||
+					candidate.pageToken === params.pageToken),
+		);
+		if (failure) {
+			failure.remaining--;
+			throw new Error(
+				`API call to youtube.${endpoint} failed with error: ${failure.message}`,
+			);
+		}
+	}
+
+	callsTo(endpoint: YouTubeCall["endpoint"]): YouTubeCall[] {
+		return this.calls.filter((call) => call.endpoint === endpoint);
+	}
+}
@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+	extractHashtags,
+	getHashtagMatchType,
+	normalizeHashtag,
+} from "../src/hashtags";
+
+describe("extractHashtags", () => {
+	it("全角の＃を含むハッシュタグを出現順に重複なく抽出する", () => {
+		assert.deepEqual(
+			extractHashtags(
+				"演説 #安野たかひろ ＃チームみらい\n#安野たかひろ #shorts",
+			),
+			["#安野たかひろ", "#チームみらい", "#shorts"],
+		);
+	});
+
+	it("URL のフラグメントや単語の途中の # は抽出しない", () => {
+		assert.deepEqual(
+			extractHashtags("https://example.com/page#section C#言語"),
+			[],
+		);
+	});
+});
+
+describe("normalizeHashtag", () => {
+	it("全角英数字・半角カナ・大文字小文字・先頭の # の違いをそろえる", () => {
+		assert.equal(normalizeHashtag("＃ＡＩ政策"), "ai政策");
+		assert.equal(normalizeHashtag("#ﾁｰﾑみらい"), "チームみらい");
+		assert.equal(normalizeHashtag("チームみらい"), "チームみらい");
+	});
+});
+
+describe("getHashtagMatchType", () => {
+	it("タイトル・説明文のハッシュタグ、タグ、キーワードのみの順に判定する", () => {
+		const source = (title: string, description = "", tags: string[] = []) => ({
+			title,
+			description,
+			tags,
+		});
+
+		assert.equal(
+			getHashtagMatchType(source("演説 ＃安野たかひろ"), "#安野たかひろ"),
+			"ハッシュタグ",
+		);
+		assert.equal(
+			getHashtagMatchType(source("AI", "#ｃｈａｔＧＰＴ"), "#ChatGPT"),
+			"ハッシュタグ",
+		);
+		assert.equal(
+			getHashtagMatchType(
+				source("政策発表", "", ["政策", "#チームみらい"]),
+				"#チームみらい",
+			),
+			"タグ",
+		);
+		assert.equal(
+			getHashtagMatchType(
+				source("チームみらいの政策", "チームみらいについて"),
+				"#チームみらい",
+			),
+			"キーワードのみ",
+		);
+		// 別のハッシュタグの一部に含まれるだけの場合は一致としない
+		assert.equal(
+			getHashtagMatchType(source("#チームみらい応援"), "#チームみらい"),
+			"キーワードのみ",
+		);
+	});
+});
@@ -0,0 +1,429 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import { resetChannelCache } from "../src/channels";
+import {
+	buildVideoRows,
+	removeDailyDuplicates,
+	removeDuplicateVideos,
+	searchVideoPage,
+	updateDailyStats,
+	updateSubscriberHistory,
+} from "../src/index";
+import {
+	type VideoRecord,
+	getSchemaHeaders,
+	getVideoSheetSchema,
+	toSheetRow,
+} from "../src/schema";
+import {
+	type FakeEnvironment,
+	type FakeSheet,
+	installFakes,
+	loadFixtures,
+	seedConfigSheet,
+} from "./harness";
+
+const MAIN_HEADERS = getSchemaHeaders(getVideoSheetSchema());
+
+function asSheet(sheet: FakeSheet): GoogleAppsScript.Spreadsheet.Sheet {
+	return sheet as unknown as GoogleAppsScript.Spreadsheet.Sheet;
+}
+
+// メインシートの1行を作る（指定しない列は空欄）
+function mainRow(values: {
+	fetchedAt: Date;
+	hashtag?: string;
+	videoId: string;
+	channel?: string;
+	subscribers?: number;
+	views?: number;
+}): unknown[] {
+	return toSheetRow(getVideoSheetSchema(), {
+		fetchedAt: values.fetchedAt,
+		hashtag: values.hashtag || "#安野たかひろ",
+		videoId: values.videoId,
+		category: "通常",
+		title: `タイトル ${values.videoId}`,
+		url: `https://www.youtube.com/watch?v=${values.videoId}`,
+		channelName: values.channel || "チャンネル1",
+		subscriberCount: values.subscribers ?? 0,
+		publishedAt: new Date("2025-06-01T00:00:00Z"),
+		viewCount: values.views ?? 0,
+		likeCount: 0,
+		commentCount: 0,
+		statsUpdatedAt: values.fetchedAt,
+		status: "公開中",
+	} as VideoRecord);
+}
+
+describe("searchVideoPage と buildVideoRows", () => {
+	let env: FakeEnvironment;
+
+	beforeEach(() => {
+		resetChannelCache();
+		env = installFakes({ fixtures: loadFixtures("youtube") });
+	});
+
+	it("検索結果の動画IDを動画詳細とチャンネル情報で整形する", () => {
+		const { rows, errors } = buildVideoRows(
+			["video-a1", "video-a2", "video-shared"],
+			"#安野たかひろ",
+			new Date(),
+		);
+
+		assert.deepEqual(errors, []);
+		assert.deepEqual(
+			rows.map((row) => row.videoId),
+			["video-a1", "video-a2", "video-shared"],
+		);
+
+		const short = rows.find((row) => row.videoId === "video-a2");
+		assert.ok(short);
+		assert.equal(short.hashtag, "#安野たかひろ");
+		assert.equal(short.category, "ショート");
+		assert.equal(short.url, "https://www.youtube.com/watch?v=video-a2");
+		assert.equal(short.channelName, "チャンネル2");
+		assert.equal(short.subscriberCount, 3200);
+		assert.equal(short.viewCount, 5400);
+		assert.equal(short.classificationReason, "#shorts・短尺");
+		assert.equal(short.durationSeconds, 30);
+		assert.equal(short.channelId, "channel-2");
+		assert.equal(short.tags, "政策, 安野たかひろ");
+		assert.equal(
+			short.thumbnailUrl,
+			"https://i.ytimg.com/vi/video-a2/hqdefault.jpg",
+		);
+		assert.equal(short.defaultLanguage, "ja");
+		assert.equal(short.liveBroadcast, "なし");
+		assert.equal(short.descriptionHashtags, "#安野たかひろ #shorts");
+		assert.equal(short.matchType, "ハッシュタグ");
+	});
+
+	it("ハッシュタグとの一致の種類を記録し、設定に応じてキーワードのみの動画を除く", () => {
+		// 検索語として一致しただけの動画（ハッシュタグもタグもない）
+		const fixtures = loadFixtures("youtube");
+		const snippet = fixtures.videos["video-m1"].snippet as Record<
+			string,
+			unknown
+		>;
+		snippet.description = "チームみらいの政策発表会です。";
+		env = installFakes({ fixtures });
+		const videoIds = ["video-shared", "video-m1"];
+
+		const all = buildVideoRows(videoIds, "#チームみらい", new Date());
+		assert.deepEqual(
+			all.rows.map((row) => [row.videoId, row.matchType]),
+			[
+				["video-shared", "ハッシュタグ"],
+				["video-m1", "キーワードのみ"],
+			],
+		);
+
+		env.propertiesService.scriptProperties.setProperty(
+			"KEYWORD_ONLY_MATCHES",
+			"記録しない",
+		);
+		const verified = buildVideoRows(videoIds, "#チームみらい", new Date());
+		assert.deepEqual(
+			verified.rows.map((row) => row.videoId),
+			["video-shared"],
+		);
+		assert.ok(
+			env.logger.includes(
+				"ハッシュタグ「#チームみらい」が付いていない動画 1件を記録しませんでした。",
+			),
+		);
+	});
+
+	it("追加・除外キーワードを検索クエリに含める", () => {
+		searchVideoPage(
+			{
+				hashtag: "#チームみらい",
+				enabled: true,
+				lookbackDays: 30,
+				extraKeywords: ["政策"],
+				excludeKeywords: ["切り抜き"],
+				owner: "",
+				rowNumber: 2,
+			},
+			"2000-01-01T00:00:00.000Z",
+			undefined,
+			1,
+		);
+
+		assert.equal(
+			env.youtube.callsTo("search.list")[0].params.q,
+			"#チームみらい 政策 -切り抜き",
+		);
+	});
+});
+
+describe("removeDuplicateVideos", () => {
+	it("動画IDごとに最新の取得日時の行だけを残す", () => {
+		const env = installFakes();
+		const sheet = env.spreadsheet.insertSheet("YouTubeハッシュタグ分析");
+		sheet.appendRow(MAIN_HEADERS);
+		sheet.appendRow(
+			mainRow({ fetchedAt: new Date("2025-06-01"), videoId: "v1", views: 10 }),
+		);
+		sheet.appendRow(
+			mainRow({ fetchedAt: new Date("2025-06-03"), videoId: "v1", views: 30 }),
+		);
+		sheet.appendRow(
+			mainRow({ fetchedAt: new Date("2025-06-02"), videoId: "v2", views: 5 }),
+		);
+
+		removeDuplicateVideos(asSheet(sheet));
+
+		const data = sheet.getDataRange().getValues();
+		assert.deepEqual(data[0], MAIN_HEADERS);
+		assert.equal(data.length, 3);
+		assert.deepEqual(
+			data.slice(1).map((row) => [row[2], row[10]]),
+			[
+				["v1", 30],
+				["v2", 5],
+			],
+		);
+		assert.ok(env.logger.includes("重複する動画を 1 件削除しました。"));
+	});
+});
+
+describe("removeDailyDuplicates", () => {
+	it("当日のデータ内で重複する動画IDを1行にまとめる", () => {
+		const env = installFakes();
+		const sheet = asSheet(
+			env.spreadsheet.insertSheet("YouTubeハッシュタグ分析_積み上げ"),
+		);
+		const now = Date.now();
+		sheet.appendRow(MAIN_HEADERS);
+		sheet.setFrozenRows(1);
+		sheet.appendRow(
+			mainRow({ fetchedAt: new Date(now - 2000), videoId: "v1" }),
+		);
+		sheet.appendRow(
+			mainRow({ fetchedAt: new Date(now - 1000), videoId: "v2" }),
+		);
+		sheet.appendRow(mainRow({ fetchedAt: new Date(now), videoId: "v1" }));
+
+		removeDailyDuplicates(sheet);
+
+		const ids = sheet
+			.getDataRange()
+			.getValues()
+			.slice(1)
+			.map((row) => row[2]);
+		assert.deepEqual(ids.sort(), ["v1", "v2"]);
+	});
+
+	it("前日以前の行が混在していても当日の重複だけを行ごとに削除せずにまとめる", () => {
+		const env = installFakes();
+		const sheet = env.spreadsheet.insertSheet(
+			"YouTubeハッシュタグ分析_積み上げ",
+		);
+		const now = Date.now();
+		const yesterday = new Date(now - 24 * 60 * 60 * 1000);
+		yesterday.setHours(12, 0, 0, 0);
+		sheet.appendRow(MAIN_HEADERS);
+		sheet.setFrozenRows(1);
+		// 前日以前の行は同じ動画IDでも残す
+		sheet.appendRow(mainRow({ fetchedAt: yesterday, videoId: "v1", views: 1 }));
+		sheet.appendRow(mainRow({ fetchedAt: yesterday, videoId: "v1", views: 2 }));
+		sheet.appendRow(
+			mainRow({ fetchedAt: new Date(now - 3000), videoId: "v1", views: 10 }),
+		);
+		sheet.appendRow(
+			mainRow({ fetchedAt: new Date(now - 500), videoId: "v2", views: 20 }),
+		);
+		// 当日の行の間に追加された前日の行（v2 は取得日時が新しい前の行を残す）
+		sheet.appendRow(mainRow({ fetchedAt: yesterday, videoId: "v9", views: 9 }));
+		sheet.appendRow(
+			mainRow({ fetchedAt: new Date(now - 1000), videoId: "v1", views: 11 }),
+		);
+		sheet.appendRow(
+			mainRow({ fetchedAt: new Date(now - 2000), videoId: "v2", views: 19 }),
+		);
+		sheet.appendRow(
+			mainRow({ fetchedAt: new Date(now), videoId: "v3", views: 30 }),
+		);
+		sheet.deleteRow = () => {
+			throw new Error("deleteRow は呼び出さない");
+		};
+
+		removeDailyDuplicates(asSheet(sheet));
+
+		const data = sheet.getDataRange().getValues();
+		assert.deepEqual(data[0], MAIN_HEADERS);
+		assert.deepEqual(
+			data.slice(1).map((row) => [row[2], row[10]]),
+			[
+				["v1", 1],
+				["v1", 2],
+				["v2", 20],
+				["v9", 9],
+				["v1", 11],
+				["v3", 30],
+			],
+		);
+		assert.ok(env.logger.includes("2 件の重複動画を削除しました。"));
+	});
+});
+
+describe("updateDailyStats", () => {
+	it("積み上げシートの当日分から API を呼び出さずに統計を書き込み、再実行しても重複しない", async () => {
+		const env = installFakes({ fixtures: loadFixtures("youtube") });
+		seedConfigSheet(env, ["#安野たかひろ", "#チームみらい"]);
+		const stack = env.spreadsheet.insertSheet(
+			"YouTubeハッシュタグ分析_積み上げ",
+		);
+		stack.appendRow(MAIN_HEADERS);
+		const now = new Date();
+		stack.appendRow(mainRow({ fetchedAt: now, videoId: "v1", views: 10 }));
+		stack.appendRow(
+			mainRow({
+				fetchedAt: now,
+				hashtag: "#チームみらい",
+				videoId: "v2",
+				channel: "チャンネル2",
+				views: 20,
+			}),
+		);
+
+		await updateDailyStats();
+		await updateDailyStats();
+
+		assert.deepEqual(env.youtube.calls, []);
+		const stats = env.spreadsheet.getSheetByName("日次統計");
+		assert.ok(stats);
+		const [headers, ...rows] = stats.getDataRange().getValues();
+		assert.deepEqual(headers, [
+			"日付",
+			"ハッシュタグ",
+			"動画タイプ",
+			"動画数",
+			"チャンネル数",
+			"総再生回数",
+			"新規動画数",
+			"再生回数の前日比",
+			"いいね数の前日比",
+			"コメント数の前日比",
+			"エンゲージメント率",
+			"再生回数の中央値",
+			"新規チャンネル数",
+		]);
+		assert.deepEqual(
+			rows.map((row) => row.slice(1, 6)),
+			[
+				["#チームみらい", "ショート", 0, 0, 0],
+				["#チームみらい", "通常", 1, 1, 20],
+				["#安野たかひろ", "ショート", 0, 0, 0],
+				["#安野たかひろ", "通常", 1, 1, 10],
+			],
+		);
+	});
+});
+
+describe("updateSubscriberHistory", () => {
+	let env: FakeEnvironment;
+
+	beforeEach(() => {
+		resetChannelCache();
+		env = installFakes({ fixtures: loadFixtures("youtube") });
+		const main = env.spreadsheet.insertSheet("YouTubeハッシュタグ分析");
+		main.appendRow(MAIN_HEADERS);
+		main.appendRow(
+			mainRow({
+				fetchedAt: new Date("2025-06-05"),
+				videoId: "video-a1",
+				channel: "同じ名前",
+				views: 10,
+			}),
+		);
+		// 2つのハッシュタグで見つかった動画は最新の行だけを数える
+		main.appendRow(
+			mainRow({
+				fetchedAt: new Date("2025-06-05"),
+				videoId: "video-shared",
+				channel: "同じ名前",
+				views: 5,
+			}),
+		);
+		main.appendRow(
+			mainRow({
+				fetchedAt: new Date("2025-06-06"),
+				hashtag: "#チームみらい",
+				videoId: "video-shared",
+				channel: "同じ名前",
+				views: 7,
+			}),
+		);
+		main.appendRow(
+			mainRow({
+				fetchedAt: new Date("2025-06-05"),
+				videoId: "video-a2",
+				channel: "同じ名前",
+				views: 20,
+			}),
+		);
+	});
+
+	it("チャンネルIDごとに Channels.list の統計と重複のない追跡動画の視聴回数を記録する", () => {
+		updateSubscriberHistory();
+
+		const history = env.spreadsheet.getSheetByName("チャンネル登録者数履歴");
+		assert.ok(history);
+		const [headers, ...rows] = history.getDataRange().getValues();
+		assert.deepEqual(headers, [
+			"日付",
+			"チャンネルID",
+			"チャンネルタイトル",
+			"以前のタイトル",
+			"チャンネル登録者数",
+			"登録者数非公開",
+			"チャンネル総視聴回数",
+			"動画数",
+			"追跡動画の視聴回数",
+		]);
+		assert.deepEqual(
+			rows.map((row) => row.slice(1)),
+			[
+				["channel-1", "チャンネル1", "", 15000, false, 900000, 120, 17],
+				["channel-2", "チャンネル2", "", 3200, false, 150000, 45, 20],
+			],
+		);
+	});
+
+	it("チャンネル名の変更を記録し、旧形式のシートは名前を変えて残す", () => {
+		const legacy = env.spreadsheet.insertSheet("チャンネル登録者数履歴");
+		legacy.appendRow([
+			"日付",
+			"チャンネルタイトル",
+			"チャンネル登録者数",
+			"視聴回数",
+		]);
+		legacy.appendRow([new Date("2025-06-01"), "同じ名前", 100, 30]);
+
+		updateSubscriberHistory();
+		const history = env.spreadsheet.getSheetByName("チャンネル登録者数履歴");
+		assert.ok(history);
+		history.getRange(2, 3).setValue("旧チャンネル名");
+		resetChannelCache();
+		updateSubscriberHistory();
+
+		assert.equal(
+			env.spreadsheet
+				.getSheetByName("チャンネル登録者数履歴_旧形式")
+				?.getLastRow(),
+			2,
+		);
+		const latest = history
+			.getDataRange()
+			.getValues()
+			.slice(1)
+			.filter((row) => row[1] === "channel-1" && row[3]);
+		assert.deepEqual(
+			latest.map((row) => [row[2], row[3]]),
+			[["チャンネル1", "旧チャンネル名"]],
+		);
+	});
+});
@@ -0,0 +1,297 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import { resetChannelCache } from "../src/channels";
+import "../src/index";
+import { getPendingJobNames, loadJobCheckpoint } from "../src/jobs";
+import {
+	type VideoRecord,
+	appendSheetRecords,
+	ensureSheetSchema,
+	getVideoSheetSchema,
+	readSheetRecords,
+} from "../src/schema";
+import {
+	type FakeEnvironment,
+	type YouTubeFixtures,
+	installFakes,
+	loadFixtures,
+	seedConfigSheet,
+} from "./harness";
+
+interface JobEntryPoints {
+	main: () => Promise<void>;
+	dailyUpdate: () => Promise<void>;
+	resumeJobs: () => Promise<void>;
+	refreshVideoStats: () => void;
+}
+
+const entryPoints = globalThis as unknown as JobEntryPoints;
+
+// ジョブ状況シートの行を「実行ID -> 状態」で返す
+function jobStatuses(env: FakeEnvironment): Map<string, string> {
+	const sheet = env.spreadsheet.getSheetByName("ジョブ状況");
+	assert.ok(sheet);
+	return new Map(
+		sheet
+			.getDataRange()
+			.getValues()
+			.slice(1)
+			.map((row) => [String(row[0]), String(row[2])]),
+	);
+}
+
+describe("中断と再開", () => {
+	let env: FakeEnvironment;
+
+	beforeEach(() => {
+		resetChannelCache();
+		env = installFakes({
+			fixtures: loadFixtures("youtube"),
+			// 1回の実行で1ステップだけ処理させる
+			properties: { JOB_TIME_BUDGET_SECONDS: "0" },
+		});
+		seedConfigSheet(env, ["#安野たかひろ", "#チームみらい"]);
+	});
+
+	it("時間の上限で中断し、トリガーから続きを処理して完了する", async () => {
+		await entryPoints.main();
+
+		const checkpoint = loadJobCheckpoint("main");
+		assert.ok(checkpoint);
+		assert.equal(env.scriptApp.triggersFor("resumeJobs").length, 1);
+		assert.equal(jobStatuses(env).get(checkpoint.runId), "実行中");
+
+		for (let i = 0; i < 30 && getPendingJobNames().length > 0; i++) {
+			await entryPoints.resumeJobs();
+		}
+
+		assert.deepEqual(getPendingJobNames(), []);
+		assert.equal(env.scriptApp.triggersFor("resumeJobs").length, 0);
+		assert.equal(jobStatuses(env).get(checkpoint.runId), "完了");
+		const sheet = env.spreadsheet.getSheetByName("YouTubeハッシュタグ分析");
+		const ids = sheet
+			?.getDataRange()
+			.getValues()
+			.slice(1)
+			.map((row) => row[2]);
+		assert.deepEqual(ids?.sort(), [
+			"video-a1",
+			"video-a2",
+			"video-m1",
+			"video-shared",
+		]);
+		// 同じページを検索し直していない
+		assert.equal(env.youtube.callsTo("search.list").length, 3);
+	});
+
+	it("別の実行がロックを持っている場合はチェックポイントを処理せず、続きを予約し直す", async () => {
+		await entryPoints.main();
+		const checkpoint = loadJobCheckpoint("main");
+		assert.ok(checkpoint);
+		assert.equal(env.lockService.scriptLock.locked, false);
+		const searchCalls = env.youtube.callsTo("search.list").length;
+
+		env.lockService.scriptLock.heldElsewhere = true;
+		await entryPoints.resumeJobs();
+
+		assert.deepEqual(loadJobCheckpoint("main"), checkpoint);
+		assert.equal(env.youtube.callsTo("search.list").length, searchCalls);
+		assert.equal(env.scriptApp.triggersFor("resumeJobs").length, 1);
+		assert.ok(env.logger.includes("別の実行がジョブを処理中のため main"));
+
+		env.lockService.scriptLock.heldElsewhere = false;
+		await entryPoints.resumeJobs();
+		assert.equal(loadJobCheckpoint("main")?.resumeCount, 1);
+	});
+
+	it("ロックを取得できなかった新しい実行は resumeJobs で開始して完了する", async () => {
+		env.lockService.scriptLock.heldElsewhere = true;
+		await entryPoints.main();
+
+		const queued = loadJobCheckpoint("main");
+		assert.ok(queued?.queued);
+		assert.equal(env.youtube.callsTo("search.list").length, 0);
+		assert.equal(env.scriptApp.triggersFor("resumeJobs").length, 1);
+
+		env.lockService.scriptLock.heldElsewhere = false;
+		for (let i = 0; i < 30 && getPendingJobNames().length > 0; i++) {
+			await entryPoints.resumeJobs();
+		}
+
+		assert.deepEqual(getPendingJobNames(), []);
+		assert.deepEqual([...jobStatuses(env).values()], ["完了"]);
+		const sheet = env.spreadsheet.getSheetByName("YouTubeハッシュタグ分析");
+		assert.equal(sheet?.getLastRow(), 5);
+	});
+
+	it("ハッシュタグごとのクォータ予算は中断をまたいでジョブ全体で数える", async () => {
+		env.propertiesService.scriptProperties.setProperty(
+			"QUOTA_HASHTAG_BUDGET",
+			"150",
+		);
+
+		await entryPoints.main();
+		for (let i = 0; i < 30 && getPendingJobNames().length > 0; i++) {
+			await entryPoints.resumeJobs();
+		}
+
+		assert.deepEqual(getPendingJobNames(), []);
+		// #安野たかひろ の2ページ目は、前の実行までの消費と合わせると予算を超える
+		assert.deepEqual(
+			env.youtube.callsTo("search.list").map((call) => call.params.q),
+			["#安野たかひろ", "#チームみらい"],
+		);
+	});
+
+	it("main と dailyUpdate のチェックポイントは独立している", async () => {
+		await entryPoints.main();
+		await entryPoints.dailyUpdate();
+
+		assert.deepEqual(getPendingJobNames().sort(), ["dailyUpdate", "main"]);
+		assert.equal(env.scriptApp.triggersFor("resumeJobs").length, 1);
+	});
+});
+
+describe("仕上げ処理の中断と再開", () => {
+	it("統計の更新を時間の上限で打ち切り、残りの動画だけを次の実行で更新する", async () => {
+		resetChannelCache();
+		const fixtures: YouTubeFixtures = { search: {}, videos: {}, channels: {} };
+		const records: VideoRecord[] = [];
+		const old = new Date("2025-06-01T00:00:00Z");
+		for (let i = 0; i < 60; i++) {
+			fixtures.videos[`video-${i}`] = {
+				id: `video-${i}`,
+				statistics: { viewCount: "10", likeCount: "2", commentCount: "1" },
+			};
+			records.push({
+				fetchedAt: old,
+				hashtag: "#安野たかひろ",
+				videoId: `video-${i}`,
+				statsUpdatedAt: old,
+				viewCount: 0,
+			} as VideoRecord);
+		}
+		const env = installFakes({
+			fixtures,
+			properties: { JOB_TIME_BUDGET_SECONDS: "0" },
+		});
+		seedConfigSheet(env, ["#安野たかひろ"]);
+		const sheet = env.spreadsheet.insertSheet(
+			"YouTubeハッシュタグ分析",
+		) as unknown as GoogleAppsScript.Spreadsheet.Sheet;
+		ensureSheetSchema(sheet, getVideoSheetSchema());
+		appendSheetRecords(sheet, getVideoSheetSchema(), records);
+		// 検索と重複の削除を終え、統計の更新を待っているチェックポイント
+		const startedAt = new Date(Date.now() - 60 * 1000).toISOString();
+		env.propertiesService.scriptProperties.setProperty(
+			"JOB_CHECKPOINT_main",
+			JSON.stringify({
+				runId: "main-finishing",
+				jobName: "main",
+				startedAt,
+				updatedAt: startedAt,
+				resumeCount: 0,
+				state: {
+					hashtags: ["#安野たかひろ"],
+					addedRows: 0,
+					finishStep: 1,
+					quotaSpend: { spent: 0, byHashtag: {}, byEndpoint: {} },
+					hashtagIndex: 1,
+				},
+			}),
+		);
+
+		await entryPoints.resumeJobs();
+
+		assert.equal(
+			loadJobCheckpoint<{ finishStep: number }>("main")?.state.finishStep,
+			1,
+		);
+		assert.equal(env.scriptApp.triggersFor("resumeJobs").length, 1);
+		assert.equal(
+			readSheetRecords(sheet, getVideoSheetSchema()).filter(
+				(record) => record.viewCount === 10,
+			).length,
+			50,
+		);
+
+		for (let i = 0; i < 5 && getPendingJobNames().length > 0; i++) {
+			await entryPoints.resumeJobs();
+		}
+
+		assert.deepEqual(getPendingJobNames(), []);
+		assert.equal(jobStatuses(env).get("main-finishing"), "完了");
+		const calls = env.youtube.callsTo("videos.list");
+		assert.equal(calls.length, 2);
+		assert.equal(String(calls[1].params.id).split(",").length, 10);
+		assert.ok(
+			readSheetRecords(sheet, getVideoSheetSchema()).every(
+				(record) => record.viewCount === 10,
+			),
+		);
+	});
+});
+
+describe("シートを書き換える定期実行のロック", () => {
+	it("別の実行がロックを持っている場合は統計の更新を見送る", () => {
+		resetChannelCache();
+		const env = installFakes({ fixtures: loadFixtures("youtube") });
+		const sheet = env.spreadsheet.insertSheet(
+			"YouTubeハッシュタグ分析",
+		) as unknown as GoogleAppsScript.Spreadsheet.Sheet;
+		ensureSheetSchema(sheet, getVideoSheetSchema());
+		appendSheetRecords(sheet, getVideoSheetSchema(), [
+			{
+				fetchedAt: new Date("2025-06-01T00:00:00Z"),
+				hashtag: "#安野たかひろ",
+				videoId: "video-a1",
+				publishedAt: new Date("2025-06-01T00:00:00Z"),
+			} as VideoRecord,
+		]);
+
+		env.lockService.scriptLock.heldElsewhere = true;
+		entryPoints.refreshVideoStats();
+		assert.equal(env.youtube.callsTo("videos.list").length, 0);
+		assert.ok(
+			env.logger.includes("別の実行がジョブを処理中のため refreshVideoStats"),
+		);
+
+		env.lockService.scriptLock.heldElsewhere = false;
+		entryPoints.refreshVideoStats();
+		assert.equal(env.youtube.callsTo("videos.list").length, 1);
+		assert.equal(env.lockService.scriptLock.locked, false);
+	});
+});
+
+describe("放棄", () => {
+	it("更新が止まったチェックポイントは放棄して新しく開始する", async () => {
+		resetChannelCache();
+		const env = installFakes({ fixtures: loadFixtures("youtube") });
+		seedConfigSheet(env, ["#安野たかひろ"]);
+		const staleAt = new Date(Date.now() - 7 * 60 * 60 * 1000).toISOString();
+		env.propertiesService.scriptProperties.setProperty(
+			"JOB_CHECKPOINT_main",
+			JSON.stringify({
+				runId: "main-stale",
+				jobName: "main",
+				startedAt: staleAt,
+				updatedAt: staleAt,
+				resumeCount: 0,
+				state: {},
+			}),
+		);
+
+		await entryPoints.main();
+
+		const statuses = jobStatuses(env);
+		assert.equal(statuses.get("main-stale"), "放棄");
+		const others = [...statuses.entries()].filter(
+			([runId]) => runId !== "main-stale",
+		);
+		assert.deepEqual(
+			others.map(([, status]) => status),
+			["完了"],
+		);
+		assert.deepEqual(getPendingJobNames(), []);
+	});
+});
@@ -0,0 +1,196 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { removeDuplicateVideos } from "../src/index";
+import {
+	flushVideoHashtags,
+	loadVideoHashtags,
+	queueVideoHashtags,
+	recordVideoHashtags,
+	summarizeHashtagStats,
+} from "../src/links";
+import {
+	ensureSheetSchema,
+	getVideoHashtagSchema,
+	getVideoSheetSchema,
+	readSheetRecords,
+	toSheetRow,
+} from "../src/schema";
+import { type FakeSheet, installFakes, videoRecord } from "./harness";
+
+function asSheet(sheet: FakeSheet): GoogleAppsScript.Spreadsheet.Sheet {
+	return sheet as unknown as GoogleAppsScript.Spreadsheet.Sheet;
+}
+
+function asSpreadsheet(
+	spreadsheet: unknown,
+): GoogleAppsScript.Spreadsheet.Spreadsheet {
+	return spreadsheet as GoogleAppsScript.Spreadsheet.Spreadsheet;
+}
+
+describe("recordVideoHashtags", () => {
+	it("新しい組を追加し、既存の組は初回検出日時を残して最終検出日時を更新する", () => {
+		const env = installFakes();
+		const spreadsheet = asSpreadsheet(env.spreadsheet);
+		const first = new Date("2025-06-01T00:00:00Z");
+		const second = new Date("2025-06-02T00:00:00Z");
+
+		assert.equal(
+			recordVideoHashtags(spreadsheet, [
+				{ videoId: "v1", hashtag: "#安野たかひろ", seenAt: first },
+			]),
+			1,
+		);
+		assert.equal(
+			recordVideoHashtags(spreadsheet, [
+				{ videoId: "v1", hashtag: "#安野たかひろ", seenAt: second },
+				{ videoId: "v1", hashtag: "#チームみらい", seenAt: second },
+			]),
+			1,
+		);
+
+		const sheet = env.spreadsheet.getSheetByName("動画ハッシュタグ");
+		assert.ok(sheet);
+		assert.deepEqual(
+			readSheetRecords(asSheet(sheet), getVideoHashtagSchema()),
+			[
+				{
+					videoId: "v1",
+					hashtag: "#安野たかひろ",
+					firstSeenAt: first,
+					lastSeenAt: second,
+				},
+				{
+					videoId: "v1",
+					hashtag: "#チームみらい",
+					firstSeenAt: second,
+					lastSeenAt: second,
+				},
+			],
+		);
+	});
+});
+
+describe("queueVideoHashtags", () => {
+	it("溜めた対応は flushVideoHashtags でまとめて1回だけ書き込む", () => {
+		const env = installFakes();
+		const spreadsheet = asSpreadsheet(env.spreadsheet);
+		const first = new Date("2025-06-01T00:00:00Z");
+		const second = new Date("2025-06-02T00:00:00Z");
+
+		queueVideoHashtags([
+			{ videoId: "v1", hashtag: "#安野たかひろ", seenAt: first },
+		]);
+		queueVideoHashtags([
+			{ videoId: "v1", hashtag: "#安野たかひろ", seenAt: second },
+			{ videoId: "v2", hashtag: "#安野たかひろ", seenAt: second },
+		]);
+		assert.equal(env.spreadsheet.getSheetByName("動画ハッシュタグ"), null);
+
+		assert.equal(flushVideoHashtags(spreadsheet), 2);
+		assert.equal(flushVideoHashtags(spreadsheet), 0);
+		const sheet = env.spreadsheet.getSheetByName("動画ハッシュタグ");
+		assert.ok(sheet);
+		assert.deepEqual(
+			readSheetRecords(asSheet(sheet), getVideoHashtagSchema()).map(
+				(record) => [record.videoId, record.firstSeenAt, record.lastSeenAt],
+			),
+			[
+				["v1", first, second],
+				["v2", second, second],
+			],
+		);
+	});
+});
+
+describe("removeDuplicateVideos と動画ハッシュタグ", () => {
+	it("重複を削除しても、複数のハッシュタグで見つかったことは残る", () => {
+		const env = installFakes();
+		const schema = getVideoSheetSchema();
+		const sheet = asSheet(
+			env.spreadsheet.insertSheet("YouTubeハッシュタグ分析"),
+		);
+		ensureSheetSchema(sheet, schema);
+		sheet.appendRow(
+			toSheetRow(
+				schema,
+				videoRecord({
+					fetchedAt: new Date("2025-06-01"),
+					hashtag: "#安野たかひろ",
+					videoId: "v1",
+				}),
+			),
+		);
+		sheet.appendRow(
+			toSheetRow(
+				schema,
+				videoRecord({
+					fetchedAt: new Date("2025-06-02"),
+					hashtag: "#チームみらい",
+					videoId: "v1",
+				}),
+			),
+		);
+
+		removeDuplicateVideos(sheet);
+
+		assert.equal(readSheetRecords(sheet, schema).length, 1);
+		assert.deepEqual(
+			loadVideoHashtags(asSpreadsheet(env.spreadsheet)).get("v1"),
+			["#安野たかひろ", "#チームみらい"],
+		);
+	});
+});
+
+describe("summarizeHashtagStats", () => {
+	it("ハッシュタグ別には両方に数え、全体では1回だけ数える", () => {
+		const fetchedAt = new Date("2025-06-02");
+		const videos = [
+			videoRecord({
+				fetchedAt,
+				hashtag: "#チームみらい",
+				videoId: "shared",
+				views: 100,
+			}),
+			videoRecord({
+				fetchedAt,
+				hashtag: "#安野たかひろ",
+				videoId: "a1",
+				channelId: "channel-2",
+				views: 10,
+			}),
+			videoRecord({
+				fetchedAt,
+				hashtag: "#安野たかひろ",
+				videoId: "a2",
+				category: "ショート",
+				views: 5,
+			}),
+		];
+		const videoHashtags = new Map([
+			["shared", ["#安野たかひろ", "#チームみらい"]],
+		]);
+
+		const stats = summarizeHashtagStats(videos, videoHashtags, [
+			"#安野たかひろ",
+			"#チームみらい",
+		]);
+
+		assert.deepEqual(
+			stats.map((row) => [
+				row.hashtag,
+				row.videoType,
+				row.videoCount,
+				row.channelCount,
+				row.totalViews,
+			]),
+			[
+				["#安野たかひろ", "通常", 2, 2, 110],
+				["#安野たかひろ", "ショート", 1, 1, 5],
+				["#チームみらい", "通常", 1, 1, 100],
+				["#チームみらい", "ショート", 0, 0, 0],
+				["全体", "通常", 2, 2, 110],
+				["全体", "ショート", 1, 1, 5],
+			],
+		);
+	});
+});
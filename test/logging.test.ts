@@ -0,0 +1,159 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+	addRowsWritten,
+	logDebug,
+	logError,
+	logInfo,
+	runLogged,
+} from "../src/logging";
+import { beginQuotaRun, reserveQuota } from "../src/quota";
+import {
+	type RunLogRecord,
+	getRunLogSchema,
+	readSheetRecords,
+} from "../src/schema";
+import { type FakeEnvironment, installFakes } from "./harness";
+
+// 実行ログシートのレコードを返す
+function runLogRecords(env: FakeEnvironment): RunLogRecord[] {
+	const sheet = env.spreadsheet.getSheetByName("実行ログ");
+	assert.ok(sheet);
+	return readSheetRecords(
+		sheet as unknown as GoogleAppsScript.Spreadsheet.Sheet,
+		getRunLogSchema(),
+	);
+}
+
+function failingRun(functionName: string): void {
+	assert.throws(
+		() =>
+			runLogged(functionName, () => {
+				throw new Error("シートを開けませんでした");
+			}),
+		/シートを開けませんでした/,
+	);
+}
+
+describe("レベル付きのログ", () => {
+	it("レベル・関数名・項目を付けて出力し、DEBUG は DEBUG_MODE が true の場合だけ出力する", () => {
+		const env = installFakes();
+		logInfo("updateDailyStats", "日次統計を更新しました。", {
+			hashtag: "#安野たかひろ",
+			count: 4,
+		});
+		logDebug("updateDailyStats", "詳細");
+		assert.deepEqual(env.logger.messages, [
+			'[INFO] updateDailyStats: 日次統計を更新しました。 {"hashtag":"#安野たかひろ","count":4}',
+		]);
+
+		env.propertiesService.scriptProperties.setProperty("DEBUG_MODE", "true");
+		logDebug("updateDailyStats", "詳細");
+		assert.ok(env.logger.includes("[DEBUG] updateDailyStats: 詳細"));
+	});
+});
+
+describe("runLogged", () => {
+	it("成功した実行の行数・消費ユニット数を実行ログシートに記録する", () => {
+		const env = installFakes();
+
+		const result = runLogged("main", () => {
+			beginQuotaRun("main");
+			reserveQuota("search.list", "#安野たかひろ");
+			addRowsWritten(3);
+			return "完了";
+		});
+
+		assert.equal(result, "完了");
+		const [record] = runLogRecords(env);
+		assert.equal(record.functionName, "main");
+		assert.equal(record.status, "成功");
+		assert.equal(record.rowsWritten, 3);
+		assert.equal(record.quotaUnits, 100);
+		assert.equal(record.errorMessage, "");
+		assert.ok(
+			new Date(record.finishedAt).getTime() >=
+				new Date(record.startedAt).getTime(),
+		);
+		assert.ok(env.logger.includes("[INFO] main: 実行が成功で終了しました。"));
+	});
+
+	it("エラーのログがあれば警告、エラーを投げた場合は失敗として記録して投げ直す", () => {
+		const env = installFakes();
+
+		runLogged("refreshVideoStats", () => {
+			logError("refreshVideoStats", "[quota] videos.list: 上限に達しました");
+		});
+		failingRun("updateDailyStats");
+
+		const records = runLogRecords(env);
+		assert.deepEqual(
+			records.map((record) => [
+				record.functionName,
+				record.status,
+				record.errorMessage,
+			]),
+			[
+				[
+					"refreshVideoStats",
+					"警告",
+					"refreshVideoStats: [quota] videos.list: 上限に達しました",
+				],
+				["updateDailyStats", "失敗", "シートを開けませんでした"],
+			],
+		);
+		assert.ok(
+			env.logger.includes("[ERROR] updateDailyStats: シートを開けませんでした"),
+		);
+	});
+
+	it("同じ関数が N 回続けて失敗したときに1回だけメールを送る", () => {
+		const env = installFakes({
+			properties: {
+				RUN_FAILURE_ALERT_COUNT: "2",
+				ALERT_EMAIL: "alerts@example.com",
+			},
+		});
+
+		failingRun("dailyUpdate");
+		// 他の関数の実行は数えない
+		runLogged("refreshVideoStats", () => {});
+		assert.equal(env.mailApp.sent.length, 0);
+		failingRun("dailyUpdate");
+		failingRun("dailyUpdate");
+
+		assert.equal(env.mailApp.sent.length, 1);
+		const [email] = env.mailApp.sent;
+		assert.equal(email.recipient, "alerts@example.com");
+		assert.match(email.subject, /dailyUpdate が2回続けて失敗しました/);
+		assert.match(email.body, /シートを開けませんでした/);
+
+		// 成功すると数え直す
+		runLogged("dailyUpdate", () => {});
+		failingRun("dailyUpdate");
+		failingRun("dailyUpdate");
+		assert.equal(env.mailApp.sent.length, 2);
+	});
+
+	it("RUN_FAILURE_EMAIL を ALERT_EMAIL より優先し、0 の場合は送らない", () => {
+		const env = installFakes({
+			properties: {
+				RUN_FAILURE_ALERT_COUNT: "1",
+				RUN_FAILURE_EMAIL: "ops@example.com",
+				ALERT_EMAIL: "alerts@example.com",
+			},
+		});
+		failingRun("main");
+		assert.deepEqual(
+			env.mailApp.sent.map((email) => email.recipient),
+			["ops@example.com"],
+		);
+
+		env.propertiesService.scriptProperties.setProperty(
+			"RUN_FAILURE_ALERT_COUNT",
+			"0",
+		);
+		failingRun("compactStack");
+		assert.equal(env.mailApp.sent.length, 1);
+	});
+});
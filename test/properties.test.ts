@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import {
+	type NumberPropertyOptions,
+	getNumberProperty,
+} from "../src/properties";
+import { type FakeEnvironment, installFakes } from "./harness";
+
+describe("getNumberProperty", () => {
+	let env: FakeEnvironment;
+
+	function read(
+		stored: string | null,
+		options?: NumberPropertyOptions,
+	): number {
+		const properties = env.propertiesService.scriptProperties;
+		if (stored === null) {
+			properties.deleteProperty("TEST_NUMBER");
+		} else {
+			properties.setProperty("TEST_NUMBER", stored);
+		}
+		return getNumberProperty("TEST_NUMBER", 7, options);
+	}
+
+	beforeEach(() => {
+		env = installFakes();
+	});
+
+	it("正の有限な数を読み込み、未設定・空欄・不正な値は既定値にする", () => {
+		assert.equal(read("12"), 12);
+		assert.equal(read("1.5"), 1.5);
+		assert.equal(read(null), 7);
+		assert.equal(read(" "), 7);
+		assert.equal(read("abc"), 7);
+		assert.equal(read("Infinity"), 7);
+		assert.equal(read("-3"), 7);
+		assert.equal(read("0"), 7);
+	});
+
+	it("整数だけを受け付ける設定では小数を既定値にする", () => {
+		assert.equal(read("3", { integer: true }), 3);
+		assert.equal(read("2.5", { integer: true }), 7);
+	});
+
+	it("0 を受け付ける設定では 0 を読み込む", () => {
+		assert.equal(read("0", { allowZero: true }), 0);
+		assert.equal(read("0", { integer: true, allowZero: true }), 0);
+		assert.equal(read("-1", { allowZero: true }), 7);
+	});
+});
@@ -0,0 +1,169 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import { resetChannelCache } from "../src/channels";
+import { buildVideoRows, searchVideoPage } from "../src/index";
+import {
+	QuotaBudgetExceededError,
+	beginQuotaRun,
+	flushQuotaLedger,
+	getQuotaLedger,
+	getRunQuotaSpent,
+	logQuotaSummary,
+	reserveQuota,
+} from "../src/quota";
+import { type FakeEnvironment, installFakes, loadFixtures } from "./harness";
+
+describe("reserveQuota", () => {
+	let env: FakeEnvironment;
+
+	beforeEach(() => {
+		env = installFakes();
+		beginQuotaRun("main");
+	});
+
+	it("エンドポイントごとのユニット数を関数別に記録する", () => {
+		reserveQuota("search.list", "#a");
+		reserveQuota("videos.list", "#a");
+		reserveQuota("channels.list");
+
+		assert.equal(getRunQuotaSpent(), 102);
+		const ledger = getQuotaLedger();
+		assert.equal(ledger.total, 102);
+		assert.deepEqual(ledger.byFunction, { main: 102 });
+		assert.deepEqual(ledger.byEndpoint, {
+			"search.list": 100,
+			"videos.list": 1,
+			"channels.list": 1,
+		});
+
+		flushQuotaLedger();
+		beginQuotaRun("updateDailyStats");
+		reserveQuota("search.list");
+		assert.deepEqual(getQuotaLedger().byFunction, {
+			main: 102,
+			updateDailyStats: 100,
+		});
+
+		logQuotaSummary();
+		assert.ok(env.logger.includes("関数別: main=102, updateDailyStats=100"));
+	});
+
+	it("消費記録は実行の終わりにまとめて書き戻し、別の実行の消費に加算する", () => {
+		const properties = env.propertiesService.scriptProperties;
+		const date = getQuotaLedger().date;
+		const key = `QUOTA_LEDGER_${date}`;
+		reserveQuota("search.list", "#a");
+		reserveQuota("videos.list", "#a");
+		assert.equal(properties.getProperty(key), null);
+
+		// 実行中に別の実行が消費を記録した場合
+		properties.setProperty(
+			key,
+			JSON.stringify({
+				date,
+				total: 1,
+				byFunction: { refreshVideoStats: 1 },
+				byEndpoint: { "videos.list": 1 },
+			}),
+		);
+		flushQuotaLedger();
+
+		const stored = JSON.parse(properties.getProperty(key) || "{}");
+		assert.equal(stored.total, 102);
+		assert.deepEqual(stored.byFunction, { refreshVideoStats: 1, main: 101 });
+		assert.deepEqual(stored.byEndpoint, {
+			"videos.list": 2,
+			"search.list": 100,
+		});
+	});
+
+	it("ハッシュタグ・実行・1日の予算を超える呼び出しを拒否する", () => {
+		const properties = env.propertiesService.scriptProperties;
+		properties.setProperty("QUOTA_HASHTAG_BUDGET", "150");
+		reserveQuota("search.list", "#a");
+		assert.throws(
+			() => reserveQuota("search.list", "#a"),
+			(error) =>
+				error instanceof QuotaBudgetExceededError && error.scope === "hashtag",
+		);
+		// 別のハッシュタグの予算は残っている
+		reserveQuota("search.list", "#b");
+
+		properties.setProperty("QUOTA_RUN_BUDGET", "250");
+		assert.throws(
+			() => reserveQuota("search.list", "#c"),
+			(error) =>
+				error instanceof QuotaBudgetExceededError && error.scope === "run",
+		);
+
+		// 別の実行でも1日の上限は共有される
+		properties.setProperty("QUOTA_DAILY_LIMIT", "250");
+		flushQuotaLedger();
+		beginQuotaRun("dailyUpdate");
+		assert.throws(
+			() => reserveQuota("search.list"),
+			(error) =>
+				error instanceof QuotaBudgetExceededError && error.scope === "daily",
+		);
+		assert.equal(getQuotaLedger().total, 200);
+	});
+
+	it("保持期間を過ぎた消費記録を削除する", () => {
+		const properties = env.propertiesService.scriptProperties;
+		properties.setProperty("QUOTA_LEDGER_2000-01-01", "{}");
+
+		reserveQuota("videos.list");
+		flushQuotaLedger();
+
+		assert.equal(properties.getProperty("QUOTA_LEDGER_2000-01-01"), null);
+	});
+});
+
+describe("searchVideoPage のクォータ予算", () => {
+	it("予算に達したら次のページを検索せずに打ち切る", () => {
+		resetChannelCache();
+		const env = installFakes({
+			fixtures: loadFixtures("youtube"),
+			properties: { QUOTA_HASHTAG_BUDGET: "150" },
+		});
+		beginQuotaRun("main");
+
+		const config = {
+			hashtag: "#安野たかひろ",
+			enabled: true,
+			lookbackDays: 3650,
+			extraKeywords: [],
+			excludeKeywords: [],
+			owner: "",
+			rowNumber: 2,
+		};
+		const firstPage = searchVideoPage(
+			config,
+			"2000-01-01T00:00:00.000Z",
+			undefined,
+			1,
+		);
+		const { rows } = buildVideoRows(
+			firstPage.videoIds,
+			config.hashtag,
+			new Date(),
+		);
+		const secondPage = searchVideoPage(
+			config,
+			"2000-01-01T00:00:00.000Z",
+			firstPage.nextPageToken,
+			2,
+		);
+
+		assert.equal(secondPage.stopped, true);
+		assert.equal(secondPage.error, undefined);
+
+		assert.deepEqual(
+			rows.map((row) => row.videoId),
+			["video-a1", "video-a2"],
+		);
+		assert.equal(env.youtube.callsTo("search.list").length, 1);
+		assert.equal(getRunQuotaSpent(), 102);
+		assert.ok(env.logger.includes("1ページで打ち切りました"));
+	});
+});
@@ -0,0 +1,225 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import {
+	appendRefreshedSnapshot,
+	getStatsRefreshIntervalHours,
+	isStatsRefreshDue,
+	refreshDueVideoStats,
+	refreshSheetVideoStats,
+} from "../src/refresh";
+import {
+	type VideoRecord,
+	appendSheetRecords,
+	ensureSheetSchema,
+	getVideoSheetSchema,
+	readSheetRecords,
+} from "../src/schema";
+import {
+	type FakeEnvironment,
+	type FakeSheet,
+	type YouTubeFixtures,
+	installFakes,
+	loadFixtures,
+} from "./harness";
+
+const HOUR = 60 * 60 * 1000;
+
+function asSheet(sheet: FakeSheet): GoogleAppsScript.Spreadsheet.Sheet {
+	return sheet as unknown as GoogleAppsScript.Spreadsheet.Sheet;
+}
+
+// 統計関連の列だけを指定した行を作る
+function statsRow(values: {
+	fetchedAt: Date;
+	hashtag?: string;
+	videoId: string;
+	publishedAt?: Date;
+	count?: number;
+	statsUpdatedAt?: Date | "";
+}): VideoRecord {
+	const count = values.count ?? 0;
+	return {
+		fetchedAt: values.fetchedAt,
+		hashtag: values.hashtag || "#安野たかひろ",
+		videoId: values.videoId,
+		publishedAt: values.publishedAt || new Date("2025-06-01T00:00:00Z"),
+		description: "説明",
+		viewCount: count,
+		likeCount: count,
+		commentCount: count,
+		statsUpdatedAt: values.statsUpdatedAt ?? "",
+		status: "公開中",
+	} as VideoRecord;
+}
+
+// 最新の列構成のシートに行を追加する
+function seedSheet(sheet: FakeSheet, records: VideoRecord[]): FakeSheet {
+	ensureSheetSchema(asSheet(sheet), getVideoSheetSchema());
+	appendSheetRecords(asSheet(sheet), getVideoSheetSchema(), records);
+	return sheet;
+}
+
+function readRecords(sheet: FakeSheet): VideoRecord[] {
+	return readSheetRecords(asSheet(sheet), getVideoSheetSchema());
+}
+
+function statsOf(record: VideoRecord): number[] {
+	return [record.viewCount, record.likeCount, record.commentCount];
+}
+
+// video-0 〜 video-{count-1} の動画を持つフィクスチャを作る
+function videoFixtures(count: number): YouTubeFixtures {
+	const videos: YouTubeFixtures["videos"] = {};
+	for (let i = 0; i < count; i++) {
+		videos[`video-${i}`] = {
+			id: `video-${i}`,
+			statistics: { viewCount: "10", likeCount: "2", commentCount: "1" },
+		};
+	}
+	return { search: {}, videos, channels: {} };
+}
+
+describe("refreshSheetVideoStats", () => {
+	let env: FakeEnvironment;
+
+	beforeEach(() => {
+		env = installFakes({ fixtures: loadFixtures("youtube") });
+	});
+
+	it("保存済みの動画IDの統計を Videos.list だけで更新する", () => {
+		const old = new Date("2025-06-05T00:00:00Z");
+		const fresh = new Date();
+		const sheet = seedSheet(env.spreadsheet.insertSheet("メイン"), [
+			statsRow({ fetchedAt: old, videoId: "video-a1", count: 1 }),
+			statsRow({ fetchedAt: old, videoId: "video-deleted", count: 2 }),
+			statsRow({ fetchedAt: fresh, videoId: "video-a2", count: 3 }),
+		]);
+
+		const result = refreshSheetVideoStats(asSheet(sheet), {
+			skipFetchedSince: fresh,
+		});
+
+		assert.equal(result.refreshed, 2);
+		assert.deepEqual(result.missingIds, ["video-deleted"]);
+		assert.equal(env.youtube.callsTo("search.list").length, 0);
+		assert.equal(env.youtube.callsTo("videos.list")[0].part, "statistics");
+		const records = readRecords(sheet);
+		assert.deepEqual(statsOf(records[0]), [1200, 80, 12]);
+		assert.equal(records[0].status, "公開中");
+		// 取得できなかった動画は数値を残して削除・非公開として記録する
+		assert.deepEqual(statsOf(records[1]), [2, 2, 2]);
+		assert.equal(records[1].status, "削除・非公開");
+		assert.deepEqual(statsOf(records[2]), [3, 3, 3]);
+		assert.equal(records[2].statsUpdatedAt, "");
+	});
+});
+
+describe("appendRefreshedSnapshot", () => {
+	it("前日以前の最新の行を最新の統計で当日分として追加する", () => {
+		const env = installFakes({ fixtures: loadFixtures("youtube") });
+		const sheet = seedSheet(env.spreadsheet.insertSheet("積み上げ"), [
+			statsRow({ fetchedAt: new Date("2025-06-05"), videoId: "video-a1" }),
+			statsRow({ fetchedAt: new Date("2025-06-06"), videoId: "video-a1" }),
+			statsRow({
+				fetchedAt: new Date("2025-06-06"),
+				hashtag: "#チームみらい",
+				videoId: "video-a1",
+			}),
+			statsRow({ fetchedAt: new Date("2025-06-06"), videoId: "video-gone" }),
+			// 当日の行がある組み合わせは追加しない
+			statsRow({
+				fetchedAt: new Date(),
+				hashtag: "#チームみらい",
+				videoId: "video-a1",
+			}),
+		]);
+
+		const result = appendRefreshedSnapshot(asSheet(sheet));
+
+		assert.equal(result.refreshed, 1);
+		assert.deepEqual(result.missingIds, ["video-gone"]);
+		const added = readRecords(sheet).slice(5);
+		assert.equal(added.length, 1);
+		assert.deepEqual(
+			[added[0].hashtag, added[0].videoId],
+			["#安野たかひろ", "video-a1"],
+		);
+		assert.deepEqual(statsOf(added[0]), [1200, 80, 12]);
+		// 動画の説明はメインシートにだけ残す
+		assert.equal(added[0].description, "");
+	});
+});
+
+describe("isStatsRefreshDue", () => {
+	const now = new Date("2025-07-01T12:00:00Z");
+
+	it("公開からの経過時間に応じて更新間隔を変える", () => {
+		assert.equal(
+			getStatsRefreshIntervalHours(new Date(now.getTime() - 10 * HOUR), now),
+			1,
+		);
+		assert.equal(
+			getStatsRefreshIntervalHours(new Date(now.getTime() - 72 * HOUR), now),
+			24,
+		);
+		assert.equal(
+			getStatsRefreshIntervalHours(new Date("2025-01-01T00:00:00Z"), now),
+			24 * 7,
+		);
+	});
+
+	it("更新間隔を過ぎた動画と一度も更新していない動画を対象にする", () => {
+		const old = new Date("2025-01-01T00:00:00Z");
+		assert.equal(isStatsRefreshDue(old, "", now), true);
+		assert.equal(
+			isStatsRefreshDue(old, new Date(now.getTime() - 24 * HOUR), now),
+			false,
+		);
+		assert.equal(
+			isStatsRefreshDue(old, new Date(now.getTime() - 8 * 24 * HOUR), now),
+			true,
+		);
+		const recent = new Date(now.getTime() - 5 * HOUR);
+		assert.equal(
+			isStatsRefreshDue(recent, new Date(now.getTime() - 2 * HOUR), now),
+			true,
+		);
+	});
+});
+
+describe("refreshDueVideoStats", () => {
+	it("更新間隔を過ぎた動画だけを古い順に50件ずつ更新する", () => {
+		const env = installFakes({ fixtures: videoFixtures(60) });
+		const now = new Date();
+		const records: VideoRecord[] = [];
+		for (let i = 0; i < 60; i++) {
+			records.push(
+				statsRow({
+					fetchedAt: now,
+					videoId: `video-${i}`,
+					statsUpdatedAt: new Date(now.getTime() - (30 + i) * 24 * HOUR),
+				}),
+			);
+		}
+		// 最近更新した動画は対象外
+		records.push(
+			statsRow({ fetchedAt: now, videoId: "video-fresh", statsUpdatedAt: now }),
+		);
+		const sheet = seedSheet(env.spreadsheet.insertSheet("メイン"), records);
+
+		// 時間の上限を0にすると、最初の1バッチだけを処理して打ち切る
+		const result = refreshDueVideoStats(asSheet(sheet), { timeBudgetMs: 0 });
+
+		assert.equal(result.due, 60);
+		assert.equal(result.refreshed, 50);
+		assert.equal(result.remaining, 10);
+		const ids = String(env.youtube.callsTo("videos.list")[0].params.id).split(
+			",",
+		);
+		assert.equal(ids[0], "video-59");
+		assert.ok(!ids.includes("video-fresh"));
+		const updated = readRecords(sheet);
+		assert.equal(updated[59].viewCount, 10);
+		assert.equal(updated[0].viewCount, 0);
+	});
+});
@@ -0,0 +1,348 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+	buildSummaryReport,
+	getReportPeriod,
+	sendSummaryReport,
+} from "../src/report";
+import {
+	type DailyStatsRecord,
+	type SubscriberHistoryRecord,
+	type VideoRecord,
+	appendSheetRecords,
+	ensureSheetSchema,
+	getDailyStatsSchema,
+	getSubscriberHistorySchema,
+	getVideoSheetSchema,
+} from "../src/schema";
+import { buildSnapshotHistory } from "../src/stats";
+import {
+	type FakeBlob,
+	type FakeEnvironment,
+	type FakeSheet,
+	installFakes,
+	videoRecord,
+} from "./harness";
+
+function asSheet(sheet: FakeSheet): GoogleAppsScript.Spreadsheet.Sheet {
+	return sheet as unknown as GoogleAppsScript.Spreadsheet.Sheet;
+}
+
+function asSpreadsheet(
+	spreadsheet: unknown,
+): GoogleAppsScript.Spreadsheet.Spreadsheet {
+	return spreadsheet as GoogleAppsScript.Spreadsheet.Spreadsheet;
+}
+
+const HASHTAG = "#安野たかひろ";
+const NOW = new Date("2025-06-07T12:00:00Z");
+
+// v1 は期間前から、v2 は期間中に公開されたショート、v3 は期間中に初めて記録された動画
+function snapshots(): VideoRecord[] {
+	return [
+		videoRecord({ date: "2025-05-31", videoId: "v1", views: 100 }),
+		videoRecord({ date: "2025-06-07", videoId: "v1", views: 1100 }),
+		videoRecord({
+			date: "2025-06-03",
+			videoId: "v2",
+			channelId: "c2",
+			category: "ショート",
+			publishedAt: "2025-06-03",
+			views: 50,
+		}),
+		videoRecord({
+			date: "2025-06-07",
+			videoId: "v2",
+			channelId: "c2",
+			category: "ショート",
+			publishedAt: "2025-06-03",
+			views: 5050,
+		}),
+		videoRecord({ date: "2025-06-06", videoId: "v3", views: 300 }),
+		videoRecord({ date: "2025-06-07", videoId: "v3", views: 300 }),
+	];
+}
+
+function statsRow(
+	date: string,
+	videoType: string,
+	values: Partial<DailyStatsRecord>,
+): DailyStatsRecord {
+	return {
+		date,
+		hashtag: HASHTAG,
+		videoType,
+		videoCount: 0,
+		channelCount: 0,
+		totalViews: 0,
+		newVideoCount: 0,
+		viewDelta: 0,
+		likeDelta: 0,
+		commentDelta: 0,
+		engagementRate: "",
+		medianViews: 0,
+		newChannelCount: 0,
+		...values,
+	};
+}
+
+function dailyStats(): DailyStatsRecord[] {
+	return [
+		statsRow("2025/05/31", "通常", { videoCount: 1, totalViews: 100 }),
+		statsRow("2025/06/03", "ショート", {
+			videoCount: 1,
+			totalViews: 50,
+			newVideoCount: 1,
+			newChannelCount: 1,
+		}),
+		statsRow("2025/06/07", "通常", {
+			videoCount: 2,
+			totalViews: 1400,
+			viewDelta: 600,
+		}),
+		statsRow("2025/06/07", "ショート", {
+			videoCount: 1,
+			totalViews: 5050,
+			viewDelta: 2000,
+		}),
+		// 実行日より後の行は使わない
+		statsRow("2025/06/08", "通常", { videoCount: 9, totalViews: 9999 }),
+	];
+}
+
+function subscriberRecord(
+	date: string,
+	channelId: string,
+	subscriberCount: number,
+): SubscriberHistoryRecord {
+	return {
+		date: new Date(`${date}T03:00:00Z`),
+		channelId,
+		channelTitle: `チャンネル${channelId}`,
+		previousTitle: "",
+		subscriberCount,
+		hiddenSubscriberCount: false,
+		channelViewCount: 0,
+		videoCount: 0,
+		trackedViewCount: 0,
+	};
+}
+
+function subscriberRecords(): SubscriberHistoryRecord[] {
+	return [
+		subscriberRecord("2025-05-30", "c1", 1000),
+		subscriberRecord("2025-06-07", "c1", 1200),
+		subscriberRecord("2025-06-05", "c2", 300),
+	];
+}
+
+// 積み上げ・日次統計・登録者数履歴のシートを用意する
+function seedSheets(env: FakeEnvironment): GoogleAppsScript.Spreadsheet.Sheet {
+	const stack = asSheet(
+		env.spreadsheet.insertSheet("YouTubeハッシュタグ分析_積み上げ"),
+	);
+	appendSheetRecords(
+		ensureSheetSchema(stack, getVideoSheetSchema()),
+		getVideoSheetSchema(),
+		snapshots(),
+	);
+	const stats = asSheet(env.spreadsheet.insertSheet("日次統計"));
+	appendSheetRecords(
+		ensureSheetSchema(stats, getDailyStatsSchema()),
+		getDailyStatsSchema(),
+		dailyStats(),
+	);
+	const subscribers = asSheet(
+		env.spreadsheet.insertSheet("チャンネル登録者数履歴"),
+	);
+	appendSheetRecords(
+		ensureSheetSchema(subscribers, getSubscriberHistorySchema()),
+		getSubscriberHistorySchema(),
+		subscriberRecords(),
+	);
+	return stack;
+}
+
+describe("buildSummaryReport", () => {
+	it("期間中の新規動画数・再生回数の増加・上位の動画とチャンネル・新規チャンネルを集計する", () => {
+		installFakes();
+
+		const report = buildSummaryReport(
+			dailyStats(),
+			buildSnapshotHistory(snapshots(), []),
+			subscriberRecords(),
+			[HASHTAG],
+			getReportPeriod("weekly"),
+			NOW,
+		);
+
+		assert.ok(report);
+		assert.equal(report.startDate, "2025/06/01");
+		assert.equal(report.endDate, "2025/06/07");
+		const [hashtag] = report.hashtags;
+		assert.deepEqual(
+			{
+				videoCount: hashtag.videoCount,
+				totalViews: hashtag.totalViews,
+				newVideoCount: hashtag.newVideoCount,
+				viewDelta: hashtag.viewDelta,
+				newChannelCount: hashtag.newChannelCount,
+			},
+			{
+				videoCount: 3,
+				totalViews: 6450,
+				newVideoCount: 1,
+				viewDelta: 2600,
+				newChannelCount: 1,
+			},
+		);
+		assert.deepEqual(
+			hashtag.types.map((type) => [
+				type.videoType,
+				type.videoCount,
+				type.newVideoCount,
+				type.viewDelta,
+			]),
+			[
+				["通常", 2, 0, 600],
+				["ショート", 1, 1, 2000],
+			],
+		);
+		// v3 は期間中の最初の記録から増えていないため載せない
+		assert.deepEqual(
+			hashtag.topVideos.map((video) => [video.videoId, video.viewGain]),
+			[
+				["v2", 5050],
+				["v1", 1000],
+			],
+		);
+		assert.deepEqual(
+			hashtag.topChannels.map((channel) => [
+				channel.channelId,
+				channel.videoCount,
+				channel.viewGain,
+				channel.subscriberCount,
+				channel.subscriberGain,
+			]),
+			[
+				["c2", 1, 5050, 300, ""],
+				["c1", 2, 1000, 1200, 200],
+			],
+		);
+		assert.deepEqual(
+			hashtag.newChannels.map((channel) => [channel.date, channel.channelName]),
+			[["2025/06/03", "チャンネルc2"]],
+		);
+		assert.equal(report.daily.length, 7);
+		assert.deepEqual(report.daily[6], {
+			date: "2025/06/07",
+			hashtag: HASHTAG,
+			totalViews: 6450,
+			newVideoCount: 0,
+		});
+	});
+
+	it("日次統計がない場合は null を返す", () => {
+		installFakes();
+		assert.equal(
+			buildSummaryReport(
+				[],
+				buildSnapshotHistory(snapshots(), []),
+				[],
+				[HASHTAG],
+				getReportPeriod("monthly"),
+				NOW,
+			),
+			null,
+		);
+	});
+});
+
+describe("sendSummaryReport", () => {
+	it("グラフを埋め込んだ HTML メールを送り、フォルダを設定した場合は Google ドキュメントも作成する", () => {
+		const env = installFakes({
+			properties: { REPORT_EMAIL: "team@example.com" },
+		});
+		const folder = env.driveApp.createFolder("レポート");
+		env.propertiesService.scriptProperties.setProperty(
+			"REPORT_DOC_FOLDER_ID",
+			folder.getId(),
+		);
+		const stack = seedSheets(env);
+
+		const result = sendSummaryReport(
+			asSpreadsheet(env.spreadsheet),
+			stack,
+			[HASHTAG],
+			getReportPeriod("weekly"),
+			NOW,
+		);
+
+		assert.ok(result);
+		assert.equal(result.documentUrl, env.documentApp.documents[0].getUrl());
+		assert.equal(env.mailApp.sent.length, 1);
+		const [email] = env.mailApp.sent;
+		assert.equal(email.recipient, "team@example.com");
+		assert.equal(
+			email.subject,
+			"[YouTubeハッシュタグ分析] 週次レポート（2025/06/01〜2025/06/07）",
+		);
+		assert.match(
+			email.body,
+			/動画v2 \/ チャンネルc2 \/ ショート \/ 5,050 \/ \+5,050/,
+		);
+		assert.ok(email.htmlBody?.includes('<img src="cid:viewsChart"'));
+		assert.ok(email.htmlBody?.includes(result.documentUrl));
+		assert.deepEqual(Object.keys(email.inlineImages || {}), [
+			"viewsChart",
+			"newVideosChart",
+		]);
+		const { chart } = email.inlineImages?.newVideosChart as FakeBlob;
+		assert.equal(chart.type, "column");
+		assert.ok(chart.stacked);
+		assert.deepEqual(chart.table?.columns, [
+			["string", "日付"],
+			["number", HASHTAG],
+		]);
+		assert.deepEqual(chart.table?.rows[2], ["06/03", 1]);
+
+		const [document] = env.documentApp.documents;
+		assert.ok(document.closed);
+		assert.equal(
+			env.driveApp.getFileById(document.getId()).folderId,
+			folder.getId(),
+		);
+		assert.ok(
+			document.body.elements.some(
+				(element) =>
+					element.type === "paragraph" &&
+					element.text === HASHTAG &&
+					element.heading === "HEADING1",
+			),
+		);
+		assert.deepEqual(
+			document.body.elements
+				.filter((element) => element.type === "image")
+				.map((element) => element.type === "image" && element.name),
+			["views.png", "new_videos.png"],
+		);
+	});
+
+	it("送信先が設定されていない場合はエラーを投げる", () => {
+		const env = installFakes();
+		const stack = seedSheets(env);
+
+		assert.throws(
+			() =>
+				sendSummaryReport(
+					asSpreadsheet(env.spreadsheet),
+					stack,
+					[HASHTAG],
+					getReportPeriod("weekly"),
+					NOW,
+				),
+			/REPORT_EMAIL または REPORT_DOC_FOLDER_ID/,
+		);
+		assert.equal(env.mailApp.sent.length, 0);
+	});
+});
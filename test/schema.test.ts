@@ -0,0 +1,186 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+	ensureSheetSchema,
+	getDailyStatsSchema,
+	getRecordedSchemaVersion,
+	getSchemaHeaders,
+	getSubscriberHistorySchema,
+	getVideoSheetSchema,
+	readSheetRecords,
+	replaceSheetRecords,
+} from "../src/schema";
+import { type FakeSheet, installFakes } from "./harness";
+
+function asSheet(sheet: FakeSheet): GoogleAppsScript.Spreadsheet.Sheet {
+	return sheet as unknown as GoogleAppsScript.Spreadsheet.Sheet;
+}
+
+describe("ensureSheetSchema", () => {
+	it("空のシートにヘッダーを設定してバージョンを記録する", () => {
+		const env = installFakes();
+		const sheet = asSheet(env.spreadsheet.insertSheet("日次統計"));
+
+		ensureSheetSchema(sheet, getDailyStatsSchema());
+
+		assert.deepEqual(sheet.getDataRange().getValues(), [
+			[
+				"日付",
+				"ハッシュタグ",
+				"動画タイプ",
+				"動画数",
+				"チャンネル数",
+				"総再生回数",
+				"新規動画数",
+				"再生回数の前日比",
+				"いいね数の前日比",
+				"コメント数の前日比",
+				"エンゲージメント率",
+				"再生回数の中央値",
+				"新規チャンネル数",
+			],
+		]);
+		assert.equal(sheet.getFrozenRows(), 1);
+		assert.equal(getRecordedSchemaVersion(sheet), 2);
+	});
+
+	it("旧形式（13列）の動画シートを行を残したまま最新の列構成に移行する", () => {
+		const env = installFakes();
+		const sheet = asSheet(
+			env.spreadsheet.insertSheet("YouTubeハッシュタグ分析"),
+		);
+		const schema = getVideoSheetSchema();
+		const fetchedAt = new Date("2025-06-01T00:00:00Z");
+		sheet.appendRow(getSchemaHeaders(schema).slice(0, 13));
+		sheet.appendRow([
+			fetchedAt,
+			"#安野たかひろ",
+			"v1",
+			"通常",
+			"タイトル",
+			"https://www.youtube.com/watch?v=v1",
+			"チャンネル1",
+			100,
+			new Date("2025-05-01T00:00:00Z"),
+			"説明",
+			10,
+			1,
+			0,
+		]);
+
+		ensureSheetSchema(sheet, schema);
+
+		const [record] = readSheetRecords(sheet, schema);
+		assert.equal(record.videoId, "v1");
+		assert.equal(record.viewCount, 10);
+		assert.equal(record.statsUpdatedAt, fetchedAt);
+		assert.equal(record.status, "公開中");
+		assert.equal(record.channelId, "");
+		assert.equal(record.matchType, "キーワードのみ");
+		assert.equal(getRecordedSchemaVersion(sheet), 5);
+		assert.ok(
+			env.logger.includes("バージョン1からバージョン5に移行しました（1行）"),
+		);
+	});
+
+	it("最新の列構成のシートは書き換えない", () => {
+		const env = installFakes();
+		const sheet = asSheet(
+			env.spreadsheet.insertSheet("YouTubeハッシュタグ分析"),
+		);
+		const schema = getVideoSheetSchema();
+		ensureSheetSchema(sheet, schema);
+		env.logger.messages.length = 0;
+
+		ensureSheetSchema(sheet, schema);
+
+		assert.deepEqual(env.logger.messages, []);
+	});
+
+	it("引き継げない旧形式のシートは名前を変えて残し、新しいシートを返す", () => {
+		const env = installFakes();
+		const legacy = asSheet(
+			env.spreadsheet.insertSheet("チャンネル登録者数履歴"),
+		);
+		legacy.appendRow([
+			"日付",
+			"チャンネルタイトル",
+			"チャンネル登録者数",
+			"視聴回数",
+		]);
+		legacy.appendRow([new Date("2025-06-01"), "チャンネル1", 100, 30]);
+
+		const sheet = ensureSheetSchema(legacy, getSubscriberHistorySchema());
+
+		assert.notEqual(sheet, legacy);
+		assert.equal(sheet.getName(), "チャンネル登録者数履歴");
+		assert.equal(legacy.getName(), "チャンネル登録者数履歴_旧形式");
+		assert.equal(legacy.getLastRow(), 2);
+		assert.deepEqual(sheet.getDataRange().getValues(), [
+			getSchemaHeaders(getSubscriberHistorySchema()),
+		]);
+	});
+
+	it("どのバージョンとも一致しないシートは書き換えずにエラーにする", () => {
+		const env = installFakes();
+		const sheet = asSheet(
+			env.spreadsheet.insertSheet("YouTubeハッシュタグ分析"),
+		);
+		sheet.appendRow(["動画ID", "取得日時"]);
+
+		assert.throws(
+			() => ensureSheetSchema(sheet, getVideoSheetSchema()),
+			/どのバージョンとも一致しない/,
+		);
+		assert.deepEqual(sheet.getDataRange().getValues(), [
+			["動画ID", "取得日時"],
+		]);
+	});
+});
+
+describe("readSheetRecords", () => {
+	it("ヘッダー行全体が最新の列構成と一致しない場合はエラーにする", () => {
+		const env = installFakes();
+		const sheet = asSheet(env.spreadsheet.insertSheet("日次統計"));
+		sheet.appendRow([
+			"日付",
+			"ハッシュタグ",
+			"動画タイプ",
+			"動画数",
+			"チャンネル数",
+		]);
+
+		assert.throws(
+			() => readSheetRecords(sheet, getDailyStatsSchema()),
+			/列構成が最新ではありません/,
+		);
+	});
+
+	it("replaceSheetRecords で書き込んだ行をオブジェクトとして読み込む", () => {
+		const env = installFakes();
+		const sheet = asSheet(env.spreadsheet.insertSheet("日次統計"));
+		const schema = getDailyStatsSchema();
+		ensureSheetSchema(sheet, schema);
+		const records = [
+			{
+				date: "2025/06/01",
+				hashtag: "#安野たかひろ",
+				videoType: "通常",
+				videoCount: 2,
+				channelCount: 1,
+				totalViews: 300,
+				newVideoCount: 1,
+				viewDelta: 50,
+				likeDelta: 3,
+				commentDelta: "" as const,
+				engagementRate: 0.01,
+				medianViews: 150,
+				newChannelCount: 0,
+			},
+		];
+
+		replaceSheetRecords(sheet, schema, records);
+
+		assert.deepEqual(readSheetRecords(sheet, schema), records);
+	});
+});
@@ -0,0 +1,181 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import {
+	classifyVideoType,
+	parseIsoDuration,
+	resetShortsUrlChecks,
+} from "../src/shorts";
+import { type FakeEnvironment, installFakes } from "./harness";
+
+type Video = GoogleAppsScript.YouTube.Schema.Video;
+
+function video(overrides: {
+	id?: string;
+	duration?: string;
+	title?: string;
+	description?: string;
+	tags?: string[];
+	player?: { embedWidth: string; embedHeight: string };
+}): Video {
+	return {
+		id: overrides.id || "video-1",
+		snippet: {
+			title: overrides.title || "動画",
+			description: overrides.description || "",
+			tags: overrides.tags,
+		},
+		contentDetails: overrides.duration
+			? { duration: overrides.duration }
+			: undefined,
+		player: overrides.player,
+	};
+}
+
+describe("parseIsoDuration", () => {
+	it("ISO 8601 の再生時間を秒数に変換する", () => {
+		assert.equal(parseIsoDuration("PT45S"), 45);
+		assert.equal(parseIsoDuration("PT1M5S"), 65);
+		assert.equal(parseIsoDuration("PT1H2M3S"), 3723);
+		assert.equal(parseIsoDuration("P1DT1S"), 86401);
+		assert.equal(parseIsoDuration("P0D"), 0);
+	});
+
+	it("解釈できない値は null を返す", () => {
+		assert.equal(parseIsoDuration(undefined), null);
+		assert.equal(parseIsoDuration("1:05"), null);
+	});
+});
+
+describe("classifyVideoType", () => {
+	let env: FakeEnvironment;
+
+	beforeEach(() => {
+		env = installFakes();
+		resetShortsUrlChecks();
+	});
+
+	it("説明文に shorts を含むだけの長尺動画は通常動画とする", () => {
+		const result = classifyVideoType(
+			video({
+				duration: "PT12M",
+				description: "ショートはこちら https://youtube.com/@foo/shorts",
+			}),
+		);
+		assert.deepEqual(result, {
+			category: "通常",
+			reason: "再生時間180秒超",
+			durationSeconds: 720,
+		});
+	});
+
+	it("再生時間が P0D の配信中・配信予定のライブは判定理由をライブ配信とする", () => {
+		const result = classifyVideoType(
+			video({
+				duration: "P0D",
+				title: "#shorts 配信",
+				player: { embedWidth: "405", embedHeight: "720" },
+			}),
+		);
+		assert.deepEqual(result, {
+			category: "通常",
+			reason: "ライブ配信",
+			durationSeconds: 0,
+		});
+	});
+
+	it("縦型の短尺動画はハッシュタグがなくてもショートとする", () => {
+		const result = classifyVideoType(
+			video({
+				duration: "PT2M",
+				player: { embedWidth: "405", embedHeight: "720" },
+			}),
+		);
+		assert.equal(result.category, "ショート");
+		assert.equal(result.reason, "縦型・短尺");
+	});
+
+	it("横型の短尺動画は通常動画とする", () => {
+		const result = classifyVideoType(
+			video({
+				duration: "PT50S",
+				title: "#shorts",
+				player: { embedWidth: "1280", embedHeight: "720" },
+			}),
+		);
+		assert.equal(result.category, "通常");
+		assert.equal(result.reason, "横型");
+	});
+
+	it("縦横比が不明な場合は #shorts ハッシュタグとタグで判定する", () => {
+		assert.equal(
+			classifyVideoType(video({ duration: "PT2M", tags: ["Shorts"] })).reason,
+			"#shorts・短尺",
+		);
+		assert.equal(
+			classifyVideoType(video({ duration: "PT2M", title: "#shortsfilm" }))
+				.reason,
+			"判定材料なし",
+		);
+	});
+
+	it("判定材料がない短尺動画は /shorts URL の応答で判定する", () => {
+		env.urlFetchApp.respond("https://www.youtube.com/shorts/video-1", {
+			code: 200,
+		});
+		const result = classifyVideoType(video({ duration: "PT2M30S" }));
+		assert.equal(result.category, "ショート");
+		assert.equal(result.reason, "/shorts URL");
+		assert.equal(env.urlFetchApp.requests[0].params.followRedirects, false);
+
+		env.urlFetchApp.respond("https://www.youtube.com/shorts/video-2", {
+			code: 303,
+		});
+		assert.equal(
+			classifyVideoType(video({ id: "video-2", duration: "PT2M30S" })).category,
+			"通常",
+		);
+	});
+
+	it("/shorts URL の確認結果は動画IDごとにキャッシュする", () => {
+		env.urlFetchApp.respond("https://www.youtube.com/shorts/video-1", {
+			code: 200,
+		});
+		classifyVideoType(video({ duration: "PT2M30S" }));
+		resetShortsUrlChecks();
+
+		assert.equal(
+			classifyVideoType(video({ duration: "PT2M30S" })).reason,
+			"/shorts URL",
+		);
+		assert.equal(env.urlFetchApp.requests.length, 1);
+	});
+
+	it("1回の実行で確認する動画数の上限を超えた場合や時間の上限に近い場合は URL を確認しない", () => {
+		env.propertiesService.scriptProperties.setProperty(
+			"SHORTS_URL_CHECK_LIMIT",
+			"2",
+		);
+		for (const id of ["video-1", "video-2", "video-3"]) {
+			classifyVideoType(video({ id, duration: "PT2M30S" }));
+		}
+		assert.equal(env.urlFetchApp.requests.length, 2);
+		assert.ok(env.logger.includes("/shorts URL の確認を省略します"));
+
+		resetShortsUrlChecks();
+		env.propertiesService.scriptProperties.setProperty(
+			"JOB_TIME_BUDGET_SECONDS",
+			"0",
+		);
+		assert.equal(
+			classifyVideoType(video({ id: "video-4", duration: "PT2M30S" })).reason,
+			"判定材料なし",
+		);
+		assert.equal(env.urlFetchApp.requests.length, 2);
+	});
+
+	it("60秒以下の動画は URL を確認せずにショートとする", () => {
+		const result = classifyVideoType(video({ duration: "PT59S" }));
+		assert.equal(result.category, "ショート");
+		assert.equal(env.urlFetchApp.requests.length, 0);
+	});
+});
@@ -0,0 +1,359 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { recordVideoHashtags } from "../src/links";
+import {
+	type DailyStatsRecord,
+	type VideoRecord,
+	ensureSheetSchema,
+	getDailyStatsSchema,
+	getTopMoversSchema,
+	getVideoSheetSchema,
+	readSheetRecords,
+	toSheetRow,
+} from "../src/schema";
+import {
+	buildSnapshotHistory,
+	computeDailyStats,
+	computeTopMovers,
+	getPreviousStatsDate,
+	upsertDailyStats,
+	writeDailyStatsFromSnapshots,
+} from "../src/stats";
+import { type FakeSheet, installFakes, videoRecord } from "./harness";
+
+function asSheet(sheet: FakeSheet): GoogleAppsScript.Spreadsheet.Sheet {
+	return sheet as unknown as GoogleAppsScript.Spreadsheet.Sheet;
+}
+
+function asSpreadsheet(
+	spreadsheet: unknown,
+): GoogleAppsScript.Spreadsheet.Spreadsheet {
+	return spreadsheet as GoogleAppsScript.Spreadsheet.Spreadsheet;
+}
+
+// 前日の記録を使う指標を省略した日次統計の行
+function statsRow(
+	date: string,
+	hashtag: string,
+	videoType: string,
+	videoCount: number,
+	totalViews: number,
+	metrics: Partial<DailyStatsRecord> = {},
+): DailyStatsRecord {
+	return {
+		date,
+		hashtag,
+		videoType,
+		videoCount,
+		channelCount: videoCount > 0 ? 1 : 0,
+		totalViews,
+		newVideoCount: 0,
+		viewDelta: "",
+		likeDelta: "",
+		commentDelta: "",
+		engagementRate: totalViews > 0 ? 0 : "",
+		medianViews: videoCount > 0 ? totalViews / videoCount : 0,
+		newChannelCount: 0,
+		...metrics,
+	};
+}
+
+describe("getPreviousStatsDate", () => {
+	it("月や年をまたぐ前日を返す", () => {
+		assert.equal(getPreviousStatsDate("2025/06/02"), "2025/06/01");
+		assert.equal(getPreviousStatsDate("2025/03/01"), "2025/02/28");
+		assert.equal(getPreviousStatsDate("2025/01/01"), "2024/12/31");
+	});
+});
+
+describe("computeDailyStats", () => {
+	it("その日までに見つかったハッシュタグの対応だけを使う", () => {
+		installFakes();
+		const history = buildSnapshotHistory(
+			[
+				videoRecord({ date: "2025-06-01", videoId: "v1", views: 10 }),
+				videoRecord({ date: "2025-06-03", videoId: "v1", views: 30 }),
+			],
+			[
+				{
+					videoId: "v1",
+					hashtag: "#チームみらい",
+					firstSeenAt: new Date("2025-06-03T03:00:00Z"),
+					lastSeenAt: new Date("2025-06-03T03:00:00Z"),
+				},
+			],
+		);
+		const hashtags = ["#安野たかひろ", "#チームみらい"];
+
+		const first = computeDailyStats(history, hashtags, "2025/06/01");
+		const third = computeDailyStats(history, hashtags, "2025/06/03");
+
+		assert.deepEqual(
+			first.filter((row) => row.videoType === "通常"),
+			[
+				statsRow("2025/06/01", "#安野たかひろ", "通常", 1, 10, {
+					newChannelCount: 1,
+				}),
+				statsRow("2025/06/01", "#チームみらい", "通常", 0, 0),
+			],
+		);
+		assert.deepEqual(
+			third.filter((row) => row.videoType === "通常"),
+			[
+				statsRow("2025/06/03", "#安野たかひろ", "通常", 1, 30),
+				statsRow("2025/06/03", "#チームみらい", "通常", 1, 30, {
+					newChannelCount: 1,
+				}),
+			],
+		);
+	});
+
+	it("キーワードのみの一致を除外する場合は、ハッシュタグもタグもない動画を数えない", () => {
+		installFakes();
+		const tagged = (video: VideoRecord, title: string, tags = "") => ({
+			...video,
+			title,
+			description: "",
+			descriptionHashtags: "",
+			tags,
+		});
+		const snapshots = [
+			tagged(
+				videoRecord({ date: "2025-06-01", videoId: "v1", views: 10 }),
+				"演説 ＃安野たかひろ",
+			),
+			tagged(
+				videoRecord({ date: "2025-06-01", videoId: "v2", views: 20 }),
+				"安野たかひろ 政策",
+				"政策, 安野たかひろ",
+			),
+			tagged(
+				videoRecord({ date: "2025-06-01", videoId: "v3", views: 40 }),
+				"安野たかひろさんについて",
+			),
+		];
+
+		const included = computeDailyStats(
+			buildSnapshotHistory(snapshots, []),
+			["#安野たかひろ"],
+			"2025/06/01",
+		);
+		const excluded = computeDailyStats(
+			buildSnapshotHistory(snapshots, [], true),
+			["#安野たかひろ"],
+			"2025/06/01",
+		);
+
+		assert.equal(included[0].videoCount, 3);
+		assert.equal(excluded[0].videoCount, 2);
+		assert.equal(excluded[0].totalViews, 30);
+	});
+
+	it("前日比・新規動画数・エンゲージメント率・中央値・新規チャンネル数を計算する", () => {
+		installFakes();
+		const history = buildSnapshotHistory(
+			[
+				videoRecord({
+					date: "2025-06-01",
+					videoId: "v1",
+					views: 100,
+					likes: 5,
+				}),
+				videoRecord({
+					date: "2025-06-02",
+					videoId: "v1",
+					views: 150,
+					likes: 8,
+					comments: 2,
+				}),
+				// 当日に公開された新しいチャンネルの動画（前日の記録がないため前日比には含めない）
+				videoRecord({
+					date: "2025-06-02",
+					videoId: "v2",
+					channelId: "channel-2",
+					publishedAt: "2025-06-02",
+					views: 50,
+				}),
+				videoRecord({ date: "2025-06-02", videoId: "v3", views: 300 }),
+			],
+			[],
+		);
+
+		const [normal] = computeDailyStats(
+			history,
+			["#安野たかひろ"],
+			"2025/06/02",
+		);
+
+		assert.deepEqual(normal, {
+			date: "2025/06/02",
+			hashtag: "#安野たかひろ",
+			videoType: "通常",
+			videoCount: 3,
+			channelCount: 2,
+			totalViews: 500,
+			newVideoCount: 1,
+			viewDelta: 50,
+			likeDelta: 3,
+			commentDelta: 2,
+			engagementRate: 0.02,
+			medianViews: 150,
+			newChannelCount: 1,
+		});
+	});
+});
+
+describe("computeTopMovers", () => {
+	it("前日からの再生回数の増加が大きい順に上位の動画を返す", () => {
+		installFakes();
+		const history = buildSnapshotHistory(
+			[
+				videoRecord({ date: "2025-06-01", videoId: "v1", views: 100 }),
+				videoRecord({ date: "2025-06-01", videoId: "v2", views: 100 }),
+				videoRecord({ date: "2025-06-01", videoId: "v3", views: 100 }),
+				videoRecord({ date: "2025-06-02", videoId: "v1", views: 110 }),
+				videoRecord({ date: "2025-06-02", videoId: "v2", views: 400 }),
+				videoRecord({ date: "2025-06-02", videoId: "v3", views: 150 }),
+				videoRecord({ date: "2025-06-02", videoId: "v4", views: 1000 }),
+			],
+			[],
+		);
+
+		const movers = computeTopMovers(
+			history,
+			["#安野たかひろ"],
+			"2025/06/02",
+			2,
+		);
+
+		assert.deepEqual(
+			movers.map((mover) => [mover.rank, mover.videoId, mover.viewGain]),
+			[
+				[1, "v2", 300],
+				[2, "v3", 50],
+			],
+		);
+		assert.equal(movers[0].hashtags, "#安野たかひろ");
+		assert.deepEqual(
+			computeTopMovers(history, ["#安野たかひろ"], "2025/06/01", 2),
+			[],
+		);
+	});
+});
+
+describe("upsertDailyStats", () => {
+	it("同じ日付・ハッシュタグ・動画タイプの行を置き換え、日付の降順に並べる", () => {
+		const env = installFakes();
+		const sheet = asSheet(env.spreadsheet.insertSheet("日次統計"));
+		ensureSheetSchema(sheet, getDailyStatsSchema());
+		upsertDailyStats(sheet, [
+			statsRow("2025/06/01", "#安野たかひろ", "通常", 1, 10),
+			statsRow("2025/06/02", "#安野たかひろ", "通常", 1, 20),
+		]);
+
+		upsertDailyStats(sheet, [
+			statsRow("2025/06/01", "#安野たかひろ", "通常", 2, 15),
+		]);
+
+		assert.deepEqual(readSheetRecords(sheet, getDailyStatsSchema()), [
+			statsRow("2025/06/02", "#安野たかひろ", "通常", 1, 20),
+			statsRow("2025/06/01", "#安野たかひろ", "通常", 2, 15),
+		]);
+	});
+
+	it("旧形式の日次統計シートは新しい指標の列を空欄にして移行する", () => {
+		const env = installFakes();
+		const sheet = env.spreadsheet.insertSheet("日次統計");
+		sheet.appendRow([
+			"日付",
+			"ハッシュタグ",
+			"動画タイプ",
+			"動画数",
+			"チャンネル数",
+			"総再生回数",
+		]);
+		sheet.appendRow(["2025/06/01", "#安野たかひろ", "通常", 1, 1, 10]);
+
+		ensureSheetSchema(asSheet(sheet), getDailyStatsSchema());
+
+		assert.deepEqual(sheet.getDataRange().getValues()[1], [
+			"2025/06/01",
+			"#安野たかひろ",
+			"通常",
+			1,
+			1,
+			10,
+			"",
+			"",
+			"",
+			"",
+			"",
+			"",
+			"",
+		]);
+	});
+});
+
+describe("writeDailyStatsFromSnapshots", () => {
+	it("日付を省略すると積み上げシートのすべての日付の統計と急上昇を書き込む", () => {
+		const env = installFakes();
+		const spreadsheet = asSpreadsheet(env.spreadsheet);
+		const schema = getVideoSheetSchema();
+		const stack = asSheet(
+			env.spreadsheet.insertSheet("YouTubeハッシュタグ分析_積み上げ"),
+		);
+		ensureSheetSchema(stack, schema);
+		for (const row of [
+			videoRecord({ date: "2025-06-01", videoId: "v1", views: 10 }),
+			videoRecord({ date: "2025-06-02", videoId: "v1", views: 40 }),
+		]) {
+			stack.appendRow(toSheetRow(schema, row));
+		}
+		recordVideoHashtags(spreadsheet, [
+			{
+				videoId: "v1",
+				hashtag: "#安野たかひろ",
+				seenAt: new Date("2025-06-01T03:00:00Z"),
+			},
+		]);
+
+		const { stats, topMovers } = writeDailyStatsFromSnapshots(
+			spreadsheet,
+			stack,
+			["#安野たかひろ"],
+		);
+
+		assert.equal(stats.length, 4);
+		const statsSheet = env.spreadsheet.getSheetByName("日次統計");
+		assert.ok(statsSheet);
+		assert.deepEqual(
+			readSheetRecords(asSheet(statsSheet), getDailyStatsSchema()),
+			[
+				statsRow("2025/06/02", "#安野たかひろ", "ショート", 0, 0, {
+					viewDelta: 0,
+					likeDelta: 0,
+					commentDelta: 0,
+				}),
+				statsRow("2025/06/02", "#安野たかひろ", "通常", 1, 40, {
+					viewDelta: 30,
+					likeDelta: 0,
+					commentDelta: 0,
+				}),
+				statsRow("2025/06/01", "#安野たかひろ", "ショート", 0, 0),
+				statsRow("2025/06/01", "#安野たかひろ", "通常", 1, 10, {
+					newChannelCount: 1,
+				}),
+			],
+		);
+
+		assert.equal(topMovers.length, 1);
+		const moversSheet = env.spreadsheet.getSheetByName("急上昇");
+		assert.ok(moversSheet);
+		assert.deepEqual(
+			readSheetRecords(asSheet(moversSheet), getTopMoversSchema()).map(
+				(mover) => [mover.date, mover.rank, mover.videoId, mover.viewGain],
+			),
+			[["2025/06/02", 1, "v1", 30]],
+		);
+	});
+});
@@ -0,0 +1,195 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+	type VideoRecord,
+	ensureSheetSchema,
+	getVideoSheetSchema,
+	readSheetRecords,
+	toSheetRow,
+} from "../src/schema";
+import {
+	compactStackSheet,
+	getStackRetentionPolicy,
+	selectRetainedSnapshotDates,
+	writeCellUsageReport,
+} from "../src/storage";
+import { type FakeSheet, installFakes } from "./harness";
+
+function asSheet(sheet: FakeSheet): GoogleAppsScript.Spreadsheet.Sheet {
+	return sheet as unknown as GoogleAppsScript.Spreadsheet.Sheet;
+}
+
+const POLICY = { dailyDays: 7, weeklyDays: 30, archiveDays: 60 };
+
+// 取得日（日本時間の正午）と動画IDだけを指定した積み上げシートの行
+function snapshot(date: string, videoId = "v1"): VideoRecord {
+	return {
+		fetchedAt: new Date(`${date}T03:00:00Z`),
+		hashtag: "#安野たかひろ",
+		videoId,
+		category: "通常",
+		description: "動画の説明",
+		viewCount: 100,
+	} as VideoRecord;
+}
+
+describe("getStackRetentionPolicy", () => {
+	it("前の段階より短い期間は前の段階の期間にそろえる", () => {
+		installFakes({
+			properties: {
+				STACK_DAILY_RETENTION_DAYS: "30",
+				STACK_WEEKLY_RETENTION_DAYS: "14",
+				STACK_ARCHIVE_AFTER_DAYS: "不正な値",
+			},
+		});
+
+		assert.deepEqual(getStackRetentionPolicy(), {
+			dailyDays: 30,
+			weeklyDays: 30,
+			archiveDays: 730,
+		});
+	});
+});
+
+describe("selectRetainedSnapshotDates", () => {
+	it("直近は毎日、それより古い日付は週ごと・月ごとに最も新しい日付だけを残す", () => {
+		const retained = selectRetainedSnapshotDates(
+			[
+				"2025/06/30",
+				"2025/06/24",
+				// 2025/06/16（月）〜06/22（日）の週
+				"2025/06/16",
+				"2025/06/18",
+				"2025/06/22",
+				// 2025/06/09（月）〜06/15（日）の週
+				"2025/06/10",
+				"2025/05/02",
+				"2025/05/20",
+				"2025/04/30",
+			],
+			POLICY,
+			"2025/07/01",
+		);
+
+		assert.deepEqual([...retained].sort(), [
+			"2025/04/30",
+			"2025/05/20",
+			"2025/06/10",
+			"2025/06/22",
+			"2025/06/24",
+			"2025/06/30",
+		]);
+	});
+});
+
+describe("compactStackSheet", () => {
+	it("間引いた行を削除し、古い行を年ごとのアーカイブに移して説明を空欄にする", () => {
+		const env = installFakes();
+		const schema = getVideoSheetSchema();
+		const stack = asSheet(
+			env.spreadsheet.insertSheet("YouTubeハッシュタグ分析_積み上げ"),
+		);
+		ensureSheetSchema(stack, schema);
+		for (const date of [
+			"2024-12-20",
+			"2024-12-28",
+			"2025-06-10",
+			"2025-06-11",
+			"2025-06-30",
+		]) {
+			stack.appendRow(toSheetRow(schema, snapshot(date)));
+		}
+		const now = new Date("2025-07-01T03:00:00Z");
+
+		const result = compactStackSheet(stack, POLICY, now);
+
+		assert.equal(result.keptRows, 2);
+		assert.equal(result.removedRows, 2);
+		assert.equal(result.archivedRows, 1);
+		assert.equal(result.clearedDescriptions, 2);
+		const kept = readSheetRecords(stack, schema);
+		assert.deepEqual(
+			kept.map((record) => [record.fetchedAt, record.description]),
+			[
+				[new Date("2025-06-11T03:00:00Z"), ""],
+				[new Date("2025-06-30T03:00:00Z"), ""],
+			],
+		);
+
+		const [archive] = result.archives;
+		assert.equal(archive.year, "2024");
+		assert.equal(
+			env.propertiesService.scriptProperties.getProperty(
+				"STACK_ARCHIVE_SPREADSHEET_2024",
+			),
+			archive.spreadsheetId,
+		);
+		const archiveSpreadsheet = env.spreadsheetApp.openById(
+			archive.spreadsheetId,
+		);
+		assert.equal(
+			archiveSpreadsheet.getName(),
+			"YouTubeハッシュタグ分析_積み上げ_2024",
+		);
+		const archiveSheet =
+			archiveSpreadsheet.getSheetByName("積み上げアーカイブ");
+		assert.ok(archiveSheet);
+		assert.deepEqual(
+			readSheetRecords(asSheet(archiveSheet), schema).map((record) => [
+				record.fetchedAt,
+				record.description,
+			]),
+			[[new Date("2024-12-28T03:00:00Z"), ""]],
+		);
+
+		// アーカイブへの追加後に積み上げシートを書き換えられなかった場合も、やり直しで重複させない
+		stack.appendRow(toSheetRow(schema, snapshot("2024-12-28")));
+		const retried = compactStackSheet(stack, POLICY, now);
+		assert.equal(retried.archivedRows, 1);
+		assert.deepEqual(
+			retried.archives.map((result) => [result.rows, result.skippedRows]),
+			[[0, 1]],
+		);
+		assert.equal(readSheetRecords(stack, schema).length, 2);
+		assert.equal(readSheetRecords(asSheet(archiveSheet), schema).length, 1);
+
+		// 再実行しても変更がなければ何もしない
+		const again = compactStackSheet(stack, POLICY, now);
+		assert.deepEqual(again, {
+			keptRows: 2,
+			removedRows: 0,
+			archivedRows: 0,
+			clearedDescriptions: 0,
+			archives: [],
+		});
+	});
+});
+
+describe("writeCellUsageReport", () => {
+	it("シートごとのセル数と上限に対する割合、合計を書き込む", () => {
+		const env = installFakes();
+		const sheet = env.spreadsheet.insertSheet("データ");
+		sheet.appendRow(["a", "b"]);
+
+		const usage = writeCellUsageReport(
+			env.spreadsheet as unknown as GoogleAppsScript.Spreadsheet.Spreadsheet,
+		);
+
+		assert.deepEqual(usage[0], {
+			sheetName: "データ",
+			rowCount: 1000,
+			columnCount: 26,
+			cellCount: 26000,
+			dataRowCount: 1,
+			dataColumnCount: 2,
+			usageRate: 0.0026,
+		});
+		const total = usage[usage.length - 1];
+		assert.equal(total.sheetName, "合計");
+		assert.equal(total.cellCount, 52000);
+		assert.equal(total.usageRate, 0.0052);
+		const report = env.spreadsheet.getSheetByName("セル使用量");
+		assert.ok(report);
+		assert.equal(report.getLastRow(), usage.length + 1);
+	});
+});
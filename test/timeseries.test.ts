@@ -0,0 +1,127 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+	type VideoRecord,
+	ensureSheetSchema,
+	getVideoSheetSchema,
+	toSheetRow,
+} from "../src/schema";
+import {
+	buildVideoTimeSeriesRows,
+	writeVideoTimeSeries,
+} from "../src/timeseries";
+import { type FakeSheet, installFakes } from "./harness";
+
+function asSheet(sheet: FakeSheet): GoogleAppsScript.Spreadsheet.Sheet {
+	return sheet as unknown as GoogleAppsScript.Spreadsheet.Sheet;
+}
+
+// 推移表に使う列だけを指定した積み上げシートの行（日時は日本時間の正午）
+function snapshot(
+	date: string,
+	videoId: string,
+	publishedAt: string,
+	views: number,
+	likes = 0,
+): VideoRecord {
+	return {
+		fetchedAt: new Date(`${date}T03:00:00Z`),
+		hashtag: "#安野たかひろ",
+		videoId,
+		category: "通常",
+		title: `動画${videoId}`,
+		channelName: "チャンネル",
+		publishedAt: new Date(`${publishedAt}T03:00:00Z`),
+		viewCount: views,
+		likeCount: likes,
+	} as VideoRecord;
+}
+
+describe("buildVideoTimeSeriesRows", () => {
+	it("動画ごとに日付の列へ値を並べ、公開からの日数と1日あたりの増加を計算する", () => {
+		installFakes();
+		const snapshots = [
+			snapshot("2025-06-01", "old", "2025-05-22", 1000),
+			snapshot("2025-06-03", "old", "2025-05-22", 1100),
+			snapshot("2025-06-03", "new", "2025-06-02", 300),
+		];
+
+		const [headers, ...rows] = buildVideoTimeSeriesRows(snapshots, {
+			key: "viewCount",
+			label: "視聴回数",
+		});
+
+		assert.deepEqual(headers, [
+			"動画ID",
+			"動画タイトル",
+			"チャンネル名",
+			"動画カテゴリ",
+			"動画公開日",
+			"公開からの日数",
+			"最新の視聴回数",
+			"公開後の1日あたり",
+			"直近の1日あたり",
+			"2025/06/01",
+			"2025/06/03",
+		]);
+		// 公開日の新しい順。記録がない日付は空欄
+		assert.deepEqual(
+			rows.map((row) => [row[0], ...row.slice(5)]),
+			[
+				["new", 1, 300, 300, "", "", 300],
+				["old", 12, 1100, 91.7, 50, 1000, 1100],
+			],
+		);
+	});
+});
+
+describe("writeVideoTimeSeries", () => {
+	it("スクリプトプロパティで指定した指標ごとにシートを作り直す", () => {
+		const env = installFakes({
+			properties: { VIDEO_TIME_SERIES_METRICS: "視聴回数, いいね数" },
+		});
+		const schema = getVideoSheetSchema();
+		const stack = asSheet(
+			env.spreadsheet.insertSheet("YouTubeハッシュタグ分析_積み上げ"),
+		);
+		ensureSheetSchema(stack, schema);
+		stack.appendRow(
+			toSheetRow(schema, snapshot("2025-06-01", "v1", "2025-05-01", 10, 1)),
+		);
+		const likesSheet = env.spreadsheet.insertSheet("動画推移_いいね数");
+		likesSheet.appendRow([
+			"古い内容",
+			"",
+			"",
+			"",
+			"",
+			"",
+			"",
+			"",
+			"",
+			"",
+			"",
+			"残り",
+		]);
+
+		const results = writeVideoTimeSeries(
+			env.spreadsheet as unknown as GoogleAppsScript.Spreadsheet.Spreadsheet,
+			stack,
+		);
+
+		assert.deepEqual(results, [
+			{ sheetName: "動画推移_視聴回数", videoCount: 1, dateCount: 1 },
+			{ sheetName: "動画推移_いいね数", videoCount: 1, dateCount: 1 },
+		]);
+		const likes = likesSheet.getDataRange().getValues();
+		assert.equal(likes.length, 2);
+		assert.deepEqual(likes[0].slice(6), [
+			"最新のいいね数",
+			"公開後の1日あたり",
+			"直近の1日あたり",
+			"2025/06/01",
+		]);
+		assert.deepEqual(likes[1].slice(6), [1, 0, "", 1]);
+		assert.equal(likesSheet.getFrozenRows(), 1);
+	});
+});
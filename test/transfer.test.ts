@@ -0,0 +1,267 @@
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { recordVideoHashtags } from "../src/links";
+import {
+	type VideoRecord,
+	ensureSheetSchema,
+	getVideoSheetSchema,
+	toSheetRow,
+} from "../src/schema";
+import { writeDailyStatsFromSnapshots } from "../src/stats";
+import {
+	exportSheetsToDrive,
+	formatTransferContent,
+	getTransferDatasets,
+	importSheetsFromDrive,
+} from "../src/transfer";
+import { type FakeEnvironment, type FakeSheet, installFakes } from "./harness";
+
+function asSheet(sheet: FakeSheet): GoogleAppsScript.Spreadsheet.Sheet {
+	return sheet as unknown as GoogleAppsScript.Spreadsheet.Sheet;
+}
+
+function asSpreadsheet(
+	spreadsheet: unknown,
+): GoogleAppsScript.Spreadsheet.Spreadsheet {
+	return spreadsheet as GoogleAppsScript.Spreadsheet.Spreadsheet;
+}
+
+function video(date: string, videoId: string, views: number): VideoRecord {
+	return {
+		fetchedAt: new Date(`${date}T03:00:00Z`),
+		hashtag: "#安野たかひろ",
+		videoId,
+		category: "通常",
+		title: `動画 "${videoId}", テスト`,
+		url: `https://www.youtube.com/watch?v=${videoId}`,
+		channelName: "チャンネル",
+		subscriberCount: 100,
+		publishedAt: new Date("2025-05-01T03:00:00Z"),
+		description: "1行目\n2行目",
+		viewCount: views,
+		likeCount: 1,
+		commentCount: 0,
+		classificationReason: "",
+		durationSeconds: "",
+		statsUpdatedAt: new Date(`${date}T03:00:00Z`),
+		status: "公開中",
+		channelId: "channel-1",
+		tags: "",
+		thumbnailUrl: "",
+		defaultLanguage: "",
+		liveBroadcast: "なし",
+		descriptionHashtags: "",
+		matchType: "ハッシュタグ",
+	};
+}
+
+// 積み上げシートと動画ハッシュタグを用意し、日次統計と急上昇を書き込む
+function seedTrackedData(env: FakeEnvironment): void {
+	const schema = getVideoSheetSchema();
+	const stack = asSheet(
+		env.spreadsheet.insertSheet("YouTubeハッシュタグ分析_積み上げ"),
+	);
+	ensureSheetSchema(stack, schema);
+	for (const row of [
+		video("2025-06-01", "v1", 10),
+		video("2025-06-01", "v2", 5),
+		video("2025-06-02", "v1", 40),
+		video("2025-06-02", "v2", 6),
+	]) {
+		stack.appendRow(toSheetRow(schema, row));
+	}
+	recordVideoHashtags(asSpreadsheet(env.spreadsheet), [
+		{
+			videoId: "v2",
+			hashtag: "#チームみらい",
+			seenAt: new Date("2025-06-02T03:00:00Z"),
+		},
+	]);
+	writeDailyStatsFromSnapshots(asSpreadsheet(env.spreadsheet), stack, [
+		"#安野たかひろ",
+		"#チームみらい",
+	]);
+}
+
+describe("formatTransferContent", () => {
+	it("プロパティ名を列名にし、日時を ISO 8601、日付を yyyy-MM-dd で書き出す", () => {
+		installFakes();
+		const [main, , , dailyStats] = getTransferDatasets();
+
+		const csv = formatTransferContent(
+			main,
+			[video("2025-06-01", "v1", 10)],
+			"csv",
+		);
+		const [header, row] = csv.split("\r\n");
+		assert.ok(header.startsWith("fetchedAt,hashtag,videoId,category,title,"));
+		assert.ok(
+			row.startsWith(
+				'2025-06-01T03:00:00.000Z,#安野たかひろ,v1,通常,"動画 ""v1"", テスト",',
+			),
+		);
+		assert.ok(csv.includes('"1行目\n2行目"'));
+
+		const ndjson = formatTransferContent(
+			dailyStats,
+			[
+				{
+					date: new Date("2025-05-31T15:00:00Z"),
+					hashtag: "#a",
+					videoCount: 1,
+				},
+			],
+			"ndjson",
+		);
+		const record = JSON.parse(ndjson);
+		assert.equal(record.date, "2025-06-01");
+		assert.equal(record.videoCount, 1);
+		assert.equal(record.viewDelta, "");
+	});
+});
+
+describe("exportSheetsToDrive / importSheetsFromDrive", () => {
+	it("書き出したファイルから別のスプレッドシートを同じ内容に復元する", () => {
+		const env = installFakes();
+		seedTrackedData(env);
+
+		const exported = exportSheetsToDrive(asSpreadsheet(env.spreadsheet));
+
+		const folderId =
+			env.propertiesService.scriptProperties.getProperty("EXPORT_FOLDER_ID");
+		assert.ok(folderId);
+		const folder = env.driveApp.getFolderById(folderId);
+		assert.deepEqual(
+			exported.map((result) => result.fileName),
+			[
+				"stack.csv",
+				"stack.ndjson",
+				"video_hashtags.csv",
+				"video_hashtags.ndjson",
+				"daily_stats.csv",
+				"daily_stats.ndjson",
+				"top_movers.csv",
+				"top_movers.ndjson",
+			],
+		);
+		// 再実行しても同じ名前のファイルを上書きする
+		exportSheetsToDrive(asSpreadsheet(env.spreadsheet));
+		assert.equal(folder.files.length, 8);
+
+		const restored = env.spreadsheetApp.add("restored");
+		const imported = importSheetsFromDrive(asSpreadsheet(restored));
+
+		assert.deepEqual(
+			imported.map((result) => [result.fileName, result.rows]),
+			[
+				["stack.ndjson", 4],
+				["video_hashtags.ndjson", 1],
+				["daily_stats.ndjson", 8],
+				["top_movers.ndjson", 2],
+			],
+		);
+		for (const name of [
+			"YouTubeハッシュタグ分析_積み上げ",
+			"動画ハッシュタグ",
+			"日次統計",
+			"急上昇",
+		]) {
+			const original = env.spreadsheet.getSheetByName(name);
+			const copy = restored.getSheetByName(name);
+			assert.ok(original && copy);
+			assert.deepEqual(
+				copy.getDataRange().getValues(),
+				original.getDataRange().getValues(),
+				name,
+			);
+		}
+	});
+
+	it("NDJSON のファイルがない場合は CSV から読み込む", () => {
+		const env = installFakes();
+		seedTrackedData(env);
+		exportSheetsToDrive(asSpreadsheet(env.spreadsheet));
+		const folderId =
+			env.propertiesService.scriptProperties.getProperty("EXPORT_FOLDER_ID");
+		assert.ok(folderId);
+		const folder = env.driveApp.getFolderById(folderId);
+		folder.files.splice(
+			0,
+			folder.files.length,
+			...folder.files.filter((file) => file.getName() === "stack.csv"),
+		);
+
+		const restored = env.spreadsheetApp.add("restored");
+		importSheetsFromDrive(asSpreadsheet(restored));
+
+		const copy = restored.getSheetByName("YouTubeハッシュタグ分析_積み上げ");
+		assert.ok(copy);
+		assert.deepEqual(
+			copy.getDataRange().getValues(),
+			env.spreadsheet
+				.getSheetByName("YouTubeハッシュタグ分析_積み上げ")
+				?.getDataRange()
+				.getValues(),
+		);
+	});
+
+	it("インポート元のフォルダが設定されていない場合はエラーにする", () => {
+		const env = installFakes();
+
+		assert.throws(
+			() => importSheetsFromDrive(asSpreadsheet(env.spreadsheet)),
+			/EXPORT_FOLDER_ID/,
+		);
+	});
+});
+
+describe("cli/aggregate.ts", () => {
+	it("書き出したファイルから updateDailyStats と同じ日次統計と急上昇を計算する", () => {
+		const env = installFakes();
+		seedTrackedData(env);
+		exportSheetsToDrive(asSpreadsheet(env.spreadsheet));
+		const folderId =
+			env.propertiesService.scriptProperties.getProperty("EXPORT_FOLDER_ID");
+		assert.ok(folderId);
+		const folder = env.driveApp.getFolderById(folderId);
+
+		const directory = mkdtempSync(join(tmpdir(), "aggregate-"));
+		try {
+			for (const name of ["stack.csv", "video_hashtags.ndjson"]) {
+				writeFileSync(join(directory, name), folder.fileContent(name) || "");
+			}
+			const output = join(directory, "output");
+
+			const result = spawnSync(
+				process.execPath,
+				[
+					"--import",
+					"tsx",
+					"cli/aggregate.ts",
+					directory,
+					"--hashtags",
+					"#安野たかひろ,#チームみらい",
+					"--output",
+					output,
+				],
+				{ encoding: "utf8" },
+			);
+
+			assert.equal(result.status, 0, result.stderr);
+			assert.equal(
+				readFileSync(join(output, "daily_stats.csv"), "utf8"),
+				folder.fileContent("daily_stats.csv"),
+			);
+			assert.equal(
+				readFileSync(join(output, "top_movers.csv"), "utf8"),
+				folder.fileContent("top_movers.csv"),
+			);
+		} finally {
+			rmSync(directory, { recursive: true, force: true });
+		}
+	});
+});
@@ -0,0 +1,131 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import {
+	getTriggerDrift,
+	getTriggerSchedule,
+	installScheduledTriggers,
+	uninstallScheduledTriggers,
+} from "../src/triggers";
+import { type FakeEnvironment, installFakes } from "./harness";
+
+describe("installScheduledTriggers", () => {
+	let env: FakeEnvironment;
+
+	beforeEach(() => {
+		env = installFakes();
+	});
+
+	it("スケジュールどおりにトリガーを作成する", () => {
+		const drift = installScheduledTriggers();
+
+		assert.equal(env.scriptApp.triggers.length, getTriggerSchedule().length);
+		assert.ok(drift.every((entry) => entry.status === "一致"));
+		const [dailyUpdate] = env.scriptApp.triggersFor("dailyUpdate");
+		assert.deepEqual(dailyUpdate.schedule, {
+			everyDays: 1,
+			atHour: 6,
+			timeZone: "Asia/Tokyo",
+		});
+		const [refresh] = env.scriptApp.triggersFor("refreshVideoStats");
+		assert.deepEqual(refresh.schedule, { everyHours: 1 });
+		const [weeklyReport] = env.scriptApp.triggersFor("generateWeeklyReport");
+		assert.deepEqual(weeklyReport.schedule, {
+			onWeekDay: "MONDAY",
+			atHour: 12,
+			timeZone: "Asia/Tokyo",
+		});
+	});
+
+	it("再実行してもトリガーを作り直さない", () => {
+		installScheduledTriggers();
+		const ids = env.scriptApp.triggers.map((trigger) => trigger.uniqueId);
+
+		installScheduledTriggers();
+
+		assert.deepEqual(
+			env.scriptApp.triggers.map((trigger) => trigger.uniqueId),
+			ids,
+		);
+	});
+
+	it("手動で作成した重複や削除されたトリガーを差分として検出し、修正する", () => {
+		installScheduledTriggers();
+		env.scriptApp.newTrigger("dailyUpdate").timeBased().everyHours(2).create();
+		const [stats] = env.scriptApp.triggersFor("updateDailyStats");
+		env.scriptApp.deleteTrigger(stats);
+		env.scriptApp.newTrigger("oldFunction").timeBased().everyDays(1).create();
+		env.scriptApp.newTrigger("resumeJobs").timeBased().after(60000).create();
+
+		const statuses = getTriggerDrift().map(
+			(entry) => `${entry.functionName}:${entry.status}`,
+		);
+		assert.ok(statuses.includes("dailyUpdate:一致"));
+		assert.ok(statuses.includes("dailyUpdate:重複"));
+		assert.ok(statuses.includes("updateDailyStats:未インストール"));
+		assert.ok(statuses.includes("oldFunction:定義外"));
+		assert.ok(!statuses.some((status) => status.startsWith("resumeJobs")));
+
+		const drift = installScheduledTriggers();
+
+		assert.equal(env.scriptApp.triggersFor("dailyUpdate").length, 1);
+		assert.equal(env.scriptApp.triggersFor("updateDailyStats").length, 1);
+		assert.deepEqual(
+			drift
+				.filter((entry) => entry.status !== "一致")
+				.map((entry) => entry.functionName),
+			["oldFunction"],
+		);
+	});
+
+	it("手動で作成したトリガーは定義と異なるものとして作り直す", () => {
+		env.scriptApp.newTrigger("main").timeBased().everyHours(1).create();
+
+		assert.equal(
+			getTriggerDrift().find((entry) => entry.functionName === "main")?.status,
+			"定義と異なる",
+		);
+
+		installScheduledTriggers();
+		const [main] = env.scriptApp.triggersFor("main");
+		assert.equal(main.schedule.atHour, 5);
+	});
+});
+
+describe("スケジュールから外した関数", () => {
+	it("appendDailySnapshot のトリガーは作成せず、以前に作成したトリガーを削除する", () => {
+		const env = installFakes();
+		env.scriptApp
+			.newTrigger("appendDailySnapshot")
+			.timeBased()
+			.everyDays(1)
+			.atHour(7)
+			.create();
+
+		installScheduledTriggers();
+
+		assert.equal(env.scriptApp.triggersFor("appendDailySnapshot").length, 0);
+		assert.equal(env.scriptApp.triggersFor("dailyUpdate").length, 1);
+		assert.ok(
+			env.logger.includes("スケジュールから外した appendDailySnapshot"),
+		);
+	});
+});
+
+describe("uninstallScheduledTriggers", () => {
+	it("スケジュールにある関数のトリガーだけを削除する", () => {
+		const env = installFakes();
+		installScheduledTriggers();
+		env.scriptApp.newTrigger("resumeJobs").timeBased().after(60000).create();
+
+		const deleted = uninstallScheduledTriggers();
+
+		assert.equal(deleted, getTriggerSchedule().length);
+		assert.deepEqual(
+			env.scriptApp.triggers.map((trigger) => trigger.handlerFunction),
+			["resumeJobs"],
+		);
+		assert.ok(
+			getTriggerDrift().every((entry) => entry.status === "未インストール"),
+		);
+	});
+});
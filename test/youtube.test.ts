@@ -0,0 +1,210 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import { resetChannelCache } from "../src/channels";
+import type { HashtagConfig } from "../src/config";
+import { buildVideoRows, searchVideoPage } from "../src/index";
+import { beginQuotaRun, getRunQuotaSpent, hasQuotaFor } from "../src/quota";
+import {
+	YouTubeApiError,
+	callYouTubeApi,
+	classifyApiError,
+} from "../src/youtube";
+import { type FakeEnvironment, installFakes, loadFixtures } from "./harness";
+
+const CONFIG: HashtagConfig = {
+	hashtag: "#安野たかひろ",
+	enabled: true,
+	lookbackDays: 3650,
+	extraKeywords: [],
+	excludeKeywords: [],
+	owner: "",
+	rowNumber: 2,
+};
+
+// 「#安野たかひろ」の検索結果（全ページ）に含まれる動画
+const VIDEO_IDS = ["video-a1", "video-a2", "video-shared"];
+
+function apiError(reason: string): Error {
+	return new Error(
+		`API call to youtube.search.list failed with error: ${reason}`,
+	);
+}
+
+describe("classifyApiError", () => {
+	it("エラーメッセージから種類を判定する", () => {
+		assert.equal(
+			classifyApiError(
+				apiError(
+					"The request cannot be completed because you have exceeded your quota. (quotaExceeded)",
+				),
+			),
+			"quota",
+		);
+		assert.equal(classifyApiError(apiError("Backend Error")), "transient");
+		assert.equal(
+			classifyApiError(apiError("Service unavailable (503)")),
+			"transient",
+		);
+		assert.equal(classifyApiError(apiError("Login Required")), "auth");
+		assert.equal(
+			classifyApiError(apiError("Invalid value for parameter pageToken")),
+			"badRequest",
+		);
+	});
+});
+
+describe("callYouTubeApi", () => {
+	let env: FakeEnvironment;
+
+	beforeEach(() => {
+		env = installFakes();
+		beginQuotaRun("test");
+	});
+
+	it("一時的なエラーはバックオフしながら再試行する", () => {
+		let calls = 0;
+		const result = callYouTubeApi("videos.list", () => {
+			calls++;
+			if (calls < 3) throw apiError("Backend Error");
+			return "ok";
+		});
+
+		assert.equal(result, "ok");
+		assert.equal(calls, 3);
+		assert.equal(env.utilities.sleeps.length, 2);
+		assert.ok(
+			env.utilities.sleeps[0] >= 1000 && env.utilities.sleeps[0] < 2000,
+		);
+		assert.ok(
+			env.utilities.sleeps[1] >= 2000 && env.utilities.sleeps[1] < 3000,
+		);
+		// 失敗した呼び出しもクォータを消費する
+		assert.equal(getRunQuotaSpent(), 3);
+	});
+
+	it("再試行の上限に達したらレポート付きのエラーを投げる", () => {
+		assert.throws(
+			() =>
+				callYouTubeApi(
+					"videos.list",
+					() => {
+						throw apiError("Backend Error");
+					},
+					{ hashtag: "#a", context: "動画詳細1バッチ目" },
+				),
+			(error) =>
+				error instanceof YouTubeApiError &&
+				error.report.kind === "transient" &&
+				error.report.attempts === 4 &&
+				error.report.hashtag === "#a" &&
+				error.report.context === "動画詳細1バッチ目",
+		);
+	});
+
+	it("認証エラーと不正なリクエストは再試行しない", () => {
+		for (const reason of ["Login Required", "Invalid value"]) {
+			let calls = 0;
+			assert.throws(() =>
+				callYouTubeApi("videos.list", () => {
+					calls++;
+					throw apiError(reason);
+				}),
+			);
+			assert.equal(calls, 1);
+		}
+		assert.equal(env.utilities.sleeps.length, 0);
+	});
+
+	it("クォータ超過の後はこの実行でAPIを呼び出さない", () => {
+		assert.throws(
+			() =>
+				callYouTubeApi("search.list", () => {
+					throw apiError("quotaExceeded");
+				}),
+			(error) =>
+				error instanceof YouTubeApiError && error.report.kind === "quota",
+		);
+		assert.equal(hasQuotaFor(["videos.list"]), false);
+	});
+});
+
+describe("searchVideoPage と buildVideoRows のエラー処理", () => {
+	let env: FakeEnvironment;
+
+	beforeEach(() => {
+		resetChannelCache();
+		env = installFakes({ fixtures: loadFixtures("youtube") });
+		beginQuotaRun("test");
+	});
+
+	it("途中のページで失敗したら検索を打ち切ってエラーを報告する", () => {
+		env.youtube.fail("search.list", "Invalid page token", {
+			pageToken: "page-1",
+		});
+
+		const firstPage = searchVideoPage(
+			CONFIG,
+			"2000-01-01T00:00:00.000Z",
+			undefined,
+			1,
+		);
+		assert.deepEqual(firstPage.videoIds, ["video-a1", "video-a2"]);
+		assert.equal(firstPage.stopped, false);
+
+		const secondPage = searchVideoPage(
+			CONFIG,
+			"2000-01-01T00:00:00.000Z",
+			firstPage.nextPageToken,
+			2,
+		);
+		assert.equal(secondPage.stopped, true);
+		assert.deepEqual(secondPage.videoIds, []);
+		const error = secondPage.error;
+		assert.ok(error);
+		assert.deepEqual(
+			{
+				endpoint: error.endpoint,
+				kind: error.kind,
+				hashtag: error.hashtag,
+				context: error.context,
+			},
+			{
+				endpoint: "search.list",
+				kind: "badRequest",
+				hashtag: "#安野たかひろ",
+				context: "ページ2",
+			},
+		);
+	});
+
+	it("一時的なエラーは再試行して全件を取得する", () => {
+		env.youtube.fail("videos.list", "Backend Error", { times: 2 });
+
+		const { rows, errors } = buildVideoRows(
+			VIDEO_IDS,
+			CONFIG.hashtag,
+			new Date(),
+		);
+
+		assert.equal(rows.length, 3);
+		assert.deepEqual(errors, []);
+		assert.equal(env.youtube.callsTo("videos.list").length, 3);
+	});
+
+	it("チャンネル情報の取得に失敗した場合もエラーを報告して行を返す", () => {
+		env.youtube.fail("channels.list", "Login Required");
+
+		const { rows, errors } = buildVideoRows(
+			VIDEO_IDS,
+			CONFIG.hashtag,
+			new Date(),
+		);
+
+		assert.equal(rows.length, 3);
+		assert.ok(rows.every((row) => row.channelName === "不明"));
+		assert.deepEqual(
+			errors.map((error) => [error.endpoint, error.kind]),
+			[["channels.list", "auth"]],
+		);
+	});
+});